@@ -2,6 +2,12 @@
 import app from './app';
 import config from './src/config';
 import rateLimiter from './src/utils/rateLimiter';
+import eventIndexer from './src/blockchain/eventIndexer';
+import issuanceWorker from './src/jobs/issuanceWorker';
+import transactionMonitor from './src/jobs/transactionMonitor';
+import pinHealthMonitor from './src/jobs/pinHealthMonitor';
+import { backfillInstitutionKeys } from './src/keys/keyManager';
+import { backfillVerifierCopies } from './src/ipfs/documentEncryption';
 
 const PORT = config.server.port || 5000;
 
@@ -12,4 +18,36 @@ app.listen(PORT, () => {
   console.log('Starting rate limiter monitoring...');
   rateLimiter.startMonitoring(30000); // Log stats every 30 seconds
 
+  if (config.issuanceJobs.enabled) {
+    issuanceWorker.start();
+  }
+
+  if (config.indexer.enabled) {
+    eventIndexer.start();
+  }
+
+  if (config.transactions.monitorEnabled) {
+    transactionMonitor.start();
+  }
+
+  if (config.pinning.healthCheckEnabled) {
+    pinHealthMonitor.start();
+  }
+
+  // Institutions registered before signing keys were managed here get one
+  backfillInstitutionKeys()
+    .then(created => created.forEach(({ institutionId, address }) => {
+      console.log(`Provisioned signing key ${address} for institution ${institutionId}; register it in InstitutionRegistry`);
+    }))
+    .catch(error => console.error('Failed to backfill institution keys:', error));
+
+  // Documents sealed before verifiers had their own copy stop being opened with the student's key
+  backfillVerifierCopies()
+    .then(({ updated, unopenable }) => {
+      if (updated || unopenable) {
+        console.log(`Added verifier copies to ${updated} documents; ${unopenable} could not be opened`);
+      }
+    })
+    .catch(error => console.error('Failed to backfill verifier copies:', error));
+
 });
\ No newline at end of file
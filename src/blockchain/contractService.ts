@@ -4,6 +4,11 @@ import config from '../config';
 import CredentialRegistryABI from '../contracts/abi/CredentialRegistry.json';
 import InstitutionRegistryABI from '../contracts/abi/InstitutionRegistry.json';
 import { rateLimitedWeb3Call } from '../utils/rateLimiter';
+import { getInstitutionSigningKey } from '../keys/keyManager';
+import { relayInstitutionCall } from './relayer';
+import { getNetwork, getDefaultNetwork, getCredentialRegistryAddress, RegistryLocation } from './networks';
+import { getNetworkProvider } from './providers';
+import { sendManagedTransaction, waitForManagedTransaction, TransactionContext } from './nonceManager';
 
 // Define interface for the contract functions we'll use
 interface CredentialRegistry extends ethers.Contract {
@@ -16,12 +21,96 @@ interface CredentialRegistry extends ethers.Contract {
   ): Promise<ethers.ContractTransaction>;
   
   revokeCredential(
+    credentialId: string,
+    reason: number
+  ): Promise<ethers.ContractTransaction>;
+
+  suspendCredential(
+    credentialId: string,
+    reason: number
+  ): Promise<ethers.ContractTransaction>;
+
+  reinstateCredential(
     credentialId: string
   ): Promise<ethers.ContractTransaction>;
+
+  getCredentialStatus(
+    credentialId: string
+  ): Promise<[number, number, ethers.BigNumber]>;
   
   verifyCredential(
     credentialId: string
   ): Promise<[boolean, string, string, string, ethers.BigNumber, boolean]>;
+
+  getCredentialHash(
+    credentialId: string
+  ): Promise<string>;
+
+  anchorBatch(
+    batchId: string,
+    merkleRoot: string,
+    credentialCount: number
+  ): Promise<ethers.ContractTransaction>;
+
+  revokeBatchCredential(
+    batchId: string,
+    credentialId: string,
+    reason: number
+  ): Promise<ethers.ContractTransaction>;
+
+  suspendBatchCredential(
+    batchId: string,
+    credentialId: string,
+    reason: number
+  ): Promise<ethers.ContractTransaction>;
+
+  reinstateBatchCredential(
+    batchId: string,
+    credentialId: string
+  ): Promise<ethers.ContractTransaction>;
+
+  getBatchCredentialStatus(
+    batchId: string,
+    credentialId: string
+  ): Promise<[number, number, ethers.BigNumber]>;
+
+  verifyBatchCredential(
+    batchId: string,
+    credentialId: string,
+    credentialHash: string,
+    merkleProof: string[]
+  ): Promise<[boolean, string, string, ethers.BigNumber, boolean]>;
+}
+
+// Reason codes stored on-chain with revocations and suspensions
+export const REVOCATION_REASONS: Record<string, number> = {
+  unspecified: 0,
+  issued_in_error: 1,
+  fraud: 2,
+  superseded: 3,
+  withdrawn: 4
+};
+
+export const SUSPENSION_REASONS: Record<string, number> = {
+  unspecified: 0,
+  disciplinary_hold: 1,
+  unpaid_fees: 2,
+  under_review: 3
+};
+
+// Status codes returned by getCredentialStatus, indexed by value
+const CREDENTIAL_STATUSES = ['active', 'revoked', 'suspended', 'expired'];
+
+// Name of a reason code, for API responses
+export const getReasonName = (reasons: Record<string, number>, code: number) => {
+  return Object.keys(reasons).find(name => reasons[name] === code) || 'unspecified';
+};
+
+// Merkle membership data for credentials issued in a batch
+export interface BatchMembership {
+  batchId: string;
+  credentialHash: string;
+  merkleProof: string[];
 }
 
 interface InstitutionRegistry extends ethers.Contract {
@@ -38,28 +127,22 @@ interface InstitutionRegistry extends ethers.Contract {
   ): Promise<boolean>;
 }
 
-// Create provider based on environment
-const getProvider = () => {
-  if (config.blockchain.network === 'local') {
-    return new ethers.providers.JsonRpcProvider(config.blockchain.rpcUrl);
-  } else {
-    return new ethers.providers.InfuraProvider(
-      config.blockchain.network, 
-      config.blockchain.infuraKey
-    );
-  }
-};
+// Provider for a network, failing over between its RPC endpoints
+const getProvider = (chainId?: number) => getNetworkProvider(chainId);
 
-// Get contract instances
-export const getContracts = (walletOrProvider: ethers.Wallet | ethers.providers.Provider) => {
+// Get contract instances on the chain and registry version of a credential
+export const getContracts = (
+  walletOrProvider: ethers.Wallet | ethers.providers.Provider,
+  location: RegistryLocation = {}
+) => {
   const institutionRegistry = new ethers.Contract(
-    config.blockchain.contractAddresses.institutionRegistry,
+    getNetwork(location.chainId).contractAddresses.institutionRegistry,
     InstitutionRegistryABI.abi,
     walletOrProvider
   ) as InstitutionRegistry;
   
   const credentialRegistry = new ethers.Contract(
-    config.blockchain.contractAddresses.credentialRegistry,
+    getCredentialRegistryAddress(location),
     CredentialRegistryABI.abi,
     walletOrProvider
   ) as CredentialRegistry;
@@ -71,46 +154,69 @@ export const getContracts = (walletOrProvider: ethers.Wallet | ethers.providers.
 };
 
 // Get read-only contract instances
-export const getReadContracts = () => {
-  const provider = getProvider();
-  return getContracts(provider);
+export const getReadContracts = (location: RegistryLocation = {}) => {
+  const provider = getProvider(location.chainId);
+  return getContracts(provider, location);
 };
 
 // Get wallet with private key for signing transactions
-export const getWallet = (privateKey: string) => {
-  const provider = getProvider();
+export const getWallet = (privateKey: string, chainId?: number) => {
+  const provider = getProvider(chainId);
   return new ethers.Wallet(privateKey, provider);
 };
 
+// Get the signing wallet of an institution from the key manager: its active key, or the one behind `address`
+export const getInstitutionWallet = async (institutionId: string, chainId?: number, address?: string) => {
+  const privateKey = await getInstitutionSigningKey(institutionId, address);
+  return getWallet(privateKey, chainId);
+};
+
+// Whether gasless relaying can be used on a network; the forwarder is only deployed on the default one
+export const isRelayerAvailable = (chainId?: number) => {
+  return config.relayer.enabled && getNetwork(chainId) === getDefaultNetwork();
+};
+
+// Send a registry call as an institution, through the gasless relayer when enabled
+const sendInstitutionCall = async (
+  context: TransactionContext,
+  populate: (credentialRegistry: CredentialRegistry) => Promise<ethers.PopulatedTransaction>,
+  chainId?: number
+) => {
+  const wallet = await getInstitutionWallet(context.institutionId, chainId, context.signerAddress);
+  const { credentialRegistry } = getContracts(wallet, { chainId });
+  const populated = await populate(credentialRegistry);
+
+  if (isRelayerAvailable(chainId)) {
+    return relayInstitutionCall(context, wallet, populated.data);
+  }
+
+  return sendManagedTransaction(wallet, populated, context);
+};
+
 // Issue credential on the blockchain
 export const issueCredential = async (
-  privateKey: string,
+  institutionId: string,
   credentialId: string,
   recipientId: string,
   credentialHash: string,
   ipfsHash: string,
-  expiryDate?: number
+  expiryDate?: number,
+  chainId?: number
 ) => {
   try {
-    const wallet = getWallet(privateKey);
-    const { credentialRegistry } = getContracts(wallet);
-
-        // Wrap transaction with rate limiter
-    const tx = await rateLimitedWeb3Call(
-      'eth_sendRawTransaction',
-      () => credentialRegistry.issueCredential(
+    const tx = await sendInstitutionCall(
+      { institutionId, action: 'issue', credentialId },
+      credentialRegistry => credentialRegistry.populateTransaction.issueCredential(
         credentialId,
         recipientId,
         credentialHash,
         ipfsHash,
         expiryDate || 0
-      )
-    ) as ethers.ContractTransaction;
+      ),
+      chainId
+    );
 
-      const receipt = await rateLimitedWeb3Call(
-      'eth_getTransactionReceipt',
-      () => tx.wait()
-    ) as ethers.ContractReceipt;
+    const receipt = await waitForManagedTransaction(tx);
     
     return {
       success: true,
@@ -121,29 +227,134 @@ export const issueCredential = async (
     console.error('Error issuing credential on blockchain:', error);
     return {
       success: false,
-      error: error.message
+      error: error.message,
+      code: error.code,
+      retryAt: error.retryAt as Date | undefined
+    };
+  }
+};
+
+// Submit a credential issuance without waiting for it to be mined
+export const submitCredential = async (
+  institutionId: string,
+  credentialId: string,
+  recipientId: string,
+  credentialHash: string,
+  ipfsHash: string,
+  expiryDate?: number,
+  chainId?: number
+) => {
+  try {
+    const tx = await sendInstitutionCall(
+      { institutionId, action: 'issue', credentialId },
+      credentialRegistry => credentialRegistry.populateTransaction.issueCredential(
+        credentialId,
+        recipientId,
+        credentialHash,
+        ipfsHash,
+        expiryDate || 0
+      ),
+      chainId
+    );
+
+    return {
+      success: true,
+      txHash: tx.hash
+    };
+  } catch (error) {
+    console.error('Error submitting credential to blockchain:', error);
+    return {
+      success: false,
+      error: error.message,
+      code: error.code,
+      // Set when the gas policy deferred the send
+      retryAt: error.retryAt as Date | undefined
+    };
+  }
+};
+
+// Wait for a submitted transaction to be mined
+export const waitForTransaction = async (txHash: string, timeoutMs?: number, chainId?: number) => {
+  try {
+    const provider = getProvider(chainId);
+
+    const receipt = await rateLimitedWeb3Call(
+      'eth_getTransactionReceipt',
+      () => provider.waitForTransaction(txHash, 1, timeoutMs)
+    ) as ethers.providers.TransactionReceipt;
+
+    return {
+      success: receipt.status === 1,
+      mined: true,
+      txHash: receipt.transactionHash,
+      gasUsed: receipt.gasUsed.toString(),
+      error: receipt.status === 1 ? undefined : 'Transaction reverted'
+    };
+  } catch (error) {
+    // ethers rejects with code TIMEOUT when the receipt is not available in time
+    return {
+      success: false,
+      mined: false,
+      txHash,
+      error: error.message,
+      code: error.code
+    };
+  }
+};
+
+// Anchor the Merkle root of a credential batch on the blockchain
+export const anchorBatch = async (
+  institutionId: string,
+  batchId: string,
+  merkleRoot: string,
+  credentialCount: number,
+  chainId?: number
+) => {
+  try {
+    const tx = await sendInstitutionCall(
+      { institutionId, action: 'anchor-batch', batchId },
+      credentialRegistry => credentialRegistry.populateTransaction.anchorBatch(batchId, merkleRoot, credentialCount),
+      chainId
+    );
+
+    const receipt = await waitForManagedTransaction(tx);
+
+    return {
+      success: true,
+      txHash: receipt.transactionHash,
+      gasUsed: receipt.gasUsed.toString()
+    };
+  } catch (error) {
+    console.error('Error anchoring credential batch on blockchain:', error);
+    return {
+      success: false,
+      error: error.message,
+      code: error.code,
+      retryAt: error.retryAt as Date | undefined
     };
   }
 };
 
 // Modify revokeCredential function
 export const revokeCredential = async (
-  privateKey: string,
-  credentialId: string
+  institutionId: string,
+  credentialId: string,
+  batchId?: string,
+  reasonCode = REVOCATION_REASONS.unspecified,
+  chainId?: number,
+  signerAddress?: string
 ) => {
   try {
-    const wallet = getWallet(privateKey);
-    const { credentialRegistry } = getContracts(wallet);
-    
-    const tx = await rateLimitedWeb3Call(
-      'eth_sendRawTransaction',
-      () => credentialRegistry.revokeCredential(credentialId)
-    ) as ethers.ContractTransaction;
+    // Batch credentials are revoked against their anchored batch
+    const tx = await sendInstitutionCall(
+      { institutionId, action: 'revoke', credentialId, batchId, signerAddress },
+      credentialRegistry => batchId
+        ? credentialRegistry.populateTransaction.revokeBatchCredential(batchId, credentialId, reasonCode)
+        : credentialRegistry.populateTransaction.revokeCredential(credentialId, reasonCode),
+      chainId
+    );
     
-    const receipt = await rateLimitedWeb3Call(
-      'eth_getTransactionReceipt',
-      () => tx.wait()
-    ) as ethers.ContractReceipt;
+    const receipt = await waitForManagedTransaction(tx);
     
     return {
       success: true,
@@ -151,41 +362,427 @@ export const revokeCredential = async (
     };
   } catch (error) {
     console.error('Error revoking credential:', error);
+    return { success: false, error: error.message, code: error.code, retryAt: error.retryAt as Date | undefined };
+  }
+};
+
+// Suspend a credential on the blockchain; reversible with reinstateCredential
+export const suspendCredential = async (
+  institutionId: string,
+  credentialId: string,
+  batchId?: string,
+  reasonCode = SUSPENSION_REASONS.unspecified,
+  chainId?: number,
+  signerAddress?: string
+) => {
+  try {
+    const tx = await sendInstitutionCall(
+      { institutionId, action: 'suspend', credentialId, batchId, signerAddress },
+      credentialRegistry => batchId
+        ? credentialRegistry.populateTransaction.suspendBatchCredential(batchId, credentialId, reasonCode)
+        : credentialRegistry.populateTransaction.suspendCredential(credentialId, reasonCode),
+      chainId
+    );
+
+    const receipt = await waitForManagedTransaction(tx);
+
+    return {
+      success: true,
+      txHash: receipt.transactionHash
+    };
+  } catch (error) {
+    console.error('Error suspending credential:', error);
+    return { success: false, error: error.message, code: error.code, retryAt: error.retryAt as Date | undefined };
+  }
+};
+
+// Lift the suspension of a credential on the blockchain
+export const reinstateCredential = async (
+  institutionId: string,
+  credentialId: string,
+  batchId?: string,
+  chainId?: number,
+  signerAddress?: string
+) => {
+  try {
+    const tx = await sendInstitutionCall(
+      { institutionId, action: 'reinstate', credentialId, batchId, signerAddress },
+      credentialRegistry => batchId
+        ? credentialRegistry.populateTransaction.reinstateBatchCredential(batchId, credentialId)
+        : credentialRegistry.populateTransaction.reinstateCredential(credentialId),
+      chainId
+    );
+
+    const receipt = await waitForManagedTransaction(tx);
+
+    return {
+      success: true,
+      txHash: receipt.transactionHash
+    };
+  } catch (error) {
+    console.error('Error reinstating credential:', error);
+    return { success: false, error: error.message, code: error.code, retryAt: error.retryAt as Date | undefined };
+  }
+};
+
+// Unsigned transaction returned to institutions that sign in their own wallet
+export interface UnsignedTransaction {
+  from: string;
+  to: string;
+  data: string;
+  nonce: number;
+  chainId: number;
+  gasLimit: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  type: number;
+}
+
+// Fill in nonce, gas and fees for a call so a wallet can sign it as-is
+const buildUnsignedTransaction = async (
+  from: string,
+  populated: ethers.PopulatedTransaction,
+  chainId?: number
+): Promise<UnsignedTransaction> => {
+  const provider = getProvider(chainId);
+
+  const [nonce, network, gasLimit, feeData] = await Promise.all([
+    rateLimitedWeb3Call('eth_getTransactionCount', () => provider.getTransactionCount(from, 'pending')),
+    provider.getNetwork(),
+    rateLimitedWeb3Call('eth_estimateGas', () => provider.estimateGas({ ...populated, from })),
+    rateLimitedWeb3Call('eth_gasPrice', () => provider.getFeeData())
+  ]) as [number, ethers.providers.Network, ethers.BigNumber, ethers.providers.FeeData];
+
+  const tx: UnsignedTransaction = {
+    from: ethers.utils.getAddress(from),
+    to: populated.to,
+    data: populated.data,
+    nonce,
+    chainId: network.chainId,
+    gasLimit: gasLimit.mul(120).div(100).toHexString(), // 20% headroom
+    type: feeData.maxFeePerGas ? 2 : 0
+  };
+
+  if (feeData.maxFeePerGas) {
+    tx.maxFeePerGas = feeData.maxFeePerGas.toHexString();
+    tx.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas.toHexString();
+  } else {
+    tx.gasPrice = feeData.gasPrice.toHexString();
+  }
+
+  return tx;
+};
+
+// Build an unsigned issueCredential transaction for a wallet to sign
+export const buildIssueCredentialTransaction = async (
+  from: string,
+  credentialId: string,
+  recipientId: string,
+  credentialHash: string,
+  ipfsHash: string,
+  expiryDate?: number,
+  chainId?: number
+) => {
+  const { credentialRegistry } = getReadContracts({ chainId });
+
+  const populated = await credentialRegistry.populateTransaction.issueCredential(
+    credentialId,
+    recipientId,
+    credentialHash,
+    ipfsHash,
+    expiryDate || 0
+  );
+
+  return buildUnsignedTransaction(from, populated, chainId);
+};
+
+// Target and calldata of a revocation, used to check wallet-signed transactions
+export const getRevokeCredentialCall = (
+  credentialId: string,
+  batchId?: string,
+  reasonCode = REVOCATION_REASONS.unspecified,
+  chainId?: number
+) => {
+  const { credentialRegistry } = getReadContracts({ chainId });
+
+  return {
+    to: credentialRegistry.address,
+    data: batchId
+      ? credentialRegistry.interface.encodeFunctionData('revokeBatchCredential', [batchId, credentialId, reasonCode])
+      : credentialRegistry.interface.encodeFunctionData('revokeCredential', [credentialId, reasonCode])
+  };
+};
+
+// Build an unsigned revocation transaction for a wallet to sign
+export const buildRevokeCredentialTransaction = async (
+  from: string,
+  credentialId: string,
+  batchId?: string,
+  reasonCode = REVOCATION_REASONS.unspecified,
+  chainId?: number
+) => {
+  return buildUnsignedTransaction(from, getRevokeCredentialCall(credentialId, batchId, reasonCode, chainId), chainId);
+};
+
+// Target and calldata of a suspension, used to check wallet-signed transactions
+export const getSuspendCredentialCall = (
+  credentialId: string,
+  batchId?: string,
+  reasonCode = SUSPENSION_REASONS.unspecified,
+  chainId?: number
+) => {
+  const { credentialRegistry } = getReadContracts({ chainId });
+
+  return {
+    to: credentialRegistry.address,
+    data: batchId
+      ? credentialRegistry.interface.encodeFunctionData('suspendBatchCredential', [batchId, credentialId, reasonCode])
+      : credentialRegistry.interface.encodeFunctionData('suspendCredential', [credentialId, reasonCode])
+  };
+};
+
+// Build an unsigned suspension transaction for a wallet to sign
+export const buildSuspendCredentialTransaction = async (
+  from: string,
+  credentialId: string,
+  batchId?: string,
+  reasonCode = SUSPENSION_REASONS.unspecified,
+  chainId?: number
+) => {
+  return buildUnsignedTransaction(from, getSuspendCredentialCall(credentialId, batchId, reasonCode, chainId), chainId);
+};
+
+// Target and calldata of a reinstatement, used to check wallet-signed transactions
+export const getReinstateCredentialCall = (
+  credentialId: string,
+  batchId?: string,
+  chainId?: number
+) => {
+  const { credentialRegistry } = getReadContracts({ chainId });
+
+  return {
+    to: credentialRegistry.address,
+    data: batchId
+      ? credentialRegistry.interface.encodeFunctionData('reinstateBatchCredential', [batchId, credentialId])
+      : credentialRegistry.interface.encodeFunctionData('reinstateCredential', [credentialId])
+  };
+};
+
+// Build an unsigned reinstatement transaction for a wallet to sign
+export const buildReinstateCredentialTransaction = async (
+  from: string,
+  credentialId: string,
+  batchId?: string,
+  chainId?: number
+) => {
+  return buildUnsignedTransaction(from, getReinstateCredentialCall(credentialId, batchId, chainId), chainId);
+};
+
+// Check a wallet-signed transaction matches what was prepared, then broadcast it
+export const broadcastSignedTransaction = async (
+  signedTransaction: string,
+  expected: { from: string; to: string; data: string },
+  chainId?: number
+) => {
+  try {
+    const parsed = ethers.utils.parseTransaction(signedTransaction);
+
+    if (!parsed.from || parsed.from.toLowerCase() !== expected.from.toLowerCase()) {
+      return { success: false, error: 'Transaction was not signed by the institution wallet' };
+    }
+
+    if (!parsed.to || parsed.to.toLowerCase() !== expected.to.toLowerCase() || parsed.data !== expected.data) {
+      return { success: false, error: 'Signed transaction does not match the prepared transaction' };
+    }
+
+    // The credential's registry lives on one chain; don't broadcast a transaction meant for another
+    if (parsed.chainId !== getNetwork(chainId).chainId) {
+      return { success: false, error: 'Transaction was signed for a different chain' };
+    }
+
+    const provider = getProvider(chainId);
+    const tx = await rateLimitedWeb3Call(
+      'eth_sendRawTransaction',
+      () => provider.sendTransaction(signedTransaction)
+    ) as ethers.providers.TransactionResponse;
+
+    return {
+      success: true,
+      txHash: tx.hash
+    };
+  } catch (error) {
+    console.error('Error broadcasting signed transaction:', error);
     return { success: false, error: error.message };
   }
 };
 
-// Verify credential on the blockchain
-export const verifyCredential = async (credentialId: string) => {
+// On-chain status returned by verifyCredential
+export interface OnChainCredentialStatus {
+  isValid: boolean;
+  issuer: string;
+  recipientId: string | null;
+  ipfsHash: string | null;
+  issueDate: Date;
+  isRevoked: boolean;
+  status: string;
+  reasonCode: number;
+  reason: string | null;
+  statusDate: Date | null;
+  batchId?: string;
+  merkleRoot?: string;
+}
+
+// Decode a getCredentialStatus/getBatchCredentialStatus result
+const decodeCredentialStatus = ([statusCode, reasonCode, statusDate]: [number, number, ethers.BigNumber]) => {
+  const status = CREDENTIAL_STATUSES[statusCode] || 'active';
+
+  let reason = null;
+  if (status === 'revoked') {
+    reason = getReasonName(REVOCATION_REASONS, reasonCode);
+  } else if (status === 'suspended') {
+    reason = getReasonName(SUSPENSION_REASONS, reasonCode);
+  }
+
+  return {
+    status,
+    reasonCode,
+    reason,
+    statusDate: statusDate.isZero() ? null : new Date(statusDate.toNumber() * 1000)
+  };
+};
+
+// Status getters revert on registries that predate them; transport errors must still fail the read
+const ignoreMissingStatusFunction = (error: any): null => {
+  if (error.code === 'CALL_EXCEPTION') {
+    return null;
+  }
+  throw error;
+};
+
+// Registries deployed before status codes only expose the revoked flag
+const deriveLegacyStatus = (isValid: boolean, isRevoked: boolean) => ({
+  status: isRevoked ? 'revoked' : isValid ? 'active' : 'expired',
+  reasonCode: 0,
+  reason: isRevoked ? 'unspecified' : null,
+  statusDate: null
+});
+
+// Verify credential on the blockchain, in the registry of the chain and contract version it was anchored in
+export const verifyCredential = async (
+  credentialId: string,
+  batch?: BatchMembership,
+  location: RegistryLocation = {}
+): Promise<{ success: boolean; data?: OnChainCredentialStatus; error?: string; code?: string }> => {
   try {
-    const { credentialRegistry } = getReadContracts();
-    
-    // Wrap read call with rate limiter
-    const result = await rateLimitedWeb3Call(
+    const provider = getProvider(location.chainId);
+    const read = (endpoint: ethers.providers.Provider) => {
+      const { credentialRegistry } = getContracts(endpoint, location);
+      return batch
+        ? verifyBatchMembership(credentialRegistry, credentialId, batch)
+        : readCredentialStatus(credentialRegistry, credentialId);
+    };
+
+    // In quorum mode one lagging or dishonest node cannot decide the result on its own
+    const data = config.rpc.verificationQuorum > 1
+      ? await provider.quorumCall(config.rpc.verificationQuorum, read)
+      : await read(provider);
+
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error verifying credential:', error);
+    return { success: false, error: error.message, code: error.code };
+  }
+};
+
+// Read a standalone credential's validity and status from the registry
+const readCredentialStatus = async (
+  credentialRegistry: CredentialRegistry,
+  credentialId: string
+): Promise<OnChainCredentialStatus> => {
+  // Wrap read call with rate limiter
+  const [result, statusResult] = await Promise.all([
+    rateLimitedWeb3Call(
       'eth_call',
       () => credentialRegistry.verifyCredential(credentialId)
-    ) as [boolean, string, string, string, ethers.BigNumber, boolean];
-    
-    const [isValid, issuer, recipientId, ipfsHash, issueDate, isRevoked] = result;
-    
+    ),
+    rateLimitedWeb3Call(
+      'eth_call',
+      () => credentialRegistry.getCredentialStatus(credentialId)
+    ).catch(ignoreMissingStatusFunction)
+  ]) as [[boolean, string, string, string, ethers.BigNumber, boolean], [number, number, ethers.BigNumber] | null];
+
+  const [isValid, issuer, recipientId, ipfsHash, issueDate, isRevoked] = result;
+
+  return {
+    isValid,
+    issuer,
+    recipientId,
+    ipfsHash,
+    issueDate: new Date(issueDate.toNumber() * 1000),
+    isRevoked,
+    ...(statusResult ? decodeCredentialStatus(statusResult) : deriveLegacyStatus(isValid, isRevoked))
+  };
+};
+
+// Verify a batch credential's Merkle proof against the anchored root
+const verifyBatchMembership = async (
+  credentialRegistry: CredentialRegistry,
+  credentialId: string,
+  batch: BatchMembership
+): Promise<OnChainCredentialStatus> => {
+  const [result, statusResult] = await Promise.all([
+    rateLimitedWeb3Call(
+      'eth_call',
+      () => credentialRegistry.verifyBatchCredential(
+        batch.batchId,
+        credentialId,
+        batch.credentialHash,
+        batch.merkleProof
+      )
+    ),
+    rateLimitedWeb3Call(
+      'eth_call',
+      () => credentialRegistry.getBatchCredentialStatus(batch.batchId, credentialId)
+    ).catch(ignoreMissingStatusFunction)
+  ]) as [[boolean, string, string, ethers.BigNumber, boolean], [number, number, ethers.BigNumber] | null];
+
+  const [isValid, issuer, merkleRoot, issueDate, isRevoked] = result;
+
+  // Recipient and IPFS hash are committed to by the leaf, not stored on-chain
+  return {
+    isValid,
+    issuer,
+    recipientId: null,
+    ipfsHash: null,
+    issueDate: new Date(issueDate.toNumber() * 1000),
+    isRevoked,
+    ...(statusResult ? decodeCredentialStatus(statusResult) : deriveLegacyStatus(isValid, isRevoked)),
+    batchId: batch.batchId,
+    merkleRoot
+  };
+};
+
+// Get the credential hash anchored on the blockchain
+export const getCredentialHash = async (credentialId: string, location: RegistryLocation = {}) => {
+  try {
+    const { credentialRegistry } = getReadContracts(location);
+
+    const credentialHash = await rateLimitedWeb3Call(
+      'eth_call',
+      () => credentialRegistry.getCredentialHash(credentialId)
+    ) as string;
+
     return {
       success: true,
-      data: {
-        isValid,
-        issuer,
-        recipientId,
-        ipfsHash,
-        issueDate: new Date(issueDate.toNumber() * 1000),
-        isRevoked
-      }
+      credentialHash
     };
   } catch (error) {
-    console.error('Error verifying credential:', error);
+    console.error('Error getting credential hash:', error);
     return { success: false, error: error.message };
   }
 };
 
-
 // Register institution on the blockchain
 export const registerInstitution = async (
   adminPrivateKey: string,
@@ -0,0 +1,350 @@
+// src/blockchain/eventIndexer.ts
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import config from '../config';
+import {
+  getReadContracts,
+  getReasonName,
+  REVOCATION_REASONS,
+  SUSPENSION_REASONS
+} from './contractService';
+import { rateLimitedWeb3Call } from '../utils/rateLimiter';
+import { IndexerCursor } from '../models/IndexerCursor';
+import { Credential } from '../models/Credential';
+import { Institution } from '../models/Institution';
+
+const CURSOR_NAME = 'contract-events';
+
+/**
+ * Follows CredentialRegistry and InstitutionRegistry events and reconciles
+ * MongoDB with them.
+ *
+ * Only blocks at least `confirmations` deep are processed, and the hash of the
+ * last processed block is stored with the cursor. If that block is no longer
+ * canonical, the cursor is rewound by the confirmation depth and the range is
+ * replayed; every handler is idempotent so replays are safe.
+ *
+ * Only the default network's registries are followed; credentials anchored on
+ * other configured networks are read from their own chain at verification time.
+ */
+class ContractEventIndexer extends EventEmitter {
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  polling: boolean;
+
+  constructor() {
+    super();
+    this.timer = null;
+    this.running = false;
+    this.polling = false;
+  }
+
+  /**
+   * Start polling for new events
+   */
+  start(intervalMs = config.indexer.pollIntervalMs) {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    console.log(`Starting contract event indexer from block ${config.indexer.startBlock}...`);
+
+    this.poll();
+    this.timer = setInterval(() => this.poll(), intervalMs);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.running = false;
+  }
+
+  /**
+   * Run one sync pass, skipping if the previous one is still in progress
+   */
+  async poll() {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      await this.sync();
+    } catch (error) {
+      console.error('Event indexer sync failed:', error);
+      this.emit('syncError', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Process every confirmed block range since the stored cursor
+   */
+  async sync() {
+    const { credentialRegistry, institutionRegistry } = getReadContracts();
+    const provider = credentialRegistry.provider;
+
+    const cursor = await this.loadCursor();
+    await this.handleReorg(provider, cursor);
+
+    const head = await rateLimitedWeb3Call(
+      'eth_blockNumber',
+      () => provider.getBlockNumber()
+    ) as number;
+    const safeHead = head - config.indexer.confirmations;
+
+    while (cursor.lastProcessedBlock < safeHead) {
+      const fromBlock = cursor.lastProcessedBlock + 1;
+      const toBlock = Math.min(safeHead, fromBlock + config.indexer.maxBlockRange - 1);
+
+      const [credentialEvents, institutionEvents] = await Promise.all([
+        this.queryEvents(credentialRegistry, fromBlock, toBlock),
+        this.queryEvents(institutionRegistry, fromBlock, toBlock)
+      ]);
+
+      // Apply in chain order
+      const events = [...credentialEvents, ...institutionEvents].sort((a, b) =>
+        a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+      );
+
+      for (const event of events) {
+        await this.handleEvent(event);
+      }
+
+      const block = await rateLimitedWeb3Call(
+        'eth_getBlockByNumber',
+        () => provider.getBlock(toBlock)
+      ) as ethers.providers.Block;
+
+      cursor.lastProcessedBlock = toBlock;
+      cursor.lastProcessedBlockHash = block.hash;
+      await cursor.save();
+
+      this.emit('synced', { fromBlock, toBlock, events: events.length });
+    }
+  }
+
+  /**
+   * Load the persisted cursor, creating it at the configured start block
+   */
+  async loadCursor() {
+    let cursor = await IndexerCursor.findOne({ name: CURSOR_NAME });
+
+    if (!cursor) {
+      cursor = new IndexerCursor({
+        name: CURSOR_NAME,
+        lastProcessedBlock: config.indexer.startBlock - 1
+      });
+      await cursor.save();
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Rewind the cursor if the last processed block was reorganized away
+   */
+  async handleReorg(provider: ethers.providers.Provider, cursor) {
+    if (!cursor.lastProcessedBlockHash) {
+      return;
+    }
+
+    const block = await rateLimitedWeb3Call(
+      'eth_getBlockByNumber',
+      () => provider.getBlock(cursor.lastProcessedBlock)
+    ) as ethers.providers.Block;
+
+    if (block && block.hash === cursor.lastProcessedBlockHash) {
+      return;
+    }
+
+    const rewindTo = Math.max(
+      config.indexer.startBlock - 1,
+      cursor.lastProcessedBlock - config.indexer.confirmations
+    );
+
+    console.warn(
+      `Reorg detected at block ${cursor.lastProcessedBlock}, rewinding indexer to block ${rewindTo}`
+    );
+    this.emit('reorg', { block: cursor.lastProcessedBlock, rewindTo });
+
+    cursor.lastProcessedBlock = rewindTo;
+    cursor.lastProcessedBlockHash = undefined;
+    await cursor.save();
+  }
+
+  /**
+   * Fetch every event emitted by a contract in a block range
+   */
+  async queryEvents(contract: ethers.Contract, fromBlock: number, toBlock: number) {
+    return rateLimitedWeb3Call(
+      'eth_getLogs',
+      () => contract.queryFilter('*', fromBlock, toBlock)
+    ) as Promise<ethers.Event[]>;
+  }
+
+  /**
+   * Reconcile MongoDB with a single contract event
+   */
+  async handleEvent(event: ethers.Event) {
+    switch (event.event) {
+      case 'CredentialIssued':
+        await this.onCredentialIssued(event);
+        break;
+      case 'BatchAnchored':
+        await this.onBatchAnchored(event);
+        break;
+      case 'CredentialRevoked':
+      case 'BatchCredentialRevoked':
+        await this.onCredentialRevoked(event.args.credentialId, event.args.reason, event.args.revokedDate);
+        break;
+      case 'CredentialSuspended':
+      case 'BatchCredentialSuspended':
+        await this.onCredentialSuspended(event.args.credentialId, event.args.reason, event.args.suspendedDate);
+        break;
+      case 'CredentialReinstated':
+      case 'BatchCredentialReinstated':
+        await this.onCredentialReinstated(event.args.credentialId);
+        break;
+      case 'InstitutionRegistered':
+        await this.onInstitutionStatus(event.args.institutionAddress, event.args.institutionId, true, event.transactionHash);
+        break;
+      case 'InstitutionStatusChanged':
+        await this.onInstitutionStatus(event.args.institutionAddress, null, event.args.isActive);
+        break;
+      default:
+        break;
+    }
+  }
+
+  async onCredentialIssued(event: ethers.Event) {
+    const { credentialId, ipfsHash } = event.args;
+    const credential = await Credential.findOne({ credentialId });
+
+    if (!credential) {
+      console.warn(`Indexer: credential ${credentialId} exists on-chain but not in the database`);
+      this.emit('drift', { type: 'missing-credential', credentialId, txHash: event.transactionHash });
+      return;
+    }
+
+    if (credential.ipfsHash !== ipfsHash) {
+      console.warn(`Indexer: IPFS hash for credential ${credentialId} differs from chain`);
+      this.emit('drift', { type: 'ipfs-hash', credentialId, txHash: event.transactionHash });
+    }
+
+    if (credential.blockchainTxHash !== event.transactionHash) {
+      credential.blockchainTxHash = event.transactionHash;
+      await credential.save();
+    }
+  }
+
+  async onBatchAnchored(event: ethers.Event) {
+    const { batchId, merkleRoot } = event.args;
+
+    const result = await Credential.updateMany(
+      { batchId, merkleRoot, blockchainTxHash: { $ne: event.transactionHash } },
+      { $set: { blockchainTxHash: event.transactionHash } }
+    );
+
+    if (result.modifiedCount > 0) {
+      console.log(`Indexer: updated transaction hash for ${result.modifiedCount} credentials in ${batchId}`);
+    }
+  }
+
+  async onCredentialRevoked(credentialId: string, reason: number, revokedDate: ethers.BigNumber) {
+    const credential = await Credential.findOne({ credentialId });
+
+    if (!credential) {
+      console.warn(`Indexer: revoked credential ${credentialId} not found in the database`);
+      return;
+    }
+
+    if (credential.status !== 'revoked') {
+      credential.status = 'revoked';
+      credential.revokedDate = new Date(revokedDate.toNumber() * 1000);
+      credential.revocationReasonCode = getReasonName(REVOCATION_REASONS, reason);
+      await credential.save();
+      this.emit('drift', { type: 'revocation', credentialId });
+    }
+  }
+
+  async onCredentialSuspended(credentialId: string, reason: number, suspendedDate: ethers.BigNumber) {
+    const credential = await Credential.findOne({ credentialId });
+
+    if (!credential) {
+      console.warn(`Indexer: suspended credential ${credentialId} not found in the database`);
+      return;
+    }
+
+    if (credential.status === 'active' || credential.status === 'expired') {
+      credential.status = 'suspended';
+      credential.suspendedDate = new Date(suspendedDate.toNumber() * 1000);
+      credential.suspensionReasonCode = getReasonName(SUSPENSION_REASONS, reason);
+      await credential.save();
+      this.emit('drift', { type: 'suspension', credentialId });
+    }
+  }
+
+  async onCredentialReinstated(credentialId: string) {
+    const credential = await Credential.findOne({ credentialId });
+
+    if (!credential) {
+      console.warn(`Indexer: reinstated credential ${credentialId} not found in the database`);
+      return;
+    }
+
+    if (credential.status === 'suspended') {
+      credential.status = 'active';
+      credential.suspendedDate = undefined;
+      credential.suspendedReason = undefined;
+      credential.suspensionReasonCode = undefined;
+      await credential.save();
+      this.emit('drift', { type: 'reinstatement', credentialId });
+    }
+  }
+
+  async onInstitutionStatus(
+    institutionAddress: string,
+    institutionId: string | null,
+    isActive: boolean,
+    registrationTxHash?: string
+  ) {
+    const filter: any = {
+      $or: [{ blockchainAddress: { $regex: `^${institutionAddress}$`, $options: 'i' } }]
+    };
+    if (institutionId) {
+      filter.$or.push({ userId: institutionId });
+    }
+
+    const institution = await Institution.findOne(filter);
+
+    if (!institution) {
+      console.warn(`Indexer: no institution found for on-chain address ${institutionAddress}`);
+      return;
+    }
+
+    const verificationStatus = isActive ? 'verified' : 'unverified';
+    if (
+      institution.verificationStatus !== verificationStatus ||
+      !institution.blockchainAddress ||
+      (registrationTxHash && institution.registrationTxHash !== registrationTxHash)
+    ) {
+      institution.verificationStatus = verificationStatus;
+      institution.blockchainAddress = institution.blockchainAddress || institutionAddress;
+      institution.registrationTxHash = registrationTxHash || institution.registrationTxHash;
+      await institution.save();
+    }
+  }
+}
+
+// Create singleton instance
+const eventIndexer = new ContractEventIndexer();
+
+export default eventIndexer;
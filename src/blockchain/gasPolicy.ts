@@ -0,0 +1,278 @@
+// src/blockchain/gasPolicy.ts
+import { ethers } from 'ethers';
+import config from '../config';
+import { rateLimitedWeb3Call } from '../utils/rateLimiter';
+import { Institution } from '../models/Institution';
+import { GasSpending } from '../models/GasSpending';
+import { PendingTransaction, IPendingTransaction } from '../models/PendingTransaction';
+
+/**
+ * Fee ceilings and spending caps for transactions sent from platform-managed
+ * keys on an institution's behalf (its own managed key or the relayer).
+ *
+ * Fees are chosen here instead of by ethers: the priority fee and max fee are
+ * clamped to the policy, and a send is refused with a retry time while the
+ * base fee leaves no room under the ceiling. The worst-case cost of each
+ * transaction (gasLimit × maxFeePerGas) is checked against the per-transaction
+ * cap and reserved against the institution's daily cap, then settled from the
+ * receipt once the transaction monitor sees it mined.
+ *
+ * Costs are in gwei of the chain's native token and tracked per chain.
+ */
+export interface GasPolicy {
+  maxFeePerGasGwei: number;
+  maxPriorityFeePerGasGwei: number;
+  maxTransactionCostGwei: number;
+  dailySpendingCapGwei: number;
+}
+
+// Worst-case cost held against a day's spending until the transaction is settled
+export interface CostReservation {
+  day: string;
+  costGwei: number;
+}
+
+// Raised when the policy does not allow a send right now; retryAt is when it may
+export class GasPolicyError extends Error {
+  code: string;
+  retryAt: Date;
+
+  constructor(message: string, code: string, retryAt: Date) {
+    super(message);
+    this.code = code;
+    this.retryAt = retryAt;
+  }
+}
+
+const toWei = (gwei: number) => ethers.utils.parseUnits(gwei.toFixed(9), 'gwei');
+
+const toGwei = (wei: ethers.BigNumber) => Number(ethers.utils.formatUnits(wei, 'gwei'));
+
+const minBigNumber = (a: ethers.BigNumber, b: ethers.BigNumber) => (a.lt(b) ? a : b);
+
+// Spending is capped per UTC day
+const getCurrentDay = () => new Date().toISOString().substring(0, 10);
+
+const getNextDayStart = () => {
+  const next = new Date();
+  next.setUTCHours(24, 0, 0, 0);
+  return next;
+};
+
+const getFeeRetryAt = () => new Date(Date.now() + config.gas.deferDelayMs);
+
+// Policy of an institution: its own overrides on top of config.gas
+export const getGasPolicy = async (institutionId: string): Promise<GasPolicy> => {
+  const institution = await Institution.findOne({ userId: institutionId });
+  const overrides = institution?.gasPolicy;
+
+  return {
+    maxFeePerGasGwei: overrides?.maxFeePerGasGwei ?? config.gas.maxFeePerGasGwei,
+    maxPriorityFeePerGasGwei: overrides?.maxPriorityFeePerGasGwei ?? config.gas.maxPriorityFeePerGasGwei,
+    maxTransactionCostGwei: overrides?.maxTransactionCostGwei ?? config.gas.maxTransactionCostGwei,
+    dailySpendingCapGwei: overrides?.dailySpendingCapGwei ?? config.gas.dailySpendingCapGwei
+  };
+};
+
+// Fee fields for a transaction under the policy, failing while the network needs more than the cap
+export const getPolicyFees = async (
+  provider: ethers.providers.Provider,
+  policy: GasPolicy
+): Promise<ethers.providers.TransactionRequest> => {
+  const feeData = await rateLimitedWeb3Call(
+    'eth_gasPrice',
+    () => provider.getFeeData()
+  ) as ethers.providers.FeeData;
+  const maxFee = toWei(policy.maxFeePerGasGwei);
+
+  // Chains without EIP-1559 only take a legacy gas price
+  if (!feeData.maxFeePerGas || !feeData.lastBaseFeePerGas) {
+    if (feeData.gasPrice.gt(maxFee)) {
+      throw new GasPolicyError(
+        `Gas price of ${toGwei(feeData.gasPrice)} gwei is above the cap of ${policy.maxFeePerGasGwei} gwei`,
+        'FEES_ABOVE_CAP',
+        getFeeRetryAt()
+      );
+    }
+    return { type: 0, gasPrice: feeData.gasPrice };
+  }
+
+  const priorityFee = minBigNumber(feeData.maxPriorityFeePerGas, toWei(policy.maxPriorityFeePerGasGwei));
+
+  // A transaction capped below the current base fee would sit unmined
+  if (feeData.lastBaseFeePerGas.add(priorityFee).gt(maxFee)) {
+    throw new GasPolicyError(
+      `Base fee of ${toGwei(feeData.lastBaseFeePerGas)} gwei leaves no room under the cap of ${policy.maxFeePerGasGwei} gwei`,
+      'FEES_ABOVE_CAP',
+      getFeeRetryAt()
+    );
+  }
+
+  // Room for the base fee to double, as ethers allows, but never above the cap
+  return {
+    type: 2,
+    maxFeePerGas: minBigNumber(feeData.lastBaseFeePerGas.mul(2).add(priorityFee), maxFee),
+    maxPriorityFeePerGas: priorityFee
+  };
+};
+
+// Highest fee a replacement of a stuck transaction may offer
+export const getMaxFeePerGas = (policy: GasPolicy) => toWei(policy.maxFeePerGasGwei);
+
+// Most a transaction can cost: all of its gas at the highest fee it offers
+export const getWorstCaseCostGwei = (tx: ethers.providers.TransactionRequest) => {
+  return toGwei(ethers.BigNumber.from(tx.gasLimit).mul(tx.maxFeePerGas || tx.gasPrice));
+};
+
+// Check a populated transaction against the spending caps and reserve its worst-case cost
+export const reserveTransactionCost = async (
+  institutionId: string,
+  chainId: number,
+  tx: ethers.providers.TransactionRequest,
+  policy: GasPolicy
+): Promise<CostReservation> => {
+  const costGwei = getWorstCaseCostGwei(tx);
+
+  // The cost scales with the fee, so this too can pass once fees fall
+  if (policy.maxTransactionCostGwei && costGwei > policy.maxTransactionCostGwei) {
+    throw new GasPolicyError(
+      `Transaction may cost up to ${costGwei} gwei, above the cap of ${policy.maxTransactionCostGwei} gwei`,
+      'TRANSACTION_COST_CAP_EXCEEDED',
+      getFeeRetryAt()
+    );
+  }
+
+  const day = getCurrentDay();
+
+  await GasSpending.updateOne(
+    { institutionId, chainId, day },
+    { $setOnInsert: { institutionId, chainId, day } },
+    { upsert: true }
+  );
+
+  // Check and reserve in one update so concurrent sends can't overshoot
+  const filter: Record<string, any> = { institutionId, chainId, day };
+  if (policy.dailySpendingCapGwei) {
+    filter.$expr = { $lte: [{ $add: ['$spentGwei', '$reservedGwei', costGwei] }, policy.dailySpendingCapGwei] };
+  }
+
+  const spending = await GasSpending.findOneAndUpdate(filter, { $inc: { reservedGwei: costGwei } }, { new: true });
+
+  if (!spending) {
+    throw new GasPolicyError(
+      `Daily gas spending cap of ${policy.dailySpendingCapGwei} gwei reached for institution ${institutionId}`,
+      'DAILY_CAP_EXCEEDED',
+      getNextDayStart()
+    );
+  }
+
+  return { day, costGwei };
+};
+
+// Release a reservation, charging the actual cost when the transaction was mined
+export const releaseTransactionCost = async (
+  institutionId: string,
+  chainId: number,
+  reservation: CostReservation,
+  spent?: { gasUsed: number; costGwei: number }
+) => {
+  const inc: Record<string, number> = { reservedGwei: -reservation.costGwei };
+
+  if (spent) {
+    inc.spentGwei = spent.costGwei;
+    inc.gasUsed = spent.gasUsed;
+    inc.transactionCount = 1;
+  }
+
+  await GasSpending.updateOne({ institutionId, chainId, day: reservation.day }, { $inc: inc });
+};
+
+// Move a tracked transaction's reservation to the worst-case cost of its replacement
+export const adjustReservedCost = async (record: IPendingTransaction, tx: ethers.providers.TransactionRequest) => {
+  if (!record.spendingDay) {
+    return;
+  }
+
+  const costGwei = getWorstCaseCostGwei(tx);
+
+  // A sent nonce has to be mined or replaced, so this is not checked against the caps
+  await GasSpending.updateOne(
+    { institutionId: record.institutionId, chainId: record.chainId, day: record.spendingDay },
+    { $inc: { reservedGwei: costGwei - record.reservedCostGwei } }
+  );
+  record.reservedCostGwei = costGwei;
+};
+
+// Gas used and native token spent by a mined transaction
+export const getReceiptCost = (receipt: ethers.providers.TransactionReceipt) => ({
+  gasUsed: receipt.gasUsed.toNumber(),
+  effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+  costGwei: toGwei(receipt.gasUsed.mul(receipt.effectiveGasPrice))
+});
+
+// Settle a tracked transaction that left the pending state, from the receipt stored on it
+export const settleTransactionCost = async (record: IPendingTransaction) => {
+  // Sent before spending was tracked
+  if (!record.spendingDay) {
+    return;
+  }
+
+  const spent = record.costGwei !== undefined
+    ? { gasUsed: record.gasUsed, costGwei: record.costGwei }
+    : undefined;
+
+  await releaseTransactionCost(
+    record.institutionId,
+    record.chainId,
+    { day: record.spendingDay, costGwei: record.reservedCostGwei },
+    spent
+  );
+};
+
+// Gas an institution spent in a date range, from the receipts stored on its tracked transactions
+export const getGasUsageReport = async (institutionId: string, from: Date, to: Date) => {
+  const match = { institutionId, costGwei: { $exists: true }, completedAt: { $gte: from, $lt: to } };
+  const totals = {
+    transactionCount: { $sum: 1 },
+    gasUsed: { $sum: '$gasUsed' },
+    costGwei: { $sum: '$costGwei' }
+  };
+
+  const [daily, byAction, today, policy] = await Promise.all([
+    PendingTransaction.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: { day: { $dateToString: { format: '%Y-%m-%d', date: '$completedAt' } }, chainId: '$chainId' },
+          ...totals
+        }
+      },
+      { $sort: { '_id.day': 1, '_id.chainId': 1 } }
+    ]),
+    PendingTransaction.aggregate([
+      { $match: match },
+      { $group: { _id: { action: '$action', chainId: '$chainId', signerType: '$signerType' }, ...totals } },
+      { $sort: { '_id.chainId': 1, '_id.action': 1 } }
+    ]),
+    GasSpending.find({ institutionId, day: getCurrentDay() }).sort({ chainId: 1 }),
+    getGasPolicy(institutionId)
+  ]);
+
+  return {
+    from,
+    to,
+    policy,
+    // Today's spending against the daily cap, including transactions not mined yet
+    today: today.map(spending => ({
+      chainId: spending.chainId,
+      day: spending.day,
+      spentGwei: spending.spentGwei,
+      reservedGwei: spending.reservedGwei,
+      remainingGwei: policy.dailySpendingCapGwei
+        ? Math.max(0, policy.dailySpendingCapGwei - spending.spentGwei - spending.reservedGwei)
+        : null
+    })),
+    daily: daily.map(({ _id, ...usage }) => ({ ..._id, ...usage })),
+    byAction: byAction.map(({ _id, ...usage }) => ({ ..._id, ...usage }))
+  };
+};
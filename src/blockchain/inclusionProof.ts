@@ -0,0 +1,313 @@
+// src/blockchain/inclusionProof.ts
+import { ethers } from 'ethers';
+
+/**
+ * Proofs that a transaction receipt belongs to a block.
+ *
+ * A block header commits to the receipts of its transactions through the
+ * root of a Merkle-Patricia trie keyed by rlp(transaction index). Given the
+ * RLP-encoded header (whose keccak256 is the block hash) and the trie nodes on
+ * the path to one receipt, anyone can check that receipt — and so the events
+ * it logged — was part of the block, without contacting a node. Only whether
+ * the block itself is canonical needs the chain.
+ *
+ * Receipts and blocks are taken in their JSON-RPC form, as returned by
+ * eth_getTransactionReceipt and eth_getBlockByHash.
+ */
+export interface ReceiptLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+export interface DecodedReceipt {
+  type: number;
+  status: number | null;
+  cumulativeGasUsed: ethers.BigNumber;
+  logs: ReceiptLog[];
+}
+
+export interface DecodedBlockHeader {
+  hash: string;
+  parentHash: string;
+  receiptsRoot: string;
+  number: number;
+  timestamp: number;
+}
+
+// Header fields after the fifteen every block has, in the order forks appended them
+const OPTIONAL_HEADER_FIELDS = [
+  'baseFeePerGas',
+  'withdrawalsRoot',
+  'blobGasUsed',
+  'excessBlobGas',
+  'parentBeaconBlockRoot',
+  'requestsHash'
+];
+
+type TrieNode = string | TrieNode[];
+
+// RLP form of a JSON-RPC quantity: big-endian without leading zeros
+const toQuantity = (value: string | number) => {
+  return ethers.utils.hexlify(ethers.utils.stripZeros(ethers.BigNumber.from(value).toHexString()));
+};
+
+const toNibbles = (bytes: string) => {
+  return ethers.utils.hexlify(bytes).slice(2).split('').map(char => parseInt(char, 16));
+};
+
+const fromNibbles = (nibbles: number[]) => {
+  return `0x${nibbles.map(nibble => nibble.toString(16)).join('')}`;
+};
+
+// Hex-prefix encoding of a path segment, flagging leaves and odd lengths
+const encodePath = (nibbles: number[], isLeaf: boolean) => {
+  const flag = (isLeaf ? 2 : 0) + (nibbles.length % 2);
+  return fromNibbles(nibbles.length % 2 ? [flag, ...nibbles] : [flag, 0, ...nibbles]);
+};
+
+const decodePath = (encoded: string) => {
+  const nibbles = toNibbles(encoded);
+  const flag = nibbles[0];
+  return { isLeaf: flag >= 2, nibbles: nibbles.slice(flag % 2 ? 1 : 2) };
+};
+
+// Trie key of the receipt at a transaction index
+const getReceiptKey = (index: number) => ethers.utils.RLP.encode(toQuantity(index));
+
+// RLP-encode a JSON-RPC block header; its keccak256 must be the block hash
+export const encodeBlockHeader = (block: any) => {
+  const fields = [
+    block.parentHash,
+    block.sha3Uncles,
+    block.miner,
+    block.stateRoot,
+    block.transactionsRoot,
+    block.receiptsRoot,
+    block.logsBloom,
+    toQuantity(block.difficulty),
+    toQuantity(block.number),
+    toQuantity(block.gasLimit),
+    toQuantity(block.gasUsed),
+    toQuantity(block.timestamp),
+    block.extraData,
+    block.mixHash,
+    block.nonce
+  ];
+
+  for (const field of OPTIONAL_HEADER_FIELDS) {
+    if (block[field] === undefined || block[field] === null) {
+      break;
+    }
+    fields.push(field.endsWith('Root') || field.endsWith('Hash') ? block[field] : toQuantity(block[field]));
+  }
+
+  const encoded = ethers.utils.RLP.encode(fields);
+  if (ethers.utils.keccak256(encoded) !== block.hash) {
+    throw new Error(`Header of block ${block.hash} does not hash to the block hash`);
+  }
+
+  return encoded;
+};
+
+// Decode an RLP block header and check it against the hash it is claimed to have
+export const decodeBlockHeader = (encoded: string, blockHash: string): DecodedBlockHeader => {
+  const hash = ethers.utils.keccak256(encoded);
+  if (hash.toLowerCase() !== blockHash.toLowerCase()) {
+    throw new Error('Block header does not hash to the block hash');
+  }
+
+  const fields = ethers.utils.RLP.decode(encoded);
+  return {
+    hash,
+    parentHash: fields[0],
+    receiptsRoot: fields[5],
+    number: ethers.BigNumber.from(fields[8] === '0x' ? 0 : fields[8]).toNumber(),
+    timestamp: ethers.BigNumber.from(fields[11] === '0x' ? 0 : fields[11]).toNumber()
+  };
+};
+
+// Consensus encoding of a JSON-RPC receipt, prefixed with its type when typed (EIP-2718)
+export const encodeReceipt = (receipt: any) => {
+  const type = receipt.type ? ethers.BigNumber.from(receipt.type).toNumber() : 0;
+  const outcome = receipt.status !== undefined && receipt.status !== null
+    ? toQuantity(receipt.status)
+    : receipt.root;
+
+  const encoded = ethers.utils.RLP.encode([
+    outcome,
+    toQuantity(receipt.cumulativeGasUsed),
+    receipt.logsBloom,
+    receipt.logs.map((log: ReceiptLog) => [log.address, log.topics, log.data])
+  ]);
+
+  return type === 0 ? encoded : ethers.utils.hexConcat([ethers.utils.hexlify(type), encoded]);
+};
+
+export const decodeReceipt = (encoded: string): DecodedReceipt => {
+  const bytes = ethers.utils.arrayify(encoded);
+  // Typed receipts start with their type byte; RLP lists start at 0xc0
+  const type = bytes[0] < 0x80 ? bytes[0] : 0;
+  const [outcome, cumulativeGasUsed, , logs] = ethers.utils.RLP.decode(type ? bytes.slice(1) : bytes);
+
+  return {
+    type,
+    // Pre-Byzantium receipts carry a state root instead of a status
+    status: ethers.utils.hexDataLength(outcome) === 32 ? null : outcome === '0x' ? 0 : 1,
+    cumulativeGasUsed: ethers.BigNumber.from(cumulativeGasUsed === '0x' ? 0 : cumulativeGasUsed),
+    logs: logs.map(([address, topics, data]: [string, string[], string]) => ({
+      address: ethers.utils.getAddress(address),
+      topics,
+      data
+    }))
+  };
+};
+
+// Reference to a child node: embedded when its encoding is under 32 bytes, else its hash
+const referenceNode = (node: TrieNode[], encodedNodes: Map<string, string>) => {
+  const encoded = ethers.utils.RLP.encode(node);
+  if (ethers.utils.hexDataLength(encoded) < 32) {
+    return node;
+  }
+
+  const hash = ethers.utils.keccak256(encoded);
+  encodedNodes.set(hash, encoded);
+  return hash;
+};
+
+// Build the trie node over entries whose keys agree on their first `depth` nibbles
+const buildNode = (
+  entries: { key: number[]; value: string }[],
+  depth: number,
+  encodedNodes: Map<string, string>
+): TrieNode[] => {
+  if (entries.length === 1) {
+    return [encodePath(entries[0].key.slice(depth), true), entries[0].value];
+  }
+
+  // Shared path below this depth becomes an extension node
+  let shared = 0;
+  while (entries.every(entry => entry.key.length > depth + shared && entry.key[depth + shared] === entries[0].key[depth + shared])) {
+    shared++;
+  }
+  if (shared > 0) {
+    const child = buildNode(entries, depth + shared, encodedNodes);
+    return [encodePath(entries[0].key.slice(depth, depth + shared), false), referenceNode(child, encodedNodes)];
+  }
+
+  const branch: TrieNode[] = new Array(17).fill('0x');
+  for (let nibble = 0; nibble < 16; nibble++) {
+    const children = entries.filter(entry => entry.key.length > depth && entry.key[depth] === nibble);
+    if (children.length > 0) {
+      branch[nibble] = referenceNode(buildNode(children, depth + 1, encodedNodes), encodedNodes);
+    }
+  }
+  const terminal = entries.find(entry => entry.key.length === depth);
+  if (terminal) {
+    branch[16] = terminal.value;
+  }
+
+  return branch;
+};
+
+/**
+ * Build the receipts trie of a block and return its root with the proof for
+ * the receipt at `index`: the RLP of every hashed node on the path from the root
+ */
+export const buildReceiptProof = (receipts: any[], index: number) => {
+  const entries = receipts.map((receipt, receiptIndex) => ({
+    key: toNibbles(getReceiptKey(receiptIndex)),
+    value: encodeReceipt(receipt)
+  }));
+  const encodedNodes = new Map<string, string>();
+
+  const rootNode = ethers.utils.RLP.encode(buildNode(entries, 0, encodedNodes));
+  const root = ethers.utils.keccak256(rootNode);
+  encodedNodes.set(root, rootNode);
+
+  // Walk down to the receipt, collecting the hashed nodes passed through
+  const proof: string[] = [];
+  const key = toNibbles(getReceiptKey(index));
+  let reference: TrieNode = root;
+  let offset = 0;
+
+  for (;;) {
+    let node: TrieNode[];
+    if (typeof reference === 'string') {
+      proof.push(encodedNodes.get(reference));
+      node = ethers.utils.RLP.decode(encodedNodes.get(reference));
+    } else {
+      node = reference;
+    }
+
+    if (node.length === 17) {
+      reference = node[key[offset++]];
+      continue;
+    }
+
+    const { isLeaf, nibbles } = decodePath(node[0] as string);
+    offset += nibbles.length;
+    if (isLeaf) {
+      break;
+    }
+    reference = node[1];
+  }
+
+  return { root, receipt: entries[index].value, proof };
+};
+
+/**
+ * Check a receipt proof against a receipts root and return the encoded
+ * receipt at `index`; throws when the proof does not lead to one
+ */
+export const verifyReceiptProof = (receiptsRoot: string, index: number, proof: string[]) => {
+  const nodes = new Map(proof.map(encoded => [ethers.utils.keccak256(encoded).toLowerCase(), encoded]));
+  const key = toNibbles(getReceiptKey(index));
+  let reference: TrieNode = receiptsRoot;
+  let offset = 0;
+
+  for (;;) {
+    let node: TrieNode[];
+    if (typeof reference === 'string') {
+      const encoded = nodes.get(reference.toLowerCase());
+      if (!encoded) {
+        throw new Error(`Receipt proof is missing node ${reference}`);
+      }
+      node = ethers.utils.RLP.decode(encoded);
+    } else {
+      node = reference;
+    }
+
+    if (node.length === 17) {
+      if (offset === key.length) {
+        if (node[16] === '0x') {
+          throw new Error('Receipt proof does not contain the receipt');
+        }
+        return node[16] as string;
+      }
+      reference = node[key[offset++]];
+      if (reference === '0x') {
+        throw new Error('Receipt proof does not contain the receipt');
+      }
+      continue;
+    }
+
+    if (node.length !== 2) {
+      throw new Error('Malformed receipt proof node');
+    }
+
+    const { isLeaf, nibbles } = decodePath(node[0] as string);
+    if (nibbles.some((nibble, position) => key[offset + position] !== nibble)) {
+      throw new Error('Receipt proof does not contain the receipt');
+    }
+    offset += nibbles.length;
+
+    if (isLeaf) {
+      if (offset !== key.length) {
+        throw new Error('Receipt proof does not contain the receipt');
+      }
+      return node[1] as string;
+    }
+    reference = node[1];
+  }
+};
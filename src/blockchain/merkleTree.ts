@@ -0,0 +1,63 @@
+// src/blockchain/merkleTree.ts
+import { ethers } from 'ethers';
+
+/**
+ * Merkle trees for batch issuance.
+ *
+ * Pairs are sorted before hashing, matching `verifyMerkleProof` in
+ * CredentialRegistry.sol, so a proof is just the list of sibling hashes.
+ */
+
+// Leaf committing to one credential: keccak256(abi.encode(credentialId, credentialHash))
+export const getCredentialLeaf = (credentialId: string, credentialHash: string) => {
+  return ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(['string', 'string'], [credentialId, credentialHash])
+  );
+};
+
+const hashPair = (a: string, b: string) => {
+  const [first, second] = a.toLowerCase() <= b.toLowerCase() ? [a, b] : [b, a];
+  return ethers.utils.keccak256(ethers.utils.concat([first, second]));
+};
+
+// Build a tree over the given leaves and return the root with a proof per leaf
+export const buildMerkleTree = (leaves: string[]) => {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+
+  const proofs: string[][] = leaves.map(() => []);
+  // Positions of each original leaf in the current level
+  let positions = leaves.map((_, index) => index);
+  let level = [...leaves];
+
+  while (level.length > 1) {
+    const nextLevel: string[] = [];
+
+    for (let i = 0; i < level.length; i += 2) {
+      // An odd node out is promoted to the next level unchanged
+      nextLevel.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+
+    positions = positions.map((position, leafIndex) => {
+      const sibling = position % 2 === 0 ? position + 1 : position - 1;
+      if (sibling < level.length) {
+        proofs[leafIndex].push(level[sibling]);
+      }
+      return Math.floor(position / 2);
+    });
+
+    level = nextLevel;
+  }
+
+  return {
+    root: level[0],
+    proofs
+  };
+};
+
+// Check a membership proof against a root
+export const verifyMerkleProof = (leaf: string, proof: string[], root: string) => {
+  const computed = proof.reduce((hash, sibling) => hashPair(hash, sibling), leaf);
+  return computed.toLowerCase() === root.toLowerCase();
+};
@@ -0,0 +1,160 @@
+// src/blockchain/networks.ts
+import config, { AdditionalNetworkConfig } from '../config';
+
+/**
+ * Registry of the chains credentials can be anchored on.
+ *
+ * The default network comes from the BLOCKCHAIN_NETWORK / contract address
+ * variables and is where new credentials are anchored. Further networks (e.g.
+ * an L2 holding older credentials) are configured in BLOCKCHAIN_NETWORKS, and
+ * each credential records the chain ID it was anchored on so reads and status
+ * changes are routed back to the same chain.
+ */
+export interface NetworkConfig {
+  name: string;
+  chainId: number;
+  // RPC endpoints in order of preference; see providers.ts for failover
+  rpcUrls: string[];
+  // Infura-hosted networks use Infura as their first endpoint
+  infuraKey?: string;
+  explorerUrl?: string;
+  contractVersion: number;
+  contractAddresses: {
+    institutionRegistry: string;
+    credentialRegistry: string;
+    credentialForwarder?: string;
+  };
+  legacyCredentialRegistries: Record<string, string>;
+}
+
+// Where a credential lives: its chain and the registry version on that chain
+export interface RegistryLocation {
+  chainId?: number;
+  contractVersion?: number;
+}
+
+// Chain IDs and block explorers of networks we know by name
+const KNOWN_NETWORKS: Record<string, { chainId: number; explorerUrl?: string }> = {
+  mainnet: { chainId: 1, explorerUrl: 'https://etherscan.io' },
+  sepolia: { chainId: 11155111, explorerUrl: 'https://sepolia.etherscan.io' },
+  polygon: { chainId: 137, explorerUrl: 'https://polygonscan.com' },
+  'polygon-amoy': { chainId: 80002, explorerUrl: 'https://amoy.polygonscan.com' },
+  base: { chainId: 8453, explorerUrl: 'https://basescan.org' },
+  'base-sepolia': { chainId: 84532, explorerUrl: 'https://sepolia.basescan.org' },
+  local: { chainId: 31337 }
+};
+
+// did:ethr network names; other chains are identified by their hex chain ID
+const DID_ETHR_NETWORK_NAMES: Record<number, string> = {
+  11155111: 'sepolia'
+};
+
+// Node the local network is reached at when BLOCKCHAIN_RPC_URL is not set
+const DEFAULT_LOCAL_RPC_URL = 'http://localhost:8545';
+
+let networks: NetworkConfig[] | null = null;
+
+const buildDefaultNetwork = (): NetworkConfig => {
+  const { network, rpcUrl, infuraKey, contractAddresses, contractVersion, legacyCredentialRegistries } = config.blockchain;
+  const known = KNOWN_NETWORKS[network];
+
+  if (!known) {
+    throw new Error(`Unknown default blockchain network: ${network}`);
+  }
+
+  return {
+    name: network,
+    chainId: known.chainId,
+    // Public networks are reached through Infura when keyed, then the configured RPC URL and any fallbacks
+    rpcUrls: [rpcUrl || (network === 'local' ? DEFAULT_LOCAL_RPC_URL : ''), ...config.rpc.fallbackUrls].filter(Boolean),
+    infuraKey: network === 'local' ? undefined : infuraKey || undefined,
+    explorerUrl: known.explorerUrl,
+    contractVersion,
+    contractAddresses,
+    legacyCredentialRegistries
+  };
+};
+
+const buildAdditionalNetwork = (network: AdditionalNetworkConfig): NetworkConfig => {
+  const known = KNOWN_NETWORKS[network.name];
+  const chainId = network.chainId || (known && known.chainId);
+  const rpcUrls = network.rpcUrls || (network.rpcUrl ? [network.rpcUrl] : []);
+
+  if (!chainId || rpcUrls.length === 0 || !network.contractAddresses) {
+    throw new Error(`Network ${network.name} needs a chainId, rpcUrl(s) and contractAddresses`);
+  }
+
+  return {
+    name: network.name,
+    chainId,
+    rpcUrls,
+    explorerUrl: network.explorerUrl || (known && known.explorerUrl),
+    contractVersion: network.contractVersion || 1,
+    contractAddresses: network.contractAddresses,
+    legacyCredentialRegistries: network.legacyCredentialRegistries || {}
+  };
+};
+
+// All configured networks, the default network first
+export const getNetworks = () => {
+  if (!networks) {
+    networks = [
+      buildDefaultNetwork(),
+      ...config.blockchain.additionalNetworks.map(buildAdditionalNetwork)
+    ];
+  }
+  return networks;
+};
+
+export const getDefaultNetwork = () => getNetworks()[0];
+
+// Look up a network by chain ID; credentials without one were anchored on the default network
+export const getNetwork = (chainId?: number) => {
+  if (!chainId) {
+    return getDefaultNetwork();
+  }
+
+  const network = getNetworks().find(candidate => candidate.chainId === chainId);
+  if (!network) {
+    throw new Error(`No network configured for chain ID ${chainId}`);
+  }
+  return network;
+};
+
+// Address of the credential registry holding a credential
+export const getCredentialRegistryAddress = (location: RegistryLocation = {}) => {
+  const network = getNetwork(location.chainId);
+  const contractVersion = location.contractVersion || network.contractVersion;
+
+  if (contractVersion === network.contractVersion) {
+    return network.contractAddresses.credentialRegistry;
+  }
+
+  const address = network.legacyCredentialRegistries[contractVersion];
+  if (!address) {
+    throw new Error(`No credential registry configured for contract version ${contractVersion} on ${network.name}`);
+  }
+  return address;
+};
+
+// Whether status changes can be written to the registry holding a credential
+export const isCurrentRegistry = (location: RegistryLocation) => {
+  const network = getNetwork(location.chainId);
+  return (location.contractVersion || network.contractVersion) === network.contractVersion;
+};
+
+// Block explorer link for a transaction, or null when the network has no explorer
+export const getExplorerTxUrl = (txHash: string, chainId?: number) => {
+  const network = getNetwork(chainId);
+  return network.explorerUrl && txHash ? `${network.explorerUrl}/tx/${txHash}` : null;
+};
+
+// did:ethr network prefix: none on mainnet, a name where one exists, else the hex chain ID
+export const getDidNetworkPrefix = (chainId?: number) => {
+  const network = getNetwork(chainId);
+
+  if (network.chainId === 1) {
+    return '';
+  }
+  return `${DID_ETHR_NETWORK_NAMES[network.chainId] || `0x${network.chainId.toString(16)}`}:`;
+};
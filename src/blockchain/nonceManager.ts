@@ -0,0 +1,213 @@
+// src/blockchain/nonceManager.ts
+import { ethers } from 'ethers';
+import { rateLimitedWeb3Call } from '../utils/rateLimiter';
+import { PendingTransaction, IPendingTransaction } from '../models/PendingTransaction';
+import { Credential } from '../models/Credential';
+import { IssuanceJob } from '../models/IssuanceJob';
+import { getGasPolicy, getPolicyFees, reserveTransactionCost, releaseTransactionCost } from './gasPolicy';
+
+/**
+ * Nonce assignment for platform-managed keys (institution keys and the relayer).
+ *
+ * Sends from one signer are serialized in-process, and each nonce is reserved
+ * by inserting a PendingTransaction record before broadcasting, so concurrent
+ * requests and other server instances never reuse a nonce. The records are
+ * then followed by the transaction monitor, which speeds up or cancels
+ * transactions that stay unmined. Fees and spending caps come from the
+ * institution's gas policy and are enforced before a nonce is taken.
+ */
+export interface TransactionContext {
+  institutionId: string;
+  action: 'issue' | 'anchor-batch' | 'revoke' | 'suspend' | 'reinstate';
+  credentialId?: string;
+  batchId?: string;
+  // Institution key to send from, when it must be the one that anchored the credential
+  signerAddress?: string;
+}
+
+// How many times to move past a nonce reserved concurrently by another instance
+const MAX_NONCE_CONFLICTS = 5;
+
+// Tail of each signer's send queue
+const signerQueues = new Map<string, Promise<unknown>>();
+
+// Run sends from the same signer one at a time
+const withSignerLock = async <T>(key: string, task: () => Promise<T>): Promise<T> => {
+  const previous = signerQueues.get(key) || Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  signerQueues.set(key, current);
+
+  try {
+    return await current;
+  } finally {
+    if (signerQueues.get(key) === current) {
+      signerQueues.delete(key);
+    }
+  }
+};
+
+// Next free nonce: past the node's pending count and every nonce still reserved by a tracked transaction
+const getNextNonce = async (wallet: ethers.Wallet, chainId: number) => {
+  const [pendingCount, lastReserved] = await Promise.all([
+    rateLimitedWeb3Call('eth_getTransactionCount', () => wallet.getTransactionCount('pending')),
+    PendingTransaction.findOne({ signer: wallet.address.toLowerCase(), chainId, status: 'pending' }).sort({ nonce: -1 })
+  ]) as [number, any];
+
+  return Math.max(pendingCount, lastReserved ? lastReserved.nonce + 1 : 0);
+};
+
+const toOptionalString = (value?: ethers.BigNumberish) => {
+  return value === undefined || value === null ? undefined : ethers.BigNumber.from(value).toString();
+};
+
+// Sign and broadcast a transaction with a managed nonce, tracking it until it is mined
+export const sendManagedTransaction = async (
+  wallet: ethers.Wallet,
+  populated: ethers.PopulatedTransaction,
+  context: TransactionContext,
+  signerType: 'institution' | 'relayer' = 'institution'
+): Promise<ethers.providers.TransactionResponse> => {
+  const { chainId } = await wallet.provider.getNetwork();
+  const signer = wallet.address.toLowerCase();
+
+  return withSignerLock(`${chainId}:${signer}`, async () => {
+    const policy = await getGasPolicy(context.institutionId);
+    const fees = await getPolicyFees(wallet.provider, policy);
+
+    let nonce = await getNextNonce(wallet, chainId);
+    const unsigned = await wallet.populateTransaction({ ...populated, ...fees, nonce });
+    const reservation = await reserveTransactionCost(context.institutionId, chainId, unsigned, policy);
+
+    try {
+      for (let conflicts = 0; ; conflicts++) {
+        const signedTransaction = await wallet.signTransaction({ ...unsigned, nonce });
+
+        let record;
+        try {
+          record = await PendingTransaction.create({
+            signer,
+            signerType,
+            chainId,
+            nonce,
+            institutionId: context.institutionId,
+            action: context.action,
+            credentialId: context.credentialId,
+            batchId: context.batchId,
+            to: unsigned.to,
+            data: unsigned.data,
+            gasLimit: toOptionalString(unsigned.gasLimit),
+            maxFeePerGas: toOptionalString(unsigned.maxFeePerGas),
+            maxPriorityFeePerGas: toOptionalString(unsigned.maxPriorityFeePerGas),
+            gasPrice: toOptionalString(unsigned.gasPrice),
+            txHash: ethers.utils.keccak256(signedTransaction),
+            broadcastAt: new Date(),
+            spendingDay: reservation.day,
+            reservedCostGwei: reservation.costGwei
+          });
+        } catch (error) {
+          // Another instance reserved this nonce first; take the next one
+          if (error.code === 11000 && conflicts < MAX_NONCE_CONFLICTS) {
+            nonce += 1;
+            continue;
+          }
+          throw error;
+        }
+
+        let tx: ethers.providers.TransactionResponse;
+        try {
+          tx = await rateLimitedWeb3Call(
+            'eth_sendRawTransaction',
+            () => wallet.provider.sendTransaction(signedTransaction)
+          ) as ethers.providers.TransactionResponse;
+        } catch (error) {
+          // Never broadcast: release the nonce for the next send
+          await PendingTransaction.deleteOne({ _id: record._id });
+          throw error;
+        }
+
+        await recordTransactionOutcome(record, 'pending');
+        return tx;
+      }
+    } catch (error) {
+      // Nothing was broadcast: hand the reserved cost back
+      await releaseTransactionCost(context.institutionId, chainId, reservation);
+      throw error;
+    }
+  });
+};
+
+// Wait for a managed transaction, following speed-ups sent by the transaction monitor
+export const waitForManagedTransaction = async (tx: ethers.providers.TransactionResponse) => {
+  try {
+    return await rateLimitedWeb3Call(
+      'eth_getTransactionReceipt',
+      () => tx.wait()
+    ) as ethers.ContractReceipt;
+  } catch (error) {
+    // A repriced replacement performs the same call, so its receipt stands in for the original
+    if (error.code === ethers.errors.TRANSACTION_REPLACED && !error.cancelled) {
+      if (error.receipt.status === 0) {
+        throw new Error('Replacement transaction reverted');
+      }
+      return error.receipt as ethers.ContractReceipt;
+    }
+    if (error.code === ethers.errors.TRANSACTION_REPLACED) {
+      throw new Error('Transaction was cancelled after it stayed unmined');
+    }
+    throw error;
+  }
+};
+
+/**
+ * Write the state of a tracked transaction back to the credentials it concerns.
+ * Issuance jobs follow speed-ups so the worker waits for the broadcast that
+ * actually gets mined, and fail when the issuance was cancelled or dropped.
+ */
+export const recordTransactionOutcome = async (
+  record: IPendingTransaction,
+  status: 'pending' | 'sped-up' | 'cancelling' | 'mined' | 'cancelled' | 'dropped'
+) => {
+  const txHash = record.minedTxHash || record.txHash;
+  const lastTransaction = {
+    action: record.action,
+    txHash,
+    nonce: record.nonce,
+    status,
+    replacedTxHashes: record.replacedTxHashes,
+    updatedAt: new Date()
+  };
+
+  // Batch credentials share the anchoring transaction; status changes target one credential
+  const filter = record.action === 'anchor-batch'
+    ? { batchId: record.batchId }
+    : { credentialId: record.credentialId };
+  const update: Record<string, any> = { lastTransaction };
+
+  if (status === 'mined' && ['issue', 'anchor-batch'].includes(record.action)) {
+    update.blockchainTxHash = txHash;
+  }
+
+  await Credential.updateMany(filter, { $set: update });
+
+  if (record.action !== 'issue') {
+    return;
+  }
+
+  if (['sped-up', 'mined'].includes(status)) {
+    await IssuanceJob.updateOne(
+      { credentialId: record.credentialId, status: 'submitted' },
+      { $set: { txHash } }
+    );
+  } else if (['cancelled', 'dropped'].includes(status)) {
+    await IssuanceJob.updateOne(
+      { credentialId: record.credentialId, status: 'submitted' },
+      {
+        $set: {
+          status: 'failed',
+          lastError: `Issuance transaction was ${status} after staying unmined`,
+          completedAt: new Date()
+        }
+      }
+    );
+  }
+};
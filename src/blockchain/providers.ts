@@ -0,0 +1,266 @@
+// src/blockchain/providers.ts
+import { ethers } from 'ethers';
+import config from '../config';
+import { getNetwork, NetworkConfig } from './networks';
+
+/**
+ * RPC access with ordered failover across a network's endpoints.
+ *
+ * Requests go to the first healthy endpoint in configured order. Transport
+ * failures (timeouts, 5xx, rate limits) move on to the next endpoint, and an
+ * endpoint failing `failureThreshold` times in a row is sent to the back of
+ * the queue for `cooldownMs`. JSON-RPC errors such as reverts come from a
+ * node that answered, so they are returned to the caller as-is.
+ *
+ * `quorumCall` runs a read against several endpoints at once and only
+ * returns a result enough of them agree on.
+ */
+export interface RpcEndpoint {
+  label: string;
+  provider: ethers.providers.StaticJsonRpcProvider;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  unhealthyUntil: number;
+  lastError?: string;
+  lastLatencyMs?: number;
+}
+
+// Raised when endpoints answer but not enough of them agree
+export class QuorumError extends Error {
+  code: string;
+
+  constructor(message: string) {
+    super(message);
+    this.code = 'QUORUM_NOT_REACHED';
+  }
+}
+
+// ethers error codes for requests that never got a usable answer from the node
+const TRANSPORT_ERROR_CODES = ['SERVER_ERROR', 'TIMEOUT', 'NETWORK_ERROR'];
+// JSON-RPC codes for rate limiting and request limits
+const RATE_LIMIT_CODES = [429, -32005];
+
+const isEndpointFailure = (error: any) => {
+  return TRANSPORT_ERROR_CODES.includes(error.code) || RATE_LIMIT_CODES.includes(error.code);
+};
+
+// Host of an endpoint URL, so API keys in paths never reach logs or responses
+const getEndpointLabel = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch (error) {
+    return 'invalid-url';
+  }
+};
+
+export class FailoverProvider extends ethers.providers.StaticJsonRpcProvider {
+  endpoints: RpcEndpoint[];
+
+  constructor(connections: ethers.utils.ConnectionInfo[], network: ethers.providers.Network) {
+    super(connections[0], network);
+
+    this.endpoints = connections.map(connection => ({
+      label: getEndpointLabel(connection.url),
+      provider: new ethers.providers.StaticJsonRpcProvider(connection, network),
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      unhealthyUntil: 0
+    }));
+  }
+
+  /**
+   * Healthy endpoints in configured order, then cooling-down ones as a last resort
+   */
+  getOrderedEndpoints() {
+    const now = Date.now();
+    const healthy = this.endpoints.filter(endpoint => endpoint.unhealthyUntil <= now);
+    const cooling = this.endpoints
+      .filter(endpoint => endpoint.unhealthyUntil > now)
+      .sort((a, b) => a.unhealthyUntil - b.unhealthyUntil);
+
+    return [...healthy, ...cooling];
+  }
+
+  /**
+   * Run a call against one endpoint and record the outcome in its health
+   */
+  async callEndpoint<T>(endpoint: RpcEndpoint, call: (provider: ethers.providers.StaticJsonRpcProvider) => Promise<T>) {
+    const startedAt = Date.now();
+    endpoint.requests += 1;
+
+    try {
+      const result = await call(endpoint.provider);
+      endpoint.consecutiveFailures = 0;
+      endpoint.unhealthyUntil = 0;
+      endpoint.lastLatencyMs = Date.now() - startedAt;
+      return result;
+    } catch (error) {
+      if (isEndpointFailure(error)) {
+        this.recordFailure(endpoint, error);
+      }
+      throw error;
+    }
+  }
+
+  recordFailure(endpoint: RpcEndpoint, error: any) {
+    endpoint.failures += 1;
+    endpoint.consecutiveFailures += 1;
+    // ethers puts the full URL in error.message; keep only the short reason
+    endpoint.lastError = error.reason || error.code;
+
+    if (endpoint.consecutiveFailures >= config.rpc.failureThreshold) {
+      if (endpoint.unhealthyUntil <= Date.now()) {
+        console.warn(`RPC endpoint ${endpoint.label} marked unhealthy: ${endpoint.lastError}`);
+      }
+      endpoint.unhealthyUntil = Date.now() + config.rpc.cooldownMs;
+    }
+  }
+
+  /**
+   * JSON-RPC entry point used by every ethers call: try endpoints in order until one answers
+   */
+  async send(method: string, params: Array<any>): Promise<any> {
+    let lastError: any;
+
+    for (const endpoint of this.getOrderedEndpoints()) {
+      try {
+        return await this.callEndpoint(endpoint, provider => provider.send(method, params));
+      } catch (error) {
+        // A broadcast that timed out may still have reached the mempool through the earlier endpoint
+        if (method === 'eth_sendRawTransaction' && lastError && /already known|known transaction/i.test(error.message)) {
+          return ethers.utils.keccak256(params[0]);
+        }
+
+        if (!isEndpointFailure(error)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Run a read against every endpoint and return the result at least `quorum` of them agree on
+   */
+  async quorumCall<T>(quorum: number, read: (provider: ethers.providers.Provider) => Promise<T>): Promise<T> {
+    if (this.endpoints.length < quorum) {
+      throw new QuorumError(`A quorum of ${quorum} needs at least ${quorum} RPC endpoints; ${this.endpoints.length} configured`);
+    }
+
+    const outcomes = await Promise.allSettled(
+      this.getOrderedEndpoints().map(endpoint => this.callEndpoint(endpoint, read))
+    );
+
+    const votes = new Map<string, { result: T; count: number }>();
+    let firstError: any;
+
+    outcomes.forEach(outcome => {
+      if (outcome.status === 'rejected') {
+        firstError = firstError || outcome.reason;
+        return;
+      }
+
+      const key = JSON.stringify(outcome.value);
+      const vote = votes.get(key) || { result: outcome.value, count: 0 };
+      vote.count += 1;
+      votes.set(key, vote);
+    });
+
+    const agreed = [...votes.values()].find(vote => vote.count >= quorum);
+    if (agreed) {
+      return agreed.result;
+    }
+
+    // Every endpoint failed the same way (e.g. the call reverts): surface that error
+    if (votes.size === 0) {
+      throw firstError;
+    }
+
+    throw new QuorumError(
+      `RPC endpoints disagree: no result was returned by ${quorum} of ${this.endpoints.length} endpoints`
+    );
+  }
+
+  /**
+   * Health of each endpoint, for monitoring
+   */
+  getHealth() {
+    const now = Date.now();
+    return this.endpoints.map(endpoint => ({
+      endpoint: endpoint.label,
+      healthy: endpoint.unhealthyUntil <= now,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      lastError: endpoint.lastError,
+      lastLatencyMs: endpoint.lastLatencyMs
+    }));
+  }
+}
+
+// One provider per chain so endpoint health is shared by every caller
+const providers = new Map<number, FailoverProvider>();
+
+// Infura endpoint of a network, when a key is set and Infura serves the chain
+const getInfuraConnection = (network: NetworkConfig) => {
+  if (!network.infuraKey) {
+    return null;
+  }
+
+  try {
+    return ethers.providers.InfuraProvider.getUrl(
+      ethers.providers.getNetwork(network.chainId),
+      ethers.providers.InfuraProvider.getApiKey(network.infuraKey)
+    );
+  } catch (error) {
+    // ethers rejects chains Infura does not serve
+    return null;
+  }
+};
+
+const getConnections = (network: NetworkConfig): ethers.utils.ConnectionInfo[] => {
+  const connections: ethers.utils.ConnectionInfo[] = network.rpcUrls.map(url => ({
+    url,
+    timeout: config.rpc.timeoutMs
+  }));
+
+  const infura = getInfuraConnection(network);
+  if (infura) {
+    connections.unshift({ ...infura, timeout: config.rpc.timeoutMs });
+  }
+
+  if (connections.length === 0) {
+    throw new Error(`No RPC endpoint for network ${network.name}: configure an RPC URL${
+      network.infuraKey ? ' (Infura does not serve this chain)' : ' or INFURA_KEY'
+    }`);
+  }
+
+  return connections;
+};
+
+// Get the failover provider of a network, defaulting to the one new credentials are anchored on
+export const getNetworkProvider = (chainId?: number) => {
+  const network = getNetwork(chainId);
+
+  if (!providers.has(network.chainId)) {
+    providers.set(network.chainId, new FailoverProvider(
+      getConnections(network),
+      { chainId: network.chainId, name: network.name }
+    ));
+  }
+
+  return providers.get(network.chainId);
+};
+
+// Endpoint health of every network that has been used so far
+export const getRpcHealth = () => {
+  return [...providers.entries()].map(([chainId, provider]) => ({
+    network: getNetwork(chainId).name,
+    chainId,
+    endpoints: provider.getHealth()
+  }));
+};
@@ -0,0 +1,249 @@
+// src/blockchain/relayer.ts
+import { ethers } from 'ethers';
+import config from '../config';
+import CredentialForwarderABI from '../contracts/abi/CredentialForwarder.json';
+import { getWallet, getReadContracts } from './contractService';
+import { rateLimitedWeb3Call } from '../utils/rateLimiter';
+import { RelayerUsage } from '../models/RelayerUsage';
+import { Institution } from '../models/Institution';
+import { sendManagedTransaction, TransactionContext } from './nonceManager';
+
+/**
+ * Gasless issuance through the EIP-2771 CredentialForwarder.
+ *
+ * Institutions sign an EIP-712 ForwardRequest for a CredentialRegistry call
+ * and the platform wallet submits it, so the registry still sees the
+ * institution as the sender. Gas is reserved against a monthly per-institution
+ * quota before sending and settled from the receipt once the call is mined.
+ */
+export interface ForwardRequest {
+  from: string;
+  to: string;
+  value: string;
+  gas: string;
+  nonce: string;
+  data: string;
+}
+
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'data', type: 'bytes' }
+  ]
+};
+
+// Error raised before a request is relayed, with a code for the API response
+export class RelayerError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const getForwarder = (walletOrProvider: ethers.Wallet | ethers.providers.Provider) => {
+  return new ethers.Contract(
+    config.blockchain.contractAddresses.credentialForwarder,
+    CredentialForwarderABI.abi,
+    walletOrProvider
+  );
+};
+
+// Platform wallet that pays gas for relayed requests
+const getRelayerWallet = () => {
+  if (!config.relayer.privateKey) {
+    throw new RelayerError('Relayer wallet is not configured', 'RELAYER_NOT_CONFIGURED');
+  }
+  return getWallet(config.relayer.privateKey);
+};
+
+const getTypedDataDomain = async (provider: ethers.providers.Provider) => {
+  const network = await provider.getNetwork();
+  return {
+    name: 'CredentialForwarder',
+    version: '1',
+    chainId: network.chainId,
+    verifyingContract: config.blockchain.contractAddresses.credentialForwarder
+  };
+};
+
+// Quotas and usage are tracked per calendar month
+const getCurrentPeriod = () => new Date().toISOString().substring(0, 7);
+
+const getGasQuota = async (institutionId: string) => {
+  const institution = await Institution.findOne({ userId: institutionId });
+  return institution?.relayerGasQuota ?? config.relayer.monthlyGasQuota;
+};
+
+// Reserve gas against the monthly quota, failing if it would be exceeded
+const reserveGas = async (institutionId: string, gas: number) => {
+  const period = getCurrentPeriod();
+  const quota = await getGasQuota(institutionId);
+
+  await RelayerUsage.updateOne(
+    { institutionId, period },
+    { $setOnInsert: { institutionId, period } },
+    { upsert: true }
+  );
+
+  // Check and reserve in one update so concurrent requests can't overshoot
+  const usage = await RelayerUsage.findOneAndUpdate(
+    {
+      institutionId,
+      period,
+      $expr: { $lte: [{ $add: ['$gasUsed', '$reservedGas', gas] }, quota] }
+    },
+    { $inc: { reservedGas: gas } },
+    { new: true }
+  );
+
+  if (!usage) {
+    throw new RelayerError(
+      `Monthly relayer gas quota of ${quota} exceeded for institution ${institutionId}`,
+      'QUOTA_EXCEEDED'
+    );
+  }
+
+  return period;
+};
+
+// Release a reservation, charging the gas actually spent when the transaction was mined
+const settleGas = async (
+  institutionId: string,
+  period: string,
+  gas: number,
+  receipt?: ethers.providers.TransactionReceipt
+) => {
+  const inc: Record<string, number> = { reservedGas: -gas };
+
+  if (receipt) {
+    inc.gasUsed = receipt.gasUsed.toNumber();
+    inc.costGwei = Number(ethers.utils.formatUnits(receipt.gasUsed.mul(receipt.effectiveGasPrice), 'gwei'));
+    inc.transactionCount = 1;
+  }
+
+  await RelayerUsage.updateOne({ institutionId, period }, { $inc: inc });
+};
+
+// Build a forward request for a registry call and the EIP-712 payload to sign
+export const buildForwardRequest = async (from: string, data: string) => {
+  const { credentialRegistry } = getReadContracts();
+  const provider = credentialRegistry.provider;
+  const forwarder = getForwarder(provider);
+
+  // Estimated as a direct call: the registry resolves the same sender either way
+  const [nonce, gasEstimate, domain] = await Promise.all([
+    rateLimitedWeb3Call('eth_call', () => forwarder.getNonce(from)),
+    rateLimitedWeb3Call('eth_estimateGas', () => provider.estimateGas({ from, to: credentialRegistry.address, data })),
+    getTypedDataDomain(provider)
+  ]) as [ethers.BigNumber, ethers.BigNumber, ethers.TypedDataDomain];
+
+  const request: ForwardRequest = {
+    from: ethers.utils.getAddress(from),
+    to: credentialRegistry.address,
+    value: '0',
+    gas: Math.ceil(gasEstimate.toNumber() * config.relayer.gasLimitMultiplier).toString(),
+    nonce: nonce.toString(),
+    data
+  };
+
+  return {
+    request,
+    typedData: {
+      domain,
+      types: FORWARD_REQUEST_TYPES,
+      primaryType: 'ForwardRequest',
+      message: request
+    }
+  };
+};
+
+// Verify a signed forward request, charge it to the institution's quota and submit it
+export const relayForwardRequest = async (
+  context: TransactionContext,
+  request: ForwardRequest,
+  signature: string,
+  expected?: { from: string; data: string }
+) => {
+  const registryAddress = config.blockchain.contractAddresses.credentialRegistry;
+
+  // Only CredentialRegistry calls are sponsored
+  if (!request || !request.to || request.to.toLowerCase() !== registryAddress.toLowerCase()) {
+    throw new RelayerError('Only CredentialRegistry calls can be relayed', 'TARGET_NOT_ALLOWED');
+  }
+
+  if (request.value !== '0') {
+    throw new RelayerError('Relayed requests cannot transfer value', 'VALUE_NOT_ALLOWED');
+  }
+
+  if (expected && (
+    request.from.toLowerCase() !== expected.from.toLowerCase() || request.data !== expected.data
+  )) {
+    throw new RelayerError('Signed request does not match the prepared request', 'REQUEST_MISMATCH');
+  }
+
+  const wallet = getRelayerWallet();
+  const domain = await getTypedDataDomain(wallet.provider);
+  const signer = ethers.utils.verifyTypedData(domain, FORWARD_REQUEST_TYPES, request, signature);
+
+  if (signer.toLowerCase() !== request.from.toLowerCase()) {
+    throw new RelayerError('Request was not signed by its sender', 'INVALID_SIGNATURE');
+  }
+
+  const { institutionId } = context;
+  const gas = parseInt(request.gas);
+  const period = await reserveGas(institutionId, gas);
+
+  let tx: ethers.providers.TransactionResponse;
+  try {
+    const forwarder = getForwarder(wallet);
+    const populated = await forwarder.populateTransaction.execute(request, signature);
+    tx = await sendManagedTransaction(wallet, populated, context, 'relayer');
+  } catch (error) {
+    await settleGas(institutionId, period, gas);
+    throw error;
+  }
+
+  // Settle in the background; reverted calls still spend gas and are charged too
+  tx.wait()
+    .then(receipt => settleGas(institutionId, period, gas, receipt))
+    .catch(error => settleGas(institutionId, period, gas, error.receipt))
+    .catch(error => console.error(`Failed to record relayer gas usage for ${tx.hash}:`, error));
+
+  return tx;
+};
+
+// Sign a registry call with an institution's managed key and relay it
+export const relayInstitutionCall = async (context: TransactionContext, signer: ethers.Wallet, data: string) => {
+  const { request, typedData } = await buildForwardRequest(signer.address, data);
+  const signature = await signer._signTypedData(typedData.domain, typedData.types, request);
+
+  return relayForwardRequest(context, request, signature);
+};
+
+// Gas sponsored for an institution in the current month
+export const getRelayerUsage = async (institutionId: string) => {
+  const period = getCurrentPeriod();
+  const [usage, quota] = await Promise.all([
+    RelayerUsage.findOne({ institutionId, period }),
+    getGasQuota(institutionId)
+  ]);
+
+  const gasUsed = usage ? usage.gasUsed : 0;
+  const reservedGas = usage ? usage.reservedGas : 0;
+
+  return {
+    period,
+    quota,
+    gasUsed,
+    reservedGas,
+    remaining: Math.max(0, quota - gasUsed - reservedGas),
+    costGwei: usage ? usage.costGwei : 0,
+    transactionCount: usage ? usage.transactionCount : 0
+  };
+};
@@ -0,0 +1,179 @@
+// src/certificates/certificateService.ts
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { ICredential } from '../models/Credential';
+import { ICertificateTemplate } from '../models/Institution';
+
+/**
+ * Printable PDF certificates.
+ *
+ * A certificate is rendered from the issuing institution's template (logo,
+ * colours, signatures, layout) and carries a QR code pointing at the
+ * credential's verification URL. The signed credential document and its
+ * on-chain anchor are embedded in the file itself — the JSON as an attached
+ * file, the hashes as document info entries — so a verifier holding only the
+ * PDF can check the signature and look the hash up on-chain.
+ */
+export const CERTIFICATE_ATTACHMENT_NAME = 'credential.json';
+
+const DEFAULT_TEMPLATE: ICertificateTemplate = {
+  layout: 'landscape',
+  title: 'Certificate of Achievement',
+  primaryColor: '#1f3a5f',
+  signatures: []
+};
+
+export interface CertificateContent {
+  credential: ICredential;
+  // The signed credential document pinned to IPFS
+  document: any;
+  institutionName: string;
+  template?: ICertificateTemplate;
+  verifyUrl: string;
+}
+
+const formatDate = (date: Date) => {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+// Collect a finished PDF into a buffer
+const renderToBuffer = (doc: any): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.end();
+  });
+};
+
+// Signature blocks spread evenly across the width above the footer
+const drawSignatures = (doc: any, template: ICertificateTemplate, top: number, left: number, width: number) => {
+  const signatures = template.signatures || [];
+  if (signatures.length === 0) {
+    return;
+  }
+
+  const slotWidth = width / signatures.length;
+
+  signatures.forEach((signature, index) => {
+    const x = left + index * slotWidth + (slotWidth - 160) / 2;
+
+    if (signature.image) {
+      doc.image(signature.image, x + 20, top, { fit: [120, 45], align: 'center', valign: 'bottom' });
+    }
+
+    doc
+      .moveTo(x, top + 50)
+      .lineTo(x + 160, top + 50)
+      .lineWidth(0.75)
+      .strokeColor('#555555')
+      .stroke();
+    doc.font('Helvetica-Bold').fontSize(10).fillColor('#222222').text(signature.name, x, top + 56, { width: 160, align: 'center' });
+    if (signature.title) {
+      doc.font('Helvetica').fontSize(9).fillColor('#555555').text(signature.title, { width: 160, align: 'center' });
+    }
+  });
+};
+
+/**
+ * Render a credential as a branded PDF certificate with an embedded
+ * verification QR code, credential JSON and on-chain anchor
+ */
+export const renderCertificate = async (content: CertificateContent): Promise<Buffer> => {
+  const { credential, document, institutionName, verifyUrl } = content;
+  const template = { ...DEFAULT_TEMPLATE, ...(content.template || {}) };
+  const color = template.primaryColor || DEFAULT_TEMPLATE.primaryColor;
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    layout: template.layout,
+    margin: 50,
+    info: {
+      Title: `${credential.credentialName} - ${credential.recipientName}`,
+      Author: institutionName,
+      Subject: `${template.title} ${credential.credentialId}`,
+      Keywords: 'verifiable credential, blockchain',
+      CreationDate: new Date(),
+      // Anchor of the embedded document, for offline verification
+      CredentialId: credential.credentialId,
+      CredentialHash: credential.credentialHash || '',
+      IpfsHash: credential.ipfsHash || '',
+      TxHash: credential.blockchainTxHash || '',
+      ChainId: credential.chainId ? String(credential.chainId) : '',
+      VerifyUrl: verifyUrl
+    }
+  });
+
+  doc.file(Buffer.from(JSON.stringify(document, null, 2)), {
+    name: CERTIFICATE_ATTACHMENT_NAME,
+    type: 'application/json',
+    description: `Signed credential document ${credential.credentialId}`,
+    creationDate: credential.issueDate,
+    hidden: true
+  });
+
+  const pageWidth = doc.page.width;
+  const pageHeight = doc.page.height;
+  const left = 70;
+  const contentWidth = pageWidth - 2 * left;
+
+  // Double border in the institution's colour
+  doc.rect(20, 20, pageWidth - 40, pageHeight - 40).lineWidth(4).strokeColor(color).stroke();
+  doc.rect(30, 30, pageWidth - 60, pageHeight - 60).lineWidth(1).strokeColor(color).stroke();
+
+  let y = 55;
+  if (template.logo) {
+    doc.image(template.logo, (pageWidth - 140) / 2, y, { fit: [140, 70], align: 'center', valign: 'center' });
+    y += 80;
+  }
+
+  doc.font('Helvetica-Bold').fontSize(16).fillColor(color).text(institutionName, left, y, { width: contentWidth, align: 'center' });
+  doc.moveDown(0.6);
+  doc.font('Helvetica-Bold').fontSize(30).fillColor(color).text(template.title, { width: contentWidth, align: 'center' });
+  doc.moveDown(0.8);
+  doc.font('Helvetica').fontSize(13).fillColor('#333333').text('This is to certify that', { width: contentWidth, align: 'center' });
+  doc.moveDown(0.4);
+  doc.font('Helvetica-Bold').fontSize(26).fillColor('#111111').text(credential.recipientName, { width: contentWidth, align: 'center' });
+  doc.moveDown(0.4);
+  doc.font('Helvetica').fontSize(13).fillColor('#333333').text('has been awarded', { width: contentWidth, align: 'center' });
+  doc.moveDown(0.4);
+  doc.font('Helvetica-Bold').fontSize(18).fillColor(color).text(credential.credentialName, { width: contentWidth, align: 'center' });
+
+  if (credential.description) {
+    doc.moveDown(0.4);
+    doc.font('Helvetica').fontSize(11).fillColor('#444444').text(credential.description, { width: contentWidth, align: 'center' });
+  }
+
+  doc.moveDown(0.6);
+  const dates = [`Issued ${formatDate(credential.issueDate)}`];
+  if (credential.expiryDate) {
+    dates.push(`Valid until ${formatDate(credential.expiryDate)}`);
+  }
+  doc.font('Helvetica').fontSize(11).fillColor('#444444').text(dates.join('  ·  '), { width: contentWidth, align: 'center' });
+
+  // Signatures and the QR code share the bottom band; the QR sits in the right corner
+  const qrSize = 90;
+  const bottom = pageHeight - 60;
+  const qr = await QRCode.toBuffer(verifyUrl, { type: 'png', errorCorrectionLevel: 'M', margin: 1, width: 360 });
+
+  drawSignatures(doc, template, bottom - 150, left, contentWidth - qrSize - 20);
+
+  const qrX = pageWidth - left - qrSize;
+  const qrY = bottom - qrSize - 40;
+  doc.image(qr, qrX, qrY, { width: qrSize, height: qrSize });
+  doc.font('Helvetica').fontSize(7).fillColor('#555555').text('Scan to verify', qrX, qrY + qrSize + 3, { width: qrSize, align: 'center' });
+
+  const footer = [`Credential ID: ${credential.credentialId}`];
+  if (credential.blockchainTxHash) {
+    footer.push(`Transaction: ${credential.blockchainTxHash}`);
+  }
+  doc.font('Helvetica').fontSize(7).fillColor('#777777').text(footer.join('   '), left, bottom - 18, { width: contentWidth, align: 'left', lineBreak: false });
+  if (template.footerText) {
+    doc.text(template.footerText, left, bottom - 8, { width: contentWidth, align: 'left', lineBreak: false });
+  }
+
+  return renderToBuffer(doc);
+};
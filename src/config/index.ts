@@ -4,6 +4,78 @@ import * as dotenv from 'dotenv-safe';
 // Load environment variables
 dotenv.config();
 
+// A chain configured in BLOCKCHAIN_NETWORKS; see blockchain/networks.ts
+export interface AdditionalNetworkConfig {
+  name: string;
+  // Optional for networks known by name
+  chainId?: number;
+  rpcUrl?: string;
+  rpcUrls?: string[];
+  explorerUrl?: string;
+  contractVersion?: number;
+  contractAddresses?: {
+    institutionRegistry: string;
+    credentialRegistry: string;
+    credentialForwarder?: string;
+  };
+  legacyCredentialRegistries?: Record<string, string>;
+}
+
+const isStringRecord = (value: any) => {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(entry => typeof entry === 'string');
+};
+
+// What is wrong with a BLOCKCHAIN_NETWORKS entry, or null when it is well-formed
+const findNetworkProblem = (network: any) => {
+  if (!network || typeof network !== 'object' || typeof network.name !== 'string') {
+    return 'needs a name';
+  }
+  if (network.chainId !== undefined && !Number.isInteger(network.chainId)) {
+    return 'chainId must be an integer';
+  }
+  if (network.rpcUrl !== undefined && typeof network.rpcUrl !== 'string') {
+    return 'rpcUrl must be a string';
+  }
+  if (network.rpcUrls !== undefined && !(Array.isArray(network.rpcUrls) && network.rpcUrls.every((url: any) => typeof url === 'string'))) {
+    return 'rpcUrls must be an array of strings';
+  }
+  if (network.contractVersion !== undefined && !Number.isInteger(network.contractVersion)) {
+    return 'contractVersion must be an integer';
+  }
+  if (network.contractAddresses !== undefined && !(isStringRecord(network.contractAddresses) &&
+    network.contractAddresses.institutionRegistry && network.contractAddresses.credentialRegistry)) {
+    return 'contractAddresses needs institutionRegistry and credentialRegistry addresses';
+  }
+  if (network.legacyCredentialRegistries !== undefined && !isStringRecord(network.legacyCredentialRegistries)) {
+    return 'legacyCredentialRegistries must map versions to addresses';
+  }
+  return null;
+};
+
+// Parse BLOCKCHAIN_NETWORKS, naming the variable and the offending entry when it is malformed
+const parseAdditionalNetworks = (value: string | undefined): AdditionalNetworkConfig[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value || '[]');
+  } catch (error) {
+    throw new Error(`BLOCKCHAIN_NETWORKS is not valid JSON: ${error.message}`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('BLOCKCHAIN_NETWORKS must be a JSON array of networks');
+  }
+
+  parsed.forEach((network, index) => {
+    const problem = findNetworkProblem(network);
+    if (problem) {
+      throw new Error(`BLOCKCHAIN_NETWORKS entry ${index} ${problem}`);
+    }
+  });
+
+  return parsed as AdditionalNetworkConfig[];
+};
+
 const config = {
   server: {
     port: process.env.PORT || 5000,
@@ -18,24 +90,127 @@ const config = {
   },
   blockchain: {
     network: process.env.BLOCKCHAIN_NETWORK || 'local',
-    rpcUrl: process.env.BLOCKCHAIN_RPC_URL || 'http://localhost:8545',
+    // Defaults to a localhost node on the local network
+    rpcUrl: process.env.BLOCKCHAIN_RPC_URL || '',
     infuraKey: process.env.INFURA_KEY || '',
     contractAddresses: {
       institutionRegistry: process.env.INSTITUTION_REGISTRY_ADDRESS || '0x...',
-      credentialRegistry: process.env.CREDENTIAL_REGISTRY_ADDRESS || '0x...'
+      credentialRegistry: process.env.CREDENTIAL_REGISTRY_ADDRESS || '0x...',
+      credentialForwarder: process.env.CREDENTIAL_FORWARDER_ADDRESS || '0x...'
     },
-    institutionPrivateKey: process.env.INSTITUTION_PRIVATE_KEY || '0x...'
+    institutionPrivateKey: process.env.INSTITUTION_PRIVATE_KEY || '0x...',
+    // Version of the registry at CREDENTIAL_REGISTRY_ADDRESS; stored on each credential as contractVersion
+    contractVersion: parseInt(process.env.CONTRACT_VERSION || '1'),
+    // Earlier registries still holding unmigrated credentials, as JSON: {"1": "0x..."}
+    legacyCredentialRegistries: JSON.parse(process.env.LEGACY_CREDENTIAL_REGISTRIES || '{}') as Record<string, string>,
+    // Further chains holding credentials, as a JSON array of
+    // {name, chainId, rpcUrls, explorerUrl, contractAddresses, contractVersion, legacyCredentialRegistries}
+    additionalNetworks: parseAdditionalNetworks(process.env.BLOCKCHAIN_NETWORKS)
+  },
+  rpc: {
+    // Endpoints of the default network tried in order when the primary one fails (comma-separated)
+    fallbackUrls: (process.env.BLOCKCHAIN_RPC_FALLBACK_URLS || '').split(',').map(url => url.trim()).filter(Boolean),
+    timeoutMs: parseInt(process.env.RPC_TIMEOUT_MS || '10000'),
+    // Consecutive failures before an endpoint is moved to the back of the queue for cooldownMs
+    failureThreshold: parseInt(process.env.RPC_FAILURE_THRESHOLD || '2'),
+    cooldownMs: parseInt(process.env.RPC_COOLDOWN_MS || '30000'),
+    // Endpoints that must return the same credential state; 1 disables quorum reads
+    verificationQuorum: parseInt(process.env.RPC_VERIFICATION_QUORUM || '1')
+  },
+  transactions: {
+    monitorEnabled: process.env.TX_MONITOR_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.TX_MONITOR_POLL_INTERVAL_MS || '30000'),
+    // Unmined for this long after the last broadcast counts as stuck
+    stuckTimeoutMs: parseInt(process.env.TX_STUCK_TIMEOUT_MS || '180000'),
+    feeBumpPercent: parseInt(process.env.TX_FEE_BUMP_PERCENT || '20'),
+    // Speed-ups tried before a stuck transaction is cancelled
+    maxSpeedUps: parseInt(process.env.TX_MAX_SPEED_UPS || '3')
+  },
+  gas: {
+    // EIP-1559 fee ceilings in gwei; sends are deferred while the network needs more
+    maxFeePerGasGwei: parseFloat(process.env.GAS_MAX_FEE_GWEI || '100'),
+    maxPriorityFeePerGasGwei: parseFloat(process.env.GAS_MAX_PRIORITY_FEE_GWEI || '2'),
+    // Per-institution spending caps in gwei of the native token (gasLimit × maxFeePerGas); 0 disables
+    maxTransactionCostGwei: parseFloat(process.env.GAS_MAX_TRANSACTION_COST_GWEI || '0'),
+    dailySpendingCapGwei: parseFloat(process.env.GAS_DAILY_SPENDING_CAP_GWEI || '0'),
+    // Wait before retrying a send deferred by high fees
+    deferDelayMs: parseInt(process.env.GAS_DEFER_DELAY_MS || '300000')
+  },
+  relayer: {
+    enabled: process.env.RELAYER_ENABLED === 'true',
+    privateKey: process.env.RELAYER_PRIVATE_KEY || '',
+    monthlyGasQuota: parseInt(process.env.RELAYER_MONTHLY_GAS_QUOTA || '5000000'),
+    gasLimitMultiplier: parseFloat(process.env.RELAYER_GAS_LIMIT_MULTIPLIER || '1.2')
+  },
+  keys: {
+    backend: process.env.KEY_BACKEND || 'local',
+    localMasterKeyPath: process.env.LOCAL_MASTER_KEY_PATH || '.keys/master.key'
+  },
+  indexer: {
+    enabled: process.env.INDEXER_ENABLED === 'true',
+    startBlock: parseInt(process.env.INDEXER_START_BLOCK || '0'),
+    confirmations: parseInt(process.env.INDEXER_CONFIRMATIONS || '12'),
+    pollIntervalMs: parseInt(process.env.INDEXER_POLL_INTERVAL_MS || '15000'),
+    maxBlockRange: parseInt(process.env.INDEXER_MAX_BLOCK_RANGE || '2000')
+  },
+  issuanceJobs: {
+    enabled: process.env.ISSUANCE_WORKER_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.ISSUANCE_WORKER_POLL_INTERVAL_MS || '5000'),
+    maxAttempts: parseInt(process.env.ISSUANCE_MAX_ATTEMPTS || '5'),
+    retryBaseDelayMs: parseInt(process.env.ISSUANCE_RETRY_BASE_DELAY_MS || '10000'),
+    confirmationTimeoutMs: parseInt(process.env.ISSUANCE_CONFIRMATION_TIMEOUT_MS || '120000'),
+    lockTimeoutMs: parseInt(process.env.ISSUANCE_LOCK_TIMEOUT_MS || '300000')
   },
   ipfs: {
-    usePinata: true,
+    // Storage provider: pinata, kubo, web3storage or local (offline content-addressed store)
+    provider: process.env.IPFS_PROVIDER || 'pinata',
     pinataApiKey: process.env.PINATA_API_KEY || '',
     pinataApiSecret: process.env.PINATA_API_SECRET || '',
+    pinataGatewayUrl: process.env.PINATA_GATEWAY_URL || 'https://gateway.pinata.cloud/ipfs',
+    // Pinata regions replicating each pin, and copies kept per region
+    pinataRegions: (process.env.PINATA_PIN_REGIONS || 'FRA1,NYC1').split(',').map(region => region.trim()),
+    pinataReplicationCount: parseInt(process.env.PINATA_REPLICATION_COUNT || '2'),
     useInfura: process.env.IPFS_USE_INFURA === 'true',
     host: process.env.IPFS_HOST || 'localhost',
     port: parseInt(process.env.IPFS_PORT || '5001'),
     protocol: process.env.IPFS_PROTOCOL || 'http',
     infuraProjectId: process.env.IPFS_PROJECT_ID || '',
-    infuraProjectSecret: process.env.IPFS_PROJECT_SECRET || ''
+    infuraProjectSecret: process.env.IPFS_PROJECT_SECRET || '',
+    web3StorageToken: process.env.WEB3_STORAGE_TOKEN || '',
+    web3StorageApiUrl: process.env.WEB3_STORAGE_API_URL || 'https://api.web3.storage',
+    web3StorageGatewayUrl: process.env.WEB3_STORAGE_GATEWAY_URL || 'https://w3s.link/ipfs',
+    localStorePath: process.env.IPFS_LOCAL_STORE_PATH || '.ipfs-store',
+    // Gateways raced for every read; their blocks are checked against the CID before use
+    gateways: (process.env.IPFS_GATEWAYS || 'https://gateway.pinata.cloud/ipfs,https://ipfs.io/ipfs,https://dweb.link/ipfs')
+      .split(',')
+      .map(gateway => gateway.trim())
+      .filter(Boolean),
+    requestTimeoutMs: parseInt(process.env.IPFS_REQUEST_TIMEOUT_MS || '10000'),
+    cache: {
+      enabled: process.env.IPFS_CACHE_ENABLED !== 'false',
+      maxEntries: parseInt(process.env.IPFS_CACHE_MAX_ENTRIES || '1000'),
+      maxBytes: parseInt(process.env.IPFS_CACHE_MAX_BYTES || '67108864'),
+      path: process.env.IPFS_CACHE_PATH || '.ipfs-cache'
+    },
+    // Encrypt credential documents before pinning, with keys wrapped for the issuer and student
+    encryptDocuments: process.env.IPFS_ENCRYPT_DOCUMENTS !== 'false'
+  },
+  attachments: {
+    // PDF files attached to a credential at issuance
+    maxFiles: parseInt(process.env.ATTACHMENT_MAX_FILES || '5'),
+    maxFileBytes: parseInt(process.env.ATTACHMENT_MAX_FILE_BYTES || '10485760')
+  },
+  pinning: {
+    // Storage providers every credential document is pinned to; the first that succeeds names the CID
+    providers: (process.env.IPFS_PINNING_PROVIDERS || process.env.IPFS_PROVIDER || 'pinata')
+      .split(',')
+      .map(provider => provider.trim())
+      .filter(Boolean),
+    healthCheckEnabled: process.env.PIN_HEALTH_CHECK_ENABLED !== 'false',
+    healthCheckIntervalMs: parseInt(process.env.PIN_HEALTH_CHECK_INTERVAL_MS || '3600000'),
+    // Documents are checked again once their last check is this old
+    recheckAfterMs: parseInt(process.env.PIN_RECHECK_AFTER_MS || '86400000'),
+    batchSize: parseInt(process.env.PIN_HEALTH_CHECK_BATCH_SIZE || '50')
   },
   frontend: {
     baseUrl: process.env.FRONTEND_URL || 'http://localhost:3000'
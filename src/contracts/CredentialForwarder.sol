@@ -0,0 +1,110 @@
+// contracts/CredentialForwarder.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+// EIP-2771 forwarder: relays EIP-712 signed requests so institutions don't pay gas
+contract CredentialForwarder {
+    struct ForwardRequest {
+        address from;
+        address to;
+        uint256 value;
+        uint256 gas;
+        uint256 nonce;
+        bytes data;
+    }
+
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+
+    bytes32 private constant REQUEST_TYPEHASH = keccak256(
+        "ForwardRequest(address from,address to,uint256 value,uint256 gas,uint256 nonce,bytes data)"
+    );
+
+    mapping(address => uint256) private nonces;
+
+    event RequestExecuted(
+        address indexed from,
+        address indexed to,
+        uint256 nonce,
+        address relayer
+    );
+
+    function getNonce(address _from) public view returns (uint256) {
+        return nonces[_from];
+    }
+
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(abi.encode(
+            DOMAIN_TYPEHASH,
+            keccak256(bytes("CredentialForwarder")),
+            keccak256(bytes("1")),
+            block.chainid,
+            address(this)
+        ));
+    }
+
+    function verify(ForwardRequest calldata _req, bytes calldata _signature) public view returns (bool) {
+        bytes32 structHash = keccak256(abi.encode(
+            REQUEST_TYPEHASH,
+            _req.from,
+            _req.to,
+            _req.value,
+            _req.gas,
+            _req.nonce,
+            keccak256(_req.data)
+        ));
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+
+        return nonces[_req.from] == _req.nonce && recoverSigner(digest, _signature) == _req.from;
+    }
+
+    function execute(ForwardRequest calldata _req, bytes calldata _signature) public payable returns (bytes memory) {
+        require(verify(_req, _signature), "Signature does not match request");
+        require(msg.value == _req.value, "Value does not match request");
+
+        nonces[_req.from] = _req.nonce + 1;
+
+        // Append the signer so the target can resolve it as the sender
+        (bool success, bytes memory returndata) = _req.to.call{gas: _req.gas, value: _req.value}(
+            abi.encodePacked(_req.data, _req.from)
+        );
+
+        // Guard against relayers starving the call of gas (EIP-150 keeps 1/64 back)
+        require(gasleft() > _req.gas / 63, "Insufficient gas forwarded");
+
+        if (!success) {
+            // Bubble up the revert reason of the target
+            assembly {
+                revert(add(returndata, 32), mload(returndata))
+            }
+        }
+
+        emit RequestExecuted(_req.from, _req.to, _req.nonce, msg.sender);
+
+        return returndata;
+    }
+
+    function recoverSigner(bytes32 _digest, bytes memory _signature) internal pure returns (address) {
+        require(_signature.length == 65, "Invalid signature length");
+
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := mload(add(_signature, 32))
+            s := mload(add(_signature, 64))
+            v := byte(0, mload(add(_signature, 96)))
+        }
+
+        require(
+            uint256(s) <= 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0,
+            "Invalid signature 's' value"
+        );
+
+        address signer = ecrecover(_digest, v, r, s);
+        require(signer != address(0), "Invalid signature");
+
+        return signer;
+    }
+}
@@ -3,9 +3,19 @@
 pragma solidity ^0.8.0;
 
 import "./InstitutionRegistry.sol";
+import "./UUPSUpgradeable.sol";
 
-contract CredentialRegistry {
+// Deployed behind a RegistryProxy; state is set in initialize() rather than a constructor.
+// Upgrades must only append state variables so existing storage keeps its layout.
+contract CredentialRegistry is UUPSUpgradeable {
     InstitutionRegistry public institutionRegistry;
+    address public admin;
+    
+    // Open while credentials from a previous registry are being replayed
+    bool public migrationOpen;
+    
+    // EIP-2771 forwarder allowed to relay calls on behalf of institutions
+    address public trustedForwarder;
     
     struct Credential {
         string credentialId;
@@ -17,9 +27,32 @@ contract CredentialRegistry {
         uint256 expiryDate;
         bool isRevoked;
         uint256 revokedDate;
+        uint8 revocationReason;
+        bool isSuspended;
+        uint256 suspendedDate;
+        uint8 suspensionReason;
+    }
+    
+    struct Batch {
+        string batchId;
+        address issuer;
+        bytes32 merkleRoot;
+        uint256 credentialCount;
+        uint256 issueDate;
     }
     
     mapping(string => Credential) private credentials;
+    mapping(string => Batch) private batches;
+    mapping(string => mapping(string => uint256)) private batchRevocations;
+    mapping(string => mapping(string => uint8)) private batchRevocationReasons;
+    mapping(string => mapping(string => uint256)) private batchSuspensions;
+    mapping(string => mapping(string => uint8)) private batchSuspensionReasons;
+    
+    // Status codes returned by getCredentialStatus and getBatchCredentialStatus
+    uint8 public constant STATUS_ACTIVE = 0;
+    uint8 public constant STATUS_REVOKED = 1;
+    uint8 public constant STATUS_SUSPENDED = 2;
+    uint8 public constant STATUS_EXPIRED = 3;
     
     event CredentialIssued(
         string credentialId,
@@ -32,18 +65,90 @@ contract CredentialRegistry {
     
     event CredentialRevoked(
         string credentialId,
+        uint8 reason,
+        uint256 revokedDate
+    );
+    
+    event CredentialSuspended(
+        string credentialId,
+        uint8 reason,
+        uint256 suspendedDate
+    );
+    
+    event CredentialReinstated(
+        string credentialId,
+        uint256 reinstatedDate
+    );
+    
+    event BatchAnchored(
+        string batchId,
+        address indexed issuer,
+        bytes32 merkleRoot,
+        uint256 credentialCount,
+        uint256 issueDate
+    );
+    
+    event BatchCredentialRevoked(
+        string batchId,
+        string credentialId,
+        uint8 reason,
         uint256 revokedDate
     );
     
-    constructor(address _institutionRegistryAddress) {
+    event BatchCredentialSuspended(
+        string batchId,
+        string credentialId,
+        uint8 reason,
+        uint256 suspendedDate
+    );
+    
+    event BatchCredentialReinstated(
+        string batchId,
+        string credentialId,
+        uint256 reinstatedDate
+    );
+    
+    event MigrationClosed(uint256 closedDate);
+    
+    function initialize(address _institutionRegistryAddress, address _trustedForwarder) public initializer {
         institutionRegistry = InstitutionRegistry(_institutionRegistryAddress);
+        trustedForwarder = _trustedForwarder;
+        admin = msg.sender;
+        migrationOpen = true;
+    }
+    
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "Only admin can call this function");
+        _;
+    }
+    
+    modifier onlyDuringMigration() {
+        require(migrationOpen, "Migration is closed");
+        _;
     }
     
+    function _authorizeUpgrade(address) internal view override onlyAdmin {}
+    
     modifier onlyRegisteredInstitution() {
-        require(institutionRegistry.isRegistered(msg.sender), "Caller is not a registered institution");
+        require(institutionRegistry.isRegistered(_msgSender()), "Caller is not a registered institution");
         _;
     }
     
+    function isTrustedForwarder(address _forwarder) public view returns (bool) {
+        return _forwarder == trustedForwarder;
+    }
+    
+    // Calls relayed by the trusted forwarder carry the original signer in the last 20 bytes of calldata
+    function _msgSender() internal view returns (address sender) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            assembly {
+                sender := shr(96, calldataload(sub(calldatasize(), 20)))
+            }
+        } else {
+            sender = msg.sender;
+        }
+    }
+    
     function issueCredential(
         string memory _credentialId,
         string memory _recipientId,
@@ -55,19 +160,23 @@ contract CredentialRegistry {
         
         credentials[_credentialId] = Credential({
             credentialId: _credentialId,
-            issuer: msg.sender,
+            issuer: _msgSender(),
             recipientId: _recipientId,
             credentialHash: _credentialHash,
             ipfsHash: _ipfsHash,
             issueDate: block.timestamp,
             expiryDate: _expiryDate,
             isRevoked: false,
-            revokedDate: 0
+            revokedDate: 0,
+            revocationReason: 0,
+            isSuspended: false,
+            suspendedDate: 0,
+            suspensionReason: 0
         });
         
         emit CredentialIssued(
             _credentialId,
-            msg.sender,
+            _msgSender(),
             _recipientId,
             _credentialHash,
             _ipfsHash,
@@ -75,17 +184,50 @@ contract CredentialRegistry {
         );
     }
     
-    function revokeCredential(string memory _credentialId) public {
+    // Revocation is terminal and also clears any suspension
+    function revokeCredential(string memory _credentialId, uint8 _reason) public {
         Credential storage credential = credentials[_credentialId];
         
         require(bytes(credential.credentialId).length != 0, "Credential does not exist");
-        require(credential.issuer == msg.sender, "Only issuer can revoke credential");
+        require(credential.issuer == _msgSender(), "Only issuer can revoke credential");
         require(!credential.isRevoked, "Credential is already revoked");
         
         credential.isRevoked = true;
         credential.revokedDate = block.timestamp;
+        credential.revocationReason = _reason;
+        credential.isSuspended = false;
+        
+        emit CredentialRevoked(_credentialId, _reason, block.timestamp);
+    }
+    
+    // Suspension is a reversible hold, e.g. for disciplinary reasons or unpaid fees
+    function suspendCredential(string memory _credentialId, uint8 _reason) public {
+        Credential storage credential = credentials[_credentialId];
+        
+        require(bytes(credential.credentialId).length != 0, "Credential does not exist");
+        require(credential.issuer == _msgSender(), "Only issuer can suspend credential");
+        require(!credential.isRevoked, "Credential is revoked");
+        require(!credential.isSuspended, "Credential is already suspended");
+        
+        credential.isSuspended = true;
+        credential.suspendedDate = block.timestamp;
+        credential.suspensionReason = _reason;
+        
+        emit CredentialSuspended(_credentialId, _reason, block.timestamp);
+    }
+    
+    function reinstateCredential(string memory _credentialId) public {
+        Credential storage credential = credentials[_credentialId];
+        
+        require(bytes(credential.credentialId).length != 0, "Credential does not exist");
+        require(credential.issuer == _msgSender(), "Only issuer can reinstate credential");
+        require(credential.isSuspended, "Credential is not suspended");
+        
+        credential.isSuspended = false;
+        credential.suspendedDate = 0;
+        credential.suspensionReason = 0;
         
-        emit CredentialRevoked(_credentialId, block.timestamp);
+        emit CredentialReinstated(_credentialId, block.timestamp);
     }
     
     function verifyCredential(string memory _credentialId) public view returns (
@@ -106,7 +248,7 @@ contract CredentialRegistry {
             isExpired = block.timestamp > credential.expiryDate;
         }
         
-        isValid = !credential.isRevoked && !isExpired;
+        isValid = !credential.isRevoked && !credential.isSuspended && !isExpired;
         
         return (
             isValid,
@@ -118,6 +260,205 @@ contract CredentialRegistry {
         );
     }
     
+    function getCredentialStatus(string memory _credentialId) public view returns (
+        uint8 status,
+        uint8 reason,
+        uint256 statusDate
+    ) {
+        Credential memory credential = credentials[_credentialId];
+        
+        require(bytes(credential.credentialId).length != 0, "Credential does not exist");
+        
+        if (credential.isRevoked) {
+            return (STATUS_REVOKED, credential.revocationReason, credential.revokedDate);
+        }
+        if (credential.isSuspended) {
+            return (STATUS_SUSPENDED, credential.suspensionReason, credential.suspendedDate);
+        }
+        if (credential.expiryDate > 0 && block.timestamp > credential.expiryDate) {
+            return (STATUS_EXPIRED, 0, credential.expiryDate);
+        }
+        return (STATUS_ACTIVE, 0, 0);
+    }
+    
+    function anchorBatch(
+        string memory _batchId,
+        bytes32 _merkleRoot,
+        uint256 _credentialCount
+    ) public onlyRegisteredInstitution {
+        require(bytes(batches[_batchId].batchId).length == 0, "Batch ID already exists");
+        require(_merkleRoot != bytes32(0), "Merkle root is required");
+        require(_credentialCount > 0, "Batch must contain credentials");
+        
+        batches[_batchId] = Batch({
+            batchId: _batchId,
+            issuer: _msgSender(),
+            merkleRoot: _merkleRoot,
+            credentialCount: _credentialCount,
+            issueDate: block.timestamp
+        });
+        
+        emit BatchAnchored(
+            _batchId,
+            _msgSender(),
+            _merkleRoot,
+            _credentialCount,
+            block.timestamp
+        );
+    }
+    
+    function revokeBatchCredential(string memory _batchId, string memory _credentialId, uint8 _reason) public {
+        Batch storage batch = batches[_batchId];
+        
+        require(bytes(batch.batchId).length != 0, "Batch does not exist");
+        require(batch.issuer == _msgSender(), "Only issuer can revoke credential");
+        require(batchRevocations[_batchId][_credentialId] == 0, "Credential is already revoked");
+        
+        batchRevocations[_batchId][_credentialId] = block.timestamp;
+        batchRevocationReasons[_batchId][_credentialId] = _reason;
+        batchSuspensions[_batchId][_credentialId] = 0;
+        
+        emit BatchCredentialRevoked(_batchId, _credentialId, _reason, block.timestamp);
+    }
+    
+    function suspendBatchCredential(string memory _batchId, string memory _credentialId, uint8 _reason) public {
+        Batch storage batch = batches[_batchId];
+        
+        require(bytes(batch.batchId).length != 0, "Batch does not exist");
+        require(batch.issuer == _msgSender(), "Only issuer can suspend credential");
+        require(batchRevocations[_batchId][_credentialId] == 0, "Credential is revoked");
+        require(batchSuspensions[_batchId][_credentialId] == 0, "Credential is already suspended");
+        
+        batchSuspensions[_batchId][_credentialId] = block.timestamp;
+        batchSuspensionReasons[_batchId][_credentialId] = _reason;
+        
+        emit BatchCredentialSuspended(_batchId, _credentialId, _reason, block.timestamp);
+    }
+    
+    function reinstateBatchCredential(string memory _batchId, string memory _credentialId) public {
+        Batch storage batch = batches[_batchId];
+        
+        require(bytes(batch.batchId).length != 0, "Batch does not exist");
+        require(batch.issuer == _msgSender(), "Only issuer can reinstate credential");
+        require(batchSuspensions[_batchId][_credentialId] != 0, "Credential is not suspended");
+        
+        batchSuspensions[_batchId][_credentialId] = 0;
+        batchSuspensionReasons[_batchId][_credentialId] = 0;
+        
+        emit BatchCredentialReinstated(_batchId, _credentialId, block.timestamp);
+    }
+    
+    function getBatchCredentialStatus(string memory _batchId, string memory _credentialId) public view returns (
+        uint8 status,
+        uint8 reason,
+        uint256 statusDate
+    ) {
+        require(bytes(batches[_batchId].batchId).length != 0, "Batch does not exist");
+        
+        if (batchRevocations[_batchId][_credentialId] != 0) {
+            return (STATUS_REVOKED, batchRevocationReasons[_batchId][_credentialId], batchRevocations[_batchId][_credentialId]);
+        }
+        if (batchSuspensions[_batchId][_credentialId] != 0) {
+            return (STATUS_SUSPENDED, batchSuspensionReasons[_batchId][_credentialId], batchSuspensions[_batchId][_credentialId]);
+        }
+        return (STATUS_ACTIVE, 0, 0);
+    }
+    
+    function verifyBatchCredential(
+        string memory _batchId,
+        string memory _credentialId,
+        string memory _credentialHash,
+        bytes32[] memory _merkleProof
+    ) public view returns (
+        bool isValid,
+        address issuer,
+        bytes32 merkleRoot,
+        uint256 issueDate,
+        bool isRevoked
+    ) {
+        Batch memory batch = batches[_batchId];
+        
+        require(bytes(batch.batchId).length != 0, "Batch does not exist");
+        
+        bytes32 leaf = keccak256(abi.encode(_credentialId, _credentialHash));
+        bool isMember = verifyMerkleProof(_merkleProof, batch.merkleRoot, leaf);
+        
+        isRevoked = batchRevocations[_batchId][_credentialId] != 0;
+        isValid = isMember && !isRevoked && batchSuspensions[_batchId][_credentialId] == 0;
+        
+        return (
+            isValid,
+            batch.issuer,
+            batch.merkleRoot,
+            batch.issueDate,
+            isRevoked
+        );
+    }
+    
+    function getBatchRoot(string memory _batchId) public view returns (bytes32) {
+        return batches[_batchId].merkleRoot;
+    }
+    
+    // Replay a credential from a previous registry, keeping its issuer, dates and status
+    function migrateCredential(Credential calldata _credential) public onlyAdmin onlyDuringMigration {
+        require(bytes(_credential.credentialId).length != 0, "Credential ID is required");
+        require(bytes(credentials[_credential.credentialId].credentialId).length == 0, "Credential ID already exists");
+        
+        credentials[_credential.credentialId] = _credential;
+    }
+    
+    // Replay a batch root from a previous registry
+    function migrateBatch(Batch calldata _batch) public onlyAdmin onlyDuringMigration {
+        require(bytes(_batch.batchId).length != 0, "Batch ID is required");
+        require(bytes(batches[_batch.batchId].batchId).length == 0, "Batch ID already exists");
+        
+        batches[_batch.batchId] = _batch;
+    }
+    
+    // Replay the revocation or suspension of a batch credential from a previous registry
+    function migrateBatchCredentialStatus(
+        string memory _batchId,
+        string memory _credentialId,
+        uint256 _revokedDate,
+        uint8 _revocationReason,
+        uint256 _suspendedDate,
+        uint8 _suspensionReason
+    ) public onlyAdmin onlyDuringMigration {
+        require(bytes(batches[_batchId].batchId).length != 0, "Batch does not exist");
+        
+        batchRevocations[_batchId][_credentialId] = _revokedDate;
+        batchRevocationReasons[_batchId][_credentialId] = _revocationReason;
+        batchSuspensions[_batchId][_credentialId] = _suspendedDate;
+        batchSuspensionReasons[_batchId][_credentialId] = _suspensionReason;
+    }
+    
+    // Permanently disable the migration functions
+    function closeMigration() public onlyAdmin onlyDuringMigration {
+        migrationOpen = false;
+        emit MigrationClosed(block.timestamp);
+    }
+    
+    // Sorted-pair Merkle proof verification
+    function verifyMerkleProof(
+        bytes32[] memory _proof,
+        bytes32 _root,
+        bytes32 _leaf
+    ) internal pure returns (bool) {
+        bytes32 computedHash = _leaf;
+        
+        for (uint256 i = 0; i < _proof.length; i++) {
+            bytes32 proofElement = _proof[i];
+            
+            if (computedHash <= proofElement) {
+                computedHash = keccak256(abi.encodePacked(computedHash, proofElement));
+            } else {
+                computedHash = keccak256(abi.encodePacked(proofElement, computedHash));
+            }
+        }
+        
+        return computedHash == _root;
+    }
+    
     function getCredentialHash(string memory _credentialId) public view returns (string memory) {
         return credentials[_credentialId].credentialHash;
     }
@@ -2,7 +2,10 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
-contract InstitutionRegistry {
+import "./UUPSUpgradeable.sol";
+
+// Deployed behind a RegistryProxy; state is set in initialize() rather than a constructor
+contract InstitutionRegistry is UUPSUpgradeable {
     struct Institution {
         string institutionId;
         string name;
@@ -29,7 +32,7 @@ contract InstitutionRegistry {
         bool isActive
     );
     
-    constructor() {
+    function initialize() public initializer {
         admin = msg.sender;
     }
     
@@ -38,6 +41,8 @@ contract InstitutionRegistry {
         _;
     }
     
+    function _authorizeUpgrade(address) internal view override onlyAdmin {}
+    
     function registerInstitution(
         address _institutionAddress,
         string memory _institutionId,
@@ -0,0 +1,46 @@
+// contracts/RegistryProxy.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+// EIP-1967 proxy for the registries; upgrades are handled by the UUPS implementation
+contract RegistryProxy {
+    // bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+    bytes32 internal constant IMPLEMENTATION_SLOT = 0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc;
+    
+    constructor(address _implementation, bytes memory _initData) {
+        assembly {
+            sstore(IMPLEMENTATION_SLOT, _implementation)
+        }
+        
+        if (_initData.length > 0) {
+            (bool success, bytes memory returndata) = _implementation.delegatecall(_initData);
+            if (!success) {
+                assembly {
+                    revert(add(returndata, 32), mload(returndata))
+                }
+            }
+        }
+    }
+    
+    fallback() external payable {
+        _delegate();
+    }
+    
+    receive() external payable {
+        _delegate();
+    }
+    
+    function _delegate() private {
+        assembly {
+            let implementation := sload(IMPLEMENTATION_SLOT)
+            
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), implementation, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            
+            switch result
+            case 0 { revert(0, returndatasize()) }
+            default { return(0, returndatasize()) }
+        }
+    }
+}
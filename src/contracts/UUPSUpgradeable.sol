@@ -0,0 +1,74 @@
+// contracts/UUPSUpgradeable.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+// Upgrade logic for implementations behind a RegistryProxy (EIP-1822 / EIP-1967)
+abstract contract UUPSUpgradeable {
+    // bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+    bytes32 internal constant IMPLEMENTATION_SLOT = 0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc;
+    
+    address private immutable self = address(this);
+    bool private initialized;
+    
+    event Upgraded(address indexed implementation);
+    
+    // The implementation itself can never be initialized; only proxies can
+    constructor() {
+        initialized = true;
+    }
+    
+    modifier initializer() {
+        require(!initialized, "Contract is already initialized");
+        initialized = true;
+        _;
+    }
+    
+    modifier onlyProxy() {
+        require(address(this) != self, "Function must be called through a proxy");
+        _;
+    }
+    
+    // Restrict who may upgrade, e.g. to the registry admin
+    function _authorizeUpgrade(address _newImplementation) internal view virtual;
+    
+    function proxiableUUID() external view returns (bytes32) {
+        require(address(this) == self, "Function must not be called through a proxy");
+        return IMPLEMENTATION_SLOT;
+    }
+    
+    function getImplementation() public view returns (address implementation) {
+        assembly {
+            implementation := sload(IMPLEMENTATION_SLOT)
+        }
+    }
+    
+    function upgradeTo(address _newImplementation) external onlyProxy {
+        _upgradeTo(_newImplementation);
+    }
+    
+    // Upgrade and run a migration/initialization call on the new implementation
+    function upgradeToAndCall(address _newImplementation, bytes memory _data) external onlyProxy {
+        _upgradeTo(_newImplementation);
+        
+        (bool success, bytes memory returndata) = _newImplementation.delegatecall(_data);
+        if (!success) {
+            assembly {
+                revert(add(returndata, 32), mload(returndata))
+            }
+        }
+    }
+    
+    function _upgradeTo(address _newImplementation) private {
+        _authorizeUpgrade(_newImplementation);
+        require(
+            UUPSUpgradeable(_newImplementation).proxiableUUID() == IMPLEMENTATION_SLOT,
+            "New implementation is not upgradeable"
+        );
+        
+        assembly {
+            sstore(IMPLEMENTATION_SLOT, _newImplementation)
+        }
+        
+        emit Upgraded(_newImplementation);
+    }
+}
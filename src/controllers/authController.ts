@@ -3,6 +3,8 @@ import jwt, { SignOptions } from "jsonwebtoken";
 import { User } from "../models/User";
 import { Institution } from "../models/Institution";
 import { Student } from "../models/Student";
+import { createInstitutionKey } from "../keys/keyManager";
+import { getEthrDid, getStudentDid } from "../did/didService";
 import config from "../config";
 
 interface AuthRequest extends Request {
@@ -67,6 +69,9 @@ export const register = async (req: Request, res: Response) => {
       });
 
       await institution.save();
+
+      // Provision the institution's own signing key
+      await createInstitutionKey(user.userId);
     } else if (role === "student" && studentDetails) {
       const student = new Student({
         userId: user.userId,
@@ -85,6 +90,9 @@ export const register = async (req: Request, res: Response) => {
       });
 
       await student.save();
+
+      // Provision the key behind the student's did:key
+      await getStudentDid(user.userId);
     }
 
     // Generate JWT token
@@ -210,6 +218,7 @@ export const getProfile = async (req: AuthRequest, res: Response) => {
           description: institution.description,
           yearEstablished: institution.yearEstablished,
           verificationStatus: institution.verificationStatus,
+          did: institution.blockchainAddress ? getEthrDid(institution.blockchainAddress) : undefined,
         };
       }
     } else if (user.role === "student") {
@@ -227,6 +236,7 @@ export const getProfile = async (req: AuthRequest, res: Response) => {
           expectedGraduation: student.expectedGraduation,
           status: student.status,
           credentialsCount: student.credentialsCount,
+          did: student.did,
         };
       }
     }
@@ -1,27 +1,158 @@
 // src/controllers/credentialController.ts
 import { Request, Response } from "express";
 import crypto from "crypto";
-import { Credential } from "../models/Credential";
+import path from "path";
+import { ethers } from "ethers";
+import { Credential, ICredential, IAttachment } from "../models/Credential";
 import { User } from "../models/User";
 import { Student } from "../models/Student";
 import { Institution } from "../models/Institution";
 import { ShareableLink } from "../models/ShareableLink";
-import { uploadToIPFS } from "../ipfs/ipfsService";
+import { IssuanceJob, IIssuanceJob } from "../models/IssuanceJob";
+import { pinToIPFS, getFromIPFS, getFileFromIPFS } from "../ipfs/ipfsService";
+import { DocumentAccessError } from "../ipfs/documentEncryption";
+import { renderCertificate } from "../certificates/certificateService";
+import { encodeQrPayload, QR_PAYLOAD_PARAM } from "../verification/qrPayload";
+import QRCode from "qrcode";
+import { exportCredentialBundle } from "../verification/bundleExporter";
 import {
-  issueCredential,
   revokeCredential,
+  suspendCredential,
+  reinstateCredential,
+  REVOCATION_REASONS,
+  SUSPENSION_REASONS,
+  anchorBatch,
+  buildRevokeCredentialTransaction,
+  getRevokeCredentialCall,
+  buildSuspendCredentialTransaction,
+  getSuspendCredentialCall,
+  buildReinstateCredentialTransaction,
+  getReinstateCredentialCall,
+  broadcastSignedTransaction,
+  waitForTransaction,
+  isRelayerAvailable,
 } from "../blockchain/contractService";
+import { getNetwork, getExplorerTxUrl, isCurrentRegistry, RegistryLocation } from "../blockchain/networks";
+import { buildForwardRequest, relayForwardRequest } from "../blockchain/relayer";
+import { TransactionContext } from "../blockchain/nonceManager";
+import { buildMerkleTree, getCredentialLeaf } from "../blockchain/merkleTree";
+import {
+  issueVerifiableCredential,
+  computeCredentialHash,
+  getRecipientCommitment,
+  CANONICALIZATION_JCS,
+} from "../vc/vcService";
+import issuanceWorker from "../jobs/issuanceWorker";
+import { getInstitutionSigningKey, getInstitutionAddress } from "../keys/keyManager";
+import { getEthrDid, getStudentDid } from "../did/didService";
 import config from "../config";
 
 interface AuthRequest extends Request {
   headers: Request["headers"];
   userId?: string;
   userRole?: string;
+  files?: Express.Multer.File[];
   body: any;
   query: any;
   params: any;
 }
 
+// Check the issuer and recipient of a new credential, signed with the managed key or the institution wallet
+const checkIssuanceParties = async (
+  issuerId: string,
+  recipientId: string,
+  signingMode: "managed" | "wallet" = "managed"
+) => {
+  // Verify issuer is an institution
+  const issuer = await User.findOne({ userId: issuerId });
+  if (!issuer || issuer.role !== "institution") {
+    return { error: { status: 403, message: "Only institutions can issue credentials" } };
+  }
+
+  // Students can also be addressed by their DID
+  if (recipientId && recipientId.startsWith("did:")) {
+    const subject = await Student.findOne({ did: recipientId });
+    if (!subject) {
+      return { error: { status: 404, message: "No student found for this DID" } };
+    }
+    recipientId = subject.userId;
+  }
+
+  // Verify recipient exists
+  const recipient = await User.findOne({ userId: recipientId });
+  if (!recipient || recipient.role !== "student") {
+    return { error: { status: 404, message: "Recipient not found or is not a student" } };
+  }
+
+  // Get recipient details
+  const student = await Student.findOne({ userId: recipientId });
+  if (!student) {
+    return { error: { status: 404, message: "Student profile not found" } };
+  }
+
+  // Get institution details
+  const institution = await Institution.findOne({ userId: issuerId });
+  if (!institution) {
+    return { error: { status: 404, message: "Institution profile not found" } };
+  }
+
+  if (signingMode === "wallet" && !issuer.walletAddress) {
+    return { error: { status: 400, message: "Institution wallet address not found" } };
+  }
+  if (signingMode === "managed" && !(await getInstitutionAddress(issuerId))) {
+    return { error: { status: 400, message: "Institution signing key not available" } };
+  }
+
+  return { issuer, recipientId };
+};
+
+// Network a new credential is anchored on: the requested chain, or the default network
+const resolveIssuanceNetwork = (chainId?: any) => {
+  try {
+    return { network: getNetwork(chainId ? Number(chainId) : undefined) };
+  } catch (error) {
+    return { error: { status: 400, message: error.message } };
+  }
+};
+
+// Pin the PDF files uploaded with an issuance request, encrypted for the issuer and recipient
+const pinAttachments = async (
+  files: Express.Multer.File[],
+  recipients: { credentialId: string; issuerId: string; recipientId: string }
+) => {
+  const names: string[] = [];
+
+  // Validate every file before pinning any, so a rejected request leaves nothing pinned
+  for (const file of files) {
+    const name = path.basename(file.originalname).replace(/[^\w.-]/g, "_");
+
+    if (file.buffer.subarray(0, 5).toString("latin1") !== "%PDF-") {
+      return { error: { status: 400, message: `Attachment ${file.originalname} is not a PDF file` } };
+    }
+    if (names.includes(name)) {
+      return { error: { status: 400, message: `Duplicate attachment name: ${name}` } };
+    }
+    names.push(name);
+  }
+
+  const attachments: IAttachment[] = [];
+
+  for (const [index, file] of files.entries()) {
+    const { ipfsHash, pins } = await pinToIPFS(file.buffer, recipients);
+
+    attachments.push({
+      name: names[index],
+      mediaType: "application/pdf",
+      size: file.size,
+      ipfsHash,
+      sha256: crypto.createHash("sha256").update(file.buffer).digest("hex"),
+      pins,
+    });
+  }
+
+  return { attachments };
+};
+
 // Issue a new credential
 export const issueNewCredential = async (req: AuthRequest, res: Response) => {
   try {
@@ -34,153 +165,342 @@ export const issueNewCredential = async (req: AuthRequest, res: Response) => {
       issueDate,
       expiryDate,
       category,
-      metadata,
+      chainId,
     } = req.body;
+    let { metadata } = req.body;
+
+    // Multipart requests carry metadata as a JSON string next to the files
+    if (typeof metadata === "string") {
+      try {
+        metadata = JSON.parse(metadata);
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          message: "metadata must be a JSON object",
+        });
+      }
+    }
 
     const credentialId = `CRED-${crypto.randomBytes(4).toString("hex")}`;
 
+    const check = await checkIssuanceParties(issuerId, recipientId);
+    if (check.error) {
+      return res.status(check.error.status).json({
+        success: false,
+        message: check.error.message,
+      });
+    }
 
-    // Verify issuer is an institution
-    const issuer = await User.findOne({ userId: issuerId });
-    if (!issuer || issuer.role !== "institution") {
-      return res.status(403).json({
+    const target = resolveIssuanceNetwork(chainId);
+    if (target.error) {
+      return res.status(target.error.status).json({
         success: false,
-        message: "Only institutions can issue credentials",
+        message: target.error.message,
       });
     }
 
-    // Verify recipient exists
-    const recipient = await User.findOne({ userId: recipientId });
-    if (!recipient || recipient.role !== "student") {
-      return res.status(404).json({
+    const uploaded = await pinAttachments(req.files || [], {
+      credentialId,
+      issuerId,
+      recipientId: check.recipientId,
+    });
+    if (uploaded.error) {
+      return res.status(uploaded.error.status).json({
         success: false,
-        message: "Recipient not found or is not a student",
+        message: uploaded.error.message,
       });
     }
 
-    // Get recipient details
-    const student = await Student.findOne({ userId: recipientId });
-    if (!student) {
+    // Queue issuance; the worker pins, submits and confirms it in the background
+    const job = new IssuanceJob({
+      jobId: `JOB-${crypto.randomBytes(6).toString("hex")}`,
+      credentialId,
+      issuerId,
+      recipientId: check.recipientId,
+      status: "pending",
+      chainId: target.network.chainId,
+      request: {
+        credentialType,
+        credentialName,
+        description,
+        category,
+        issueDate: new Date(issueDate),
+        expiryDate: expiryDate ? new Date(expiryDate) : undefined,
+        metadata: metadata || {},
+        attachments: uploaded.attachments.length > 0 ? uploaded.attachments : undefined,
+      },
+      maxAttempts: config.issuanceJobs.maxAttempts,
+      nextAttemptAt: new Date(),
+    });
+
+    await job.save();
+    issuanceWorker.notify();
+
+    return res.status(202).json({
+      success: true,
+      job: formatIssuanceJob(job),
+      statusUrl: `/api/credentials/jobs/${job.jobId}`,
+    });
+  } catch (error) {
+    console.error("Issue credential error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to issue credential",
+      error: error.message,
+    });
+  }
+};
+
+// Get the progress of a credential issuance job
+export const getIssuanceJob = async (req: AuthRequest, res: Response) => {
+  try {
+    const { jobId } = req.params;
+
+    const job = await IssuanceJob.findOne({ jobId });
+
+    if (!job) {
       return res.status(404).json({
         success: false,
-        message: "Student profile not found",
+        message: "Issuance job not found",
       });
     }
 
-    // Get institution details
-    const institution = await Institution.findOne({ userId: issuerId });
-    if (!institution) {
-      return res.status(404).json({
+    if (job.issuerId !== req.userId) {
+      return res.status(403).json({
         success: false,
-        message: "Institution profile not found",
+        message: "Access denied: You did not create this job",
       });
     }
 
-    // Create credential document to store on IPFS
-    const credentialDocument = {
+    return res.status(200).json({
+      success: true,
+      job: formatIssuanceJob(job),
+    });
+  } catch (error) {
+    console.error("Get issuance job error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to get issuance job",
+      error: error.message,
+    });
+  }
+};
+
+// Shape an issuance job for API responses
+const formatIssuanceJob = (job: IIssuanceJob) => ({
+  jobId: job.jobId,
+  credentialId: job.credentialId,
+  status: job.status,
+  signingMode: job.signingMode,
+  chainId: job.chainId,
+  ipfsHash: job.ipfsHash,
+  blockchainTxHash: job.txHash,
+  attempts: job.attempts,
+  lastError: job.lastError,
+  nextAttemptAt: ["confirmed", "failed"].includes(job.status) ? undefined : job.nextAttemptAt,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  completedAt: job.completedAt,
+});
+
+// Prepare a credential for the institution to sign in its own wallet
+export const prepareWalletIssuance = async (req: AuthRequest, res: Response) => {
+  try {
+    const issuerId = req.userId;
+    const {
+      recipientId,
       credentialType,
       credentialName,
       description,
+      issueDate,
+      expiryDate,
       category,
-      issuer: {
-        name: institution.name,
-        country: institution.country,
-        userId: issuerId,
-      },
-      recipient: {
-        name: `${student.firstName} ${student.lastName}`,
-        studentId: student.studentId,
-        userId: recipientId,
-      },
-      issueDate: new Date(issueDate),
-      expiryDate: expiryDate ? new Date(expiryDate) : null,
       metadata,
-      issuedOn: new Date(),
-    };
-
-    // Generate hash of the credential
-    const credentialHash = crypto
-      .createHash("sha256")
-      .update(JSON.stringify(credentialDocument))
-      .digest("hex");
+      chainId,
+    } = req.body;
 
-    // Upload to IPFS
-    const ipfsHash = await uploadToIPFS(credentialDocument);
+    const check = await checkIssuanceParties(issuerId, recipientId, "wallet");
+    if (check.error) {
+      return res.status(check.error.status).json({
+        success: false,
+        message: check.error.message,
+      });
+    }
 
-    // Issue on blockchain
-    if (!issuer.walletAddress) {
-      return res.status(400).json({
+    const target = resolveIssuanceNetwork(chainId);
+    if (target.error) {
+      return res.status(target.error.status).json({
         success: false,
-        message: "Institution wallet address not found",
+        message: target.error.message,
       });
     }
 
-    // In a real implementation, the institution's private key would be securely managed
-    // For demo purposes, we're using a fixed key from config
-    const blockchainResult = await issueCredential(
-      config.blockchain.institutionPrivateKey,
-      credentialId,
-      recipientId,
-      credentialHash,
-      ipfsHash,
-      expiryDate ? Math.floor(new Date(expiryDate).getTime() / 1000) : 0
-    );
+    const job = new IssuanceJob({
+      jobId: `JOB-${crypto.randomBytes(6).toString("hex")}`,
+      credentialId: `CRED-${crypto.randomBytes(4).toString("hex")}`,
+      issuerId,
+      recipientId: check.recipientId,
+      status: "pending",
+      signingMode: "wallet",
+      signerAddress: check.issuer.walletAddress,
+      chainId: target.network.chainId,
+      request: {
+        credentialType,
+        credentialName,
+        description,
+        category,
+        issueDate: new Date(issueDate),
+        expiryDate: expiryDate ? new Date(expiryDate) : undefined,
+        metadata: metadata || {},
+      },
+      maxAttempts: config.issuanceJobs.maxAttempts,
+      nextAttemptAt: new Date(),
+    });
+
+    await job.save();
+
+    let unsignedTransaction;
+    try {
+      unsignedTransaction = await issuanceWorker.prepareWalletJob(job);
+    } catch (error) {
+      job.status = "failed";
+      job.lastError = error.message;
+      job.completedAt = new Date();
+      await job.save();
 
-    if (!blockchainResult.success) {
       return res.status(500).json({
         success: false,
-        message: "Failed to issue credential on blockchain",
-        error: blockchainResult.error,
+        message: "Failed to prepare credential transaction",
+        error: error.message,
       });
     }
 
-    // Create credential in database
-    const credential = new Credential({
-      credentialId: credentialId,
-      credentialType,
-      credentialName,
-      description,
-      category,
-      issuerId,
-      recipientId,
-      recipientName: `${student.firstName} ${student.lastName}`,
-      recipientStudentId: student.studentId,
-      issueDate: new Date(issueDate),
-      expiryDate: expiryDate ? new Date(expiryDate) : undefined,
-      status: "active",
-      metadata,
-      blockchainTxHash: blockchainResult.txHash,
-      ipfsHash,
-      verifications: 0,
+    // With the relayer enabled the wallet can sign a gasless forward request instead
+    const forwardRequest = isRelayerAvailable(job.chainId)
+      ? (await buildForwardRequest(job.signerAddress, unsignedTransaction.data)).typedData
+      : undefined;
+
+    return res.status(200).json({
+      success: true,
+      job: formatIssuanceJob(job),
+      credential: job.credentialDocument,
+      unsignedTransaction,
+      forwardRequest,
+      submitUrl: `/api/credentials/wallet/issue/${job.jobId}/submit`,
+    });
+  } catch (error) {
+    console.error("Prepare wallet issuance error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to prepare credential",
+      error: error.message,
     });
+  }
+};
 
-    await credential.save();
+// Broadcast a wallet-signed issuance transaction and hand the job to the worker
+export const submitWalletIssuance = async (req: AuthRequest, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const { signedTransaction, forwardRequest, signature } = req.body;
+
+    if (!signedTransaction && !(forwardRequest && signature)) {
+      return res.status(400).json({
+        success: false,
+        message: "A signed transaction or a signed forward request is required",
+      });
+    }
+
+    const job = await IssuanceJob.findOne({ jobId });
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: "Issuance job not found",
+      });
+    }
+
+    if (job.issuerId !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied: You did not create this job",
+      });
+    }
+
+    if (job.signingMode !== "wallet" || job.status !== "awaiting-signature") {
+      return res.status(409).json({
+        success: false,
+        message: `Job is not awaiting a signature (status: ${job.status})`,
+      });
+    }
+
+    const broadcast = await submitWalletSignedCall({ institutionId: job.issuerId, action: "issue", credentialId: job.credentialId }, req.body, {
+      from: job.signerAddress,
+      to: job.unsignedTransaction.to,
+      data: job.unsignedTransaction.data,
+    }, job.chainId);
+
+    if (!broadcast.success) {
+      return res.status(SEND_FAILURE_STATUS[broadcast.code] || 400).json({
+        success: false,
+        message: "Failed to broadcast signed transaction",
+        error: broadcast.error,
+        retryAt: broadcast.retryAt,
+      });
+    }
 
-    // Update student's credentials count
-    student.credentialsCount += 1;
-    await student.save();
+    job.txHash = broadcast.txHash;
+    job.status = "submitted";
+    job.nextAttemptAt = new Date();
+    await job.save();
+    issuanceWorker.notify();
 
-    return res.status(201).json({
+    return res.status(202).json({
       success: true,
-      credential: {
-        credentialId: credential.credentialId,
-        credentialType: credential.credentialType,
-        recipientName: credential.recipientName,
-        issueDate: credential.issueDate,
-        blockchainTxHash: credential.blockchainTxHash,
-        ipfsHash: credential.ipfsHash,
-      },
+      job: formatIssuanceJob(job),
+      statusUrl: `/api/credentials/jobs/${job.jobId}`,
     });
   } catch (error) {
-    console.error("Issue credential error:", error);
+    console.error("Submit wallet issuance error:", error);
     return res.status(500).json({
       success: false,
-      message: "Failed to issue credential",
+      message: "Failed to submit signed credential",
       error: error.message,
     });
   }
 };
 
+// Response status of a send refused by the relayer quota or the gas policy
+const SEND_FAILURE_STATUS: Record<string, number> = {
+  QUOTA_EXCEEDED: 429,
+  DAILY_CAP_EXCEEDED: 429,
+  FEES_ABOVE_CAP: 503,
+  TRANSACTION_COST_CAP_EXCEEDED: 503,
+};
+
+// Relay a wallet-signed forward request, or broadcast a wallet-signed transaction
+const submitWalletSignedCall = async (
+  context: TransactionContext,
+  body: any,
+  expected: { from: string; to: string; data: string },
+  chainId?: number
+): Promise<{ success: boolean; txHash?: string; error?: string; code?: string; retryAt?: Date }> => {
+  if (!body.signature) {
+    return broadcastSignedTransaction(body.signedTransaction, expected, chainId);
+  }
+
+  if (!isRelayerAvailable(chainId)) {
+    return { success: false, error: "Gasless relaying is not enabled on this network", code: "RELAYER_DISABLED" };
+  }
+
+  try {
+    const tx = await relayForwardRequest(context, body.forwardRequest, body.signature, expected);
+    return { success: true, txHash: tx.hash };
+  } catch (error) {
+    return { success: false, error: error.message, code: error.code, retryAt: error.retryAt };
+  }
+};
+
 // Get credentials (filtered by role)
 export const getCredentials = async (req: AuthRequest, res: Response) => {
   try {
@@ -348,18 +668,30 @@ export const getCredentialDetails = async (req: AuthRequest, res: Response) => {
       metadata: credential.metadata,
       recipient: {
         id: credential.recipientId,
+        did: credential.recipientDid,
         name: credential.recipientName,
         studentId: credential.recipientStudentId,
       },
       issuer: {
         id: credential.issuerId,
+        did: credential.issuerAddress ? getEthrDid(credential.issuerAddress, credential.chainId) : undefined,
         name: issuer ? issuer.name : "Unknown Institution",
       },
       blockchain: {
         txHash: credential.blockchainTxHash,
-        verificationUrl: `https://etherscan.io/tx/${credential.blockchainTxHash}`,
+        network: getNetwork(credential.chainId).name,
+        chainId: getNetwork(credential.chainId).chainId,
+        verificationUrl: getExplorerTxUrl(credential.blockchainTxHash, credential.chainId),
         ipfsHash: credential.ipfsHash,
+        pins: credential.pins,
       },
+      attachments: (credential.attachments || []).map((attachment) => ({
+        name: attachment.name,
+        mediaType: attachment.mediaType,
+        size: attachment.size,
+        sha256: attachment.sha256,
+        url: `/api/credentials/${credential.credentialId}/attachments/${encodeURIComponent(attachment.name)}`,
+      })),
       verifications: {
         count: credential.verifications,
         lastVerified: credential.lastVerified,
@@ -377,69 +709,423 @@ export const getCredentialDetails = async (req: AuthRequest, res: Response) => {
   }
 };
 
-
-export const issueBatchCredentials = async (req: AuthRequest, res: Response) => {
+// Get the credential document pinned to IPFS, decrypted for its issuer or recipient
+export const getCredentialDocument = async (req: AuthRequest, res: Response) => {
   try {
-    const issuerId = req.userId;
-    const { credentials } = req.body;
+    const userId = req.userId;
+    const { id } = req.params;
 
-    // Validate input
-    if (!credentials || !Array.isArray(credentials)) {
-      return res.status(400).json({
+    const credential = await Credential.findOne({ credentialId: id });
+
+    if (!credential) {
+      return res.status(404).json({
         success: false,
-        message: "Invalid request: 'credentials' array is required",
+        message: "Credential not found",
       });
     }
 
-    // Enforce batch size limit
-    const MAX_BATCH_SIZE = 50;
-    if (credentials.length > MAX_BATCH_SIZE) {
-      return res.status(400).json({
+    if (credential.issuerId !== userId && credential.recipientId !== userId) {
+      return res.status(403).json({
         success: false,
-        message: `Batch size exceeds maximum limit of ${MAX_BATCH_SIZE}`,
+        message: "Access denied: You are not a party to this credential",
       });
     }
 
-    // Verify issuer is an institution
-    const issuer = await User.findOne({ userId: issuerId });
-    if (!issuer || issuer.role !== "institution") {
+    const document = await getFromIPFS(credential.ipfsHash, { userId });
+
+    return res.status(200).json({
+      success: true,
+      ipfsHash: credential.ipfsHash,
+      document,
+    });
+  } catch (error) {
+    // No copy of the document key was wrapped for this user
+    if (error instanceof DocumentAccessError) {
       return res.status(403).json({
         success: false,
-        message: "Only institutions can issue credentials",
+        message: error.message,
       });
     }
 
-    const institution = await Institution.findOne({ userId: issuerId });
-    if (!institution) {
+    console.error("Get credential document error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to get credential document",
+      error: error.message,
+    });
+  }
+};
+
+
+// Stream a file attached to a credential to its issuer or recipient
+export const getCredentialAttachment = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    const { id, name } = req.params;
+
+    const credential = await Credential.findOne({ credentialId: id });
+
+    if (!credential) {
       return res.status(404).json({
         success: false,
-        message: "Institution profile not found",
+        message: "Credential not found",
       });
     }
 
-    // Results tracking
-    const results = {
-      successful: [],
-      failed: [],
-      totalGasUsed: "0",
-      totalTimeMs: 0,
-    };
+    if (credential.issuerId !== userId && credential.recipientId !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied: You are not a party to this credential",
+      });
+    }
 
-    const startTime = Date.now();
+    const attachment = (credential.attachments || []).find((candidate) => candidate.name === name);
 
-    // Validate all credentials before processing
-    for (let i = 0; i < credentials.length; i++) {
-      const cred = credentials[i];
-      
-      // Basic validation
-      if (!cred.studentId || !cred.name || !cred.degree) {
-        results.failed.push({
-          index: i,
-          studentId: cred.studentId,
-          error: "Missing required fields",
-        });
-        continue;
-      }
+    if (!attachment) {
+      return res.status(404).json({
+        success: false,
+        message: "Attachment not found",
+      });
+    }
+
+    const content = await getFileFromIPFS(attachment.ipfsHash, { userId });
+
+    // The hash is the one anchored through the credential document
+    if (crypto.createHash("sha256").update(content).digest("hex") !== attachment.sha256) {
+      return res.status(502).json({
+        success: false,
+        message: "Attachment content does not match its recorded SHA-256",
+      });
+    }
+
+    res.setHeader("Content-Type", attachment.mediaType);
+    res.setHeader("Content-Length", content.length);
+    res.setHeader("Content-Disposition", `inline; filename="${attachment.name}"`);
+    return res.status(200).end(content);
+  } catch (error) {
+    if (error instanceof DocumentAccessError) {
+      return res.status(403).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    console.error("Get credential attachment error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to get credential attachment",
+      error: error.message,
+    });
+  }
+};
+
+// Verification-only share link without expiry that printed certificates point at
+const getCertificateShareLink = async (credentialId: string, ownerId: string) => {
+  const existing = await ShareableLink.findOne({
+    credentialId,
+    accessLevel: "verification",
+    status: "active",
+    expiryDate: { $exists: false },
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  const shareableLink = new ShareableLink({
+    shareId: `SHARE-${crypto.randomBytes(6).toString("hex")}`,
+    credentialId,
+    ownerId,
+    accessLevel: "verification",
+    accessCount: 0,
+    status: "active",
+  });
+
+  return shareableLink.save();
+};
+
+// Render a credential as a printable PDF certificate for its issuer or recipient
+export const getCredentialCertificate = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    const { id } = req.params;
+
+    const credential = await Credential.findOne({ credentialId: id });
+
+    if (!credential) {
+      return res.status(404).json({
+        success: false,
+        message: "Credential not found",
+      });
+    }
+
+    if (credential.issuerId !== userId && credential.recipientId !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied: You are not a party to this credential",
+      });
+    }
+
+    // The document is pinned by the issuance worker
+    if (!credential.ipfsHash) {
+      return res.status(409).json({
+        success: false,
+        message: "Credential has not been issued yet",
+      });
+    }
+
+    const [document, institution, shareableLink] = await Promise.all([
+      getFromIPFS(credential.ipfsHash, { userId }),
+      Institution.findOne({ userId: credential.issuerId }),
+      getCertificateShareLink(credential.credentialId, credential.recipientId),
+    ]);
+
+    const pdf = await renderCertificate({
+      credential,
+      document,
+      institutionName: institution?.name || "Unknown Institution",
+      template: institution?.certificateTemplate,
+      verifyUrl: `${config.frontend.baseUrl}/verify/${shareableLink.shareId}`,
+    });
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Length", pdf.length);
+    res.setHeader("Content-Disposition", `inline; filename="${credential.credentialId}.pdf"`);
+    return res.status(200).end(pdf);
+  } catch (error) {
+    if (error instanceof DocumentAccessError) {
+      return res.status(403).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    console.error("Get credential certificate error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to render credential certificate",
+      error: error.message,
+    });
+  }
+};
+
+// QR code of a signed verification payload, as PNG or SVG, for the issuer or
+// recipient of a credential; `shareId` binds it to one of the credential's share links
+export const getCredentialQrCode = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    const { id, format } = req.params;
+    const { shareId } = req.query;
+    const size = req.query.size ? parseInt(req.query.size as string) : 512;
+
+    if (format !== "png" && format !== "svg") {
+      return res.status(400).json({
+        success: false,
+        message: "QR codes are available as png or svg",
+      });
+    }
+
+    if (isNaN(size) || size < 128 || size > 2048) {
+      return res.status(400).json({
+        success: false,
+        message: "size must be between 128 and 2048 pixels",
+      });
+    }
+
+    const credential = await Credential.findOne({ credentialId: id });
+
+    if (!credential) {
+      return res.status(404).json({
+        success: false,
+        message: "Credential not found",
+      });
+    }
+
+    if (credential.issuerId !== userId && credential.recipientId !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied: You are not a party to this credential",
+      });
+    }
+
+    if (!credential.blockchainTxHash) {
+      return res.status(409).json({
+        success: false,
+        message: "Credential has not been issued yet",
+      });
+    }
+
+    if (shareId) {
+      const shareableLink = await ShareableLink.findOne({ shareId, credentialId: credential.credentialId });
+
+      if (!shareableLink || shareableLink.status !== "active") {
+        return res.status(404).json({
+          success: false,
+          message: "Share link not found or inactive",
+        });
+      }
+    }
+
+    // Payloads are signed with the issuer's custodial key; wallet-only issuers have none
+    if (!(await getInstitutionAddress(credential.issuerId))) {
+      return res.status(409).json({
+        success: false,
+        message: "The issuer has no signing key to sign QR codes with",
+      });
+    }
+
+    const payload = encodeQrPayload(
+      {
+        credentialId: credential.credentialId,
+        chainId: getNetwork(credential.chainId).chainId,
+        credentialHash: credential.credentialHash,
+        shareId: shareId as string | undefined,
+        issuedAt: new Date(),
+      },
+      await getInstitutionSigningKey(credential.issuerId)
+    );
+    const url = `${config.frontend.baseUrl}/verify/qr?${QR_PAYLOAD_PARAM}=${payload}`;
+    const options = { errorCorrectionLevel: "M" as const, margin: 2, width: size };
+
+    if (format === "svg") {
+      res.setHeader("Content-Type", "image/svg+xml");
+      return res.status(200).send(await QRCode.toString(url, { ...options, type: "svg" }));
+    }
+
+    res.setHeader("Content-Type", "image/png");
+    return res.status(200).end(await QRCode.toBuffer(url, { ...options, type: "png" }));
+  } catch (error) {
+    console.error("Get credential QR code error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to generate QR code",
+      error: error.message,
+    });
+  }
+};
+
+// Export a self-contained bundle that verifies the credential without this API
+export const getCredentialBundle = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId;
+    const { id } = req.params;
+
+    const credential = await Credential.findOne({ credentialId: id });
+
+    if (!credential) {
+      return res.status(404).json({
+        success: false,
+        message: "Credential not found",
+      });
+    }
+
+    if (credential.issuerId !== userId && credential.recipientId !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied: You are not a party to this credential",
+      });
+    }
+
+    if (!credential.blockchainTxHash || !credential.ipfsHash) {
+      return res.status(409).json({
+        success: false,
+        message: "Credential has not been anchored yet",
+      });
+    }
+
+    const document = await getFromIPFS(credential.ipfsHash, { userId });
+    const bundle = await exportCredentialBundle(credential, document);
+
+    res.setHeader("Content-Disposition", `attachment; filename="${credential.credentialId}.bundle.json"`);
+    return res.status(200).json(bundle);
+  } catch (error) {
+    if (error instanceof DocumentAccessError) {
+      return res.status(403).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    console.error("Export credential bundle error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to export credential bundle",
+      error: error.message,
+    });
+  }
+};
+
+export const issueBatchCredentials = async (req: AuthRequest, res: Response) => {
+  try {
+    const issuerId = req.userId;
+    const { credentials, chainId } = req.body;
+
+    // Validate input
+    if (!credentials || !Array.isArray(credentials)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid request: 'credentials' array is required",
+      });
+    }
+
+    // Enforce batch size limit
+    const MAX_BATCH_SIZE = 2000;
+    if (credentials.length > MAX_BATCH_SIZE) {
+      return res.status(400).json({
+        success: false,
+        message: `Batch size exceeds maximum limit of ${MAX_BATCH_SIZE}`,
+      });
+    }
+
+    // Verify issuer is an institution
+    const issuer = await User.findOne({ userId: issuerId });
+    if (!issuer || issuer.role !== "institution") {
+      return res.status(403).json({
+        success: false,
+        message: "Only institutions can issue credentials",
+      });
+    }
+
+    const institution = await Institution.findOne({ userId: issuerId });
+    if (!institution) {
+      return res.status(404).json({
+        success: false,
+        message: "Institution profile not found",
+      });
+    }
+
+    const target = resolveIssuanceNetwork(chainId);
+    if (target.error) {
+      return res.status(target.error.status).json({
+        success: false,
+        message: target.error.message,
+      });
+    }
+    const { network } = target;
+
+    // Results tracking
+    const results = {
+      successful: [],
+      failed: [],
+      totalGasUsed: "0",
+      totalTimeMs: 0,
+    };
+
+    const startTime = Date.now();
+
+    // Validate all credentials before processing
+    for (let i = 0; i < credentials.length; i++) {
+      const cred = credentials[i];
+      
+      // Basic validation
+      if (!cred.studentId || !cred.name || !cred.degree) {
+        results.failed.push({
+          index: i,
+          studentId: cred.studentId,
+          error: "Missing required fields",
+        });
+        continue;
+      }
 
       // Check if recipient exists
       const recipient = await Student.findOne({ studentId: cred.studentId });
@@ -458,102 +1144,84 @@ export const issueBatchCredentials = async (req: AuthRequest, res: Response) =>
       !results.failed.find(f => f.index === index)
     );
 
-    // Process each credential
+    // Institution key used to sign each credential document
+    let signingKey: string;
+    try {
+      signingKey = await getInstitutionSigningKey(issuerId);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: "Institution signing key not available",
+        error: error.message,
+      });
+    }
+
+    // Batch identifier shared by every credential under one Merkle root
+    const batchId = `BATCH-${crypto.randomBytes(6).toString("hex")}`;
+    const prepared = [];
+
+    // Build, hash and pin each credential document
     for (const credData of validCredentials) {
       try {
         const credentialId = `CRED-${crypto.randomBytes(4).toString("hex")}`;
+        const issueDate = new Date();
         const student = await Student.findOne({ studentId: credData.studentId });
-        const recipientUser = await User.findOne({ userId: student.userId });
-
-        // Create credential document for IPFS
-        const credentialDocument = {
-          credentialType: credData.degree,
-          credentialName: credData.name,
-          description: credData.description || "",
-          category: credData.category || "Degree",
-          issuer: {
-            name: institution.name,
-            country: institution.country,
-            userId: issuerId,
-          },
-          recipient: {
-            name: `${student.firstName} ${student.lastName}`,
-            studentId: student.studentId,
-            userId: student.userId,
+        const recipientDid = await getStudentDid(student.userId);
+
+        // Create signed Verifiable Credential for IPFS
+        const credentialDocument = issueVerifiableCredential(
+          {
+            credentialId,
+            credentialType: credData.degree,
+            credentialName: credData.name,
+            description: credData.description || "",
+            category: credData.category || "Degree",
+            issuer: {
+              name: institution.name,
+              country: institution.country,
+              userId: issuerId,
+            },
+            recipient: {
+              did: recipientDid,
+              name: `${student.firstName} ${student.lastName}`,
+              studentId: student.studentId,
+              userId: student.userId,
+            },
+            issueDate,
+            expiryDate: credData.expiryDate ? new Date(credData.expiryDate) : null,
+            metadata: credData.metadata || {},
+            batchId,
+            chainId: network.chainId,
           },
-          issueDate: new Date(),
-          expiryDate: credData.expiryDate ? new Date(credData.expiryDate) : null,
-          metadata: credData.metadata || {},
-          issuedOn: new Date(),
-        };
+          signingKey
+        );
 
-        // Generate hash
-        const credentialHash = crypto
-          .createHash("sha256")
-          .update(JSON.stringify(credentialDocument))
-          .digest("hex");
+        // Generate hash of the canonicalized credential
+        const credentialHash = computeCredentialHash(credentialDocument);
+        const recipientCommitment = getRecipientCommitment(credentialDocument);
 
         // Upload to IPFS
         let ipfsHash = credData.ipfsHash;
+        let pins;
         if (!ipfsHash) {
-          ipfsHash = await uploadToIPFS(credentialDocument);
+          ({ ipfsHash, pins } = await pinToIPFS(credentialDocument, {
+            credentialId,
+            issuerId,
+            recipientId: student.userId,
+          }));
         }
 
-        // Issue on blockchain with gas tracking
-        const gasStartTime = Date.now();
-        const blockchainResult = await issueCredential(
-          config.blockchain.institutionPrivateKey,
+        prepared.push({
+          credData,
           credentialId,
-          student.userId,
+          issueDate,
+          student,
+          recipientDid,
+          recipientCommitment,
           credentialHash,
           ipfsHash,
-          credData.expiryDate ? Math.floor(new Date(credData.expiryDate).getTime() / 1000) : 0
-        );
-
-        if (!blockchainResult.success) {
-          results.failed.push({
-            index: credentials.indexOf(credData),
-            studentId: credData.studentId,
-            error: blockchainResult.error,
-          });
-          continue;
-        }
-
-        // Save to database
-        const credential = new Credential({
-          credentialId,
-          credentialType: credData.degree,
-          credentialName: credData.name,
-          description: credData.description || "",
-          category: credData.category || "Degree",
-          issuerId,
-          recipientId: student.userId,
-          recipientName: `${student.firstName} ${student.lastName}`,
-          recipientStudentId: student.studentId,
-          issueDate: new Date(),
-          expiryDate: credData.expiryDate ? new Date(credData.expiryDate) : undefined,
-          status: "active",
-          metadata: credData.metadata || {},
-          blockchainTxHash: blockchainResult.txHash,
-          ipfsHash,
-          verifications: 0,
-        });
-
-        await credential.save();
-
-        // Update student's credentials count
-        student.credentialsCount += 1;
-        await student.save();
-
-        results.successful.push({
-          credentialId,
-          studentId: credData.studentId,
-          txHash: blockchainResult.txHash,
-          ipfsHash,
-          gasUsed: blockchainResult.gasUsed || "0",
-          timeMs: Date.now() - gasStartTime,
+          pins,
         });
-
       } catch (error) {
         results.failed.push({
           index: credentials.indexOf(credData),
@@ -561,18 +1229,106 @@ export const issueBatchCredentials = async (req: AuthRequest, res: Response) =>
           error: error.message,
         });
       }
+    }
 
-      // Add delay between transactions to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 500));
+    if (prepared.length > 0) {
+      // Anchor a single Merkle root for the whole batch
+      const { root, proofs } = buildMerkleTree(
+        prepared.map((item) => getCredentialLeaf(item.credentialId, item.credentialHash))
+      );
+
+      const anchorStartTime = Date.now();
+      const blockchainResult = await anchorBatch(
+        issuerId,
+        batchId,
+        root,
+        prepared.length,
+        network.chainId
+      );
+
+      if (!blockchainResult.success) {
+        prepared.forEach((item) => {
+          results.failed.push({
+            index: credentials.indexOf(item.credData),
+            studentId: item.credData.studentId,
+            error: blockchainResult.error,
+          });
+        });
+      } else {
+        results.totalGasUsed = blockchainResult.gasUsed || "0";
+
+        // Save each credential with its membership proof
+        for (let i = 0; i < prepared.length; i++) {
+          const {
+            credData,
+            credentialId,
+            issueDate,
+            student,
+            recipientDid,
+            recipientCommitment,
+            credentialHash,
+            ipfsHash,
+            pins,
+          } = prepared[i];
+
+          try {
+            const credential = new Credential({
+              credentialId,
+              credentialType: credData.degree,
+              credentialName: credData.name,
+              description: credData.description || "",
+              category: credData.category || "Degree",
+              issuerId,
+              recipientId: student.userId,
+              recipientDid,
+              recipientCommitment,
+              recipientName: `${student.firstName} ${student.lastName}`,
+              recipientStudentId: student.studentId,
+              issueDate,
+              expiryDate: credData.expiryDate ? new Date(credData.expiryDate) : undefined,
+              status: "active",
+              metadata: credData.metadata || {},
+              blockchainTxHash: blockchainResult.txHash,
+              chainId: network.chainId,
+              contractVersion: network.contractVersion,
+              ipfsHash,
+              pins,
+              canonicalization: CANONICALIZATION_JCS,
+              credentialHash,
+              batchId,
+              merkleRoot: root,
+              merkleProof: proofs[i],
+              issuerAddress: ethers.utils.computeAddress(signingKey),
+              verifications: 0,
+            });
+
+            await credential.save();
+
+            // Update student's credentials count
+            student.credentialsCount += 1;
+            await student.save();
+
+            results.successful.push({
+              credentialId,
+              studentId: credData.studentId,
+              txHash: blockchainResult.txHash,
+              ipfsHash,
+              batchId,
+              timeMs: Date.now() - anchorStartTime,
+            });
+          } catch (error) {
+            results.failed.push({
+              index: credentials.indexOf(credData),
+              studentId: credData.studentId,
+              error: error.message,
+            });
+          }
+        }
+      }
     }
 
     results.totalTimeMs = Date.now() - startTime;
 
-    // Calculate total gas
-    results.totalGasUsed = results.successful
-      .reduce((sum, item) => sum + BigInt(item.gasUsed || 0), BigInt(0))
-      .toString();
-
     return res.status(200).json({
       success: true,
       summary: {
@@ -580,6 +1336,8 @@ export const issueBatchCredentials = async (req: AuthRequest, res: Response) =>
         successful: results.successful.length,
         failed: results.failed.length,
         totalGasUsed: results.totalGasUsed,
+        batchId,
+        chainId: network.chainId,
         totalTimeMs: results.totalTimeMs,
         avgTimePerCredential: results.totalTimeMs / credentials.length,
       },
@@ -597,12 +1355,25 @@ export const issueBatchCredentials = async (req: AuthRequest, res: Response) =>
 };
 
 
+// Status changes are only written to the current registry of the credential's network
+const legacyRegistryMessage = (location: RegistryLocation) => {
+  const network = getNetwork(location.chainId);
+  return `Credential is held by registry version ${location.contractVersion} on ${network.name}; migrate it to version ${network.contractVersion} before changing its status`;
+};
+
 // Revoke a credential
 export const revokeACredential = async (req: AuthRequest, res: Response) => {
   try {
     const issuerId = req.userId;
     const { id } = req.params;
-    const { reason } = req.body;
+    const { reason, reasonCode = "unspecified" } = req.body;
+
+    if (!(reasonCode in REVOCATION_REASONS)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid revocation reason code. Expected one of: ${Object.keys(REVOCATION_REASONS).join(", ")}`,
+      });
+    }
 
     const credential = await Credential.findOne({ credentialId: id });
 
@@ -629,25 +1400,37 @@ export const revokeACredential = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Revoke on blockchain
-    const issuer = await User.findOne({ userId: issuerId });
-    if (!issuer || !issuer.walletAddress) {
+    if (!isCurrentRegistry(credential)) {
+      return res.status(409).json({
+        success: false,
+        message: legacyRegistryMessage(credential),
+      });
+    }
+
+    // Only the address that issued a credential can revoke it on-chain
+    if (credential.signingMode === "wallet") {
       return res.status(400).json({
         success: false,
-        message: "Institution wallet address not found",
+        message: "Credential was issued from the institution wallet; revoke it with the wallet flow",
       });
     }
 
+    // Revoke on blockchain with the managed key the credential was anchored from
     const blockchainResult = await revokeCredential(
-      config.blockchain.institutionPrivateKey,
-      credential.credentialId
+      issuerId,
+      credential.credentialId,
+      credential.batchId,
+      REVOCATION_REASONS[reasonCode],
+      credential.chainId,
+      credential.issuerAddress
     );
 
     if (!blockchainResult.success) {
-      return res.status(500).json({
+      return res.status(SEND_FAILURE_STATUS[blockchainResult.code] || 500).json({
         success: false,
         message: "Failed to revoke credential on blockchain",
         error: blockchainResult.error,
+        retryAt: blockchainResult.retryAt,
       });
     }
 
@@ -655,6 +1438,7 @@ export const revokeACredential = async (req: AuthRequest, res: Response) => {
     credential.status = "revoked";
     credential.revokedDate = new Date();
     credential.revokedReason = reason;
+    credential.revocationReasonCode = reasonCode;
 
     await credential.save();
 
@@ -665,6 +1449,7 @@ export const revokeACredential = async (req: AuthRequest, res: Response) => {
         status: credential.status,
         revokedDate: credential.revokedDate,
         revokedReason: credential.revokedReason,
+        revocationReasonCode: credential.revocationReasonCode,
         blockchainTxHash: blockchainResult.txHash,
       },
     });
@@ -678,6 +1463,648 @@ export const revokeACredential = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// Load a credential whose status the institution manages, with its server-side key or from its wallet
+const findManagedCredential = async (
+  issuerId: string,
+  credentialId: string,
+  signingMode: "managed" | "wallet" = "managed"
+) => {
+  const credential = await Credential.findOne({ credentialId });
+
+  if (!credential) {
+    return { error: { status: 404, message: "Credential not found" } };
+  }
+
+  if (credential.issuerId !== issuerId) {
+    return { error: { status: 403, message: "Only the issuing institution can change a credential's status" } };
+  }
+
+  if (!isCurrentRegistry(credential)) {
+    return { error: { status: 409, message: legacyRegistryMessage(credential) } };
+  }
+
+  // Only the address that issued a credential can change its status on-chain
+  if (signingMode === "managed" && credential.signingMode === "wallet") {
+    return { error: { status: 400, message: "Credential was issued from the institution wallet; use the wallet flow" } };
+  }
+  if (signingMode === "wallet" && credential.signingMode !== "wallet") {
+    return { error: { status: 400, message: "Credential was not issued from the institution wallet" } };
+  }
+
+  return { credential };
+};
+
+// Suspend a credential (reversible hold)
+export const suspendACredential = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { reason, reasonCode = "unspecified" } = req.body;
+
+    if (!(reasonCode in SUSPENSION_REASONS)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid suspension reason code. Expected one of: ${Object.keys(SUSPENSION_REASONS).join(", ")}`,
+      });
+    }
+
+    const check = await findManagedCredential(req.userId, id);
+    if (check.error) {
+      return res.status(check.error.status).json({
+        success: false,
+        message: check.error.message,
+      });
+    }
+
+    const { credential } = check;
+    if (credential.status !== "active") {
+      return res.status(400).json({
+        success: false,
+        message: `Only active credentials can be suspended (status: ${credential.status})`,
+      });
+    }
+
+    const blockchainResult = await suspendCredential(
+      req.userId,
+      credential.credentialId,
+      credential.batchId,
+      SUSPENSION_REASONS[reasonCode],
+      credential.chainId,
+      credential.issuerAddress
+    );
+
+    if (!blockchainResult.success) {
+      return res.status(SEND_FAILURE_STATUS[blockchainResult.code] || 500).json({
+        success: false,
+        message: "Failed to suspend credential on blockchain",
+        error: blockchainResult.error,
+        retryAt: blockchainResult.retryAt,
+      });
+    }
+
+    credential.status = "suspended";
+    credential.suspendedDate = new Date();
+    credential.suspendedReason = reason;
+    credential.suspensionReasonCode = reasonCode;
+
+    await credential.save();
+
+    return res.status(200).json({
+      success: true,
+      credential: {
+        credentialId: credential.credentialId,
+        status: credential.status,
+        suspendedDate: credential.suspendedDate,
+        suspendedReason: credential.suspendedReason,
+        suspensionReasonCode: credential.suspensionReasonCode,
+        blockchainTxHash: blockchainResult.txHash,
+      },
+    });
+  } catch (error) {
+    console.error("Suspend credential error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to suspend credential",
+      error: error.message,
+    });
+  }
+};
+
+// Lift the suspension of a credential
+export const reinstateACredential = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const check = await findManagedCredential(req.userId, id);
+    if (check.error) {
+      return res.status(check.error.status).json({
+        success: false,
+        message: check.error.message,
+      });
+    }
+
+    const { credential } = check;
+    if (credential.status !== "suspended") {
+      return res.status(400).json({
+        success: false,
+        message: "Credential is not suspended",
+      });
+    }
+
+    const blockchainResult = await reinstateCredential(
+      req.userId,
+      credential.credentialId,
+      credential.batchId,
+      credential.chainId,
+      credential.issuerAddress
+    );
+
+    if (!blockchainResult.success) {
+      return res.status(SEND_FAILURE_STATUS[blockchainResult.code] || 500).json({
+        success: false,
+        message: "Failed to reinstate credential on blockchain",
+        error: blockchainResult.error,
+        retryAt: blockchainResult.retryAt,
+      });
+    }
+
+    credential.status = "active";
+    credential.suspendedDate = undefined;
+    credential.suspendedReason = undefined;
+    credential.suspensionReasonCode = undefined;
+
+    await credential.save();
+
+    return res.status(200).json({
+      success: true,
+      credential: {
+        credentialId: credential.credentialId,
+        status: credential.status,
+        blockchainTxHash: blockchainResult.txHash,
+      },
+    });
+  } catch (error) {
+    console.error("Reinstate credential error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to reinstate credential",
+      error: error.message,
+    });
+  }
+};
+
+// Load a credential the institution may revoke from its own wallet
+const findWalletRevocableCredential = async (issuerId: string, credentialId: string) => {
+  const credential = await Credential.findOne({ credentialId });
+
+  if (!credential) {
+    return { error: { status: 404, message: "Credential not found" } };
+  }
+
+  if (credential.issuerId !== issuerId) {
+    return { error: { status: 403, message: "Only the issuing institution can revoke a credential" } };
+  }
+
+  if (credential.status === "revoked") {
+    return { error: { status: 400, message: "Credential is already revoked" } };
+  }
+
+  if (!isCurrentRegistry(credential)) {
+    return { error: { status: 409, message: legacyRegistryMessage(credential) } };
+  }
+
+  if (credential.signingMode !== "wallet") {
+    return { error: { status: 400, message: "Credential was not issued from the institution wallet" } };
+  }
+
+  return { credential };
+};
+
+// Prepare a revocation for the institution to sign in its own wallet
+export const prepareWalletRevocation = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { reasonCode = "unspecified" } = req.body;
+
+    if (!(reasonCode in REVOCATION_REASONS)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid revocation reason code. Expected one of: ${Object.keys(REVOCATION_REASONS).join(", ")}`,
+      });
+    }
+
+    const check = await findWalletRevocableCredential(req.userId, id);
+    if (check.error) {
+      return res.status(check.error.status).json({
+        success: false,
+        message: check.error.message,
+      });
+    }
+
+    const { credential } = check;
+    const unsignedTransaction = await buildRevokeCredentialTransaction(
+      credential.issuerAddress,
+      credential.credentialId,
+      credential.batchId,
+      REVOCATION_REASONS[reasonCode],
+      credential.chainId
+    );
+    const forwardRequest = isRelayerAvailable(credential.chainId)
+      ? (await buildForwardRequest(credential.issuerAddress, unsignedTransaction.data)).typedData
+      : undefined;
+
+    return res.status(200).json({
+      success: true,
+      credentialId: credential.credentialId,
+      unsignedTransaction,
+      forwardRequest,
+      submitUrl: `/api/credentials/${credential.credentialId}/wallet/revoke/submit`,
+    });
+  } catch (error) {
+    console.error("Prepare wallet revocation error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to prepare revocation",
+      error: error.message,
+    });
+  }
+};
+
+// Broadcast a wallet-signed revocation and update the credential once mined
+export const submitWalletRevocation = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { signedTransaction, forwardRequest, signature, reason, reasonCode = "unspecified" } = req.body;
+
+    if (!signedTransaction && !(forwardRequest && signature)) {
+      return res.status(400).json({
+        success: false,
+        message: "A signed transaction or a signed forward request is required",
+      });
+    }
+
+    if (!(reasonCode in REVOCATION_REASONS)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid revocation reason code. Expected one of: ${Object.keys(REVOCATION_REASONS).join(", ")}`,
+      });
+    }
+
+    const check = await findWalletRevocableCredential(req.userId, id);
+    if (check.error) {
+      return res.status(check.error.status).json({
+        success: false,
+        message: check.error.message,
+      });
+    }
+
+    const { credential } = check;
+    const broadcast = await submitWalletSignedCall({
+      institutionId: credential.issuerId,
+      action: "revoke",
+      credentialId: credential.credentialId,
+      batchId: credential.batchId,
+    }, req.body, {
+      from: credential.issuerAddress,
+      ...getRevokeCredentialCall(
+        credential.credentialId,
+        credential.batchId,
+        REVOCATION_REASONS[reasonCode],
+        credential.chainId
+      ),
+    }, credential.chainId);
+
+    if (!broadcast.success) {
+      return res.status(SEND_FAILURE_STATUS[broadcast.code] || 400).json({
+        success: false,
+        message: "Failed to broadcast signed transaction",
+        error: broadcast.error,
+        retryAt: broadcast.retryAt,
+      });
+    }
+
+    const receipt = await waitForTransaction(
+      broadcast.txHash,
+      config.issuanceJobs.confirmationTimeoutMs,
+      credential.chainId
+    );
+    if (!receipt.success) {
+      return res.status(receipt.mined ? 500 : 202).json({
+        success: false,
+        message: receipt.mined
+          ? "Revocation transaction failed on blockchain"
+          : "Revocation transaction is still pending",
+        error: receipt.error,
+        blockchainTxHash: broadcast.txHash,
+      });
+    }
+
+    // Update in database
+    credential.status = "revoked";
+    credential.revokedDate = new Date();
+    credential.revokedReason = reason;
+    credential.revocationReasonCode = reasonCode;
+
+    await credential.save();
+
+    return res.status(200).json({
+      success: true,
+      credential: {
+        credentialId: credential.credentialId,
+        status: credential.status,
+        revokedDate: credential.revokedDate,
+        revokedReason: credential.revokedReason,
+        revocationReasonCode: credential.revocationReasonCode,
+        blockchainTxHash: broadcast.txHash,
+      },
+    });
+  } catch (error) {
+    console.error("Submit wallet revocation error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to revoke credential",
+      error: error.message,
+    });
+  }
+};
+
+// Broadcast a wallet-signed status change and wait for it to be mined
+const submitWalletStatusChange = async (
+  credential: ICredential,
+  action: "suspend" | "reinstate",
+  body: any,
+  call: { to: string; data: string }
+) => {
+  const label = action === "suspend" ? "Suspension" : "Reinstatement";
+  const broadcast = await submitWalletSignedCall({
+    institutionId: credential.issuerId,
+    action,
+    credentialId: credential.credentialId,
+    batchId: credential.batchId,
+  }, body, {
+    from: credential.issuerAddress,
+    ...call,
+  }, credential.chainId);
+
+  if (!broadcast.success) {
+    return {
+      error: {
+        status: SEND_FAILURE_STATUS[broadcast.code] || 400,
+        body: {
+          success: false,
+          message: "Failed to broadcast signed transaction",
+          error: broadcast.error,
+          retryAt: broadcast.retryAt,
+        },
+      },
+    };
+  }
+
+  const receipt = await waitForTransaction(
+    broadcast.txHash,
+    config.issuanceJobs.confirmationTimeoutMs,
+    credential.chainId
+  );
+  if (!receipt.success) {
+    return {
+      error: {
+        status: receipt.mined ? 500 : 202,
+        body: {
+          success: false,
+          message: receipt.mined
+            ? `${label} transaction failed on blockchain`
+            : `${label} transaction is still pending`,
+          error: receipt.error,
+          blockchainTxHash: broadcast.txHash,
+        },
+      },
+    };
+  }
+
+  return { txHash: broadcast.txHash };
+};
+
+// Prepare a suspension for the institution to sign in its own wallet
+export const prepareWalletSuspension = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { reasonCode = "unspecified" } = req.body;
+
+    if (!(reasonCode in SUSPENSION_REASONS)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid suspension reason code. Expected one of: ${Object.keys(SUSPENSION_REASONS).join(", ")}`,
+      });
+    }
+
+    const check = await findManagedCredential(req.userId, id, "wallet");
+    if (check.error) {
+      return res.status(check.error.status).json({
+        success: false,
+        message: check.error.message,
+      });
+    }
+
+    const { credential } = check;
+    if (credential.status !== "active") {
+      return res.status(400).json({
+        success: false,
+        message: `Only active credentials can be suspended (status: ${credential.status})`,
+      });
+    }
+
+    const unsignedTransaction = await buildSuspendCredentialTransaction(
+      credential.issuerAddress,
+      credential.credentialId,
+      credential.batchId,
+      SUSPENSION_REASONS[reasonCode],
+      credential.chainId
+    );
+    const forwardRequest = isRelayerAvailable(credential.chainId)
+      ? (await buildForwardRequest(credential.issuerAddress, unsignedTransaction.data)).typedData
+      : undefined;
+
+    return res.status(200).json({
+      success: true,
+      credentialId: credential.credentialId,
+      unsignedTransaction,
+      forwardRequest,
+      submitUrl: `/api/credentials/${credential.credentialId}/wallet/suspend/submit`,
+    });
+  } catch (error) {
+    console.error("Prepare wallet suspension error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to prepare suspension",
+      error: error.message,
+    });
+  }
+};
+
+// Broadcast a wallet-signed suspension and update the credential once mined
+export const submitWalletSuspension = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { signedTransaction, forwardRequest, signature, reason, reasonCode = "unspecified" } = req.body;
+
+    if (!signedTransaction && !(forwardRequest && signature)) {
+      return res.status(400).json({
+        success: false,
+        message: "A signed transaction or a signed forward request is required",
+      });
+    }
+
+    if (!(reasonCode in SUSPENSION_REASONS)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid suspension reason code. Expected one of: ${Object.keys(SUSPENSION_REASONS).join(", ")}`,
+      });
+    }
+
+    const check = await findManagedCredential(req.userId, id, "wallet");
+    if (check.error) {
+      return res.status(check.error.status).json({
+        success: false,
+        message: check.error.message,
+      });
+    }
+
+    const { credential } = check;
+    if (credential.status !== "active") {
+      return res.status(400).json({
+        success: false,
+        message: `Only active credentials can be suspended (status: ${credential.status})`,
+      });
+    }
+
+    const result = await submitWalletStatusChange(credential, "suspend", req.body, getSuspendCredentialCall(
+      credential.credentialId,
+      credential.batchId,
+      SUSPENSION_REASONS[reasonCode],
+      credential.chainId
+    ));
+    if (result.error) {
+      return res.status(result.error.status).json(result.error.body);
+    }
+
+    credential.status = "suspended";
+    credential.suspendedDate = new Date();
+    credential.suspendedReason = reason;
+    credential.suspensionReasonCode = reasonCode;
+
+    await credential.save();
+
+    return res.status(200).json({
+      success: true,
+      credential: {
+        credentialId: credential.credentialId,
+        status: credential.status,
+        suspendedDate: credential.suspendedDate,
+        suspendedReason: credential.suspendedReason,
+        suspensionReasonCode: credential.suspensionReasonCode,
+        blockchainTxHash: result.txHash,
+      },
+    });
+  } catch (error) {
+    console.error("Submit wallet suspension error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to suspend credential",
+      error: error.message,
+    });
+  }
+};
+
+// Prepare a reinstatement for the institution to sign in its own wallet
+export const prepareWalletReinstatement = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const check = await findManagedCredential(req.userId, id, "wallet");
+    if (check.error) {
+      return res.status(check.error.status).json({
+        success: false,
+        message: check.error.message,
+      });
+    }
+
+    const { credential } = check;
+    if (credential.status !== "suspended") {
+      return res.status(400).json({
+        success: false,
+        message: "Credential is not suspended",
+      });
+    }
+
+    const unsignedTransaction = await buildReinstateCredentialTransaction(
+      credential.issuerAddress,
+      credential.credentialId,
+      credential.batchId,
+      credential.chainId
+    );
+    const forwardRequest = isRelayerAvailable(credential.chainId)
+      ? (await buildForwardRequest(credential.issuerAddress, unsignedTransaction.data)).typedData
+      : undefined;
+
+    return res.status(200).json({
+      success: true,
+      credentialId: credential.credentialId,
+      unsignedTransaction,
+      forwardRequest,
+      submitUrl: `/api/credentials/${credential.credentialId}/wallet/reinstate/submit`,
+    });
+  } catch (error) {
+    console.error("Prepare wallet reinstatement error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to prepare reinstatement",
+      error: error.message,
+    });
+  }
+};
+
+// Broadcast a wallet-signed reinstatement and update the credential once mined
+export const submitWalletReinstatement = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { signedTransaction, forwardRequest, signature } = req.body;
+
+    if (!signedTransaction && !(forwardRequest && signature)) {
+      return res.status(400).json({
+        success: false,
+        message: "A signed transaction or a signed forward request is required",
+      });
+    }
+
+    const check = await findManagedCredential(req.userId, id, "wallet");
+    if (check.error) {
+      return res.status(check.error.status).json({
+        success: false,
+        message: check.error.message,
+      });
+    }
+
+    const { credential } = check;
+    if (credential.status !== "suspended") {
+      return res.status(400).json({
+        success: false,
+        message: "Credential is not suspended",
+      });
+    }
+
+    const result = await submitWalletStatusChange(credential, "reinstate", req.body, getReinstateCredentialCall(
+      credential.credentialId,
+      credential.batchId,
+      credential.chainId
+    ));
+    if (result.error) {
+      return res.status(result.error.status).json(result.error.body);
+    }
+
+    credential.status = "active";
+    credential.suspendedDate = undefined;
+    credential.suspendedReason = undefined;
+    credential.suspensionReasonCode = undefined;
+
+    await credential.save();
+
+    return res.status(200).json({
+      success: true,
+      credential: {
+        credentialId: credential.credentialId,
+        status: credential.status,
+        blockchainTxHash: result.txHash,
+      },
+    });
+  } catch (error) {
+    console.error("Submit wallet reinstatement error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to reinstate credential",
+      error: error.message,
+    });
+  }
+};
+
 // Share a credential
 export const shareCredential = async (req: AuthRequest, res: Response) => {
   try {
@@ -0,0 +1,130 @@
+// src/controllers/didController.ts
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { Institution } from '../models/Institution';
+import {
+  resolveDid,
+  getEthrDid,
+  getStudentDid,
+  getKeyRegistrationMessage,
+  registerStudentDidKey,
+  DidResolutionError,
+  KeyRegistrationError
+} from '../did/didService';
+
+// Response status for each DID resolution error
+const RESOLUTION_ERROR_STATUS: Record<string, number> = {
+  invalidDid: 400,
+  notFound: 404,
+  methodNotSupported: 501
+};
+
+const DID_MEDIA_TYPES = ['application/did+ld+json', 'application/did+json'];
+
+// Resolve a DID to its DID document
+export const resolveDidDocument = async (req: Request, res: Response) => {
+  try {
+    const didDocument = resolveDid(req.params.did);
+
+    // DID resolvers asking for a DID media type get the bare document
+    const mediaType = req.accepts(['application/json', ...DID_MEDIA_TYPES]);
+    if (mediaType && DID_MEDIA_TYPES.includes(mediaType)) {
+      return res.status(200).type(mediaType).send(JSON.stringify(didDocument));
+    }
+
+    return res.status(200).json({
+      success: true,
+      didDocument,
+      didResolutionMetadata: { contentType: 'application/did+ld+json' },
+      didDocumentMetadata: {}
+    });
+  } catch (error) {
+    if (error instanceof DidResolutionError) {
+      return res.status(RESOLUTION_ERROR_STATUS[error.code] || 400).json({
+        success: false,
+        message: error.message,
+        error: error.code
+      });
+    }
+
+    console.error('DID resolution error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to resolve DID',
+      error: error.message
+    });
+  }
+};
+
+// DID of the signed-in institution or student
+export const getOwnDid = async (req: AuthRequest, res: Response) => {
+  try {
+    let did: string;
+
+    if (req.userRole === 'institution') {
+      const institution = await Institution.findOne({ userId: req.userId });
+
+      if (!institution || !institution.blockchainAddress) {
+        return res.status(404).json({
+          success: false,
+          message: 'Institution has no signing key provisioned'
+        });
+      }
+      did = getEthrDid(institution.blockchainAddress);
+    } else {
+      did = await getStudentDid(req.userId);
+    }
+
+    return res.status(200).json({
+      success: true,
+      did,
+      didDocument: resolveDid(did),
+      // Students sign this with a key of their own to register it
+      keyRegistrationMessage: req.userRole === 'student' ? getKeyRegistrationMessage(req.userId) : undefined
+    });
+  } catch (error) {
+    console.error('Get DID error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get DID',
+      error: error.message
+    });
+  }
+};
+
+// Replace the signed-in student's did:key with one for a key they hold
+export const registerOwnKey = async (req: AuthRequest, res: Response) => {
+  try {
+    const { publicKey, signature } = req.body;
+
+    if (!publicKey || !signature) {
+      return res.status(400).json({
+        success: false,
+        message: 'publicKey and signature are required'
+      });
+    }
+
+    const did = await registerStudentDidKey(req.userId, publicKey, signature);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Key registered; the platform no longer holds a private key for your DID',
+      did,
+      didDocument: resolveDid(did)
+    });
+  } catch (error) {
+    if (error instanceof KeyRegistrationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Register key error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to register key',
+      error: error.message
+    });
+  }
+};
@@ -2,10 +2,12 @@
 import { Request, Response } from "express";
 import { Student } from "../models/Student";
 import { User } from "../models/User";
-import { Institution } from "../models/Institution";
+import { Institution, ICertificateSignature } from "../models/Institution";
 import { Credential } from "../models/Credential";
 import { parse } from "csv-parse/sync";
 import { AuthRequest } from "../middleware/auth";
+import { getGasUsageReport } from "../blockchain/gasPolicy";
+import { getRelayerUsage } from "../blockchain/relayer";
 
 // Get all students for an institution
 export const getStudents = async (req: AuthRequest, res: Response) => {
@@ -460,3 +462,198 @@ export const getStudentDetails = async (req: AuthRequest, res: Response) => {
     });
   }
 };
+
+// Gas spent on the institution's transactions, from stored receipts
+export const getGasUsage = async (req: AuthRequest, res: Response) => {
+  try {
+    const institutionId = req.userId;
+
+    // Defaults to the last 30 days; `to` is exclusive
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid date range",
+      });
+    }
+
+    const [usage, relayer] = await Promise.all([
+      getGasUsageReport(institutionId, from, to),
+      getRelayerUsage(institutionId),
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      ...usage,
+      relayer,
+    });
+  } catch (error) {
+    console.error("Get gas usage error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to get gas usage",
+      error: error.message,
+    });
+  }
+};
+
+const MAX_CERTIFICATE_SIGNATURES = 4;
+
+// Whether an uploaded image is a PNG or JPEG, the formats PDF certificates can embed
+const isCertificateImage = (image: Buffer) => {
+  const png = image.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+  const jpeg = image[0] === 0xff && image[1] === 0xd8 && image[2] === 0xff;
+  return png || jpeg;
+};
+
+// Describe a certificate template without its image bytes
+const describeCertificateTemplate = (template: any) => ({
+  layout: template?.layout || "landscape",
+  title: template?.title,
+  primaryColor: template?.primaryColor,
+  footerText: template?.footerText,
+  hasLogo: !!template?.logo,
+  signatures: (template?.signatures || []).map((signature: ICertificateSignature) => ({
+    name: signature.name,
+    title: signature.title,
+    hasImage: !!signature.image,
+  })),
+});
+
+// Get the template of the institution's PDF certificates
+export const getCertificateTemplate = async (req: AuthRequest, res: Response) => {
+  try {
+    const institution = await Institution.findOne({ userId: req.userId });
+
+    if (!institution) {
+      return res.status(404).json({
+        success: false,
+        message: "Institution not found",
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      template: describeCertificateTemplate(institution.certificateTemplate),
+    });
+  } catch (error) {
+    console.error("Get certificate template error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to get certificate template",
+      error: error.message,
+    });
+  }
+};
+
+// Update the template of the institution's PDF certificates. Multipart fields
+// replace their counterparts; `signatures` is a JSON array of {name, title, image}
+// where image names a file uploaded as signatureImages
+export const updateCertificateTemplate = async (req: AuthRequest, res: Response) => {
+  try {
+    const institution = await Institution.findOne({ userId: req.userId });
+
+    if (!institution) {
+      return res.status(404).json({
+        success: false,
+        message: "Institution not found",
+      });
+    }
+
+    const { layout, title, primaryColor, footerText, removeLogo } = req.body;
+    const logo: Express.Multer.File | undefined = req.files?.logo?.[0];
+    const signatureImages: Express.Multer.File[] = req.files?.signatureImages || [];
+    const previous = institution.certificateTemplate;
+
+    if (layout !== undefined && !["landscape", "portrait"].includes(layout)) {
+      return res.status(400).json({
+        success: false,
+        message: "layout must be landscape or portrait",
+      });
+    }
+
+    if (primaryColor && !/^#[0-9a-fA-F]{6}$/.test(primaryColor)) {
+      return res.status(400).json({
+        success: false,
+        message: "primaryColor must be a hex colour such as #1f3a5f",
+      });
+    }
+
+    for (const image of [logo, ...signatureImages].filter(Boolean)) {
+      if (!isCertificateImage(image.buffer)) {
+        return res.status(400).json({
+          success: false,
+          message: `${image.originalname} is not a PNG or JPEG image`,
+        });
+      }
+    }
+
+    let signatures: ICertificateSignature[] = previous?.signatures || [];
+    if (req.body.signatures !== undefined) {
+      let requested: any[];
+      try {
+        requested = typeof req.body.signatures === "string" ? JSON.parse(req.body.signatures) : req.body.signatures;
+      } catch (error) {
+        requested = null;
+      }
+
+      if (
+        !Array.isArray(requested) ||
+        requested.length > MAX_CERTIFICATE_SIGNATURES ||
+        requested.some((signature) => !signature?.name)
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: `signatures must be a JSON array of at most ${MAX_CERTIFICATE_SIGNATURES} entries with a name`,
+        });
+      }
+
+      signatures = [];
+      for (const signature of requested) {
+        let image: Buffer | undefined;
+
+        if (signature.image) {
+          image = signatureImages.find((file) => file.originalname === signature.image)?.buffer;
+          if (!image) {
+            return res.status(400).json({
+              success: false,
+              message: `No signature image uploaded as ${signature.image}`,
+            });
+          }
+        } else {
+          // Keep the image of a signatory already on the template
+          image = previous?.signatures?.find((existing) => existing.name === signature.name)?.image;
+        }
+
+        signatures.push({ name: signature.name, title: signature.title, image });
+      }
+    }
+
+    institution.certificateTemplate = {
+      layout: layout || previous?.layout || "landscape",
+      title: title !== undefined ? title : previous?.title,
+      primaryColor: primaryColor !== undefined ? primaryColor : previous?.primaryColor,
+      footerText: footerText !== undefined ? footerText : previous?.footerText,
+      logo: logo ? logo.buffer : removeLogo === "true" ? undefined : previous?.logo,
+      signatures,
+    };
+    await institution.save();
+
+    return res.status(200).json({
+      success: true,
+      message: "Certificate template updated",
+      template: describeCertificateTemplate(institution.certificateTemplate),
+    });
+  } catch (error) {
+    console.error("Update certificate template error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to update certificate template",
+      error: error.message,
+    });
+  }
+};
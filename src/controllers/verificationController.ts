@@ -1,11 +1,49 @@
 // src/controllers/verificationController.ts
 import { Request, Response } from 'express';
-import { Credential } from '../models/Credential';
+import { Credential, ICredential } from '../models/Credential';
 import { ShareableLink } from '../models/ShareableLink';
 import { VerificationRecord } from '../models/VerificationRecord';
 import { Institution } from '../models/Institution';
 import { verifyCredential as verifyOnBlockchain } from '../blockchain/contractService';
+import { checkCredentialIntegrity } from '../verification/integrityService';
+import { getNetwork, getExplorerTxUrl } from '../blockchain/networks';
+import { computeRecipientCommitment } from '../vc/vcService';
 import { getFromIPFS } from '../ipfs/ipfsService';
+import { decodeQrPayload, QrPayloadError } from '../verification/qrPayload';
+import { getInstitutionAddresses } from '../keys/keyManager';
+
+// Explanations for credentials that are no longer valid on-chain
+const INACTIVE_STATUS_MESSAGES: Record<string, string> = {
+  revoked: 'Credential has been revoked by the issuer',
+  suspended: 'Credential is suspended by the issuer',
+  expired: 'Credential has expired'
+};
+
+// Check a holder-disclosed salt against the recipient commitment anchored for a credential
+const checkRecipientCommitment = (credential: ICredential, salt: string, recipient?: string) => {
+  try {
+    const commitment = computeRecipientCommitment(
+      recipient || credential.recipientDid || credential.recipientId,
+      salt
+    );
+    return commitment === credential.recipientCommitment;
+  } catch (error) {
+    // Not a 32-byte hex salt
+    return false;
+  }
+};
+
+// Anchoring transaction of a credential, linked on the explorer of its own chain
+const formatBlockchainDetails = (credential: ICredential) => {
+  const network = getNetwork(credential.chainId);
+  return {
+    txHash: credential.blockchainTxHash,
+    timestamp: credential.issueDate,
+    network: network.name,
+    chainId: network.chainId,
+    verificationUrl: getExplorerTxUrl(credential.blockchainTxHash, network.chainId)
+  };
+};
 
 interface IVerificationRequest extends Request {
     userId?: string;
@@ -17,7 +55,7 @@ interface IVerificationRequest extends Request {
 // Verify a credential directly
 export const verifyCredential = async (req: IVerificationRequest, res: Response) => {
   try {
-    const { credentialId, blockchainHash, verifierName, verifierType } = req.body;
+    const { credentialId, blockchainHash, verifierName, verifierType, recipientSalt, recipient } = req.body;
     const verifierId = req.userId; // May be undefined for public verifications
     
     // Find the credential
@@ -35,10 +73,10 @@ export const verifyCredential = async (req: IVerificationRequest, res: Response)
       });
     }
     
-    // Verify on blockchain
-    const blockchainResult = await verifyOnBlockchain(credential.credentialId);
+    // Check the chain, IPFS, database and signature layers against each other
+    const integrity = await checkCredentialIntegrity(credential);
     
-    if (!blockchainResult.success) {
+    if (!integrity.blockchainAvailable) {
       // Record verification attempt
       await recordVerification({
         credentialId: credential.credentialId,
@@ -53,18 +91,61 @@ export const verifyCredential = async (req: IVerificationRequest, res: Response)
       return res.status(400).json({
         verified: false,
         message: 'Blockchain verification failed',
-        error: blockchainResult.error
+        error: integrity.blockchainError,
+        layers: integrity.layers
       });
     }
     
-    // Get data from IPFS if available
-    let ipfsData = null;
-    try {
-      if (credential.ipfsHash) {
-        ipfsData = await getFromIPFS(credential.ipfsHash);
+    if (!integrity.verified) {
+      await recordVerification({
+        credentialId: credential.credentialId,
+        verifierId,
+        verifierName,
+        verifierType: verifierType || 'public',
+        status: 'failed',
+        method: 'direct',
+        req
+      });
+      
+      // Distinguish revoked, suspended and expired credentials from integrity failures
+      const inactiveMessage = INACTIVE_STATUS_MESSAGES[integrity.status];
+      return res.status(400).json({
+        verified: false,
+        status: integrity.status,
+        message: inactiveMessage ||
+          (integrity.layers.signature.passed ? 'Credential layers do not agree' : 'Credential signature is invalid'),
+        reason: inactiveMessage ? integrity.layers.chain.reason : undefined,
+        statusDate: inactiveMessage ? integrity.layers.chain.statusDate : undefined,
+        layers: integrity.layers,
+        verificationId: credential.credentialId
+      });
+    }
+    
+    // The holder proves the credential is theirs by disclosing the salt from their document;
+    // the integrity check already tied the stored commitment to the one anchored on-chain
+    let recipientCheck;
+    if (recipientSalt && credential.recipientCommitment) {
+      recipientCheck = { verified: checkRecipientCommitment(credential, recipientSalt, recipient) };
+
+      if (!recipientCheck.verified) {
+        await recordVerification({
+          credentialId: credential.credentialId,
+          verifierId,
+          verifierName,
+          verifierType: verifierType || 'public',
+          status: 'failed',
+          method: 'direct',
+          req
+        });
+
+        return res.status(400).json({
+          verified: false,
+          message: 'Recipient commitment does not match',
+          recipient: recipientCheck,
+          layers: integrity.layers,
+          verificationId: credential.credentialId
+        });
       }
-    } catch (error) {
-      console.error('IPFS retrieval error:', error);
     }
     
     // Get issuer details
@@ -93,16 +174,14 @@ export const verifyCredential = async (req: IVerificationRequest, res: Response)
         credentialType: credential.credentialType,
         credentialName: credential.credentialName,
         issueDate: credential.issueDate,
-        status: credential.status,
+        status: integrity.status,
         institution: issuer ? issuer.name : 'Unknown Institution',
         recipientName: credential.recipientName,
         metadata: credential.metadata
       },
-      blockchain: {
-        txHash: credential.blockchainTxHash,
-        timestamp: credential.issueDate,
-        verificationUrl: `https://etherscan.io/tx/${credential.blockchainTxHash}`
-      },
+      blockchain: formatBlockchainDetails(credential),
+      recipient: recipientCheck,
+      layers: integrity.layers,
       verificationId: credential.credentialId
     });
   } catch (error) {
@@ -162,7 +241,17 @@ export const verifySharedCredential = async (req: IVerificationRequest, res: Res
     }
     
     // Verify on blockchain
-    const blockchainResult = await verifyOnBlockchain(credential.credentialId);
+    const blockchainResult = await verifyOnBlockchain(
+      credential.credentialId,
+      credential.batchId
+        ? {
+            batchId: credential.batchId,
+            credentialHash: credential.credentialHash,
+            merkleProof: credential.merkleProof || []
+          }
+        : undefined,
+      credential
+    );
 
     // src/controllers/verificationController.ts (continued)
     if (!blockchainResult.success) {
@@ -184,6 +273,32 @@ export const verifySharedCredential = async (req: IVerificationRequest, res: Res
         });
       }
       
+      const chainData = blockchainResult.data;
+      const status = chainData.status === 'active' && credential.expiryDate && credential.expiryDate < new Date()
+        ? 'expired'
+        : chainData.status;
+      
+      if (!chainData.isValid || status !== 'active') {
+        await recordVerification({
+          credentialId: credential.credentialId,
+          verifierId,
+          verifierName: verifierId ? undefined : 'Anonymous via shared link',
+          verifierType: 'public',
+          status: 'failed',
+          method: 'shared-link',
+          req
+        });
+        
+        return res.status(400).json({
+          verified: false,
+          status,
+          message: INACTIVE_STATUS_MESSAGES[status] || 'Credential is not valid on the blockchain',
+          reason: chainData.reason,
+          statusDate: status === 'expired' && !chainData.statusDate ? credential.expiryDate : chainData.statusDate,
+          verificationId: credential.credentialId
+        });
+      }
+      
       // Get issuer details
       const issuer = await Institution.findOne({ userId: credential.issuerId });
       
@@ -215,14 +330,10 @@ export const verifySharedCredential = async (req: IVerificationRequest, res: Res
           credentialType: credential.credentialType,
           credentialName: credential.credentialName,
           issueDate: credential.issueDate,
-          status: credential.status,
+          status,
           institution: issuer ? issuer.name : 'Unknown Institution'
         },
-        blockchain: {
-          txHash: credential.blockchainTxHash,
-          timestamp: credential.issueDate,
-          verificationUrl: `https://sepolia.etherscan.io/tx/${credential.blockchainTxHash}`
-        },
+        blockchain: formatBlockchainDetails(credential),
         verificationId: credential.credentialId
       };
       
@@ -230,6 +341,13 @@ export const verifySharedCredential = async (req: IVerificationRequest, res: Res
       if (shareRecord.accessLevel === 'full') {
         responseData.credential.recipientName = credential.recipientName;
         responseData.credential.metadata = credential.metadata;
+
+        // The share link opens the encrypted document; verification still succeeds without it
+        try {
+          responseData.document = await getFromIPFS(credential.ipfsHash, { shareId });
+        } catch (error) {
+          console.error('Shared document retrieval error:', error);
+        }
       } else if (shareRecord.accessLevel === 'limited') {
         // In limited access, don't include personal info
         // but include educational achievements
@@ -247,6 +365,168 @@ export const verifySharedCredential = async (req: IVerificationRequest, res: Res
     }
   };
   
+// Verify a credential from the signed payload of its QR code
+export const verifyQrCode = async (req: IVerificationRequest, res: Response) => {
+  try {
+    const { payload } = req.body;
+    const verifierId = req.userId; // May be undefined for public verifications
+    const verifierName = verifierId ? undefined : 'Anonymous via QR code';
+
+    if (!payload || typeof payload !== 'string') {
+      return res.status(400).json({
+        verified: false,
+        message: 'payload is required'
+      });
+    }
+
+    let decoded;
+    try {
+      decoded = decodeQrPayload(payload);
+    } catch (error) {
+      if (error instanceof QrPayloadError || error instanceof TypeError) {
+        return res.status(400).json({
+          verified: false,
+          message: `Invalid QR code: ${error.message}`
+        });
+      }
+      throw error;
+    }
+
+    const credential = await Credential.findOne({ credentialId: decoded.credentialId });
+
+    if (!credential) {
+      return res.status(404).json({
+        verified: false,
+        message: 'Credential not found'
+      });
+    }
+
+    const fail = async (status: number, body: Record<string, any>) => {
+      await recordVerification({
+        credentialId: credential.credentialId,
+        verifierId,
+        verifierName,
+        verifierType: 'public',
+        status: 'failed',
+        method: 'QR',
+        req
+      });
+      return res.status(status).json({ verified: false, ...body, verificationId: credential.credentialId });
+    };
+
+    // The payload must be signed by the key the credential was issued with, or another key of the issuer
+    const issuerAddresses = [credential.issuerAddress, ...await getInstitutionAddresses(credential.issuerId)]
+      .filter(Boolean)
+      .map(address => address.toLowerCase());
+    if (!issuerAddresses.includes(decoded.signer.toLowerCase())) {
+      return fail(400, { message: 'QR code was not signed by the issuer' });
+    }
+
+    const anchoredHash = (credential.credentialHash || '').replace(/^0x/, '').toLowerCase();
+    if (
+      decoded.chainId !== getNetwork(credential.chainId).chainId ||
+      (decoded.credentialHash && decoded.credentialHash !== anchoredHash)
+    ) {
+      return fail(400, { message: 'QR code does not match the credential' });
+    }
+
+    let shareRecord;
+    if (decoded.shareId) {
+      shareRecord = await ShareableLink.findOne({ shareId: decoded.shareId, credentialId: credential.credentialId });
+
+      if (!shareRecord || shareRecord.status !== 'active') {
+        return fail(400, { message: 'The share link of this QR code is no longer active' });
+      }
+      if (shareRecord.expiryDate && new Date() > shareRecord.expiryDate) {
+        shareRecord.status = 'expired';
+        await shareRecord.save();
+        return fail(400, { message: 'The share link of this QR code has expired' });
+      }
+    }
+
+    // Check the chain, IPFS, database and signature layers against each other
+    const integrity = await checkCredentialIntegrity(credential);
+
+    if (!integrity.blockchainAvailable) {
+      return fail(400, {
+        message: 'Blockchain verification failed',
+        error: integrity.blockchainError,
+        layers: integrity.layers
+      });
+    }
+
+    if (!integrity.verified) {
+      const inactiveMessage = INACTIVE_STATUS_MESSAGES[integrity.status];
+      return fail(400, {
+        status: integrity.status,
+        message: inactiveMessage ||
+          (integrity.layers.signature.passed ? 'Credential layers do not agree' : 'Credential signature is invalid'),
+        reason: inactiveMessage ? integrity.layers.chain.reason : undefined,
+        statusDate: inactiveMessage ? integrity.layers.chain.statusDate : undefined,
+        layers: integrity.layers
+      });
+    }
+
+    const issuer = await Institution.findOne({ userId: credential.issuerId });
+
+    await recordVerification({
+      credentialId: credential.credentialId,
+      verifierId,
+      verifierName,
+      verifierType: 'public',
+      status: 'success',
+      method: 'QR',
+      req
+    });
+
+    credential.verifications += 1;
+    credential.lastVerified = new Date();
+    await credential.save();
+
+    if (shareRecord) {
+      shareRecord.accessCount += 1;
+      shareRecord.lastAccessed = new Date();
+      await shareRecord.save();
+    }
+
+    const responseData: any = {
+      verified: true,
+      credential: {
+        credentialType: credential.credentialType,
+        credentialName: credential.credentialName,
+        issueDate: credential.issueDate,
+        status: integrity.status,
+        institution: issuer ? issuer.name : 'Unknown Institution'
+      },
+      blockchain: formatBlockchainDetails(credential),
+      qr: {
+        signer: decoded.signer,
+        issuedAt: decoded.issuedAt,
+        shareId: decoded.shareId
+      },
+      layers: integrity.layers,
+      verificationId: credential.credentialId
+    };
+
+    // Share-bound QR codes disclose what their share link does
+    if (shareRecord?.accessLevel === 'full') {
+      responseData.credential.recipientName = credential.recipientName;
+      responseData.credential.metadata = credential.metadata;
+    } else if (shareRecord?.accessLevel === 'limited') {
+      responseData.credential.metadata = filterPersonalInfo(credential.metadata);
+    }
+
+    return res.status(200).json(responseData);
+  } catch (error) {
+    console.error('Verify QR code error:', error);
+    return res.status(500).json({
+      verified: false,
+      message: 'Verification failed',
+      error: error.message
+    });
+  }
+};
+
   // Record a verification attempt
   export const recordVerification = async ({
     credentialId,
@@ -341,4 +621,4 @@ export const getVerificationHistory = async (req: IVerificationRequest, res: Res
       error: error.message
     });
   }
-};
\ No newline at end of file
+};
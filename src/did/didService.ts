@@ -0,0 +1,202 @@
+// src/did/didService.ts
+import { ethers } from 'ethers';
+import { Student } from '../models/Student';
+import { getNetworks, getDidNetworkPrefix } from '../blockchain/networks';
+import { createStudentKey, registerStudentKey } from '../keys/keyManager';
+import { rewrapStudentDocuments } from '../ipfs/documentEncryption';
+
+/**
+ * Decentralized identifiers for the parties of a credential.
+ *
+ * Institutions are did:ethr identifiers of their signing address on the chain
+ * a credential is anchored on, so an issuer DID can be checked against the
+ * address that signed the proof and the registry transaction. Students are
+ * did:key identifiers of a secp256k1 key provisioned for them by the key
+ * manager, or of a key they registered and hold themselves. Both methods resolve without a registry: the DID document is
+ * derived from the identifier itself.
+ */
+export const DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+const RECOVERY_2020_CONTEXT = 'https://w3id.org/security/suites/secp256k1recovery-2020/v2';
+const MULTIKEY_CONTEXT = 'https://w3id.org/security/multikey/v1';
+
+// Multicodec prefix of a compressed secp256k1 public key (0xe7, varint-encoded)
+const SECP256K1_PUB_MULTICODEC = [0xe7, 0x01];
+
+export interface DidDocument {
+  '@context': string[];
+  id: string;
+  verificationMethod: Record<string, any>[];
+  authentication: string[];
+  assertionMethod: string[];
+  capabilityInvocation?: string[];
+  capabilityDelegation?: string[];
+}
+
+// Raised when a DID cannot be resolved; code follows DID resolution metadata errors
+export class DidResolutionError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// Raised when a student's key registration is rejected
+export class KeyRegistrationError extends Error {}
+
+// Build the did:ethr identifier for a blockchain address on the chain it issues on
+export const getEthrDid = (address: string, chainId?: number) => {
+  return `did:ethr:${getDidNetworkPrefix(chainId)}${ethers.utils.getAddress(address)}`;
+};
+
+// Build the did:key identifier for a secp256k1 public key
+export const getKeyDid = (publicKey: string) => {
+  const compressed = ethers.utils.arrayify(ethers.utils.computePublicKey(publicKey, true));
+  const multibase = `z${ethers.utils.base58.encode([...SECP256K1_PUB_MULTICODEC, ...compressed])}`;
+  return `did:key:${multibase}`;
+};
+
+// Get a student's DID, provisioning the key behind it for students registered before DIDs
+export const getStudentDid = async (studentId: string) => {
+  const student = await Student.findOne({ userId: studentId });
+
+  if (!student) {
+    throw new Error(`Student ${studentId} not found`);
+  }
+
+  if (student.did) {
+    return student.did;
+  }
+
+  const { publicKey } = await createStudentKey(studentId);
+  const did = getKeyDid(publicKey);
+  await Student.updateOne({ userId: studentId }, { did, publicKey });
+
+  return did;
+};
+
+// Message a student signs (EIP-191) with the key they register, proving they hold it
+export const getKeyRegistrationMessage = (studentId: string) => {
+  return `Register this key as the DID key of student ${studentId}`;
+};
+
+/**
+ * Replace a student's did:key with one for a key they hold. Their copies of
+ * credential document keys are rewrapped for it before the key manager drops
+ * the key it held for them. Credentials already issued keep naming the
+ * previous DID as their subject.
+ */
+export const registerStudentDidKey = async (studentId: string, publicKey: string, signature: string) => {
+  let uncompressed: string;
+  let signer: string;
+  try {
+    uncompressed = ethers.utils.computePublicKey(publicKey);
+    signer = ethers.utils.verifyMessage(getKeyRegistrationMessage(studentId), signature);
+  } catch (error) {
+    throw new KeyRegistrationError('A secp256k1 public key and a signature with it are required');
+  }
+
+  if (signer !== ethers.utils.computeAddress(uncompressed)) {
+    throw new KeyRegistrationError('Signature was not made with the registered key');
+  }
+
+  const student = await Student.findOne({ userId: studentId });
+  if (!student) {
+    throw new Error(`Student ${studentId} not found`);
+  }
+
+  await rewrapStudentDocuments(studentId, uncompressed);
+  await registerStudentKey(studentId, uncompressed);
+
+  const did = getKeyDid(uncompressed);
+  await Student.updateOne({ userId: studentId }, { did, publicKey: uncompressed });
+
+  return did;
+};
+
+const resolveEthrDid = (did: string): DidDocument => {
+  const match = /^did:ethr:(?:([a-z0-9-]+|0x[0-9a-f]+):)?(0x[0-9a-fA-F]{40})$/.exec(did);
+  if (!match) {
+    throw new DidResolutionError('Malformed did:ethr identifier', 'invalidDid');
+  }
+
+  const prefix = match[1] ? `${match[1]}:` : '';
+  const network = getNetworks().find(candidate => getDidNetworkPrefix(candidate.chainId) === prefix);
+  if (!network) {
+    throw new DidResolutionError(`Network "${match[1]}" is not configured`, 'notFound');
+  }
+
+  // Same identifier as getEthrDid builds, so proofs referencing it resolve to this document
+  const id = getEthrDid(match[2], network.chainId);
+  const controller = `${id}#controller`;
+
+  return {
+    '@context': [DID_CONTEXT, RECOVERY_2020_CONTEXT],
+    id,
+    verificationMethod: [{
+      id: controller,
+      type: 'EcdsaSecp256k1RecoveryMethod2020',
+      controller: id,
+      blockchainAccountId: `eip155:${network.chainId}:${ethers.utils.getAddress(match[2])}`
+    }],
+    authentication: [controller],
+    assertionMethod: [controller]
+  };
+};
+
+const resolveKeyDid = (did: string): DidDocument => {
+  const multibase = did.substring('did:key:'.length);
+
+  try {
+    if (!multibase.startsWith('z')) {
+      throw new Error('Not base58btc');
+    }
+
+    const bytes = ethers.utils.base58.decode(multibase.slice(1));
+    if (bytes[0] !== SECP256K1_PUB_MULTICODEC[0] || bytes[1] !== SECP256K1_PUB_MULTICODEC[1]) {
+      throw new DidResolutionError('Only secp256k1 did:key identifiers are supported', 'methodNotSupported');
+    }
+
+    // Throws when the bytes are not a point on the curve
+    ethers.utils.computePublicKey(bytes.slice(2), true);
+  } catch (error) {
+    if (error instanceof DidResolutionError) {
+      throw error;
+    }
+    throw new DidResolutionError('Malformed did:key identifier', 'invalidDid');
+  }
+
+  const id = `did:key:${multibase}`;
+  const keyId = `${id}#${multibase}`;
+
+  return {
+    '@context': [DID_CONTEXT, MULTIKEY_CONTEXT],
+    id,
+    verificationMethod: [{
+      id: keyId,
+      type: 'Multikey',
+      controller: id,
+      publicKeyMultibase: multibase
+    }],
+    authentication: [keyId],
+    assertionMethod: [keyId],
+    capabilityInvocation: [keyId],
+    capabilityDelegation: [keyId]
+  };
+};
+
+// Resolve a did:ethr or did:key identifier to its DID document
+export const resolveDid = (did: string): DidDocument => {
+  if (did.startsWith('did:ethr:')) {
+    return resolveEthrDid(did);
+  }
+  if (did.startsWith('did:key:')) {
+    return resolveKeyDid(did);
+  }
+  if (/^did:[a-z0-9]+:.+/.test(did)) {
+    throw new DidResolutionError(`DID method of ${did} is not supported`, 'methodNotSupported');
+  }
+
+  throw new DidResolutionError('Not a DID', 'invalidDid');
+};
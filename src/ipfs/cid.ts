@@ -0,0 +1,117 @@
+// src/ipfs/cid.ts
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+
+/**
+ * CID computation and parsing for sha2-256 content identifiers.
+ *
+ * A CIDv1 is the multibase (base32, prefix "b") encoding of
+ * <version 1><codec><sha2-256 multihash>; a CIDv0 is the base58btc encoding
+ * of a bare dag-pb multihash. Content stored as a single raw block gets the
+ * same CID Kubo assigns to content up to one chunk (256 KiB) when adding
+ * with cidVersion 1 and rawLeaves.
+ */
+const CID_VERSION = 0x01;
+export const RAW_CODEC = 0x55;
+export const DAG_PB_CODEC = 0x70;
+const SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 0x20;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+export interface ParsedCid {
+  version: number;
+  codec: number;
+  digest: Buffer;
+}
+
+// RFC 4648 base32, lowercase and unpadded as multibase uses it
+const encodeBase32 = (bytes: Uint8Array) => {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const decodeBase32 = (text: string) => {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// CIDv1 of content as a raw block
+export const computeCid = (content: Buffer) => {
+  const digest = crypto.createHash('sha256').update(content).digest();
+  const bytes = Buffer.concat([Buffer.from([CID_VERSION, RAW_CODEC, SHA2_256, SHA2_256_LENGTH]), digest]);
+
+  return `b${encodeBase32(bytes)}`;
+};
+
+// Whether a CID names a raw sha2-256 block, so fetched content can be checked against it
+export const isRawCid = (cid: string) => cid.startsWith('bafkrei');
+
+// Split a binary CID into its parts; codecs in use fit in a single varint byte
+const parseCidBytes = (bytes: Buffer): ParsedCid => {
+  // CIDv0: a bare sha2-256 multihash of a dag-pb block
+  if (bytes.length === 34 && bytes[0] === SHA2_256 && bytes[1] === SHA2_256_LENGTH) {
+    return { version: 0, codec: DAG_PB_CODEC, digest: bytes.subarray(2) };
+  }
+
+  if (bytes.length !== 36 || bytes[0] !== CID_VERSION || bytes[2] !== SHA2_256 || bytes[3] !== SHA2_256_LENGTH) {
+    throw new Error('Only sha2-256 CIDs are supported');
+  }
+
+  return { version: 1, codec: bytes[1], digest: bytes.subarray(4) };
+};
+
+// Parse a CID string (CIDv0 base58btc or CIDv1 base32)
+export const parseCid = (cid: string): ParsedCid => {
+  if (cid.startsWith('Qm')) {
+    return parseCidBytes(Buffer.from(ethers.utils.base58.decode(cid)));
+  }
+  if (cid.startsWith('b')) {
+    return parseCidBytes(decodeBase32(cid.slice(1)));
+  }
+
+  throw new Error(`Unsupported CID encoding: ${cid}`);
+};
+
+// String form of a binary CID, as found in dag-pb links
+export const formatCidBytes = (bytes: Buffer) => {
+  const { version } = parseCidBytes(bytes);
+  return version === 0 ? ethers.utils.base58.encode(bytes) : `b${encodeBase32(bytes)}`;
+};
+
+// Whether a block's bytes hash to the digest its CID names
+export const verifyBlock = (cid: ParsedCid, block: Buffer) => {
+  return crypto.createHash('sha256').update(block).digest().equals(cid.digest);
+};
@@ -0,0 +1,86 @@
+// src/ipfs/contentCache.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import config from '../config';
+
+/**
+ * Read cache for content fetched from IPFS, keyed by CID.
+ *
+ * Content behind a CID never changes, so entries never go stale: an
+ * in-process LRU bounded by entry count and total bytes sits in front of a
+ * persistent tier on disk that survives restarts. Only content that was
+ * verified against its CID (or served by a trusted storage provider) is
+ * cached.
+ */
+const memory = new Map<string, Buffer>();
+let memoryBytes = 0;
+
+const getCachePath = (cid: string) => {
+  // CIDs are base32 or base58, so they are safe file names once checked
+  if (!/^[a-zA-Z0-9]+$/.test(cid)) {
+    throw new Error(`Not a CID: ${cid}`);
+  }
+  return path.join(path.resolve(config.ipfs.cache.path), cid);
+};
+
+// Insert as most recently used, evicting the least recently used past the limits
+const remember = (cid: string, content: Buffer) => {
+  if (content.length > config.ipfs.cache.maxBytes) {
+    return;
+  }
+
+  if (memory.has(cid)) {
+    memoryBytes -= memory.get(cid).length;
+    memory.delete(cid);
+  }
+  memory.set(cid, content);
+  memoryBytes += content.length;
+
+  while (memory.size > config.ipfs.cache.maxEntries || memoryBytes > config.ipfs.cache.maxBytes) {
+    const [oldest, evicted] = memory.entries().next().value;
+    memory.delete(oldest);
+    memoryBytes -= evicted.length;
+  }
+};
+
+// Cached content of a CID, from memory or else the disk tier
+export const getCachedContent = async (cid: string): Promise<Buffer | null> => {
+  if (!config.ipfs.cache.enabled) {
+    return null;
+  }
+
+  const cached = memory.get(cid);
+  if (cached) {
+    remember(cid, cached);
+    return cached;
+  }
+
+  try {
+    const content = await fs.promises.readFile(getCachePath(cid));
+    remember(cid, content);
+    return content;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Cache verified content in both tiers
+export const cacheContent = async (cid: string, content: Buffer) => {
+  if (!config.ipfs.cache.enabled) {
+    return;
+  }
+
+  remember(cid, content);
+
+  try {
+    const cachePath = getCachePath(cid);
+    await fs.promises.mkdir(path.dirname(cachePath), { recursive: true });
+    // Write then rename so a crash never leaves a partial entry under the CID
+    const tempPath = `${cachePath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.promises.writeFile(tempPath, content);
+    await fs.promises.rename(tempPath, cachePath);
+  } catch (error) {
+    console.error(`Failed to cache ${cid} on disk:`, error.message);
+  }
+};
@@ -0,0 +1,282 @@
+// src/ipfs/documentEncryption.ts
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { DocumentKey, IDocumentKey, IWrappedDocumentKey } from '../models/DocumentKey';
+import { Institution } from '../models/Institution';
+import { ShareableLink } from '../models/ShareableLink';
+import {
+  encrypt,
+  decrypt,
+  createStudentKey,
+  getInstitutionSigningKey,
+  getStudentSigningKey,
+  holdsStudentKey,
+  getVerifierPublicKey,
+  getVerifierPrivateKey
+} from '../keys/keyManager';
+
+/**
+ * Encryption of credential documents before they are pinned to IPFS.
+ *
+ * Each document is encrypted with its own random content key, and only the
+ * ciphertext is pinned. The content key is wrapped (ECDH with an ephemeral
+ * secp256k1 key, then AES-256-GCM) for the issuer's signing key, the
+ * student's DID key and the platform's verifier key, and the wrapped copies
+ * are stored in MongoDB next to the CID. The issuer and the student can unwrap
+ * their copy with their own private key, which a student may hold alone. The
+ * platform opens the verifier copy for verifiers, share links and students,
+ * and never a student's copy for anyone else.
+ */
+export const ENCRYPTED_DOCUMENT_TYPE = 'EncryptedCredentialDocument';
+const DOCUMENT_ALGORITHM = 'aes-256-gcm';
+// Holder of the verifier copy of every document
+const VERIFIER_HOLDER_ID = 'platform';
+
+// Parties a document is encrypted for
+export interface DocumentRecipients {
+  credentialId: string;
+  issuerId: string;
+  recipientId: string;
+}
+
+// Who is reading a document; an encrypted document is only opened for one of these
+export interface DocumentAccess {
+  // The credential's issuer or recipient
+  userId?: string;
+  // An active share link to the credential
+  shareId?: string;
+  // Integrity checks run by the platform itself
+  verification?: boolean;
+}
+
+// Raised when an encrypted document is read without access to one of its keys
+export class DocumentAccessError extends Error {}
+
+// Pinned in place of the document
+export interface EncryptedDocument {
+  type: string;
+  algorithm: string;
+  ciphertext: string;
+  iv: string;
+  authTag: string;
+}
+
+export const isEncryptedDocument = (data: any): data is EncryptedDocument => {
+  return !!data && typeof data === 'object' && data.type === ENCRYPTED_DOCUMENT_TYPE;
+};
+
+// AES key agreed between a key pair and the other side's public key
+const deriveWrappingKey = (privateKey: string, publicKey: string) => {
+  const sharedSecret = new ethers.utils.SigningKey(privateKey).computeSharedSecret(publicKey);
+  return crypto.createHash('sha256').update(ethers.utils.arrayify(sharedSecret)).digest();
+};
+
+// Wrap a content key so only the holder of publicKey's private key can unwrap it
+export const wrapContentKey = (contentKey: Buffer, publicKey: string) => {
+  const ephemeral = ethers.Wallet.createRandom();
+  const payload = encrypt(deriveWrappingKey(ephemeral.privateKey, publicKey), contentKey);
+
+  return {
+    publicKey,
+    ephemeralPublicKey: ephemeral.publicKey,
+    ...payload
+  };
+};
+
+// Unwrap a content key with the private key it was wrapped for
+export const unwrapContentKey = (wrapped: IWrappedDocumentKey, privateKey: string) => {
+  return decrypt(deriveWrappingKey(privateKey, wrapped.ephemeralPublicKey), wrapped);
+};
+
+// Encrypt a document and wrap its content key for the issuer, the student and verifiers
+export const sealDocument = async (document: any, recipients: DocumentRecipients) => {
+  const contentKey = crypto.randomBytes(32);
+  const plaintext = Buffer.isBuffer(document)
+    ? document
+    : Buffer.from(typeof document === 'string' ? document : JSON.stringify(document));
+
+  const encrypted: EncryptedDocument = {
+    type: ENCRYPTED_DOCUMENT_TYPE,
+    algorithm: DOCUMENT_ALGORITHM,
+    ...encrypt(contentKey, plaintext)
+  };
+
+  const [institution, studentKey, verifierPublicKey] = await Promise.all([
+    Institution.findOne({ userId: recipients.issuerId }),
+    createStudentKey(recipients.recipientId),
+    getVerifierPublicKey()
+  ]);
+
+  const wrappedKeys: IWrappedDocumentKey[] = [{
+    holderType: 'student',
+    holderId: recipients.recipientId,
+    ...wrapContentKey(contentKey, studentKey.publicKey)
+  }, {
+    holderType: 'verifier',
+    holderId: VERIFIER_HOLDER_ID,
+    ...wrapContentKey(contentKey, verifierPublicKey)
+  }];
+
+  // Institutions that only sign from an external wallet have no published key to wrap for
+  if (institution?.publicKey) {
+    wrappedKeys.push({
+      holderType: 'issuer',
+      holderId: recipients.issuerId,
+      ...wrapContentKey(contentKey, institution.publicKey)
+    });
+  }
+
+  return { encrypted, wrappedKeys };
+};
+
+// Store the wrapped keys of a sealed document once its CID is known
+export const storeDocumentKeys = async (
+  ipfsHash: string,
+  credentialId: string,
+  wrappedKeys: IWrappedDocumentKey[]
+) => {
+  await DocumentKey.findOneAndUpdate(
+    { ipfsHash },
+    { ipfsHash, credentialId, algorithm: DOCUMENT_ALGORITHM, wrappedKeys },
+    { upsert: true }
+  );
+};
+
+// Private key that opens a wrapped copy, held by the key manager for its holder
+const getHolderPrivateKey = (wrapped: IWrappedDocumentKey) => {
+  switch (wrapped.holderType) {
+    // Issuer copies stay wrapped for the key that was active when the document was sealed
+    case 'issuer':
+      return getInstitutionSigningKey(wrapped.holderId, ethers.utils.computeAddress(wrapped.publicKey));
+    case 'verifier':
+      return getVerifierPrivateKey(wrapped.publicKey);
+    default:
+      return getStudentSigningKey(wrapped.holderId);
+  }
+};
+
+// The wrapped copy the platform opens for a reader
+const selectWrappedKey = async (documentKey: IDocumentKey, access: DocumentAccess) => {
+  const verifierCopy = documentKey.wrappedKeys.find(wrapped => wrapped.holderType === 'verifier');
+
+  if (access.userId) {
+    const ownCopy = documentKey.wrappedKeys.find(
+      wrapped => wrapped.holderType !== 'verifier' && wrapped.holderId === access.userId
+    );
+    // A student may hold their key alone, so the platform reads for them through the verifier copy
+    return ownCopy && ownCopy.holderType === 'student' ? verifierCopy || ownCopy : ownCopy;
+  }
+
+  if (access.shareId) {
+    const link = await ShareableLink.findOne({ shareId: access.shareId, credentialId: documentKey.credentialId });
+    const active = link && link.status === 'active' && (!link.expiryDate || link.expiryDate > new Date());
+    return active ? verifierCopy : undefined;
+  }
+
+  return access.verification ? verifierCopy : undefined;
+};
+
+// A copy of a document's content key the platform can open, or undefined
+const findOpenableCopy = async (documentKey: IDocumentKey) => {
+  const verifierCopy = documentKey.wrappedKeys.find(wrapped => wrapped.holderType === 'verifier');
+  if (verifierCopy) {
+    return verifierCopy;
+  }
+
+  for (const wrapped of documentKey.wrappedKeys) {
+    if (wrapped.holderType === 'student' && await holdsStudentKey(wrapped.holderId, wrapped.publicKey)) {
+      return wrapped;
+    }
+  }
+
+  return documentKey.wrappedKeys.find(wrapped => wrapped.holderType === 'issuer');
+};
+
+/**
+ * Rewrap a student's copies for a public key they registered, while the key
+ * manager still holds their previous key; returns the documents rewrapped
+ */
+export const rewrapStudentDocuments = async (studentId: string, publicKey: string) => {
+  const documentKeys = await DocumentKey.find({
+    wrappedKeys: { $elemMatch: { holderType: 'student', holderId: studentId } }
+  });
+  let rewrapped = 0;
+
+  for (const documentKey of documentKeys) {
+    const studentCopy = documentKey.wrappedKeys.find(
+      wrapped => wrapped.holderType === 'student' && wrapped.holderId === studentId
+    );
+    const source = await findOpenableCopy(documentKey);
+    if (studentCopy.publicKey === publicKey || !source) {
+      continue;
+    }
+
+    const contentKey = unwrapContentKey(source, await getHolderPrivateKey(source));
+    documentKey.wrappedKeys = documentKey.wrappedKeys.map(wrapped => (
+      wrapped.holderType === 'student' && wrapped.holderId === studentId
+        ? { holderType: 'student', holderId: studentId, ...wrapContentKey(contentKey, publicKey) }
+        : wrapped
+    ));
+    await documentKey.save();
+    rewrapped++;
+  }
+
+  return rewrapped;
+};
+
+/**
+ * Add the verifier copy to documents sealed before verifiers had their own,
+ * so they are no longer opened with the student's key; returns how many were
+ * updated and how many have no copy the platform can open
+ */
+export const backfillVerifierCopies = async () => {
+  const documentKeys = await DocumentKey.find({ 'wrappedKeys.holderType': { $ne: 'verifier' } });
+  const verifierPublicKey = await getVerifierPublicKey();
+  let updated = 0;
+  let unopenable = 0;
+
+  for (const documentKey of documentKeys) {
+    try {
+      const source = await findOpenableCopy(documentKey);
+      if (!source) {
+        unopenable++;
+        continue;
+      }
+
+      const contentKey = unwrapContentKey(source, await getHolderPrivateKey(source));
+      documentKey.wrappedKeys.push({
+        holderType: 'verifier',
+        holderId: VERIFIER_HOLDER_ID,
+        ...wrapContentKey(contentKey, verifierPublicKey)
+      });
+      await documentKey.save();
+      updated++;
+    } catch (error) {
+      // e.g. the issuer key it was wrapped for is no longer held
+      console.error(`Failed to add verifier copy for ${documentKey.ipfsHash}:`, error.message);
+      unopenable++;
+    }
+  }
+
+  return { updated, unopenable };
+};
+
+// Decrypt a document or file fetched from IPFS for a reader allowed to open it
+export const openDocument = async (ipfsHash: string, encrypted: EncryptedDocument, access?: DocumentAccess) => {
+  if (!access) {
+    throw new DocumentAccessError('Credential document is encrypted');
+  }
+
+  const documentKey = await DocumentKey.findOne({ ipfsHash });
+  if (!documentKey) {
+    throw new DocumentAccessError(`No keys stored for encrypted document ${ipfsHash}`);
+  }
+
+  const wrapped = await selectWrappedKey(documentKey, access);
+  if (!wrapped) {
+    throw new DocumentAccessError('Not authorized to read this credential document');
+  }
+
+  const contentKey = unwrapContentKey(wrapped, await getHolderPrivateKey(wrapped));
+  return decrypt(contentKey, encrypted);
+};
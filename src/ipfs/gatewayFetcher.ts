@@ -0,0 +1,131 @@
+// src/ipfs/gatewayFetcher.ts
+import config from '../config';
+import { parseCid, formatCidBytes, verifyBlock, RAW_CODEC, DAG_PB_CODEC } from './cid';
+
+/**
+ * Trustless reads from HTTP gateways.
+ *
+ * Gateways are asked for the raw block behind a CID (?format=raw) rather than
+ * the assembled file, so every block can be hashed and checked against the
+ * CID that names it before its bytes are used. Files spread over several
+ * blocks (dag-pb with UnixFS) are reassembled from their verified leaves.
+ */
+const UNIXFS_RAW = 0;
+const UNIXFS_FILE = 2;
+
+interface ProtobufField {
+  field: number;
+  value: number | Buffer;
+}
+
+// Read a protobuf varint; lengths and sizes stay well below 2^53
+const readVarint = (bytes: Buffer, offset: number) => {
+  let value = 0;
+  let multiplier = 1;
+  let position = offset;
+
+  for (;;) {
+    if (position >= bytes.length) {
+      throw new Error('Truncated varint');
+    }
+    const byte = bytes[position++];
+    value += (byte & 0x7f) * multiplier;
+    if (!(byte & 0x80)) {
+      return { value, offset: position };
+    }
+    multiplier *= 128;
+  }
+};
+
+// Decode the varint and length-delimited fields of a protobuf message
+const readFields = (bytes: Buffer): ProtobufField[] => {
+  const fields: ProtobufField[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const key = readVarint(bytes, offset);
+    const field = Math.floor(key.value / 8);
+    const wireType = key.value & 7;
+    offset = key.offset;
+
+    if (wireType === 0) {
+      const varint = readVarint(bytes, offset);
+      fields.push({ field, value: varint.value });
+      offset = varint.offset;
+    } else if (wireType === 2) {
+      const length = readVarint(bytes, offset);
+      const end = length.offset + length.value;
+      if (end > bytes.length) {
+        throw new Error('Truncated protobuf field');
+      }
+      fields.push({ field, value: bytes.subarray(length.offset, end) });
+      offset = end;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+
+  return fields;
+};
+
+// Content of a dag-pb UnixFS file block: its own data, then its children in link order
+const decodeFileBlock = (block: Buffer) => {
+  const fields = readFields(block);
+  const links = fields
+    .filter(({ field }) => field === 2)
+    .map(({ value }) => readFields(value as Buffer).find(({ field }) => field === 1)?.value as Buffer);
+  const nodeData = fields.find(({ field }) => field === 1)?.value as Buffer | undefined;
+
+  const unixfs = nodeData ? readFields(nodeData) : [];
+  const type = unixfs.find(({ field }) => field === 1)?.value;
+  if (type !== UNIXFS_FILE && type !== UNIXFS_RAW) {
+    throw new Error('Not a UnixFS file');
+  }
+
+  return {
+    data: (unixfs.find(({ field }) => field === 2)?.value as Buffer) || Buffer.alloc(0),
+    links: links.map(link => formatCidBytes(link))
+  };
+};
+
+// Fetch one block from a gateway and check it hashes to its CID
+const fetchBlock = async (gatewayUrl: string, cid: string, signal: AbortSignal) => {
+  const response = await fetch(`${gatewayUrl.replace(/\/$/, '')}/${cid}?format=raw`, {
+    headers: { accept: 'application/vnd.ipld.raw' },
+    signal
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch from IPFS: ${response.statusText}`);
+  }
+
+  const block = Buffer.from(await response.arrayBuffer());
+  if (!verifyBlock(parseCid(cid), block)) {
+    throw new Error(`Gateway ${gatewayUrl} returned a block that does not match ${cid}`);
+  }
+
+  return block;
+};
+
+const fetchVerifiedBlocks = async (gatewayUrl: string, cid: string, signal: AbortSignal): Promise<Buffer> => {
+  const { codec } = parseCid(cid);
+  const block = await fetchBlock(gatewayUrl, cid, signal);
+
+  if (codec === RAW_CODEC) {
+    return block;
+  }
+  if (codec !== DAG_PB_CODEC) {
+    throw new Error(`Unsupported CID codec 0x${codec.toString(16)}`);
+  }
+
+  const { data, links } = decodeFileBlock(block);
+  const children = await Promise.all(links.map(link => fetchVerifiedBlocks(gatewayUrl, link, signal)));
+
+  return Buffer.concat([data, ...children]);
+};
+
+// Fetch content from a gateway, verified block by block, within the request timeout
+export const fetchVerifiedContent = async (gatewayUrl: string, cid: string, signal?: AbortSignal) => {
+  const timeout = AbortSignal.timeout(config.ipfs.requestTimeoutMs);
+  return fetchVerifiedBlocks(gatewayUrl, cid, signal ? AbortSignal.any([signal, timeout]) : timeout);
+};
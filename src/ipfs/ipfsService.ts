@@ -1,169 +1,170 @@
 // src/ipfs/ipfsService.ts
-import { create, IPFSHTTPClient } from 'ipfs-http-client';
 import config from '../config';
-import PinataClient from '@pinata/sdk';
+import { IPinStatus } from '../models/Credential';
+import { getStorageProvider, PinataStorageProvider } from './storageProviders';
+import { pinContent, fetchFromProvider } from './pinningManager';
+import { fetchVerifiedContent } from './gatewayFetcher';
+import { getCachedContent, cacheContent } from './contentCache';
+import {
+  sealDocument,
+  storeDocumentKeys,
+  openDocument,
+  isEncryptedDocument,
+  DocumentRecipients,
+  DocumentAccess,
+  DocumentAccessError
+} from './documentEncryption';
 
-// Initialize Pinata client
-let pinata: PinataClient | null = null;
+// Pin data to every configured storage provider; credential documents are encrypted for their recipients first
+export const pinToIPFS = async (
+  data: any,
+  recipients?: DocumentRecipients
+): Promise<{ ipfsHash: string; pins: IPinStatus[] }> => {
+  if (recipients && config.ipfs.encryptDocuments) {
+    const { encrypted, wrappedKeys } = await sealDocument(data, recipients);
+    const result = await pinToIPFS(encrypted);
 
-// Initialize IPFS client (fallback)
-let ipfsClient: IPFSHTTPClient | null = null;
+    await storeDocumentKeys(result.ipfsHash, recipients.credentialId, wrappedKeys);
+    return result;
+  }
 
-// Get Pinata client
-const getPinataClient = () => {
-  if (!pinata) {
-    if (!config.ipfs.pinataApiKey || !config.ipfs.pinataApiSecret) {
-      throw new Error('Pinata API key and secret are required');
-    }
-    
-    pinata = new PinataClient({
-      pinataApiKey: config.ipfs.pinataApiKey,
-      pinataSecretApiKey: config.ipfs.pinataApiSecret
-    });
+  try {
+    // Convert data to a buffer if it's not already
+    const content = Buffer.isBuffer(data)
+      ? data
+      : Buffer.from(typeof data === 'string' ? data : JSON.stringify(data));
+
+    const { cid, pins } = await pinContent(content, `credential-${Date.now()}`);
+    return { ipfsHash: cid, pins };
+  } catch (error) {
+    console.error('Error uploading to IPFS:', error);
+    throw new Error(`Failed to upload to IPFS: ${error.message}`);
   }
-  
-  return pinata;
 };
 
-// Get IPFS client (fallback)
-const getIpfsClient = () => {
-  if (!ipfsClient) {
-    if (config.ipfs.useInfura) {
-      ipfsClient = create({
-        host: 'ipfs.infura.io',
-        port: 5001,
-        protocol: 'https',
-        headers: {
-          authorization: `Basic ${Buffer.from(
-            `${config.ipfs.infuraProjectId}:${config.ipfs.infuraProjectSecret}`
-          ).toString('base64')}`
+// Upload data and return its CID
+export const uploadToIPFS = async (data: any, recipients?: DocumentRecipients): Promise<string> => {
+  const { ipfsHash } = await pinToIPFS(data, recipients);
+  return ipfsHash;
+};
+
+// Attempt to parse as JSON, return as string if it fails
+const parseContent = (content: Buffer) => {
+  const data = content.toString('utf8');
+  try {
+    return JSON.parse(data);
+  } catch (e) {
+    return data;
+  }
+};
+
+// Decrypt fetched content for the reader when it was pinned encrypted
+const readContent = async (ipfsHash: string, content: Buffer, access?: DocumentAccess) => {
+  // Encrypted content is a JSON envelope; skip parsing anything else, such as PDFs
+  const parsed = content[0] === 0x7b ? parseContent(content) : null;
+  return isEncryptedDocument(parsed) ? openDocument(ipfsHash, parsed, access) : content;
+};
+
+// Resolve with the first source to succeed, or reject once every source failed
+const firstSuccessful = <T>(sources: { name: string; attempt: Promise<T> }[]) => {
+  return new Promise<T>((resolve, reject) => {
+    const errors: string[] = [];
+
+    if (sources.length === 0) {
+      reject(new Error('No IPFS gateways or storage providers configured'));
+    }
+
+    sources.forEach(({ name, attempt }) => {
+      attempt.then(resolve, error => {
+        errors.push(`${name}: ${error.message}`);
+        if (errors.length === sources.length) {
+          reject(new Error(errors.join('; ')));
         }
       });
-    } else {
-      ipfsClient = create({
-        host: config.ipfs.host,
-        port: config.ipfs.port,
-        protocol: config.ipfs.protocol
-      });
-    }
-  }
-  
-  return ipfsClient;
+    });
+  });
 };
 
-// Upload data to IPFS using Pinata
-export const uploadToIPFS = async (data: any): Promise<string> => {
+const withTimeout = <T>(attempt: Promise<T>, timeoutMs: number) => {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  return Promise.race([attempt, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Content of a CID from the cache, or else from whichever gateway or storage provider returns it first
+const fetchContent = async (ipfsHash: string) => {
+  const cached = await getCachedContent(ipfsHash);
+  if (cached) {
+    return cached;
+  }
+
+  // Cancels the gateway requests still running once one source has answered
+  const race = new AbortController();
   try {
-    if (config.ipfs.usePinata) {
-      const client = getPinataClient();
-      
-      // Convert data to JSON string if it's not already a string
-      const content = typeof data === 'string' ? data : JSON.stringify(data);
-      
-      // Generate metadata for the pin
-      const metadata = {
-        name: `credential-${Date.now()}`
-      };
-      
-      // Custom key-values for pinata
-      const pinataOptions = {
-        pinataMetadata: metadata,
-        pinataOptions: {
-          customPinPolicy: {
-            regions: [
-              {
-                id: 'FRA1',
-                desiredReplicationCount: 1
-              }
-            ]
-          }
-        }
-      };
-      
-      // Upload to Pinata
-      const result = await client.pinJSONToIPFS(
-        typeof data === 'string' ? JSON.parse(data) : data, 
-        pinataOptions
-      );
-      
-      return result.IpfsHash;
-    } else {
-      // Fallback to regular IPFS
-      const client = getIpfsClient();
-      
-      // Convert data to buffer if it's not already
-      const content = Buffer.isBuffer(data) 
-        ? data 
-        : Buffer.from(JSON.stringify(data));
-      
-      const result = await client.add(content);
-      
-      return result.path;
-    }
-  } catch (error) {
-    console.error('Error uploading to IPFS:', error);
-    throw new Error(`Failed to upload to IPFS: ${error.message}`);
+    const content = await firstSuccessful([
+      ...config.ipfs.gateways.map(gateway => ({
+        name: gateway,
+        attempt: fetchVerifiedContent(gateway, ipfsHash, race.signal)
+      })),
+      ...config.pinning.providers.map(provider => ({
+        name: provider,
+        attempt: withTimeout(fetchFromProvider(provider, ipfsHash), config.ipfs.requestTimeoutMs)
+      }))
+    ]);
+
+    await cacheContent(ipfsHash, content);
+    return content;
+  } finally {
+    race.abort();
   }
 };
 
-// Get data from IPFS
-export const getFromIPFS = async (ipfsHash: string): Promise<any> => {
+// Get data from IPFS through the cache, gateways and storage providers
+export const getFromIPFS = async (ipfsHash: string, access?: DocumentAccess): Promise<any> => {
   try {
-    if (config.ipfs.usePinata) {
-      // With Pinata, we need to use their gateway or a public gateway
-      const gatewayURL = `https://gateway.pinata.cloud/ipfs/${ipfsHash}`;
-      
-      const response = await fetch(gatewayURL);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch from IPFS: ${response.statusText}`);
-      }
-      
-      const data = await response.text();
-      
-      // Attempt to parse as JSON, return as string if it fails
-      try {
-        return JSON.parse(data);
-      } catch (e) {
-        return data;
-      }
-    } else {
-      // Fallback to regular IPFS
-      const client = getIpfsClient();
-      
-      let data = '';
-      
-      for await (const chunk of client.cat(ipfsHash)) {
-        data += new TextDecoder().decode(chunk);
-      }
-      
-      // Attempt to parse as JSON, return as string if it fails
-      try {
-        return JSON.parse(data);
-      } catch (e) {
-        return data;
-      }
-    }
+    const content = await fetchContent(ipfsHash);
+
+    return parseContent(await readContent(ipfsHash, content, access));
   } catch (error) {
+    // Let callers tell a denied read apart from an unavailable document
+    if (error instanceof DocumentAccessError) {
+      throw error;
+    }
     console.error('Error getting data from IPFS:', error);
     throw new Error(`Failed to get data from IPFS: ${error.message}`);
   }
 };
 
+// Get a file from IPFS as bytes, decrypted for the reader
+export const getFileFromIPFS = async (ipfsHash: string, access?: DocumentAccess): Promise<Buffer> => {
+  try {
+    return await readContent(ipfsHash, await fetchContent(ipfsHash), access);
+  } catch (error) {
+    if (error instanceof DocumentAccessError) {
+      throw error;
+    }
+    console.error('Error getting file from IPFS:', error);
+    throw new Error(`Failed to get file from IPFS: ${error.message}`);
+  }
+};
+
 // Optional: Test Pinata connection
 export const testPinataConnection = async (): Promise<boolean> => {
   try {
-    if (!config.ipfs.usePinata) {
+    const provider = getStorageProvider();
+    if (!(provider instanceof PinataStorageProvider)) {
       return false;
     }
-    
-    const client = getPinataClient();
-    await client.testAuthentication();
-    
+
+    await provider.testAuthentication();
+
     console.log('Pinata connection successful');
     return true;
   } catch (error) {
     console.error('Pinata connection failed:', error);
     return false;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,103 @@
+// src/ipfs/pinningManager.ts
+import config from '../config';
+import { IPinStatus } from '../models/Credential';
+import { getStorageProvider } from './storageProviders';
+import { computeCid, isRawCid } from './cid';
+
+/**
+ * Replication of credential documents across storage providers.
+ *
+ * Each document is pinned to every provider in config.pinning.providers, and
+ * the status of each copy is recorded so the pin health monitor can check
+ * them later. A provider that lost its copy is re-pinned with content fetched
+ * from any provider that still serves it.
+ */
+export interface PinResult {
+  cid: string;
+  pins: IPinStatus[];
+}
+
+// Content fetched back from a provider, checked against the CID when it names a raw block
+export const fetchFromProvider = async (providerName: string, cid: string) => {
+  const content = await getStorageProvider(providerName).get(cid);
+
+  if (isRawCid(cid) && computeCid(content) !== cid) {
+    throw new Error(`Content served for ${cid} does not match the CID`);
+  }
+
+  return content;
+};
+
+// Pin content to one provider, failing when it stores it under another CID
+const pinToProvider = async (providerName: string, content: Buffer, name: string, cid?: string) => {
+  const pinnedCid = await getStorageProvider(providerName).add(content, name);
+
+  if (cid && pinnedCid !== cid) {
+    throw new Error(`Stored under ${pinnedCid} instead of ${cid}`);
+  }
+
+  return pinnedCid;
+};
+
+// Pin content to every configured provider; the first that succeeds names the CID
+export const pinContent = async (content: Buffer, name: string): Promise<PinResult> => {
+  let cid: string;
+  const pins: IPinStatus[] = [];
+
+  for (const provider of config.pinning.providers) {
+    const now = new Date();
+    try {
+      cid = await pinToProvider(provider, content, name, cid);
+      pins.push({ provider, status: 'pinned', pinnedAt: now, lastCheckedAt: now });
+    } catch (error) {
+      console.error(`Pinning to ${provider} failed:`, error.message);
+      pins.push({ provider, status: 'failed', lastCheckedAt: now, lastError: error.message });
+    }
+  }
+
+  if (!cid) {
+    throw new Error(`No storage provider pinned the content: ${pins.map(pin => `${pin.provider}: ${pin.lastError}`).join('; ')}`);
+  }
+
+  return { cid, pins };
+};
+
+/**
+ * Check that every configured provider still serves a CID, re-pinning the
+ * ones that lost it from a surviving copy. Returns the updated pin statuses
+ * and whether any copy survived.
+ */
+export const checkPins = async (cid: string, previous: IPinStatus[] = []) => {
+  const pins: IPinStatus[] = [];
+  let survivingContent: Buffer | null = null;
+
+  for (const provider of config.pinning.providers) {
+    const earlier = previous.find(pin => pin.provider === provider);
+    const now = new Date();
+
+    try {
+      const content = await fetchFromProvider(provider, cid);
+      survivingContent = survivingContent || content;
+      pins.push({ provider, status: 'pinned', pinnedAt: earlier?.pinnedAt || now, lastCheckedAt: now });
+    } catch (error) {
+      pins.push({ provider, status: 'missing', lastCheckedAt: now, lastError: error.message });
+    }
+  }
+
+  if (survivingContent) {
+    for (const pin of pins.filter(candidate => candidate.status === 'missing')) {
+      try {
+        await pinToProvider(pin.provider, survivingContent, `repin-${cid}`, cid);
+        Object.assign(pin, { status: 'pinned', pinnedAt: new Date(), lastError: undefined });
+        console.warn(`Re-pinned ${cid} to ${pin.provider}`);
+      } catch (error) {
+        Object.assign(pin, { status: 'failed', lastError: error.message });
+      }
+    }
+  }
+
+  // Keep the history of providers that are no longer configured
+  const unconfigured = previous.filter(pin => !config.pinning.providers.includes(pin.provider));
+
+  return { pins: [...pins, ...unconfigured], retrievable: !!survivingContent };
+};
@@ -0,0 +1,234 @@
+// src/ipfs/storageProviders.ts
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { create, IPFSHTTPClient } from 'ipfs-http-client';
+import PinataClient from '@pinata/sdk';
+import config from '../config';
+import { computeCid } from './cid';
+import { fetchVerifiedContent } from './gatewayFetcher';
+
+/**
+ * Content-addressed storage behind the IPFS service.
+ *
+ * Providers store raw bytes and return the CID they were stored under; the
+ * IPFS service handles serialization and encryption on top. Providers are
+ * selected by name in config (config.pinning.providers, defaulting to
+ * config.ipfs.provider), so environments switch between Pinata, a Kubo node,
+ * a web3.storage-style upload API and the offline local store without code
+ * changes. Other providers only need to implement
+ * `StorageProvider` and be registered.
+ */
+export interface StorageProvider {
+  name: string;
+  add(content: Buffer, name: string): Promise<string>;
+  get(cid: string): Promise<Buffer>;
+}
+
+/**
+ * Pinata pinning service; content is read back through its gateway.
+ */
+export class PinataStorageProvider implements StorageProvider {
+  name = 'pinata';
+  client: PinataClient | null = null;
+
+  private getClient() {
+    if (!this.client) {
+      if (!config.ipfs.pinataApiKey || !config.ipfs.pinataApiSecret) {
+        throw new Error('Pinata API key and secret are required');
+      }
+
+      this.client = new PinataClient({
+        pinataApiKey: config.ipfs.pinataApiKey,
+        pinataSecretApiKey: config.ipfs.pinataApiSecret
+      });
+    }
+
+    return this.client;
+  }
+
+  async add(content: Buffer, name: string) {
+    const result = await this.getClient().pinFileToIPFS(Readable.from(content), {
+      pinataMetadata: { name },
+      pinataOptions: {
+        cidVersion: 1,
+        customPinPolicy: {
+          regions: config.ipfs.pinataRegions.map(id => ({
+            id,
+            desiredReplicationCount: config.ipfs.pinataReplicationCount
+          }))
+        }
+      }
+    });
+
+    return result.IpfsHash;
+  }
+
+  async get(cid: string) {
+    return fetchVerifiedContent(config.ipfs.pinataGatewayUrl, cid);
+  }
+
+  async testAuthentication() {
+    await this.getClient().testAuthentication();
+  }
+}
+
+/**
+ * A Kubo node's RPC API, self-hosted or through Infura.
+ */
+export class KuboStorageProvider implements StorageProvider {
+  name = 'kubo';
+  client: IPFSHTTPClient | null = null;
+
+  private getClient() {
+    if (!this.client) {
+      if (config.ipfs.useInfura) {
+        this.client = create({
+          host: 'ipfs.infura.io',
+          port: 5001,
+          protocol: 'https',
+          headers: {
+            authorization: `Basic ${Buffer.from(
+              `${config.ipfs.infuraProjectId}:${config.ipfs.infuraProjectSecret}`
+            ).toString('base64')}`
+          }
+        });
+      } else {
+        this.client = create({
+          host: config.ipfs.host,
+          port: config.ipfs.port,
+          protocol: config.ipfs.protocol
+        });
+      }
+    }
+
+    return this.client;
+  }
+
+  async add(content: Buffer) {
+    // Same CID the local store computes for content up to one chunk
+    const result = await this.getClient().add(content, { cidVersion: 1, rawLeaves: true, pin: true });
+    return result.cid.toString();
+  }
+
+  async get(cid: string) {
+    const chunks: Uint8Array[] = [];
+    // The node verifies the blocks it assembles
+    for await (const chunk of this.getClient().cat(cid, { timeout: config.ipfs.requestTimeoutMs })) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+}
+
+/**
+ * Upload APIs in the style of web3.storage: the body of a bearer-authenticated
+ * POST /upload is stored and its CID returned, and content is read back
+ * through a gateway.
+ */
+export class Web3StorageProvider implements StorageProvider {
+  name = 'web3storage';
+
+  async add(content: Buffer, name: string) {
+    if (!config.ipfs.web3StorageToken) {
+      throw new Error('web3.storage API token is required');
+    }
+
+    const response = await fetch(`${config.ipfs.web3StorageApiUrl.replace(/\/$/, '')}/upload`, {
+      method: 'POST',
+      headers: {
+        authorization: `Bearer ${config.ipfs.web3StorageToken}`,
+        'content-type': 'application/octet-stream',
+        'x-name': encodeURIComponent(name)
+      },
+      body: content
+    });
+
+    if (!response.ok) {
+      throw new Error(`Upload rejected: ${response.status} ${response.statusText}`);
+    }
+
+    const { cid } = await response.json();
+    return cid;
+  }
+
+  async get(cid: string) {
+    return fetchVerifiedContent(config.ipfs.web3StorageGatewayUrl, cid);
+  }
+}
+
+/**
+ * Offline store for development and CI: each block is a file named by its
+ * CIDv1, so CIDs match what a Kubo node assigns to the same small documents.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  name = 'local';
+  storePath: string;
+
+  constructor(storePath: string) {
+    this.storePath = path.resolve(storePath);
+  }
+
+  private getBlockPath(cid: string) {
+    if (!/^b[a-z2-7]+$/.test(cid)) {
+      throw new Error(`Not a CIDv1 held by the local store: ${cid}`);
+    }
+    return path.join(this.storePath, cid);
+  }
+
+  async add(content: Buffer) {
+    const cid = computeCid(content);
+    const blockPath = this.getBlockPath(cid);
+
+    if (!fs.existsSync(blockPath)) {
+      await fs.promises.mkdir(this.storePath, { recursive: true });
+      // Write then rename so a crash never leaves a partial block under the CID
+      const tempPath = `${blockPath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, content);
+      await fs.promises.rename(tempPath, blockPath);
+    }
+
+    return cid;
+  }
+
+  async get(cid: string) {
+    const blockPath = this.getBlockPath(cid);
+
+    if (!fs.existsSync(blockPath)) {
+      throw new Error(`Content ${cid} is not in the local store`);
+    }
+
+    const content = await fs.promises.readFile(blockPath);
+    if (computeCid(content) !== cid) {
+      throw new Error(`Content of ${cid} in the local store is corrupted`);
+    }
+
+    return content;
+  }
+}
+
+// Registered storage providers, selected by config.ipfs.provider
+const providerFactories: Record<string, () => StorageProvider> = {
+  pinata: () => new PinataStorageProvider(),
+  kubo: () => new KuboStorageProvider(),
+  web3storage: () => new Web3StorageProvider(),
+  local: () => new LocalStorageProvider(config.ipfs.localStorePath)
+};
+const providers: Record<string, StorageProvider> = {};
+
+export const registerStorageProvider = (name: string, factory: () => StorageProvider) => {
+  providerFactories[name] = factory;
+  delete providers[name];
+};
+
+export const getStorageProvider = (name: string = config.ipfs.provider) => {
+  if (!providers[name]) {
+    const factory = providerFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown storage provider: ${name}`);
+    }
+    providers[name] = factory();
+  }
+
+  return providers[name];
+};
@@ -0,0 +1,421 @@
+// src/jobs/issuanceWorker.ts
+import { EventEmitter } from 'events';
+import config from '../config';
+import { IssuanceJob, IIssuanceJob } from '../models/IssuanceJob';
+import { Credential } from '../models/Credential';
+import { Student } from '../models/Student';
+import { Institution } from '../models/Institution';
+import { PendingTransaction } from '../models/PendingTransaction';
+import { pinToIPFS } from '../ipfs/ipfsService';
+import {
+  submitCredential,
+  waitForTransaction,
+  buildIssueCredentialTransaction
+} from '../blockchain/contractService';
+import { getNetwork } from '../blockchain/networks';
+import { getInstitutionSigningKey, getInstitutionAddress } from '../keys/keyManager';
+import { getStudentDid } from '../did/didService';
+import {
+  issueVerifiableCredential,
+  buildVerifiableCredential,
+  computeCredentialHash,
+  getRecipientCommitment,
+  CANONICALIZATION_JCS,
+  VerifiableCredential
+} from '../vc/vcService';
+
+// Error codes and messages worth retrying: network, rate limit and timeout failures
+const TRANSIENT_CODES = ['NETWORK_ERROR', 'SERVER_ERROR', 'TIMEOUT', 'ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 429];
+const TRANSIENT_MESSAGES = [/timeout/i, /rate limit/i, /network/i, /socket hang up/i, /failed to upload to ipfs/i, /nonce/i];
+
+export const isTransientError = (error: { code?: any; message?: string }) => {
+  if (error.code && TRANSIENT_CODES.includes(error.code)) {
+    return true;
+  }
+  return TRANSIENT_MESSAGES.some(pattern => pattern.test(error.message || ''));
+};
+
+// Recipient written on-chain: the salted commitment, or the DID or user ID for documents built before commitments
+const getOnChainRecipient = (job: IIssuanceJob) => job.recipientCommitment || job.recipientDid || job.recipientId;
+
+// Error raised by a pipeline step, flagged for retry or immediate failure
+class JobStepError extends Error {
+  transient: boolean;
+  // Set when the step can't run yet: the job waits until then without using an attempt
+  deferUntil?: Date;
+
+  constructor(message: string, transient: boolean, deferUntil?: Date) {
+    super(message);
+    this.transient = transient;
+    this.deferUntil = deferUntil;
+  }
+}
+
+/**
+ * Drives credential issuance jobs through
+ * pending → pinned → submitted → confirmed, or failed.
+ *
+ * Wallet-mode jobs are prepared by `prepareWalletJob` and wait in
+ * `awaiting-signature` until the institution submits the signed transaction;
+ * the worker only picks them up again to confirm it.
+ *
+ * Each step persists its output before the next one starts, so a crash or
+ * restart resumes from the last completed step instead of pinning or
+ * submitting the credential twice.
+ */
+class IssuanceWorker extends EventEmitter {
+  timer: NodeJS.Timeout | null;
+  processing: boolean;
+
+  constructor() {
+    super();
+    this.timer = null;
+    this.processing = false;
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  start(intervalMs = config.issuanceJobs.pollIntervalMs) {
+    if (this.timer) {
+      return;
+    }
+
+    console.log('Starting credential issuance worker...');
+    this.timer = setInterval(() => this.processDueJobs(), intervalMs);
+    this.processDueJobs();
+  }
+
+  /**
+   * Stop polling
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Wake the worker when a job is created instead of waiting for the next tick
+   */
+  notify() {
+    setImmediate(() => this.processDueJobs());
+  }
+
+  /**
+   * Process jobs until none are due
+   */
+  async processDueJobs() {
+    if (this.processing) {
+      return;
+    }
+
+    this.processing = true;
+    try {
+      let job = await this.claimNextJob();
+      while (job) {
+        await this.runJob(job);
+        job = await this.claimNextJob();
+      }
+    } catch (error) {
+      console.error('Issuance worker error:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Atomically lock the next due job so concurrent workers skip it
+   */
+  async claimNextJob() {
+    const now = new Date();
+
+    return IssuanceJob.findOneAndUpdate(
+      {
+        nextAttemptAt: { $lte: now },
+        $and: [
+          {
+            $or: [
+              { status: { $in: ['pending', 'pinned'] }, signingMode: { $ne: 'wallet' } },
+              { status: 'submitted' }
+            ]
+          },
+          { $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }] }
+        ]
+      },
+      { $set: { lockedUntil: new Date(now.getTime() + config.issuanceJobs.lockTimeoutMs) } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Advance a job step by step until it completes, fails or must be retried
+   */
+  async runJob(job: IIssuanceJob) {
+    try {
+      while (!['confirmed', 'failed'].includes(job.status)) {
+        if (job.status === 'pending') {
+          await this.pinDocument(job);
+        } else if (job.status === 'pinned') {
+          await this.submitTransaction(job);
+        } else if (job.status === 'submitted') {
+          await this.confirmTransaction(job);
+        }
+
+        await job.save();
+        this.emit('progress', { jobId: job.jobId, status: job.status });
+      }
+
+      job.lockedUntil = undefined;
+      await job.save();
+    } catch (error) {
+      await this.handleFailure(job, error);
+    }
+  }
+
+  /**
+   * pending → pinned: build and sign the credential, then pin it to IPFS
+   */
+  async pinDocument(job: IIssuanceJob) {
+    const [student, institution] = await Promise.all([
+      Student.findOne({ userId: job.recipientId }),
+      Institution.findOne({ userId: job.issuerId })
+    ]);
+
+    if (!student || !institution) {
+      throw new JobStepError('Student or institution profile not found', false);
+    }
+
+    // Reuse the signed document from an earlier attempt so its hash stays stable
+    if (!job.credentialDocument) {
+      job.recipientDid = await getStudentDid(job.recipientId);
+
+      const params = {
+        credentialId: job.credentialId,
+        credentialType: job.request.credentialType,
+        credentialName: job.request.credentialName,
+        description: job.request.description,
+        category: job.request.category,
+        issuer: {
+          name: institution.name,
+          country: institution.country,
+          userId: job.issuerId,
+        },
+        recipient: {
+          did: job.recipientDid,
+          name: `${student.firstName} ${student.lastName}`,
+          studentId: student.studentId,
+          userId: job.recipientId,
+        },
+        issueDate: job.request.issueDate,
+        expiryDate: job.request.expiryDate || null,
+        metadata: job.request.metadata,
+        attachments: job.request.attachments,
+        chainId: job.chainId,
+      };
+
+      // Wallet-signed credentials carry no embedded proof: the server never holds
+      // the key, and the wallet-signed anchoring transaction attests the hash
+      job.credentialDocument = job.signingMode === 'wallet'
+        ? buildVerifiableCredential({ ...params, issuerAddress: job.signerAddress })
+        : issueVerifiableCredential(params, await getInstitutionSigningKey(job.issuerId));
+      job.credentialHash = computeCredentialHash(job.credentialDocument);
+      job.recipientCommitment = getRecipientCommitment(job.credentialDocument as VerifiableCredential);
+      job.markModified('credentialDocument');
+      await job.save();
+    }
+
+    const { ipfsHash, pins } = await pinToIPFS(job.credentialDocument, {
+      credentialId: job.credentialId,
+      issuerId: job.issuerId,
+      recipientId: job.recipientId
+    });
+    job.ipfsHash = ipfsHash;
+    job.pins = pins;
+    job.status = 'pinned';
+  }
+
+  /**
+   * Wallet mode: pin the document and build the transaction for the institution
+   * to sign, leaving the job in awaiting-signature
+   */
+  async prepareWalletJob(job: IIssuanceJob) {
+    await this.pinDocument(job);
+
+    const expiryDate = job.request.expiryDate
+      ? Math.floor(job.request.expiryDate.getTime() / 1000)
+      : 0;
+
+    job.unsignedTransaction = await buildIssueCredentialTransaction(
+      job.signerAddress,
+      job.credentialId,
+      getOnChainRecipient(job),
+      job.credentialHash,
+      job.ipfsHash,
+      expiryDate,
+      job.chainId
+    );
+    job.markModified('unsignedTransaction');
+    job.status = 'awaiting-signature';
+    await job.save();
+
+    this.emit('progress', { jobId: job.jobId, status: job.status });
+    return job.unsignedTransaction;
+  }
+
+  /**
+   * pinned → submitted: send the issuance transaction and record its hash
+   */
+  async submitTransaction(job: IIssuanceJob) {
+    // The nonce manager records each signed transaction before broadcasting it. A crash
+    // or timeout after an earlier broadcast leaves that record: follow it instead of
+    // sending issueCredential again, which would revert once the first one is mined
+    const broadcast = await PendingTransaction.findOne({
+      action: 'issue',
+      credentialId: job.credentialId,
+      status: { $in: ['pending', 'mined'] }
+    }).sort({ broadcastAt: -1 });
+
+    if (broadcast) {
+      job.txHash = broadcast.minedTxHash || broadcast.txHash;
+      job.status = 'submitted';
+      return;
+    }
+
+    const expiryDate = job.request.expiryDate
+      ? Math.floor(job.request.expiryDate.getTime() / 1000)
+      : 0;
+
+    const result = await submitCredential(
+      job.issuerId,
+      job.credentialId,
+      getOnChainRecipient(job),
+      job.credentialHash,
+      job.ipfsHash,
+      expiryDate,
+      job.chainId
+    );
+
+    if (!result.success) {
+      // Fees or spending above the institution's gas policy: queue until it may pass
+      throw new JobStepError(result.error, isTransientError(result), result.retryAt);
+    }
+
+    job.txHash = result.txHash;
+    job.status = 'submitted';
+  }
+
+  /**
+   * submitted → confirmed: wait for the receipt and create the credential record
+   */
+  async confirmTransaction(job: IIssuanceJob) {
+    const result = await waitForTransaction(job.txHash, config.issuanceJobs.confirmationTimeoutMs, job.chainId);
+
+    if (!result.mined) {
+      // Still pending: check again later without resubmitting or using an attempt
+      throw new JobStepError(
+        result.error || 'Transaction not yet mined',
+        true,
+        new Date(Date.now() + config.issuanceJobs.retryBaseDelayMs)
+      );
+    }
+
+    if (!result.success) {
+      throw new JobStepError(result.error, false);
+    }
+
+    job.gasUsed = result.gasUsed;
+
+    const student = await Student.findOne({ userId: job.recipientId });
+    const existing = await Credential.findOne({ credentialId: job.credentialId });
+
+    if (!existing) {
+      const credential = new Credential({
+        credentialId: job.credentialId,
+        credentialType: job.request.credentialType,
+        credentialName: job.request.credentialName,
+        description: job.request.description,
+        category: job.request.category,
+        issuerId: job.issuerId,
+        recipientId: job.recipientId,
+        recipientDid: job.recipientDid,
+        recipientCommitment: job.recipientCommitment,
+        recipientName: `${student.firstName} ${student.lastName}`,
+        recipientStudentId: student.studentId,
+        issueDate: job.request.issueDate,
+        expiryDate: job.request.expiryDate,
+        status: 'active',
+        metadata: job.request.metadata,
+        attachments: job.request.attachments,
+        blockchainTxHash: job.txHash,
+        chainId: getNetwork(job.chainId).chainId,
+        contractVersion: getNetwork(job.chainId).contractVersion,
+        ipfsHash: job.ipfsHash,
+        pins: job.pins,
+        canonicalization: CANONICALIZATION_JCS,
+        credentialHash: job.credentialHash,
+        signingMode: job.signingMode,
+        issuerAddress: job.signerAddress || await getInstitutionAddress(job.issuerId),
+        verifications: 0,
+      });
+
+      await credential.save();
+
+      // Update student's credentials count
+      student.credentialsCount += 1;
+      await student.save();
+    }
+
+    job.status = 'confirmed';
+    job.completedAt = new Date();
+  }
+
+  /**
+   * Defer a job the gas policy held back or whose transaction is unconfirmed,
+   * schedule a retry with exponential backoff, or mark the job failed
+   */
+  async handleFailure(job: IIssuanceJob, error: any) {
+    // Once broadcast, a job only fails on a reverted receipt, or through the
+    // transaction monitor when its transaction is cancelled or dropped
+    const reverted = error instanceof JobStepError && !error.transient;
+    if (job.status === 'submitted' && !reverted && !error.deferUntil) {
+      error = new JobStepError(error.message, true, new Date(Date.now() + config.issuanceJobs.retryBaseDelayMs));
+    }
+
+    if (error instanceof JobStepError && error.deferUntil) {
+      job.lastError = error.message;
+      job.lockedUntil = undefined;
+      job.nextAttemptAt = error.deferUntil;
+      console.warn(`Issuance job ${job.jobId} deferred until ${error.deferUntil.toISOString()}: ${error.message}`);
+
+      await job.save();
+      this.emit('progress', { jobId: job.jobId, status: job.status, deferredUntil: error.deferUntil });
+      return;
+    }
+
+    const transient = error instanceof JobStepError ? error.transient : isTransientError(error);
+
+    job.attempts += 1;
+    job.lastError = error.message;
+    job.lockedUntil = undefined;
+
+    if (transient && job.attempts < job.maxAttempts) {
+      const delayMs = Math.pow(2, job.attempts - 1) * config.issuanceJobs.retryBaseDelayMs;
+      job.nextAttemptAt = new Date(Date.now() + delayMs);
+      console.warn(`Issuance job ${job.jobId} will retry in ${delayMs}ms: ${error.message}`);
+    } else {
+      job.status = 'failed';
+      job.completedAt = new Date();
+      console.error(`Issuance job ${job.jobId} failed:`, error.message);
+    }
+
+    await job.save();
+    this.emit('progress', { jobId: job.jobId, status: job.status, error: error.message });
+  }
+}
+
+// Create singleton instance
+const issuanceWorker = new IssuanceWorker();
+
+export default issuanceWorker;
@@ -0,0 +1,136 @@
+// src/jobs/pinHealthMonitor.ts
+import { EventEmitter } from 'events';
+import config from '../config';
+import { Credential, ICredential, IPinStatus } from '../models/Credential';
+import { checkPins } from '../ipfs/pinningManager';
+
+/**
+ * Periodically checks that every credential document, and every file attached
+ * to it, is still retrievable from each configured storage provider.
+ *
+ * Credentials are checked oldest check first, a batch per tick, so each one
+ * is revisited about every `recheckAfterMs`. A provider that lost its copy is
+ * re-pinned from a surviving one; a document no provider serves any more is
+ * reported with a 'lost' event, as its credential can no longer be verified.
+ * Events about an attachment carry its name.
+ */
+class PinHealthMonitor extends EventEmitter {
+  timer: NodeJS.Timeout | null;
+  checking: boolean;
+
+  constructor() {
+    super();
+    this.timer = null;
+    this.checking = false;
+  }
+
+  /**
+   * Start checking pins
+   */
+  start(intervalMs = config.pinning.healthCheckIntervalMs) {
+    if (this.timer) {
+      return;
+    }
+
+    console.log('Starting pin health monitor...');
+    this.timer = setInterval(() => this.checkDuePins(), intervalMs);
+    this.checkDuePins();
+  }
+
+  /**
+   * Stop checking
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check the credentials whose pins are due
+   */
+  async checkDuePins() {
+    if (this.checking) {
+      return;
+    }
+
+    this.checking = true;
+    try {
+      const dueBefore = new Date(Date.now() - config.pinning.recheckAfterMs);
+      const credentials = await Credential.find({
+        ipfsHash: { $exists: true },
+        $or: [{ pinsCheckedAt: { $exists: false } }, { pinsCheckedAt: { $lte: dueBefore } }]
+      })
+        .sort({ pinsCheckedAt: 1 })
+        .limit(config.pinning.batchSize);
+
+      for (const credential of credentials) {
+        try {
+          await this.checkCredential(credential);
+        } catch (error) {
+          console.error(`Pin health check failed on ${credential.credentialId}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('Pin health monitor error:', error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Check one credential's pins and those of its attachments, re-pinning lost
+   * copies, and record the result
+   */
+  async checkCredential(credential: ICredential) {
+    const results = [{ ...await this.checkCid(credential.ipfsHash, credential.pins), attachment: undefined }];
+    credential.pins = results[0].pins;
+
+    for (const attachment of credential.attachments || []) {
+      const result = await this.checkCid(attachment.ipfsHash, attachment.pins);
+      attachment.pins = result.pins;
+      results.push({ ...result, attachment: attachment.name });
+    }
+
+    credential.pinsCheckedAt = new Date();
+    await credential.save();
+
+    for (const { ipfsHash, retrievable, repinned, attachment } of results) {
+      const content = attachment ? `attachment ${attachment}` : 'document';
+
+      if (!retrievable) {
+        console.error(`Credential ${credential.credentialId} ${content} ${ipfsHash} is not retrievable from any provider`);
+        this.emit('lost', { credentialId: credential.credentialId, ipfsHash, attachment });
+      } else if (repinned.length > 0) {
+        this.emit('repinned', {
+          credentialId: credential.credentialId,
+          ipfsHash,
+          attachment,
+          providers: repinned.map(pin => pin.provider)
+        });
+      }
+    }
+
+    return credential.pins;
+  }
+
+  /**
+   * Check one CID against its previous pin statuses
+   */
+  async checkCid(ipfsHash: string, previous: IPinStatus[] = []) {
+    const { pins, retrievable } = await checkPins(ipfsHash, previous);
+
+    const repinned = pins.filter(pin => {
+      const earlier = previous.find(candidate => candidate.provider === pin.provider);
+      return pin.status === 'pinned' && earlier && earlier.status !== 'pinned';
+    });
+
+    return { ipfsHash, pins, retrievable, repinned };
+  }
+}
+
+// Create singleton instance
+const pinHealthMonitor = new PinHealthMonitor();
+
+export default pinHealthMonitor;
@@ -0,0 +1,222 @@
+// src/jobs/transactionMonitor.ts
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import config from '../config';
+import { PendingTransaction, IPendingTransaction } from '../models/PendingTransaction';
+import { getInstitutionWallet, getWallet } from '../blockchain/contractService';
+import { getNetworkProvider } from '../blockchain/providers';
+import { recordTransactionOutcome } from '../blockchain/nonceManager';
+import {
+  getGasPolicy,
+  getMaxFeePerGas,
+  getReceiptCost,
+  adjustReservedCost,
+  settleTransactionCost
+} from '../blockchain/gasPolicy';
+import { rateLimitedWeb3Call } from '../utils/rateLimiter';
+
+/**
+ * Follows transactions sent from managed keys until their nonce is consumed.
+ *
+ * A transaction still unmined `stuckTimeoutMs` after its last broadcast is
+ * replaced with the same call at a higher fee, up to `maxSpeedUps` times;
+ * after that it is cancelled with a zero-value transfer to the signer so the
+ * nonces queued behind it can be mined. Speed-ups stay under the
+ * institution's fee cap; while the cap leaves no room the transaction waits.
+ * Every transition is written back to the credential (and issuance job)
+ * through recordTransactionOutcome, and settled against gas spending.
+ */
+class TransactionMonitor extends EventEmitter {
+  timer: NodeJS.Timeout | null;
+  polling: boolean;
+
+  constructor() {
+    super();
+    this.timer = null;
+    this.polling = false;
+  }
+
+  /**
+   * Start polling pending transactions
+   */
+  start(intervalMs = config.transactions.pollIntervalMs) {
+    if (this.timer) {
+      return;
+    }
+
+    console.log('Starting transaction monitor...');
+    this.timer = setInterval(() => this.poll(), intervalMs);
+    this.poll();
+  }
+
+  /**
+   * Stop polling
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check every pending transaction, oldest nonce first
+   */
+  async poll() {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      const pending = await PendingTransaction.find({ status: 'pending' }).sort({ chainId: 1, signer: 1, nonce: 1 });
+
+      for (const record of pending) {
+        try {
+          await this.checkTransaction(record);
+        } catch (error) {
+          console.error(`Transaction monitor failed on ${record.txHash}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('Transaction monitor error:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Settle a transaction whose nonce was consumed, or replace it if it is stuck
+   */
+  async checkTransaction(record: IPendingTransaction) {
+    const provider = getNetworkProvider(record.chainId);
+
+    // Read the mined nonce first so a transaction mined in between is not taken for dropped
+    const minedNonce = await rateLimitedWeb3Call(
+      'eth_getTransactionCount',
+      () => provider.getTransactionCount(record.signer, 'latest')
+    ) as number;
+
+    // Any broadcast for this nonce may be the one that was mined
+    for (const txHash of [record.txHash, ...record.replacedTxHashes]) {
+      const receipt = await rateLimitedWeb3Call(
+        'eth_getTransactionReceipt',
+        () => provider.getTransactionReceipt(txHash)
+      ) as ethers.providers.TransactionReceipt;
+
+      if (receipt) {
+        return this.complete(record, receipt);
+      }
+    }
+
+    if (minedNonce > record.nonce) {
+      // The nonce went to a transaction sent outside the nonce manager
+      record.status = 'dropped';
+      record.completedAt = new Date();
+      await record.save();
+      await settleTransactionCost(record);
+      await recordTransactionOutcome(record, 'dropped');
+      this.emit('dropped', { txHash: record.txHash, nonce: record.nonce });
+      return;
+    }
+
+    if (Date.now() - record.broadcastAt.getTime() < config.transactions.stuckTimeoutMs) {
+      return;
+    }
+
+    await this.replace(record, record.cancelling || record.speedUps >= config.transactions.maxSpeedUps);
+  }
+
+  /**
+   * Mark a transaction mined, or cancelled if the cancellation is what got mined
+   */
+  async complete(record: IPendingTransaction, receipt: ethers.providers.TransactionReceipt) {
+    const cancelled = record.cancelling && receipt.transactionHash === record.txHash;
+
+    record.status = cancelled ? 'cancelled' : 'mined';
+    record.minedTxHash = receipt.transactionHash;
+    record.completedAt = new Date();
+    Object.assign(record, getReceiptCost(receipt));
+    await record.save();
+    await settleTransactionCost(record);
+
+    await recordTransactionOutcome(record, cancelled ? 'cancelled' : 'mined');
+    this.emit(record.status, { txHash: receipt.transactionHash, nonce: record.nonce });
+  }
+
+  /**
+   * Rebroadcast the nonce at a higher fee: the same call to speed it up, or an empty self-transfer to cancel it
+   */
+  async replace(record: IPendingTransaction, cancel: boolean) {
+    const wallet = record.signerType === 'relayer'
+      ? getWallet(config.relayer.privateKey, record.chainId)
+      : await getInstitutionWallet(record.institutionId, record.chainId, record.signer);
+
+    if (wallet.address.toLowerCase() !== record.signer) {
+      console.warn(`Transaction monitor: key for ${record.signer} has changed; cannot replace nonce ${record.nonce}`);
+      return;
+    }
+
+    const feeData = await rateLimitedWeb3Call(
+      'eth_gasPrice',
+      () => wallet.provider.getFeeData()
+    ) as ethers.providers.FeeData;
+
+    // Nodes only accept a replacement that pays meaningfully more than the original
+    const bumpFee = (previous: string, current?: ethers.BigNumber) => {
+      const bumped = ethers.BigNumber.from(previous).mul(100 + config.transactions.feeBumpPercent).div(100);
+      return current && current.gt(bumped) ? current : bumped;
+    };
+
+    const replacement: ethers.providers.TransactionRequest = cancel
+      ? { to: wallet.address, value: 0, data: '0x', gasLimit: 21000 }
+      : { to: record.to, data: record.data, gasLimit: record.gasLimit };
+
+    replacement.nonce = record.nonce;
+    replacement.chainId = record.chainId;
+
+    if (record.maxFeePerGas) {
+      replacement.type = 2;
+      replacement.maxFeePerGas = bumpFee(record.maxFeePerGas, feeData.maxFeePerGas);
+      replacement.maxPriorityFeePerGas = bumpFee(record.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas);
+    } else {
+      replacement.gasPrice = bumpFee(record.gasPrice, feeData.gasPrice);
+    }
+
+    // Cancelling frees the nonces queued behind this one, so only speed-ups are held to the fee cap
+    const maxFeePerGas = getMaxFeePerGas(await getGasPolicy(record.institutionId));
+    if (!cancel && ethers.BigNumber.from(replacement.maxFeePerGas || replacement.gasPrice).gt(maxFeePerGas)) {
+      console.warn(`Transaction monitor: speeding up nonce ${record.nonce} of ${record.signer} would exceed the fee cap; waiting`);
+      return;
+    }
+
+    const signedTransaction = await wallet.signTransaction(replacement);
+    await rateLimitedWeb3Call(
+      'eth_sendRawTransaction',
+      () => wallet.provider.sendTransaction(signedTransaction)
+    );
+
+    record.replacedTxHashes.push(record.txHash);
+    record.txHash = ethers.utils.keccak256(signedTransaction);
+    record.maxFeePerGas = replacement.maxFeePerGas?.toString();
+    record.maxPriorityFeePerGas = replacement.maxPriorityFeePerGas?.toString();
+    record.gasPrice = replacement.gasPrice?.toString();
+    record.broadcastAt = new Date();
+    await adjustReservedCost(record, replacement);
+    if (cancel) {
+      record.cancelling = true;
+    } else {
+      record.speedUps += 1;
+    }
+    await record.save();
+
+    await recordTransactionOutcome(record, cancel ? 'cancelling' : 'sped-up');
+    console.warn(`Transaction monitor: ${cancel ? 'cancelling' : 'sped up'} nonce ${record.nonce} of ${record.signer} with ${record.txHash}`);
+    this.emit(cancel ? 'cancelling' : 'sped-up', { txHash: record.txHash, nonce: record.nonce });
+  }
+}
+
+// Create singleton instance
+const transactionMonitor = new TransactionMonitor();
+
+export default transactionMonitor;
@@ -0,0 +1,373 @@
+// src/keys/keyManager.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import config from '../config';
+import { InstitutionKey } from '../models/InstitutionKey';
+import { StudentKey } from '../models/StudentKey';
+import { PlatformKey } from '../models/PlatformKey';
+import { Institution } from '../models/Institution';
+
+/**
+ * Envelope encryption for institution signing keys, student DID keys and the
+ * platform's own keys.
+ *
+ * Each private key is encrypted with its own random data key (AES-256-GCM),
+ * and only the data key is wrapped by the master key backend. Swapping the
+ * local file backend for an HSM or cloud KMS only means implementing
+ * `MasterKeyBackend` and registering it.
+ */
+export interface MasterKeyBackend {
+  name: string;
+  wrapKey(dataKey: Buffer): Promise<{ wrappedKey: string; masterKeyId: string }>;
+  unwrapKey(wrappedKey: string, masterKeyId: string): Promise<Buffer>;
+}
+
+export interface EncryptedPayload {
+  ciphertext: string;
+  iv: string;
+  authTag: string;
+}
+
+// AES-256-GCM, also used for credential documents and their content keys
+export const encrypt = (key: Buffer, plaintext: Buffer): EncryptedPayload => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return {
+    ciphertext: ciphertext.toString('base64'),
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64')
+  };
+};
+
+export const decrypt = (key: Buffer, payload: EncryptedPayload) => {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(payload.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(payload.authTag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(payload.ciphertext, 'base64')),
+    decipher.final()
+  ]);
+};
+
+/**
+ * Local stand-in for an HSM/KMS: the master key lives in a file on disk
+ * and is created on first use.
+ */
+export class LocalFileKeyBackend implements MasterKeyBackend {
+  name = 'local';
+  keyPath: string;
+  masterKey: Buffer | null = null;
+
+  constructor(keyPath: string) {
+    this.keyPath = path.resolve(keyPath);
+  }
+
+  private loadMasterKey() {
+    if (!this.masterKey) {
+      if (!fs.existsSync(this.keyPath)) {
+        fs.mkdirSync(path.dirname(this.keyPath), { recursive: true });
+        fs.writeFileSync(this.keyPath, crypto.randomBytes(32).toString('hex'), { mode: 0o600 });
+        console.log(`Created local master key at ${this.keyPath}`);
+      }
+
+      this.masterKey = Buffer.from(fs.readFileSync(this.keyPath, 'utf8').trim(), 'hex');
+      if (this.masterKey.length !== 32) {
+        throw new Error('Local master key must be 32 bytes of hex');
+      }
+    }
+
+    return this.masterKey;
+  }
+
+  // Identify the master key by a fingerprint so rotated keys can be told apart
+  private getMasterKeyId() {
+    return crypto.createHash('sha256').update(this.loadMasterKey()).digest('hex').substring(0, 16);
+  }
+
+  async wrapKey(dataKey: Buffer) {
+    const payload = encrypt(this.loadMasterKey(), dataKey);
+    return {
+      wrappedKey: JSON.stringify(payload),
+      masterKeyId: this.getMasterKeyId()
+    };
+  }
+
+  async unwrapKey(wrappedKey: string, masterKeyId: string) {
+    if (masterKeyId !== this.getMasterKeyId()) {
+      throw new Error(`Master key ${masterKeyId} is not available in the local key file`);
+    }
+    return decrypt(this.loadMasterKey(), JSON.parse(wrappedKey));
+  }
+}
+
+// Registered master key backends, selected by config.keys.backend
+const backendFactories: Record<string, () => MasterKeyBackend> = {
+  local: () => new LocalFileKeyBackend(config.keys.localMasterKeyPath)
+};
+const backends: Record<string, MasterKeyBackend> = {};
+
+export const registerKeyBackend = (name: string, factory: () => MasterKeyBackend) => {
+  backendFactories[name] = factory;
+  delete backends[name];
+};
+
+export const getKeyBackend = (name: string = config.keys.backend) => {
+  if (!backends[name]) {
+    const factory = backendFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown key backend: ${name}`);
+    }
+    backends[name] = factory();
+  }
+
+  return backends[name];
+};
+
+// Encrypt a private key under a fresh data key wrapped by the master key backend
+const sealPrivateKey = async (wallet: ethers.Wallet) => {
+  const backend = getKeyBackend();
+  const dataKey = crypto.randomBytes(32);
+
+  const payload = encrypt(dataKey, Buffer.from(wallet.privateKey.slice(2), 'hex'));
+  const { wrappedKey, masterKeyId } = await backend.wrapKey(dataKey);
+
+  return {
+    address: wallet.address,
+    publicKey: wallet.publicKey,
+    encryptedPrivateKey: payload.ciphertext,
+    iv: payload.iv,
+    authTag: payload.authTag,
+    wrappedDataKey: wrappedKey,
+    masterKeyId,
+    backend: backend.name
+  };
+};
+
+// Decrypt a private key stored by sealPrivateKey
+const openPrivateKey = async (record: {
+  encryptedPrivateKey?: string;
+  iv?: string;
+  authTag?: string;
+  wrappedDataKey?: string;
+  masterKeyId?: string;
+  backend?: string;
+}) => {
+  const backend = getKeyBackend(record.backend);
+  const dataKey = await backend.unwrapKey(record.wrappedDataKey, record.masterKeyId);
+  const privateKey = decrypt(dataKey, {
+    ciphertext: record.encryptedPrivateKey,
+    iv: record.iv,
+    authTag: record.authTag
+  });
+
+  return `0x${privateKey.toString('hex')}`;
+};
+
+// Encrypt and store a private key for an institution, retiring its previous key
+const storeInstitutionKey = async (institutionId: string, wallet: ethers.Wallet) => {
+  const existing = await InstitutionKey.findOne({ address: wallet.address });
+  if (existing && existing.institutionId !== institutionId) {
+    throw new Error(`Key ${wallet.address} belongs to another institution`);
+  }
+
+  await InstitutionKey.updateMany(
+    { institutionId, status: 'active', address: { $ne: wallet.address } },
+    { status: 'retired', retiredAt: new Date() }
+  );
+
+  // Re-importing a retired key makes it active again
+  if (existing) {
+    existing.status = 'active';
+    existing.retiredAt = undefined;
+    await existing.save();
+  } else {
+    await InstitutionKey.create({
+      institutionId,
+      ...await sealPrivateKey(wallet),
+      status: 'active'
+    });
+  }
+
+  // Publish the signing identity on the institution profile
+  await Institution.updateOne(
+    { userId: institutionId },
+    { blockchainAddress: wallet.address, publicKey: wallet.publicKey }
+  );
+
+  return {
+    address: wallet.address,
+    publicKey: wallet.publicKey
+  };
+};
+
+// Generate a new signing key for an institution
+export const createInstitutionKey = async (institutionId: string) => {
+  return storeInstitutionKey(institutionId, ethers.Wallet.createRandom());
+};
+
+// Import an existing private key for an institution
+export const importInstitutionKey = async (institutionId: string, privateKey: string) => {
+  return storeInstitutionKey(institutionId, new ethers.Wallet(privateKey));
+};
+
+/**
+ * Decrypt a signing key of an institution: the active one, or the key behind
+ * `address` (retired or not) for transactions on credentials it anchored
+ */
+export const getInstitutionSigningKey = async (institutionId: string, address?: string) => {
+  const record = address
+    ? await InstitutionKey.findOne({ institutionId, address: ethers.utils.getAddress(address) })
+    : await InstitutionKey.findOne({ institutionId, status: 'active' });
+
+  if (!record) {
+    throw new Error(address
+      ? `No signing key ${address} held for institution ${institutionId}`
+      : `No signing key provisioned for institution ${institutionId}`);
+  }
+
+  return openPrivateKey(record);
+};
+
+// Public address of an institution's signing key
+export const getInstitutionAddress = async (institutionId: string) => {
+  const record = await InstitutionKey.findOne({ institutionId, status: 'active' });
+  return record ? record.address : null;
+};
+
+// Every address an institution has signed with, active key first
+export const getInstitutionAddresses = async (institutionId: string) => {
+  const records = await InstitutionKey.find({ institutionId }).sort({ status: 1, createdAt: -1 });
+  return records.map(record => record.address);
+};
+
+/**
+ * Provision signing keys for institutions registered before keys were managed
+ * here; returns the new addresses, which still need registering on-chain
+ */
+export const backfillInstitutionKeys = async () => {
+  // Drops the unique index on institutionId from when an institution could hold a single key
+  await InstitutionKey.syncIndexes();
+
+  const provisioned = await InstitutionKey.distinct('institutionId');
+  const institutions = await Institution.find({ userId: { $nin: provisioned } });
+  const created: { institutionId: string; address: string }[] = [];
+
+  for (const institution of institutions) {
+    try {
+      const { address } = await createInstitutionKey(institution.userId);
+      created.push({ institutionId: institution.userId, address });
+    } catch (error) {
+      // Provisioned concurrently by another instance
+      if (error.code !== 11000) {
+        throw error;
+      }
+    }
+  }
+
+  return created;
+};
+
+// Generate the key behind a student's did:key; a student keeps the first key created for them
+export const createStudentKey = async (studentId: string) => {
+  try {
+    const record = await StudentKey.create({
+      studentId,
+      ...await sealPrivateKey(ethers.Wallet.createRandom())
+    });
+    return { publicKey: record.publicKey };
+  } catch (error) {
+    // Created concurrently by another request
+    if (error.code === 11000) {
+      const existing = await StudentKey.findOne({ studentId });
+      return { publicKey: existing.publicKey };
+    }
+    throw error;
+  }
+};
+
+// Replace a student's key with a public key they hold the private key for; none is stored here
+export const registerStudentKey = async (studentId: string, publicKey: string) => {
+  const uncompressed = ethers.utils.computePublicKey(publicKey);
+
+  await StudentKey.findOneAndUpdate(
+    { studentId },
+    {
+      $set: {
+        address: ethers.utils.computeAddress(uncompressed),
+        publicKey: uncompressed,
+        custody: 'holder'
+      },
+      $unset: {
+        encryptedPrivateKey: 1,
+        iv: 1,
+        authTag: 1,
+        wrappedDataKey: 1,
+        masterKeyId: 1,
+        backend: 1
+      }
+    },
+    { upsert: true }
+  );
+
+  return { publicKey: uncompressed };
+};
+
+// Whether the key manager holds the private key behind publicKey for a student
+export const holdsStudentKey = async (studentId: string, publicKey: string) => {
+  const record = await StudentKey.findOne({ studentId });
+  return !!record && record.custody !== 'holder' && record.publicKey === publicKey;
+};
+
+// Decrypt a student's key, used to act as the holder of their credentials
+export const getStudentSigningKey = async (studentId: string) => {
+  const record = await StudentKey.findOne({ studentId });
+
+  if (!record) {
+    throw new Error(`No key provisioned for student ${studentId}`);
+  }
+  if (record.custody === 'holder') {
+    throw new Error(`The key of student ${studentId} is held by the student`);
+  }
+
+  return openPrivateKey(record);
+};
+
+const VERIFIER_KEY_NAME = 'verifier';
+
+// Public key credential documents are wrapped for so the platform can open them for verifiers
+export const getVerifierPublicKey = async () => {
+  const existing = await PlatformKey.findOne({ name: VERIFIER_KEY_NAME });
+  if (existing) {
+    return existing.publicKey;
+  }
+
+  try {
+    const record = await PlatformKey.create({
+      name: VERIFIER_KEY_NAME,
+      ...await sealPrivateKey(ethers.Wallet.createRandom())
+    });
+    return record.publicKey;
+  } catch (error) {
+    // Created concurrently by another request
+    if (error.code === 11000) {
+      const record = await PlatformKey.findOne({ name: VERIFIER_KEY_NAME });
+      return record.publicKey;
+    }
+    throw error;
+  }
+};
+
+// Decrypt the verifier key a document copy was wrapped for
+export const getVerifierPrivateKey = async (publicKey: string) => {
+  const record = await PlatformKey.findOne({ name: VERIFIER_KEY_NAME, publicKey });
+
+  if (!record) {
+    throw new Error(`Verifier key ${ethers.utils.computeAddress(publicKey)} is not held by the platform`);
+  }
+
+  return openPrivateKey(record);
+};
@@ -9,6 +9,7 @@ export interface AuthRequest extends Request {
   userId?: string;
   userRole?: string;
   file?: any;
+  files?: any;
   body: any;
   query: any;
   params: any;
@@ -1,6 +1,23 @@
 // src/models/Credential.ts
 import mongoose, { Document, Schema } from 'mongoose';
 
+export interface IPinStatus {
+  provider: string;
+  status: string;
+  pinnedAt?: Date;
+  lastCheckedAt?: Date;
+  lastError?: string;
+}
+
+export interface IAttachment {
+  name: string;
+  mediaType: string;
+  size: number;
+  ipfsHash: string;
+  sha256: string;
+  pins?: IPinStatus[];
+}
+
 export interface ICredential extends Document {
   credentialId: string;
   credentialType: string;
@@ -9,6 +26,8 @@ export interface ICredential extends Document {
   category: string;
   issuerId: string;
   recipientId: string;
+  recipientDid?: string;
+  recipientCommitment?: string;
   recipientName: string;
   recipientStudentId: string;
   issueDate: Date;
@@ -16,15 +35,69 @@ export interface ICredential extends Document {
   status: string;
   revokedDate?: Date;
   revokedReason?: string;
+  revocationReasonCode?: string;
+  suspendedDate?: Date;
+  suspendedReason?: string;
+  suspensionReasonCode?: string;
   metadata: Record<string, any>;
+  attachments?: IAttachment[];
   blockchainTxHash: string;
+  chainId?: number;
+  contractVersion: number;
+  signingMode: string;
+  issuerAddress?: string;
+  lastTransaction?: {
+    action: string;
+    txHash: string;
+    nonce: number;
+    status: string;
+    replacedTxHashes: string[];
+    updatedAt: Date;
+  };
   ipfsHash: string;
+  pins?: IPinStatus[];
+  pinsCheckedAt?: Date;
+  canonicalization: string;
+  credentialHash?: string;
+  batchId?: string;
+  merkleRoot?: string;
+  merkleProof?: string[];
   verifications: number;
   lastVerified?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Whether one storage provider still holds the document, as of its last check
+export const PinStatusSchema = new Schema<IPinStatus>(
+  {
+    provider: { type: String, required: true },
+    status: {
+      type: String,
+      required: true,
+      enum: ['pinned', 'missing', 'failed']
+    },
+    pinnedAt: { type: Date },
+    lastCheckedAt: { type: Date },
+    lastError: { type: String }
+  },
+  { _id: false }
+);
+
+// File attached at issuance: the SHA-256 of its content and the CID it is pinned under
+export const AttachmentSchema = new Schema<IAttachment>(
+  {
+    name: { type: String, required: true },
+    mediaType: { type: String, required: true },
+    size: { type: Number, required: true },
+    ipfsHash: { type: String, required: true },
+    sha256: { type: String, required: true },
+    // Checked and re-pinned with the credential document
+    pins: { type: [PinStatusSchema], default: undefined }
+  },
+  { _id: false }
+);
+
 const CredentialSchema = new Schema<ICredential>(
   {
     credentialId: { type: String, required: true, unique: true },
@@ -38,6 +111,10 @@ const CredentialSchema = new Schema<ICredential>(
     },
     issuerId: { type: String, required: true, ref: 'User' },
     recipientId: { type: String, required: true, ref: 'User' },
+    // Credential subject
+    recipientDid: { type: String },
+    // Salted hash of the subject written on-chain in place of the recipient; the salt is only in the document
+    recipientCommitment: { type: String },
     recipientName: { type: String, required: true },
     recipientStudentId: { type: String, required: true },
     issueDate: { type: Date, required: true },
@@ -45,13 +122,53 @@ const CredentialSchema = new Schema<ICredential>(
     status: { 
       type: String, 
       default: 'active', 
-      enum: ['active', 'revoked', 'expired'] 
+      enum: ['active', 'revoked', 'suspended', 'expired'] 
     },
     revokedDate: { type: Date },
     revokedReason: { type: String },
+    // Reason codes mirror the values stored on-chain (see REVOCATION_REASONS / SUSPENSION_REASONS)
+    revocationReasonCode: { type: String },
+    suspendedDate: { type: Date },
+    suspendedReason: { type: String },
+    suspensionReasonCode: { type: String },
     metadata: { type: Schema.Types.Mixed, default: {} },
+    attachments: { type: [AttachmentSchema], default: undefined },
     blockchainTxHash: { type: String, required: true },
+    // Chain the credential was anchored on; records without one are on the default network
+    chainId: { type: Number },
+    // Registry version holding the credential; records from before versioning live in version 1
+    contractVersion: { type: Number, default: 1 },
+    signingMode: {
+      type: String,
+      default: 'managed',
+      enum: ['managed', 'wallet']
+    },
+    issuerAddress: { type: String },
+    // Outcome of the latest transaction sent for the credential from a managed key
+    lastTransaction: {
+      action: { type: String },
+      txHash: { type: String },
+      nonce: { type: Number },
+      status: {
+        type: String,
+        enum: ['pending', 'sped-up', 'cancelling', 'mined', 'cancelled', 'dropped']
+      },
+      replacedTxHashes: { type: [String], default: undefined },
+      updatedAt: { type: Date }
+    },
     ipfsHash: { type: String, required: true },
+    // Pin status per storage provider, kept current by the pin health monitor
+    pins: { type: [PinStatusSchema], default: undefined },
+    pinsCheckedAt: { type: Date, index: true },
+    canonicalization: {
+      type: String,
+      default: 'legacy-json',
+      enum: ['legacy-json', 'jcs-rfc8785']
+    },
+    credentialHash: { type: String },
+    batchId: { type: String, index: true },
+    merkleRoot: { type: String },
+    merkleProof: { type: [String], default: undefined },
     verifications: { type: Number, default: 0 },
     lastVerified: { type: Date }
   },
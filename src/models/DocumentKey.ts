@@ -0,0 +1,50 @@
+// src/models/DocumentKey.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWrappedDocumentKey {
+  holderType: 'issuer' | 'student' | 'verifier';
+  holderId: string;
+  publicKey: string;
+  ephemeralPublicKey: string;
+  ciphertext: string;
+  iv: string;
+  authTag: string;
+}
+
+export interface IDocumentKey extends Document {
+  ipfsHash: string;
+  credentialId: string;
+  algorithm: string;
+  wrappedKeys: IWrappedDocumentKey[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Content key of an encrypted credential document, wrapped for each party allowed to read it
+const WrappedDocumentKeySchema = new Schema<IWrappedDocumentKey>(
+  {
+    holderType: { type: String, required: true, enum: ['issuer', 'student', 'verifier'] },
+    // User the copy belongs to, or the platform for verifier copies
+    holderId: { type: String, required: true, ref: 'User' },
+    // Holder key the content key was wrapped for; an ECDH agreement with the ephemeral key unwraps it
+    publicKey: { type: String, required: true },
+    ephemeralPublicKey: { type: String, required: true },
+    ciphertext: { type: String, required: true },
+    iv: { type: String, required: true },
+    authTag: { type: String, required: true }
+  },
+  { _id: false }
+);
+
+const DocumentKeySchema = new Schema<IDocumentKey>(
+  {
+    // CID of the encrypted document the key opens
+    ipfsHash: { type: String, required: true, unique: true },
+    credentialId: { type: String, required: true, index: true },
+    algorithm: { type: String, required: true },
+    wrappedKeys: { type: [WrappedDocumentKeySchema], default: [] }
+  },
+  { timestamps: true }
+);
+
+export const DocumentKey = mongoose.model<IDocumentKey>('DocumentKey', DocumentKeySchema);
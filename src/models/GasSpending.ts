@@ -0,0 +1,33 @@
+// src/models/GasSpending.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IGasSpending extends Document {
+  institutionId: string;
+  chainId: number;
+  day: string;
+  spentGwei: number;
+  reservedGwei: number;
+  gasUsed: number;
+  transactionCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Native token spent on transactions for one institution on one chain in one UTC day (YYYY-MM-DD)
+const GasSpendingSchema = new Schema<IGasSpending>(
+  {
+    institutionId: { type: String, required: true, ref: 'User' },
+    chainId: { type: Number, required: true },
+    day: { type: String, required: true },
+    spentGwei: { type: Number, default: 0 },
+    // Worst-case cost of transactions that have not been mined yet
+    reservedGwei: { type: Number, default: 0 },
+    gasUsed: { type: Number, default: 0 },
+    transactionCount: { type: Number, default: 0 }
+  },
+  { timestamps: true }
+);
+
+GasSpendingSchema.index({ institutionId: 1, chainId: 1, day: 1 }, { unique: true });
+
+export const GasSpending = mongoose.model<IGasSpending>('GasSpending', GasSpendingSchema);
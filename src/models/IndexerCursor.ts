@@ -0,0 +1,21 @@
+// src/models/IndexerCursor.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IIndexerCursor extends Document {
+  name: string;
+  lastProcessedBlock: number;
+  lastProcessedBlockHash?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IndexerCursorSchema = new Schema<IIndexerCursor>(
+  {
+    name: { type: String, required: true, unique: true },
+    lastProcessedBlock: { type: Number, required: true },
+    lastProcessedBlockHash: { type: String }
+  },
+  { timestamps: true }
+);
+
+export const IndexerCursor = mongoose.model<IIndexerCursor>('IndexerCursor', IndexerCursorSchema);
@@ -1,6 +1,23 @@
 // src/models/Institution.ts
 import mongoose, { Document, Schema } from 'mongoose';
 
+export interface ICertificateSignature {
+  name: string;
+  title?: string;
+  // PNG or JPEG image of the signature
+  image?: Buffer;
+}
+
+export interface ICertificateTemplate {
+  layout: 'landscape' | 'portrait';
+  title?: string;
+  primaryColor?: string;
+  footerText?: string;
+  // PNG or JPEG logo shown above the institution name
+  logo?: Buffer;
+  signatures: ICertificateSignature[];
+}
+
 export interface IInstitution extends Document {
   userId: string;
   name: string;
@@ -15,10 +32,40 @@ export interface IInstitution extends Document {
   verificationStatus: string;
   blockchainAddress: string;
   publicKey: string;
+  registrationTxHash?: string;
+  relayerGasQuota?: number;
+  gasPolicy?: {
+    maxFeePerGasGwei?: number;
+    maxPriorityFeePerGasGwei?: number;
+    maxTransactionCostGwei?: number;
+    dailySpendingCapGwei?: number;
+  };
+  certificateTemplate?: ICertificateTemplate;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const CertificateSignatureSchema = new Schema<ICertificateSignature>(
+  {
+    name: { type: String, required: true },
+    title: { type: String },
+    image: { type: Buffer }
+  },
+  { _id: false }
+);
+
+const CertificateTemplateSchema = new Schema<ICertificateTemplate>(
+  {
+    layout: { type: String, default: 'landscape', enum: ['landscape', 'portrait'] },
+    title: { type: String },
+    primaryColor: { type: String },
+    footerText: { type: String },
+    logo: { type: Buffer },
+    signatures: { type: [CertificateSignatureSchema], default: [] }
+  },
+  { _id: false }
+);
+
 const InstitutionSchema = new Schema<IInstitution>(
   {
     userId: { type: String, required: true, ref: 'User' },
@@ -37,7 +84,20 @@ const InstitutionSchema = new Schema<IInstitution>(
       enum: ['verified', 'pending', 'unverified'] 
     },
     blockchainAddress: { type: String },
-    publicKey: { type: String }
+    publicKey: { type: String },
+    // Transaction that registered blockchainAddress in the InstitutionRegistry
+    registrationTxHash: { type: String },
+    // Monthly gas the relayer will sponsor; falls back to config.relayer.monthlyGasQuota
+    relayerGasQuota: { type: Number },
+    // Overrides of config.gas for transactions sent on behalf of the institution
+    gasPolicy: {
+      maxFeePerGasGwei: { type: Number },
+      maxPriorityFeePerGasGwei: { type: Number },
+      maxTransactionCostGwei: { type: Number },
+      dailySpendingCapGwei: { type: Number }
+    },
+    // Branding of the printable PDF certificates rendered for the institution's credentials
+    certificateTemplate: { type: CertificateTemplateSchema }
   },
   { timestamps: true }
 );
@@ -0,0 +1,49 @@
+// src/models/InstitutionKey.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IInstitutionKey extends Document {
+  institutionId: string;
+  address: string;
+  publicKey: string;
+  encryptedPrivateKey: string;
+  iv: string;
+  authTag: string;
+  wrappedDataKey: string;
+  masterKeyId: string;
+  backend: string;
+  status: string;
+  retiredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InstitutionKeySchema = new Schema<IInstitutionKey>(
+  {
+    institutionId: { type: String, required: true, index: true, ref: 'User' },
+    // Checksummed signing address
+    address: { type: String, required: true, unique: true },
+    publicKey: { type: String, required: true },
+    encryptedPrivateKey: { type: String, required: true },
+    iv: { type: String, required: true },
+    authTag: { type: String, required: true },
+    wrappedDataKey: { type: String, required: true },
+    masterKeyId: { type: String, required: true },
+    backend: { type: String, required: true },
+    status: {
+      type: String,
+      default: 'active',
+      enum: ['active', 'retired']
+    },
+    // Replaced keys are kept: credentials anchored from their address can only be changed by them
+    retiredAt: { type: Date }
+  },
+  { timestamps: true }
+);
+
+// An institution signs new transactions with a single active key
+InstitutionKeySchema.index(
+  { institutionId: 1, status: 1 },
+  { unique: true, partialFilterExpression: { status: 'active' } }
+);
+
+export const InstitutionKey = mongoose.model<IInstitutionKey>('InstitutionKey', InstitutionKeySchema);
@@ -0,0 +1,95 @@
+// src/models/IssuanceJob.ts
+import mongoose, { Document, Schema } from 'mongoose';
+import { IPinStatus, PinStatusSchema, IAttachment, AttachmentSchema } from './Credential';
+
+export interface IIssuanceJob extends Document {
+  jobId: string;
+  credentialId: string;
+  issuerId: string;
+  recipientId: string;
+  recipientDid?: string;
+  recipientCommitment?: string;
+  status: string;
+  signingMode: string;
+  signerAddress?: string;
+  chainId?: number;
+  request: {
+    credentialType: string;
+    credentialName: string;
+    description?: string;
+    category: string;
+    issueDate: Date;
+    expiryDate?: Date;
+    metadata: Record<string, any>;
+    attachments?: IAttachment[];
+  };
+  credentialDocument?: Record<string, any>;
+  credentialHash?: string;
+  ipfsHash?: string;
+  pins?: IPinStatus[];
+  unsignedTransaction?: Record<string, any>;
+  txHash?: string;
+  gasUsed?: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  nextAttemptAt: Date;
+  lockedUntil?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IssuanceJobSchema = new Schema<IIssuanceJob>(
+  {
+    jobId: { type: String, required: true, unique: true },
+    credentialId: { type: String, required: true, unique: true },
+    issuerId: { type: String, required: true, ref: 'User' },
+    recipientId: { type: String, required: true, ref: 'User' },
+    // Student DID used as credential subject, and the commitment to it written on-chain;
+    // both are fixed when the document is built
+    recipientDid: { type: String },
+    recipientCommitment: { type: String },
+    status: {
+      type: String,
+      default: 'pending',
+      enum: ['pending', 'pinned', 'awaiting-signature', 'submitted', 'confirmed', 'failed']
+    },
+    signingMode: {
+      type: String,
+      default: 'managed',
+      enum: ['managed', 'wallet']
+    },
+    signerAddress: { type: String },
+    // Chain the credential is anchored on, fixed when the job is created
+    chainId: { type: Number },
+    request: {
+      credentialType: { type: String, required: true },
+      credentialName: { type: String, required: true },
+      description: { type: String },
+      category: { type: String, required: true },
+      issueDate: { type: Date, required: true },
+      expiryDate: { type: Date },
+      metadata: { type: Schema.Types.Mixed, default: {} },
+      // Files pinned when the request was accepted
+      attachments: { type: [AttachmentSchema], default: undefined }
+    },
+    credentialDocument: { type: Schema.Types.Mixed },
+    credentialHash: { type: String },
+    ipfsHash: { type: String },
+    // Providers the document was pinned to, copied to the credential once confirmed
+    pins: { type: [PinStatusSchema], default: undefined },
+    unsignedTransaction: { type: Schema.Types.Mixed },
+    txHash: { type: String },
+    gasUsed: { type: String },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 5 },
+    lastError: { type: String },
+    nextAttemptAt: { type: Date, default: Date.now, index: true },
+    lockedUntil: { type: Date },
+    completedAt: { type: Date }
+  },
+  { timestamps: true }
+);
+
+export const IssuanceJob = mongoose.model<IIssuanceJob>('IssuanceJob', IssuanceJobSchema);
@@ -0,0 +1,91 @@
+// src/models/PendingTransaction.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPendingTransaction extends Document {
+  signer: string;
+  signerType: string;
+  chainId: number;
+  nonce: number;
+  institutionId: string;
+  action: string;
+  credentialId?: string;
+  batchId?: string;
+  to: string;
+  data: string;
+  gasLimit: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  txHash: string;
+  replacedTxHashes: string[];
+  status: string;
+  speedUps: number;
+  cancelling: boolean;
+  broadcastAt: Date;
+  spendingDay?: string;
+  reservedCostGwei?: number;
+  minedTxHash?: string;
+  gasUsed?: number;
+  effectiveGasPrice?: string;
+  costGwei?: number;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A transaction sent from a platform-managed key, tracked until its nonce is consumed
+const PendingTransactionSchema = new Schema<IPendingTransaction>(
+  {
+    // Lowercased sending address
+    signer: { type: String, required: true },
+    signerType: {
+      type: String,
+      required: true,
+      enum: ['institution', 'relayer']
+    },
+    chainId: { type: Number, required: true },
+    nonce: { type: Number, required: true },
+    institutionId: { type: String, required: true, ref: 'User' },
+    action: {
+      type: String,
+      required: true,
+      enum: ['issue', 'anchor-batch', 'revoke', 'suspend', 'reinstate']
+    },
+    credentialId: { type: String, index: true },
+    batchId: { type: String },
+    to: { type: String, required: true },
+    data: { type: String, required: true },
+    gasLimit: { type: String, required: true },
+    maxFeePerGas: { type: String },
+    maxPriorityFeePerGas: { type: String },
+    gasPrice: { type: String },
+    // Latest broadcast for this nonce; earlier ones it replaced are kept so their receipts are still found
+    txHash: { type: String, required: true },
+    replacedTxHashes: { type: [String], default: [] },
+    status: {
+      type: String,
+      default: 'pending',
+      enum: ['pending', 'mined', 'cancelled', 'dropped']
+    },
+    speedUps: { type: Number, default: 0 },
+    cancelling: { type: Boolean, default: false },
+    broadcastAt: { type: Date, required: true },
+    // Day of the institution's gas spending the worst-case cost is reserved against
+    spendingDay: { type: String },
+    reservedCostGwei: { type: Number },
+    minedTxHash: { type: String },
+    // From the receipt of whichever broadcast was mined
+    gasUsed: { type: Number },
+    effectiveGasPrice: { type: String },
+    costGwei: { type: Number },
+    completedAt: { type: Date }
+  },
+  { timestamps: true }
+);
+
+// A nonce is reserved by inserting its record, so two senders can never claim the same one
+PendingTransactionSchema.index({ signer: 1, chainId: 1, nonce: 1 }, { unique: true });
+PendingTransactionSchema.index({ status: 1, broadcastAt: 1 });
+PendingTransactionSchema.index({ institutionId: 1, completedAt: 1 });
+
+export const PendingTransaction = mongoose.model<IPendingTransaction>('PendingTransaction', PendingTransactionSchema);
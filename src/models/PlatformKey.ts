@@ -0,0 +1,35 @@
+// src/models/PlatformKey.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPlatformKey extends Document {
+  name: string;
+  address: string;
+  publicKey: string;
+  encryptedPrivateKey: string;
+  iv: string;
+  authTag: string;
+  wrappedDataKey: string;
+  masterKeyId: string;
+  backend: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// secp256k1 key the platform holds for itself, encrypted like institution keys
+const PlatformKeySchema = new Schema<IPlatformKey>(
+  {
+    // What the key is used for, e.g. opening documents for verifiers
+    name: { type: String, required: true, unique: true },
+    address: { type: String, required: true },
+    publicKey: { type: String, required: true, index: true },
+    encryptedPrivateKey: { type: String, required: true },
+    iv: { type: String, required: true },
+    authTag: { type: String, required: true },
+    wrappedDataKey: { type: String, required: true },
+    masterKeyId: { type: String, required: true },
+    backend: { type: String, required: true }
+  },
+  { timestamps: true }
+);
+
+export const PlatformKey = mongoose.model<IPlatformKey>('PlatformKey', PlatformKeySchema);
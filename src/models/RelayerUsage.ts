@@ -0,0 +1,31 @@
+// src/models/RelayerUsage.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IRelayerUsage extends Document {
+  institutionId: string;
+  period: string;
+  gasUsed: number;
+  reservedGas: number;
+  costGwei: number;
+  transactionCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Gas sponsored by the relayer for one institution in one calendar month (YYYY-MM)
+const RelayerUsageSchema = new Schema<IRelayerUsage>(
+  {
+    institutionId: { type: String, required: true, ref: 'User' },
+    period: { type: String, required: true },
+    gasUsed: { type: Number, default: 0 },
+    // Gas limit of relayed transactions that have not been mined yet
+    reservedGas: { type: Number, default: 0 },
+    costGwei: { type: Number, default: 0 },
+    transactionCount: { type: Number, default: 0 }
+  },
+  { timestamps: true }
+);
+
+RelayerUsageSchema.index({ institutionId: 1, period: 1 }, { unique: true });
+
+export const RelayerUsage = mongoose.model<IRelayerUsage>('RelayerUsage', RelayerUsageSchema);
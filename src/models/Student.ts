@@ -17,6 +17,8 @@ export interface IStudent extends Document {
   expectedGraduation: string;
   status: string;
   credentialsCount: number;
+  did?: string;
+  publicKey?: string;
   lastActivity: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -43,6 +45,9 @@ const StudentSchema = new Schema<IStudent>(
       enum: ['active', 'graduated', 'inactive'] 
     },
     credentialsCount: { type: Number, default: 0 },
+    // did:key identifying the student as credential subject, and the key behind it
+    did: { type: String, index: true },
+    publicKey: { type: String },
     lastActivity: { type: Date }
   },
   { timestamps: true }
@@ -0,0 +1,41 @@
+// src/models/StudentKey.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IStudentKey extends Document {
+  studentId: string;
+  address: string;
+  publicKey: string;
+  custody: 'platform' | 'holder';
+  encryptedPrivateKey?: string;
+  iv?: string;
+  authTag?: string;
+  wrappedDataKey?: string;
+  masterKeyId?: string;
+  backend?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// secp256k1 key behind a student's did:key, encrypted like institution keys
+const StudentKeySchema = new Schema<IStudentKey>(
+  {
+    studentId: { type: String, required: true, unique: true, ref: 'User' },
+    address: { type: String, required: true },
+    publicKey: { type: String, required: true },
+    // Keys a student registered themselves are stored without a private key
+    custody: {
+      type: String,
+      default: 'platform',
+      enum: ['platform', 'holder']
+    },
+    encryptedPrivateKey: { type: String },
+    iv: { type: String },
+    authTag: { type: String },
+    wrappedDataKey: { type: String },
+    masterKeyId: { type: String },
+    backend: { type: String }
+  },
+  { timestamps: true }
+);
+
+export const StudentKey = mongoose.model<IStudentKey>('StudentKey', StudentKeySchema);
@@ -4,24 +4,75 @@ import {
   issueNewCredential, 
   getCredentials, 
   getCredentialDetails, 
+  getCredentialDocument,
+  getCredentialAttachment,
+  getCredentialCertificate,
+  getCredentialQrCode,
+  getCredentialBundle,
   revokeACredential, 
+  suspendACredential,
+  reinstateACredential,
   shareCredential,
-  issueBatchCredentials
+  issueBatchCredentials,
+  getIssuanceJob,
+  prepareWalletIssuance,
+  submitWalletIssuance,
+  prepareWalletRevocation,
+  submitWalletRevocation,
+  prepareWalletSuspension,
+  submitWalletSuspension,
+  prepareWalletReinstatement,
+  submitWalletReinstatement
 } from '../controllers/credentialsController';
 import { authenticate, requireRole } from '../middleware/auth';
+import multer from 'multer';
+import config from '../config';
 
 const router = Router();
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.attachments.maxFileBytes, files: config.attachments.maxFiles }
+});
+
+// Accept PDF attachments with an issuance request, answering limit violations with 400
+const uploadAttachments: RequestHandler = (req, res, next) => {
+  upload.array('attachments', config.attachments.maxFiles)(req, res, error => {
+    if (error) {
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+    next();
+  });
+};
 
 // Protected routes requiring any authenticated user
 router.use(authenticate as RequestHandler);
 router.get('/', getCredentials as unknown as RequestHandler);
+router.get('/jobs/:jobId', requireRole(['institution']) as RequestHandler, getIssuanceJob as unknown as RequestHandler);
 router.get('/:id', getCredentialDetails as unknown as RequestHandler);
+router.get('/:id/document', getCredentialDocument as unknown as RequestHandler);
+router.get('/:id/attachments/:name', getCredentialAttachment as unknown as RequestHandler);
+router.get('/:id/certificate.pdf', getCredentialCertificate as unknown as RequestHandler);
+router.get('/:id/qr.:format', getCredentialQrCode as unknown as RequestHandler);
+router.get('/:id/bundle', getCredentialBundle as unknown as RequestHandler);
 
 // Institution-only routes
-router.post('/issue', requireRole(['institution']) as RequestHandler, issueNewCredential as unknown as RequestHandler);
+router.post('/issue', requireRole(['institution']) as RequestHandler, uploadAttachments, issueNewCredential as unknown as RequestHandler);
 router.put('/:id/revoke', requireRole(['institution']) as RequestHandler, revokeACredential as unknown as RequestHandler);
+router.put('/:id/suspend', requireRole(['institution']) as RequestHandler, suspendACredential as unknown as RequestHandler);
+router.put('/:id/reinstate', requireRole(['institution']) as RequestHandler, reinstateACredential as unknown as RequestHandler);
 router.post('/batch', requireRole(['institution']) as RequestHandler, issueBatchCredentials as unknown as RequestHandler);  // Add this line
 
+// Institution wallet signing: prepare an unsigned transaction, then submit it signed
+router.post('/wallet/issue', requireRole(['institution']) as RequestHandler, prepareWalletIssuance as unknown as RequestHandler);
+router.post('/wallet/issue/:jobId/submit', requireRole(['institution']) as RequestHandler, submitWalletIssuance as unknown as RequestHandler);
+router.post('/:id/wallet/revoke', requireRole(['institution']) as RequestHandler, prepareWalletRevocation as unknown as RequestHandler);
+router.post('/:id/wallet/revoke/submit', requireRole(['institution']) as RequestHandler, submitWalletRevocation as unknown as RequestHandler);
+router.post('/:id/wallet/suspend', requireRole(['institution']) as RequestHandler, prepareWalletSuspension as unknown as RequestHandler);
+router.post('/:id/wallet/suspend/submit', requireRole(['institution']) as RequestHandler, submitWalletSuspension as unknown as RequestHandler);
+router.post('/:id/wallet/reinstate', requireRole(['institution']) as RequestHandler, prepareWalletReinstatement as unknown as RequestHandler);
+router.post('/:id/wallet/reinstate/submit', requireRole(['institution']) as RequestHandler, submitWalletReinstatement as unknown as RequestHandler);
+
 
 // Student-only routes
 router.post('/:id/share', requireRole(['student']) as RequestHandler, shareCredential as unknown as RequestHandler);
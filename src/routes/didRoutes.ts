@@ -0,0 +1,17 @@
+// src/routes/didRoutes.ts
+import { Router, RequestHandler } from 'express';
+import { resolveDidDocument, getOwnDid, registerOwnKey } from '../controllers/didController';
+import { authenticate, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// DID of the signed-in user
+router.get('/', authenticate as RequestHandler, getOwnDid as unknown as RequestHandler);
+
+// Students register a key they hold in place of the one provisioned for them
+router.post('/key', authenticate as RequestHandler, requireRole(['student']) as RequestHandler, registerOwnKey as unknown as RequestHandler);
+
+// Resolve any did:ethr or did:key (public)
+router.get('/:did', resolveDidDocument as unknown as RequestHandler);
+
+export default router;
@@ -4,6 +4,7 @@ import authRoutes from './authRoutes';
 import institutionRoutes from './institutionRoutes';
 import credentialRoutes from './credentialRoutes';
 import verificationRoutes from './verificationRoutes';
+import didRoutes from './didRoutes';
 
 const router = Router();
 
@@ -11,5 +12,6 @@ router.use('/auth', authRoutes);
 router.use('/institutions', institutionRoutes);
 router.use('/credentials', credentialRoutes);
 router.use('/verify', verificationRoutes);
+router.use('/did', didRoutes);
 
 export default router;
\ No newline at end of file
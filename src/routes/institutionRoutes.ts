@@ -1,12 +1,22 @@
 // src/routes/institutionRoutes.ts
 import { Router, RequestHandler } from 'express';
-import { getStudents, addStudent, importStudents, getStudentDetails } from '../controllers/institutionController';
+import {
+  getStudents,
+  addStudent,
+  importStudents,
+  getStudentDetails,
+  getGasUsage,
+  getCertificateTemplate,
+  updateCertificateTemplate
+} from '../controllers/institutionController';
 import { authenticate, requireRole } from '../middleware/auth';
 import multer from 'multer';
 
 
 const router = Router();
 const upload = multer({ storage: multer.memoryStorage() });
+// Logo and signature images of the certificate template
+const templateUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 1048576 } });
 
 // All these routes require authentication and institution role
 router.use(authenticate as RequestHandler);
@@ -16,5 +26,12 @@ router.get('/students', getStudents as unknown as RequestHandler);
 router.post('/students', addStudent as unknown as RequestHandler);
 router.post('/students/import', upload.single('file'), importStudents as unknown as RequestHandler);
 router.get('/students/:id', getStudentDetails as unknown as RequestHandler);
+router.get('/gas-usage', getGasUsage as unknown as RequestHandler);
+router.get('/certificate-template', getCertificateTemplate as unknown as RequestHandler);
+router.put(
+  '/certificate-template',
+  templateUpload.fields([{ name: 'logo', maxCount: 1 }, { name: 'signatureImages', maxCount: 4 }]),
+  updateCertificateTemplate as unknown as RequestHandler
+);
 
 export default router;
\ No newline at end of file
@@ -1,6 +1,6 @@
 // src/routes/verificationRoutes.ts
 import { Router } from 'express';
-import { verifyCredential, verifySharedCredential, getVerificationHistory } from '../controllers/verificationController';
+import { verifyCredential, verifySharedCredential, verifyQrCode, getVerificationHistory } from '../controllers/verificationController';
 import { authenticate } from '../middleware/auth';
 import { RequestHandler } from 'express-serve-static-core';
 
@@ -9,6 +9,9 @@ const router = Router();
 // Public verification with optional authentication
 router.post('/', authenticate as RequestHandler, verifyCredential as unknown as RequestHandler);
 
+// Verify the signed payload scanned from a credential QR code (public)
+router.post('/qr', verifyQrCode as unknown as RequestHandler);
+
 // Verify using shareable link (public)
 router.get('/:shareId', verifySharedCredential as unknown as RequestHandler);
 
@@ -4,13 +4,13 @@ import { ethers, network } from 'hardhat';
 async function main() {
   // Verify we're on the right network
   console.log(`Deploying to network: ${network.name}`);
-  
+
   if (network.name !== 'sepolia') {
     console.error('This script is intended to be run on the Sepolia network');
     console.error('Run with: npx hardhat run --network sepolia src/scripts/deployContracts.ts');
     return;
   }
-  
+
   console.log('Deploying contracts...');
 
   // Get the deployer account
@@ -18,22 +18,50 @@ async function main() {
   console.log(`Deploying contracts with the account: ${deployer.address}`);
   console.log(`Account balance: ${(await deployer.getBalance()).toString()}`);
 
+  // Each registry is an upgradeable implementation behind a RegistryProxy;
+  // the proxy addresses are the ones the backend uses and they never change
+  const RegistryProxy = await ethers.getContractFactory('RegistryProxy');
+
   // Deploy InstitutionRegistry first
   const InstitutionRegistry = await ethers.getContractFactory('InstitutionRegistry');
-  const institutionRegistry = await InstitutionRegistry.deploy();
-  await institutionRegistry.deployed();
-  console.log(`InstitutionRegistry deployed to: ${institutionRegistry.address}`);
+  const institutionRegistryImpl = await InstitutionRegistry.deploy();
+  await institutionRegistryImpl.deployed();
+  const institutionRegistryProxy = await RegistryProxy.deploy(
+    institutionRegistryImpl.address,
+    InstitutionRegistry.interface.encodeFunctionData('initialize')
+  );
+  await institutionRegistryProxy.deployed();
+  const institutionRegistry = InstitutionRegistry.attach(institutionRegistryProxy.address);
+  console.log(`InstitutionRegistry deployed to: ${institutionRegistry.address} (implementation: ${institutionRegistryImpl.address})`);
+
+  // Deploy the EIP-2771 forwarder used by the gasless relayer
+  const CredentialForwarder = await ethers.getContractFactory('CredentialForwarder');
+  const credentialForwarder = await CredentialForwarder.deploy();
+  await credentialForwarder.deployed();
+  console.log(`CredentialForwarder deployed to: ${credentialForwarder.address}`);
 
-  // Deploy CredentialRegistry with the institutionRegistry address
+  // Deploy CredentialRegistry with the institutionRegistry and forwarder addresses
   const CredentialRegistry = await ethers.getContractFactory('CredentialRegistry');
-  const credentialRegistry = await CredentialRegistry.deploy(institutionRegistry.address);
-  await credentialRegistry.deployed();
-  console.log(`CredentialRegistry deployed to: ${credentialRegistry.address}`);
+  const credentialRegistryImpl = await CredentialRegistry.deploy();
+  await credentialRegistryImpl.deployed();
+  const credentialRegistryProxy = await RegistryProxy.deploy(
+    credentialRegistryImpl.address,
+    CredentialRegistry.interface.encodeFunctionData('initialize', [
+      institutionRegistry.address,
+      credentialForwarder.address
+    ])
+  );
+  await credentialRegistryProxy.deployed();
+  const credentialRegistry = CredentialRegistry.attach(credentialRegistryProxy.address);
+  console.log(`CredentialRegistry deployed to: ${credentialRegistry.address} (implementation: ${credentialRegistryImpl.address})`);
 
   console.log('\nDeployment complete!');
   console.log('\nContractAddresses:');
   console.log(`INSTITUTION_REGISTRY_ADDRESS=${institutionRegistry.address}`);
   console.log(`CREDENTIAL_REGISTRY_ADDRESS=${credentialRegistry.address}`);
+  console.log(`CREDENTIAL_FORWARDER_ADDRESS=${credentialForwarder.address}`);
+  console.log('\nIf these replace earlier registries, bump CONTRACT_VERSION, add the old');
+  console.log('CredentialRegistry to LEGACY_CREDENTIAL_REGISTRIES and run yarn migrate-registry.');
 }
 
 main()
@@ -41,4 +69,4 @@ main()
   .catch((error) => {
     console.error(error);
     process.exit(1);
-  });
\ No newline at end of file
+  });
@@ -0,0 +1,320 @@
+// src/scripts/migrateRegistry.ts
+import { ethers } from 'ethers';
+import config from '../config';
+import { DatabaseManager } from '../config/database';
+import { Credential } from '../models/Credential';
+import CredentialRegistryABI from '../contracts/abi/CredentialRegistry.json';
+import InstitutionRegistryABI from '../contracts/abi/InstitutionRegistry.json';
+import { getContracts, getWallet } from '../blockchain/contractService';
+import { getCredentialRegistryAddress, getDefaultNetwork } from '../blockchain/networks';
+
+// Event signatures emitted by registries deployed before reason codes were added
+const LEGACY_EVENTS = [
+  'event CredentialRevoked(string credentialId, uint256 revokedDate)',
+  'event BatchCredentialRevoked(string batchId, string credentialId, uint256 revokedDate)'
+];
+
+const registryEvents = new ethers.utils.Interface([
+  ...CredentialRegistryABI.abi.filter(fragment => fragment.type === 'event'),
+  ...InstitutionRegistryABI.abi.filter(fragment => fragment.type === 'event'),
+  ...LEGACY_EVENTS
+] as any);
+
+interface MigratedCredential {
+  credentialId: string;
+  issuer: string;
+  recipientId: string;
+  credentialHash: string;
+  ipfsHash: string;
+  issueDate: ethers.BigNumber;
+  expiryDate: number;
+  isRevoked: boolean;
+  revokedDate: ethers.BigNumber | number;
+  revocationReason: number;
+  isSuspended: boolean;
+  suspendedDate: ethers.BigNumber | number;
+  suspensionReason: number;
+}
+
+interface BatchCredentialStatus {
+  revokedDate: ethers.BigNumber | number;
+  revocationReason: number;
+  suspendedDate: ethers.BigNumber | number;
+  suspensionReason: number;
+}
+
+// Read every event of a contract, in block ranges the RPC provider accepts
+const fetchEvents = async (provider: ethers.providers.Provider, address: string, fromBlock: number) => {
+  const latest = await provider.getBlockNumber();
+  const events: ethers.utils.LogDescription[] = [];
+
+  for (let start = fromBlock; start <= latest; start += config.indexer.maxBlockRange) {
+    const end = Math.min(latest, start + config.indexer.maxBlockRange - 1);
+    const logs = await provider.getLogs({ address, fromBlock: start, toBlock: end });
+
+    logs.forEach(log => {
+      try {
+        events.push(registryEvents.parseLog(log));
+      } catch (error) {
+        // Not a registry event (e.g. Upgraded); nothing to replay
+      }
+    });
+  }
+
+  return events;
+};
+
+// Rebuild credential, batch and status state from the old registry's event history
+const replayCredentialEvents = (events: ethers.utils.LogDescription[]) => {
+  const credentials = new Map<string, MigratedCredential>();
+  const batches = new Map<string, any>();
+  const batchStatuses = new Map<string, Map<string, BatchCredentialStatus>>();
+
+  const getBatchStatus = (batchId: string, credentialId: string) => {
+    if (!batchStatuses.has(batchId)) {
+      batchStatuses.set(batchId, new Map());
+    }
+    const statuses = batchStatuses.get(batchId);
+    if (!statuses.has(credentialId)) {
+      statuses.set(credentialId, { revokedDate: 0, revocationReason: 0, suspendedDate: 0, suspensionReason: 0 });
+    }
+    return statuses.get(credentialId);
+  };
+
+  events.forEach(({ name, args }) => {
+    const credential = args.credentialId && credentials.get(args.credentialId);
+
+    switch (name) {
+      case 'CredentialIssued':
+        credentials.set(args.credentialId, {
+          credentialId: args.credentialId,
+          issuer: args.issuer,
+          recipientId: args.recipientId,
+          credentialHash: args.credentialHash,
+          ipfsHash: args.ipfsHash,
+          issueDate: args.issueDate,
+          expiryDate: 0,
+          isRevoked: false,
+          revokedDate: 0,
+          revocationReason: 0,
+          isSuspended: false,
+          suspendedDate: 0,
+          suspensionReason: 0
+        });
+        break;
+      case 'CredentialRevoked':
+        if (credential) {
+          credential.isRevoked = true;
+          credential.revokedDate = args.revokedDate;
+          credential.revocationReason = args.reason || 0;
+          credential.isSuspended = false;
+        }
+        break;
+      case 'CredentialSuspended':
+        if (credential) {
+          credential.isSuspended = true;
+          credential.suspendedDate = args.suspendedDate;
+          credential.suspensionReason = args.reason;
+        }
+        break;
+      case 'CredentialReinstated':
+        if (credential) {
+          credential.isSuspended = false;
+          credential.suspendedDate = 0;
+          credential.suspensionReason = 0;
+        }
+        break;
+      case 'BatchAnchored':
+        batches.set(args.batchId, {
+          batchId: args.batchId,
+          issuer: args.issuer,
+          merkleRoot: args.merkleRoot,
+          credentialCount: args.credentialCount,
+          issueDate: args.issueDate
+        });
+        break;
+      case 'BatchCredentialRevoked': {
+        const status = getBatchStatus(args.batchId, args.credentialId);
+        status.revokedDate = args.revokedDate;
+        status.revocationReason = args.reason || 0;
+        status.suspendedDate = 0;
+        break;
+      }
+      case 'BatchCredentialSuspended': {
+        const status = getBatchStatus(args.batchId, args.credentialId);
+        status.suspendedDate = args.suspendedDate;
+        status.suspensionReason = args.reason;
+        break;
+      }
+      case 'BatchCredentialReinstated': {
+        const status = getBatchStatus(args.batchId, args.credentialId);
+        status.suspendedDate = 0;
+        status.suspensionReason = 0;
+        break;
+      }
+      default:
+        break;
+    }
+  });
+
+  return { credentials, batches, batchStatuses };
+};
+
+// Register institutions of the old InstitutionRegistry in the new one
+const migrateInstitutions = async (
+  oldInstitutionRegistry: ethers.Contract,
+  newInstitutionRegistry: ethers.Contract,
+  fromBlock: number
+) => {
+  const events = await fetchEvents(oldInstitutionRegistry.provider, oldInstitutionRegistry.address, fromBlock);
+  const addresses = new Set(
+    events.filter(event => event.name === 'InstitutionRegistered').map(event => event.args.institutionAddress)
+  );
+
+  let migrated = 0;
+  for (const address of addresses) {
+    const exists = await newInstitutionRegistry.getInstitutionDetails(address).then(() => true, () => false);
+    if (exists) {
+      continue;
+    }
+
+    const details = await oldInstitutionRegistry.getInstitutionDetails(address);
+    await (await newInstitutionRegistry.registerInstitution(
+      address,
+      details.institutionId,
+      details.name,
+      details.institutionType,
+      details.country
+    )).wait();
+
+    if (!details.isActive) {
+      await (await newInstitutionRegistry.setInstitutionStatus(address, false)).wait();
+    }
+    migrated += 1;
+  }
+
+  console.log(`Institutions: ${migrated} migrated, ${addresses.size - migrated} already present`);
+};
+
+// Usage: ts-node src/scripts/migrateRegistry.ts <fromVersion> [fromBlock]
+async function main() {
+  const fromVersion = parseInt(process.argv[2]);
+  const fromBlock = parseInt(process.argv[3] || String(config.indexer.startBlock));
+  const toVersion = config.blockchain.contractVersion;
+  const adminKey = process.env.REGISTRY_ADMIN_PRIVATE_KEY || process.env.DEPLOYER_PRIVATE_KEY;
+
+  if (!fromVersion || fromVersion === toVersion) {
+    console.error('Usage: ts-node src/scripts/migrateRegistry.ts <fromVersion> [fromBlock]');
+    console.error(`<fromVersion> must be a legacy registry version other than the current version ${toVersion}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!adminKey) {
+    throw new Error('REGISTRY_ADMIN_PRIVATE_KEY or DEPLOYER_PRIVATE_KEY must be set to the new registry admin');
+  }
+
+  const dbManager = new DatabaseManager();
+  await dbManager.connectDatabase();
+
+  try {
+    const admin = getWallet(adminKey);
+    const { credentialRegistry, institutionRegistry } = getContracts(admin);
+    const oldRegistry = new ethers.Contract(
+      getCredentialRegistryAddress({ contractVersion: fromVersion }),
+      CredentialRegistryABI.abi,
+      admin.provider
+    );
+
+    console.log(`Migrating registry version ${fromVersion} (${oldRegistry.address}) to version ${toVersion} (${credentialRegistry.address})`);
+
+    if (!(await credentialRegistry.migrationOpen())) {
+      throw new Error('Migration is closed on the new CredentialRegistry');
+    }
+
+    // Institutions first: issuers must be registered before their credentials are used
+    const oldInstitutionRegistryAddress = await oldRegistry.institutionRegistry();
+    if (oldInstitutionRegistryAddress.toLowerCase() !== institutionRegistry.address.toLowerCase()) {
+      const oldInstitutionRegistry = new ethers.Contract(
+        oldInstitutionRegistryAddress,
+        InstitutionRegistryABI.abi,
+        admin.provider
+      );
+      await migrateInstitutions(oldInstitutionRegistry, institutionRegistry, fromBlock);
+    }
+
+    const events = await fetchEvents(admin.provider, oldRegistry.address, fromBlock);
+    const { credentials, batches, batchStatuses } = replayCredentialEvents(events);
+
+    // Expiry dates are not emitted on-chain; take them from the database
+    const records = await Credential.find({ credentialId: { $in: [...credentials.keys()] } });
+    const expiryDates = new Map(records.map(record => [record.credentialId, record.expiryDate]));
+
+    let migratedCredentials = 0;
+    for (const credential of credentials.values()) {
+      const existingHash = await credentialRegistry.getCredentialHash(credential.credentialId);
+      if (existingHash) {
+        continue;
+      }
+
+      const expiryDate = expiryDates.get(credential.credentialId);
+      if (!expiryDates.has(credential.credentialId)) {
+        console.warn(`Credential ${credential.credentialId} is not in the database; migrating without expiry date`);
+      }
+      credential.expiryDate = expiryDate ? Math.floor(expiryDate.getTime() / 1000) : 0;
+
+      await (await credentialRegistry.migrateCredential(credential)).wait();
+      migratedCredentials += 1;
+    }
+
+    let migratedBatches = 0;
+    for (const batch of batches.values()) {
+      const existingRoot = await credentialRegistry.getBatchRoot(batch.batchId);
+      if (existingRoot !== ethers.constants.HashZero) {
+        continue;
+      }
+
+      await (await credentialRegistry.migrateBatch(batch)).wait();
+
+      const statuses = batchStatuses.get(batch.batchId) || new Map<string, BatchCredentialStatus>();
+      for (const [credentialId, status] of statuses) {
+        await (await credentialRegistry.migrateBatchCredentialStatus(
+          batch.batchId,
+          credentialId,
+          status.revokedDate,
+          status.revocationReason,
+          status.suspendedDate,
+          status.suspensionReason
+        )).wait();
+      }
+      migratedBatches += 1;
+    }
+
+    // Point verification at the new registry; records without a chain ID are on the default network
+    const chainId = { $in: [null, getDefaultNetwork().chainId] };
+    const [standalone, batched] = await Promise.all([
+      Credential.updateMany(
+        { credentialId: { $in: [...credentials.keys()] }, chainId, contractVersion: fromVersion },
+        { $set: { contractVersion: toVersion } }
+      ),
+      Credential.updateMany(
+        { batchId: { $in: [...batches.keys()] }, chainId, contractVersion: fromVersion },
+        { $set: { contractVersion: toVersion } }
+      )
+    ]);
+
+    console.log(`Credentials: ${migratedCredentials} migrated, ${credentials.size - migratedCredentials} already present`);
+    console.log(`Batches: ${migratedBatches} migrated, ${batches.size - migratedBatches} already present`);
+    console.log(`Database records moved to version ${toVersion}: ${standalone.modifiedCount + batched.modifiedCount}`);
+    console.log('\nOnce every registry is migrated, call closeMigration() on the new CredentialRegistry.');
+  } finally {
+    await dbManager.disconnectDatabase();
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
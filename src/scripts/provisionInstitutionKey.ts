@@ -0,0 +1,43 @@
+// src/scripts/provisionInstitutionKey.ts
+import { DatabaseManager } from '../config/database';
+import { Institution } from '../models/Institution';
+import { createInstitutionKey, importInstitutionKey } from '../keys/keyManager';
+
+// Usage: ts-node src/scripts/provisionInstitutionKey.ts <institutionUserId> [privateKeyToImport]
+async function main() {
+  const [institutionId, privateKey] = process.argv.slice(2);
+
+  if (!institutionId) {
+    console.error('Usage: ts-node src/scripts/provisionInstitutionKey.ts <institutionUserId> [privateKeyToImport]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const dbManager = new DatabaseManager();
+  await dbManager.connectDatabase();
+
+  try {
+    const institution = await Institution.findOne({ userId: institutionId });
+    if (!institution) {
+      throw new Error(`Institution ${institutionId} not found`);
+    }
+
+    const key = privateKey
+      ? await importInstitutionKey(institutionId, privateKey)
+      : await createInstitutionKey(institutionId);
+
+    console.log(`Signing key ${privateKey ? 'imported' : 'created'} for ${institution.name}`);
+    console.log(`Address: ${key.address}`);
+    console.log('\nRegister this address in InstitutionRegistry before issuing credentials.');
+    console.log('Any previous key is kept as retired to manage the credentials it issued.');
+  } finally {
+    await dbManager.disconnectDatabase();
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
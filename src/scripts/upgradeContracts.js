@@ -0,0 +1,45 @@
+// scripts/upgradeContracts.js
+const { ethers, network } = require("hardhat");
+require("dotenv").config();
+
+// Deploy new implementations and point the existing registry proxies at them.
+// Proxy addresses, and with them every stored credential, stay the same.
+async function main() {
+  console.log(`Upgrading contracts on network: ${network.name}`);
+
+  const proxies = {
+    InstitutionRegistry: process.env.INSTITUTION_REGISTRY_ADDRESS,
+    CredentialRegistry: process.env.CREDENTIAL_REGISTRY_ADDRESS
+  };
+
+  const [deployer] = await ethers.getSigners();
+  console.log(`Upgrading with the account: ${deployer.address}`);
+
+  for (const [name, proxyAddress] of Object.entries(proxies)) {
+    if (!proxyAddress) {
+      throw new Error(`${name} proxy address not set in environment variables`);
+    }
+
+    const factory = await ethers.getContractFactory(name);
+    const registry = factory.attach(proxyAddress);
+
+    const previousImplementation = await registry.getImplementation();
+    const implementation = await factory.deploy();
+    await implementation.deployed();
+
+    const tx = await registry.upgradeTo(implementation.address);
+    await tx.wait();
+
+    console.log(`${name} at ${proxyAddress}: ${previousImplementation} -> ${implementation.address}`);
+  }
+
+  console.log("\nUpgrade complete!");
+}
+
+// Execute the script
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
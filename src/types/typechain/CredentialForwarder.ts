@@ -0,0 +1,245 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  ContractTransaction,
+  PayableOverrides,
+  PopulatedTransaction,
+  Signer,
+  utils,
+} from "ethers";
+import type {
+  FunctionFragment,
+  Result,
+  EventFragment,
+} from "@ethersproject/abi";
+import type { Listener, Provider } from "@ethersproject/providers";
+import type {
+  TypedEventFilter,
+  TypedEvent,
+  TypedListener,
+  OnEvent,
+} from "./common";
+
+export declare namespace CredentialForwarder {
+  export type ForwardRequestStruct = {
+    from: string;
+    to: string;
+    value: BigNumberish;
+    gas: BigNumberish;
+    nonce: BigNumberish;
+    data: BytesLike;
+  };
+
+  export type ForwardRequestStructOutput = [
+    string,
+    string,
+    BigNumber,
+    BigNumber,
+    BigNumber,
+    string
+  ] & {
+    from: string;
+    to: string;
+    value: BigNumber;
+    gas: BigNumber;
+    nonce: BigNumber;
+    data: string;
+  };
+}
+
+export interface CredentialForwarderInterface extends utils.Interface {
+  functions: {
+    "domainSeparator()": FunctionFragment;
+    "execute((address,address,uint256,uint256,uint256,bytes),bytes)": FunctionFragment;
+    "getNonce(address)": FunctionFragment;
+    "verify((address,address,uint256,uint256,uint256,bytes),bytes)": FunctionFragment;
+  };
+
+  getFunction(
+    nameOrSignatureOrTopic:
+      | "domainSeparator"
+      | "execute"
+      | "getNonce"
+      | "verify"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "domainSeparator",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "execute",
+    values: [CredentialForwarder.ForwardRequestStruct, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "getNonce", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "verify",
+    values: [CredentialForwarder.ForwardRequestStruct, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "domainSeparator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "execute", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getNonce", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "verify", data: BytesLike): Result;
+
+  events: {
+    "RequestExecuted(address,address,uint256,address)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "RequestExecuted"): EventFragment;
+}
+
+export interface RequestExecutedEventObject {
+  from: string;
+  to: string;
+  nonce: BigNumber;
+  relayer: string;
+}
+export type RequestExecutedEvent = TypedEvent<
+  [string, string, BigNumber, string],
+  RequestExecutedEventObject
+>;
+
+export type RequestExecutedEventFilter = TypedEventFilter<RequestExecutedEvent>;
+
+export interface CredentialForwarder extends BaseContract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  interface: CredentialForwarderInterface;
+
+  queryFilter<TEvent extends TypedEvent>(
+    event: TypedEventFilter<TEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TEvent>>;
+
+  listeners<TEvent extends TypedEvent>(
+    eventFilter?: TypedEventFilter<TEvent>
+  ): Array<TypedListener<TEvent>>;
+  listeners(eventName?: string): Array<Listener>;
+  removeAllListeners<TEvent extends TypedEvent>(
+    eventFilter: TypedEventFilter<TEvent>
+  ): this;
+  removeAllListeners(eventName?: string): this;
+  off: OnEvent<this>;
+  on: OnEvent<this>;
+  once: OnEvent<this>;
+  removeListener: OnEvent<this>;
+
+  functions: {
+    domainSeparator(overrides?: CallOverrides): Promise<[string]>;
+
+    execute(
+      _req: CredentialForwarder.ForwardRequestStruct,
+      _signature: BytesLike,
+      overrides?: PayableOverrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    getNonce(_from: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    verify(
+      _req: CredentialForwarder.ForwardRequestStruct,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<[boolean]>;
+  };
+
+  domainSeparator(overrides?: CallOverrides): Promise<string>;
+
+  execute(
+    _req: CredentialForwarder.ForwardRequestStruct,
+    _signature: BytesLike,
+    overrides?: PayableOverrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  getNonce(_from: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+  verify(
+    _req: CredentialForwarder.ForwardRequestStruct,
+    _signature: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  callStatic: {
+    domainSeparator(overrides?: CallOverrides): Promise<string>;
+
+    execute(
+      _req: CredentialForwarder.ForwardRequestStruct,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    getNonce(_from: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    verify(
+      _req: CredentialForwarder.ForwardRequestStruct,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+  };
+
+  filters: {
+    "RequestExecuted(address,address,uint256,address)"(
+      from?: string | null,
+      to?: string | null,
+      nonce?: null,
+      relayer?: null
+    ): RequestExecutedEventFilter;
+    RequestExecuted(
+      from?: string | null,
+      to?: string | null,
+      nonce?: null,
+      relayer?: null
+    ): RequestExecutedEventFilter;
+  };
+
+  estimateGas: {
+    domainSeparator(overrides?: CallOverrides): Promise<BigNumber>;
+
+    execute(
+      _req: CredentialForwarder.ForwardRequestStruct,
+      _signature: BytesLike,
+      overrides?: PayableOverrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    getNonce(_from: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    verify(
+      _req: CredentialForwarder.ForwardRequestStruct,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    domainSeparator(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    execute(
+      _req: CredentialForwarder.ForwardRequestStruct,
+      _signature: BytesLike,
+      overrides?: PayableOverrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    getNonce(
+      _from: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    verify(
+      _req: CredentialForwarder.ForwardRequestStruct,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
@@ -26,74 +26,477 @@ import type {
   OnEvent,
 } from "./common";
 
+export declare namespace CredentialRegistry {
+  export type BatchStruct = {
+    batchId: string;
+    issuer: string;
+    merkleRoot: BytesLike;
+    credentialCount: BigNumberish;
+    issueDate: BigNumberish;
+  };
+
+  export type BatchStructOutput = [
+    string,
+    string,
+    string,
+    BigNumber,
+    BigNumber
+  ] & {
+    batchId: string;
+    issuer: string;
+    merkleRoot: string;
+    credentialCount: BigNumber;
+    issueDate: BigNumber;
+  };
+
+  export type CredentialStruct = {
+    credentialId: string;
+    issuer: string;
+    recipientId: string;
+    credentialHash: string;
+    ipfsHash: string;
+    issueDate: BigNumberish;
+    expiryDate: BigNumberish;
+    isRevoked: boolean;
+    revokedDate: BigNumberish;
+    revocationReason: BigNumberish;
+    isSuspended: boolean;
+    suspendedDate: BigNumberish;
+    suspensionReason: BigNumberish;
+  };
+
+  export type CredentialStructOutput = [
+    string,
+    string,
+    string,
+    string,
+    string,
+    BigNumber,
+    BigNumber,
+    boolean,
+    BigNumber,
+    number,
+    boolean,
+    BigNumber,
+    number
+  ] & {
+    credentialId: string;
+    issuer: string;
+    recipientId: string;
+    credentialHash: string;
+    ipfsHash: string;
+    issueDate: BigNumber;
+    expiryDate: BigNumber;
+    isRevoked: boolean;
+    revokedDate: BigNumber;
+    revocationReason: number;
+    isSuspended: boolean;
+    suspendedDate: BigNumber;
+    suspensionReason: number;
+  };
+}
+
 export interface CredentialRegistryInterface extends utils.Interface {
   functions: {
+    "STATUS_ACTIVE()": FunctionFragment;
+    "STATUS_EXPIRED()": FunctionFragment;
+    "STATUS_REVOKED()": FunctionFragment;
+    "STATUS_SUSPENDED()": FunctionFragment;
+    "admin()": FunctionFragment;
+    "anchorBatch(string,bytes32,uint256)": FunctionFragment;
+    "closeMigration()": FunctionFragment;
+    "getBatchCredentialStatus(string,string)": FunctionFragment;
+    "getBatchRoot(string)": FunctionFragment;
     "getCredentialHash(string)": FunctionFragment;
+    "getCredentialStatus(string)": FunctionFragment;
+    "getImplementation()": FunctionFragment;
+    "initialize(address,address)": FunctionFragment;
     "institutionRegistry()": FunctionFragment;
+    "isTrustedForwarder(address)": FunctionFragment;
     "issueCredential(string,string,string,string,uint256)": FunctionFragment;
-    "revokeCredential(string)": FunctionFragment;
+    "migrateBatch((string,address,bytes32,uint256,uint256))": FunctionFragment;
+    "migrateBatchCredentialStatus(string,string,uint256,uint8,uint256,uint8)": FunctionFragment;
+    "migrateCredential((string,address,string,string,string,uint256,uint256,bool,uint256,uint8,bool,uint256,uint8))": FunctionFragment;
+    "migrationOpen()": FunctionFragment;
+    "proxiableUUID()": FunctionFragment;
+    "reinstateBatchCredential(string,string)": FunctionFragment;
+    "reinstateCredential(string)": FunctionFragment;
+    "revokeBatchCredential(string,string,uint8)": FunctionFragment;
+    "revokeCredential(string,uint8)": FunctionFragment;
+    "suspendBatchCredential(string,string,uint8)": FunctionFragment;
+    "suspendCredential(string,uint8)": FunctionFragment;
+    "trustedForwarder()": FunctionFragment;
+    "upgradeTo(address)": FunctionFragment;
+    "upgradeToAndCall(address,bytes)": FunctionFragment;
+    "verifyBatchCredential(string,string,string,bytes32[])": FunctionFragment;
     "verifyCredential(string)": FunctionFragment;
   };
 
   getFunction(
     nameOrSignatureOrTopic:
+      | "STATUS_ACTIVE"
+      | "STATUS_EXPIRED"
+      | "STATUS_REVOKED"
+      | "STATUS_SUSPENDED"
+      | "admin"
+      | "anchorBatch"
+      | "closeMigration"
+      | "getBatchCredentialStatus"
+      | "getBatchRoot"
       | "getCredentialHash"
+      | "getCredentialStatus"
+      | "getImplementation"
+      | "initialize"
       | "institutionRegistry"
+      | "isTrustedForwarder"
       | "issueCredential"
+      | "migrateBatch"
+      | "migrateBatchCredentialStatus"
+      | "migrateCredential"
+      | "migrationOpen"
+      | "proxiableUUID"
+      | "reinstateBatchCredential"
+      | "reinstateCredential"
+      | "revokeBatchCredential"
       | "revokeCredential"
+      | "suspendBatchCredential"
+      | "suspendCredential"
+      | "trustedForwarder"
+      | "upgradeTo"
+      | "upgradeToAndCall"
+      | "verifyBatchCredential"
       | "verifyCredential"
   ): FunctionFragment;
 
+  encodeFunctionData(
+    functionFragment: "STATUS_ACTIVE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "STATUS_EXPIRED",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "STATUS_REVOKED",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "STATUS_SUSPENDED",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "admin", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "anchorBatch",
+    values: [string, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeMigration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchCredentialStatus",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchRoot",
+    values: [string]
+  ): string;
   encodeFunctionData(
     functionFragment: "getCredentialHash",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getCredentialStatus",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getImplementation",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [string, string]
+  ): string;
   encodeFunctionData(
     functionFragment: "institutionRegistry",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "isTrustedForwarder",
+    values: [string]
+  ): string;
   encodeFunctionData(
     functionFragment: "issueCredential",
     values: [string, string, string, string, BigNumberish]
   ): string;
   encodeFunctionData(
-    functionFragment: "revokeCredential",
+    functionFragment: "migrateBatch",
+    values: [CredentialRegistry.BatchStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "migrateBatchCredentialStatus",
+    values: [
+      string,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "migrateCredential",
+    values: [CredentialRegistry.CredentialStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "migrationOpen",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proxiableUUID",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reinstateBatchCredential",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reinstateCredential",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "revokeBatchCredential",
+    values: [string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeCredential",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "suspendBatchCredential",
+    values: [string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "suspendCredential",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "trustedForwarder",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "upgradeTo", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "upgradeToAndCall",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifyBatchCredential",
+    values: [string, string, string, BytesLike[]]
+  ): string;
   encodeFunctionData(
     functionFragment: "verifyCredential",
     values: [string]
   ): string;
 
+  decodeFunctionResult(
+    functionFragment: "STATUS_ACTIVE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "STATUS_EXPIRED",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "STATUS_REVOKED",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "STATUS_SUSPENDED",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "admin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "anchorBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "closeMigration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchCredentialStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchRoot",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getCredentialHash",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCredentialStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getImplementation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "institutionRegistry",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "isTrustedForwarder",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "issueCredential",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "migrateBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "migrateBatchCredentialStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "migrateCredential",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "migrationOpen",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proxiableUUID",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reinstateBatchCredential",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reinstateCredential",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeBatchCredential",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "revokeCredential",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "suspendBatchCredential",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "suspendCredential",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "trustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "upgradeTo", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeToAndCall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyBatchCredential",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "verifyCredential",
     data: BytesLike
   ): Result;
 
   events: {
+    "BatchAnchored(string,address,bytes32,uint256,uint256)": EventFragment;
+    "BatchCredentialReinstated(string,string,uint256)": EventFragment;
+    "BatchCredentialRevoked(string,string,uint8,uint256)": EventFragment;
+    "BatchCredentialSuspended(string,string,uint8,uint256)": EventFragment;
     "CredentialIssued(string,address,string,string,string,uint256)": EventFragment;
-    "CredentialRevoked(string,uint256)": EventFragment;
+    "CredentialReinstated(string,uint256)": EventFragment;
+    "CredentialRevoked(string,uint8,uint256)": EventFragment;
+    "CredentialSuspended(string,uint8,uint256)": EventFragment;
+    "MigrationClosed(uint256)": EventFragment;
+    "Upgraded(address)": EventFragment;
   };
 
+  getEvent(nameOrSignatureOrTopic: "BatchAnchored"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "BatchCredentialReinstated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "BatchCredentialRevoked"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "BatchCredentialSuspended"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "CredentialIssued"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "CredentialReinstated"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "CredentialRevoked"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "CredentialSuspended"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "MigrationClosed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Upgraded"): EventFragment;
+}
+
+export interface BatchAnchoredEventObject {
+  batchId: string;
+  issuer: string;
+  merkleRoot: string;
+  credentialCount: BigNumber;
+  issueDate: BigNumber;
+}
+export type BatchAnchoredEvent = TypedEvent<
+  [string, string, string, BigNumber, BigNumber],
+  BatchAnchoredEventObject
+>;
+
+export type BatchAnchoredEventFilter = TypedEventFilter<BatchAnchoredEvent>;
+
+export interface BatchCredentialReinstatedEventObject {
+  batchId: string;
+  credentialId: string;
+  reinstatedDate: BigNumber;
+}
+export type BatchCredentialReinstatedEvent = TypedEvent<
+  [string, string, BigNumber],
+  BatchCredentialReinstatedEventObject
+>;
+
+export type BatchCredentialReinstatedEventFilter =
+  TypedEventFilter<BatchCredentialReinstatedEvent>;
+
+export interface BatchCredentialRevokedEventObject {
+  batchId: string;
+  credentialId: string;
+  reason: number;
+  revokedDate: BigNumber;
 }
+export type BatchCredentialRevokedEvent = TypedEvent<
+  [string, string, number, BigNumber],
+  BatchCredentialRevokedEventObject
+>;
+
+export type BatchCredentialRevokedEventFilter =
+  TypedEventFilter<BatchCredentialRevokedEvent>;
+
+export interface BatchCredentialSuspendedEventObject {
+  batchId: string;
+  credentialId: string;
+  reason: number;
+  suspendedDate: BigNumber;
+}
+export type BatchCredentialSuspendedEvent = TypedEvent<
+  [string, string, number, BigNumber],
+  BatchCredentialSuspendedEventObject
+>;
+
+export type BatchCredentialSuspendedEventFilter =
+  TypedEventFilter<BatchCredentialSuspendedEvent>;
 
 export interface CredentialIssuedEventObject {
   credentialId: string;
@@ -111,18 +514,61 @@ export type CredentialIssuedEvent = TypedEvent<
 export type CredentialIssuedEventFilter =
   TypedEventFilter<CredentialIssuedEvent>;
 
+export interface CredentialReinstatedEventObject {
+  credentialId: string;
+  reinstatedDate: BigNumber;
+}
+export type CredentialReinstatedEvent = TypedEvent<
+  [string, BigNumber],
+  CredentialReinstatedEventObject
+>;
+
+export type CredentialReinstatedEventFilter =
+  TypedEventFilter<CredentialReinstatedEvent>;
+
 export interface CredentialRevokedEventObject {
   credentialId: string;
+  reason: number;
   revokedDate: BigNumber;
 }
 export type CredentialRevokedEvent = TypedEvent<
-  [string, BigNumber],
+  [string, number, BigNumber],
   CredentialRevokedEventObject
 >;
 
 export type CredentialRevokedEventFilter =
   TypedEventFilter<CredentialRevokedEvent>;
 
+export interface CredentialSuspendedEventObject {
+  credentialId: string;
+  reason: number;
+  suspendedDate: BigNumber;
+}
+export type CredentialSuspendedEvent = TypedEvent<
+  [string, number, BigNumber],
+  CredentialSuspendedEventObject
+>;
+
+export type CredentialSuspendedEventFilter =
+  TypedEventFilter<CredentialSuspendedEvent>;
+
+export interface MigrationClosedEventObject {
+  closedDate: BigNumber;
+}
+export type MigrationClosedEvent = TypedEvent<
+  [BigNumber],
+  MigrationClosedEventObject
+>;
+
+export type MigrationClosedEventFilter = TypedEventFilter<MigrationClosedEvent>;
+
+export interface UpgradedEventObject {
+  implementation: string;
+}
+export type UpgradedEvent = TypedEvent<[string], UpgradedEventObject>;
+
+export type UpgradedEventFilter = TypedEventFilter<UpgradedEvent>;
+
 export interface CredentialRegistry extends BaseContract {
   connect(signerOrProvider: Signer | Provider | string): this;
   attach(addressOrName: string): this;
@@ -150,13 +596,77 @@ export interface CredentialRegistry extends BaseContract {
   removeListener: OnEvent<this>;
 
   functions: {
+    STATUS_ACTIVE(overrides?: CallOverrides): Promise<[number]>;
+
+    STATUS_EXPIRED(overrides?: CallOverrides): Promise<[number]>;
+
+    STATUS_REVOKED(overrides?: CallOverrides): Promise<[number]>;
+
+    STATUS_SUSPENDED(overrides?: CallOverrides): Promise<[number]>;
+
+    admin(overrides?: CallOverrides): Promise<[string]>;
+
+    anchorBatch(
+      _batchId: string,
+      _merkleRoot: BytesLike,
+      _credentialCount: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    closeMigration(
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    getBatchCredentialStatus(
+      _batchId: string,
+      _credentialId: string,
+      overrides?: CallOverrides
+    ): Promise<
+      [number, number, BigNumber] & {
+        status: number;
+        reason: number;
+        statusDate: BigNumber;
+      }
+    >;
+
+    getBatchRoot(
+      _batchId: string,
+      overrides?: CallOverrides
+    ): Promise<[string]>;
+
     getCredentialHash(
       _credentialId: string,
       overrides?: CallOverrides
     ): Promise<[string]>;
 
+    getCredentialStatus(
+      _credentialId: string,
+      overrides?: CallOverrides
+    ): Promise<
+      [number, number, BigNumber] & {
+        status: number;
+        reason: number;
+        statusDate: BigNumber;
+      }
+    >;
+
+    getImplementation(
+      overrides?: CallOverrides
+    ): Promise<[string] & { implementation: string }>;
+
+    initialize(
+      _institutionRegistryAddress: string,
+      _trustedForwarder: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
     institutionRegistry(overrides?: CallOverrides): Promise<[string]>;
 
+    isTrustedForwarder(
+      _forwarder: string,
+      overrides?: CallOverrides
+    ): Promise<[boolean]>;
+
     issueCredential(
       _credentialId: string,
       _recipientId: string,
@@ -166,46 +676,275 @@ export interface CredentialRegistry extends BaseContract {
       overrides?: Overrides & { from?: string }
     ): Promise<ContractTransaction>;
 
-    revokeCredential(
-      _credentialId: string,
+    migrateBatch(
+      _batch: CredentialRegistry.BatchStruct,
       overrides?: Overrides & { from?: string }
     ): Promise<ContractTransaction>;
 
-    verifyCredential(
+    migrateBatchCredentialStatus(
+      _batchId: string,
       _credentialId: string,
-      overrides?: CallOverrides
-    ): Promise<
-      [boolean, string, string, string, BigNumber, boolean] & {
-        isValid: boolean;
-        issuer: string;
-        recipientId: string;
-        ipfsHash: string;
-        issueDate: BigNumber;
-        isRevoked: boolean;
-      }
-    >;
-  };
-
-  getCredentialHash(
-    _credentialId: string,
-    overrides?: CallOverrides
-  ): Promise<string>;
+      _revokedDate: BigNumberish,
+      _revocationReason: BigNumberish,
+      _suspendedDate: BigNumberish,
+      _suspensionReason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
 
-  institutionRegistry(overrides?: CallOverrides): Promise<string>;
+    migrateCredential(
+      _credential: CredentialRegistry.CredentialStruct,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
 
-  issueCredential(
-    _credentialId: string,
-    _recipientId: string,
-    _credentialHash: string,
-    _ipfsHash: string,
-    _expiryDate: BigNumberish,
-    overrides?: Overrides & { from?: string }
-  ): Promise<ContractTransaction>;
+    migrationOpen(overrides?: CallOverrides): Promise<[boolean]>;
 
-  revokeCredential(
-    _credentialId: string,
-    overrides?: Overrides & { from?: string }
-  ): Promise<ContractTransaction>;
+    proxiableUUID(overrides?: CallOverrides): Promise<[string]>;
+
+    reinstateBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    reinstateCredential(
+      _credentialId: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    revokeBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    revokeCredential(
+      _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    suspendBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    suspendCredential(
+      _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    trustedForwarder(overrides?: CallOverrides): Promise<[string]>;
+
+    upgradeTo(
+      _newImplementation: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    upgradeToAndCall(
+      _newImplementation: string,
+      _data: BytesLike,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    verifyBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      _credentialHash: string,
+      _merkleProof: BytesLike[],
+      overrides?: CallOverrides
+    ): Promise<
+      [boolean, string, string, BigNumber, boolean] & {
+        isValid: boolean;
+        issuer: string;
+        merkleRoot: string;
+        issueDate: BigNumber;
+        isRevoked: boolean;
+      }
+    >;
+
+    verifyCredential(
+      _credentialId: string,
+      overrides?: CallOverrides
+    ): Promise<
+      [boolean, string, string, string, BigNumber, boolean] & {
+        isValid: boolean;
+        issuer: string;
+        recipientId: string;
+        ipfsHash: string;
+        issueDate: BigNumber;
+        isRevoked: boolean;
+      }
+    >;
+  };
+
+  STATUS_ACTIVE(overrides?: CallOverrides): Promise<number>;
+
+  STATUS_EXPIRED(overrides?: CallOverrides): Promise<number>;
+
+  STATUS_REVOKED(overrides?: CallOverrides): Promise<number>;
+
+  STATUS_SUSPENDED(overrides?: CallOverrides): Promise<number>;
+
+  admin(overrides?: CallOverrides): Promise<string>;
+
+  anchorBatch(
+    _batchId: string,
+    _merkleRoot: BytesLike,
+    _credentialCount: BigNumberish,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  closeMigration(
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  getBatchCredentialStatus(
+    _batchId: string,
+    _credentialId: string,
+    overrides?: CallOverrides
+  ): Promise<
+    [number, number, BigNumber] & {
+      status: number;
+      reason: number;
+      statusDate: BigNumber;
+    }
+  >;
+
+  getBatchRoot(_batchId: string, overrides?: CallOverrides): Promise<string>;
+
+  getCredentialHash(
+    _credentialId: string,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  getCredentialStatus(
+    _credentialId: string,
+    overrides?: CallOverrides
+  ): Promise<
+    [number, number, BigNumber] & {
+      status: number;
+      reason: number;
+      statusDate: BigNumber;
+    }
+  >;
+
+  getImplementation(overrides?: CallOverrides): Promise<string>;
+
+  initialize(
+    _institutionRegistryAddress: string,
+    _trustedForwarder: string,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  institutionRegistry(overrides?: CallOverrides): Promise<string>;
+
+  isTrustedForwarder(
+    _forwarder: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  issueCredential(
+    _credentialId: string,
+    _recipientId: string,
+    _credentialHash: string,
+    _ipfsHash: string,
+    _expiryDate: BigNumberish,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  migrateBatch(
+    _batch: CredentialRegistry.BatchStruct,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  migrateBatchCredentialStatus(
+    _batchId: string,
+    _credentialId: string,
+    _revokedDate: BigNumberish,
+    _revocationReason: BigNumberish,
+    _suspendedDate: BigNumberish,
+    _suspensionReason: BigNumberish,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  migrateCredential(
+    _credential: CredentialRegistry.CredentialStruct,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  migrationOpen(overrides?: CallOverrides): Promise<boolean>;
+
+  proxiableUUID(overrides?: CallOverrides): Promise<string>;
+
+  reinstateBatchCredential(
+    _batchId: string,
+    _credentialId: string,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  reinstateCredential(
+    _credentialId: string,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  revokeBatchCredential(
+    _batchId: string,
+    _credentialId: string,
+    _reason: BigNumberish,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  revokeCredential(
+    _credentialId: string,
+    _reason: BigNumberish,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  suspendBatchCredential(
+    _batchId: string,
+    _credentialId: string,
+    _reason: BigNumberish,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  suspendCredential(
+    _credentialId: string,
+    _reason: BigNumberish,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  trustedForwarder(overrides?: CallOverrides): Promise<string>;
+
+  upgradeTo(
+    _newImplementation: string,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  upgradeToAndCall(
+    _newImplementation: string,
+    _data: BytesLike,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  verifyBatchCredential(
+    _batchId: string,
+    _credentialId: string,
+    _credentialHash: string,
+    _merkleProof: BytesLike[],
+    overrides?: CallOverrides
+  ): Promise<
+    [boolean, string, string, BigNumber, boolean] & {
+      isValid: boolean;
+      issuer: string;
+      merkleRoot: string;
+      issueDate: BigNumber;
+      isRevoked: boolean;
+    }
+  >;
 
   verifyCredential(
     _credentialId: string,
@@ -222,13 +961,70 @@ export interface CredentialRegistry extends BaseContract {
   >;
 
   callStatic: {
+    STATUS_ACTIVE(overrides?: CallOverrides): Promise<number>;
+
+    STATUS_EXPIRED(overrides?: CallOverrides): Promise<number>;
+
+    STATUS_REVOKED(overrides?: CallOverrides): Promise<number>;
+
+    STATUS_SUSPENDED(overrides?: CallOverrides): Promise<number>;
+
+    admin(overrides?: CallOverrides): Promise<string>;
+
+    anchorBatch(
+      _batchId: string,
+      _merkleRoot: BytesLike,
+      _credentialCount: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    closeMigration(overrides?: CallOverrides): Promise<void>;
+
+    getBatchCredentialStatus(
+      _batchId: string,
+      _credentialId: string,
+      overrides?: CallOverrides
+    ): Promise<
+      [number, number, BigNumber] & {
+        status: number;
+        reason: number;
+        statusDate: BigNumber;
+      }
+    >;
+
+    getBatchRoot(_batchId: string, overrides?: CallOverrides): Promise<string>;
+
     getCredentialHash(
       _credentialId: string,
       overrides?: CallOverrides
     ): Promise<string>;
 
+    getCredentialStatus(
+      _credentialId: string,
+      overrides?: CallOverrides
+    ): Promise<
+      [number, number, BigNumber] & {
+        status: number;
+        reason: number;
+        statusDate: BigNumber;
+      }
+    >;
+
+    getImplementation(overrides?: CallOverrides): Promise<string>;
+
+    initialize(
+      _institutionRegistryAddress: string,
+      _trustedForwarder: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     institutionRegistry(overrides?: CallOverrides): Promise<string>;
 
+    isTrustedForwarder(
+      _forwarder: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
     issueCredential(
       _credentialId: string,
       _recipientId: string,
@@ -238,11 +1034,96 @@ export interface CredentialRegistry extends BaseContract {
       overrides?: CallOverrides
     ): Promise<void>;
 
+    migrateBatch(
+      _batch: CredentialRegistry.BatchStruct,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    migrateBatchCredentialStatus(
+      _batchId: string,
+      _credentialId: string,
+      _revokedDate: BigNumberish,
+      _revocationReason: BigNumberish,
+      _suspendedDate: BigNumberish,
+      _suspensionReason: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    migrateCredential(
+      _credential: CredentialRegistry.CredentialStruct,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    migrationOpen(overrides?: CallOverrides): Promise<boolean>;
+
+    proxiableUUID(overrides?: CallOverrides): Promise<string>;
+
+    reinstateBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    reinstateCredential(
+      _credentialId: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    revokeBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     revokeCredential(
       _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    suspendBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    suspendCredential(
+      _credentialId: string,
+      _reason: BigNumberish,
       overrides?: CallOverrides
     ): Promise<void>;
 
+    trustedForwarder(overrides?: CallOverrides): Promise<string>;
+
+    upgradeTo(
+      _newImplementation: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    upgradeToAndCall(
+      _newImplementation: string,
+      _data: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    verifyBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      _credentialHash: string,
+      _merkleProof: BytesLike[],
+      overrides?: CallOverrides
+    ): Promise<
+      [boolean, string, string, BigNumber, boolean] & {
+        isValid: boolean;
+        issuer: string;
+        merkleRoot: string;
+        issueDate: BigNumber;
+        isRevoked: boolean;
+      }
+    >;
+
     verifyCredential(
       _credentialId: string,
       overrides?: CallOverrides
@@ -259,6 +1140,58 @@ export interface CredentialRegistry extends BaseContract {
   };
 
   filters: {
+    "BatchAnchored(string,address,bytes32,uint256,uint256)"(
+      batchId?: null,
+      issuer?: string | null,
+      merkleRoot?: null,
+      credentialCount?: null,
+      issueDate?: null
+    ): BatchAnchoredEventFilter;
+    BatchAnchored(
+      batchId?: null,
+      issuer?: string | null,
+      merkleRoot?: null,
+      credentialCount?: null,
+      issueDate?: null
+    ): BatchAnchoredEventFilter;
+
+    "BatchCredentialReinstated(string,string,uint256)"(
+      batchId?: null,
+      credentialId?: null,
+      reinstatedDate?: null
+    ): BatchCredentialReinstatedEventFilter;
+    BatchCredentialReinstated(
+      batchId?: null,
+      credentialId?: null,
+      reinstatedDate?: null
+    ): BatchCredentialReinstatedEventFilter;
+
+    "BatchCredentialRevoked(string,string,uint8,uint256)"(
+      batchId?: null,
+      credentialId?: null,
+      reason?: null,
+      revokedDate?: null
+    ): BatchCredentialRevokedEventFilter;
+    BatchCredentialRevoked(
+      batchId?: null,
+      credentialId?: null,
+      reason?: null,
+      revokedDate?: null
+    ): BatchCredentialRevokedEventFilter;
+
+    "BatchCredentialSuspended(string,string,uint8,uint256)"(
+      batchId?: null,
+      credentialId?: null,
+      reason?: null,
+      suspendedDate?: null
+    ): BatchCredentialSuspendedEventFilter;
+    BatchCredentialSuspended(
+      batchId?: null,
+      credentialId?: null,
+      reason?: null,
+      suspendedDate?: null
+    ): BatchCredentialSuspendedEventFilter;
+
     "CredentialIssued(string,address,string,string,string,uint256)"(
       credentialId?: null,
       issuer?: string | null,
@@ -276,24 +1209,102 @@ export interface CredentialRegistry extends BaseContract {
       issueDate?: null
     ): CredentialIssuedEventFilter;
 
-    "CredentialRevoked(string,uint256)"(
+    "CredentialReinstated(string,uint256)"(
+      credentialId?: null,
+      reinstatedDate?: null
+    ): CredentialReinstatedEventFilter;
+    CredentialReinstated(
+      credentialId?: null,
+      reinstatedDate?: null
+    ): CredentialReinstatedEventFilter;
+
+    "CredentialRevoked(string,uint8,uint256)"(
       credentialId?: null,
+      reason?: null,
       revokedDate?: null
     ): CredentialRevokedEventFilter;
     CredentialRevoked(
       credentialId?: null,
+      reason?: null,
       revokedDate?: null
     ): CredentialRevokedEventFilter;
+
+    "CredentialSuspended(string,uint8,uint256)"(
+      credentialId?: null,
+      reason?: null,
+      suspendedDate?: null
+    ): CredentialSuspendedEventFilter;
+    CredentialSuspended(
+      credentialId?: null,
+      reason?: null,
+      suspendedDate?: null
+    ): CredentialSuspendedEventFilter;
+
+    "MigrationClosed(uint256)"(closedDate?: null): MigrationClosedEventFilter;
+    MigrationClosed(closedDate?: null): MigrationClosedEventFilter;
+
+    "Upgraded(address)"(implementation?: string | null): UpgradedEventFilter;
+    Upgraded(implementation?: string | null): UpgradedEventFilter;
   };
 
   estimateGas: {
+    STATUS_ACTIVE(overrides?: CallOverrides): Promise<BigNumber>;
+
+    STATUS_EXPIRED(overrides?: CallOverrides): Promise<BigNumber>;
+
+    STATUS_REVOKED(overrides?: CallOverrides): Promise<BigNumber>;
+
+    STATUS_SUSPENDED(overrides?: CallOverrides): Promise<BigNumber>;
+
+    admin(overrides?: CallOverrides): Promise<BigNumber>;
+
+    anchorBatch(
+      _batchId: string,
+      _merkleRoot: BytesLike,
+      _credentialCount: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    closeMigration(
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    getBatchCredentialStatus(
+      _batchId: string,
+      _credentialId: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getBatchRoot(
+      _batchId: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     getCredentialHash(
       _credentialId: string,
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    getCredentialStatus(
+      _credentialId: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getImplementation(overrides?: CallOverrides): Promise<BigNumber>;
+
+    initialize(
+      _institutionRegistryAddress: string,
+      _trustedForwarder: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
     institutionRegistry(overrides?: CallOverrides): Promise<BigNumber>;
 
+    isTrustedForwarder(
+      _forwarder: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     issueCredential(
       _credentialId: string,
       _recipientId: string,
@@ -303,11 +1314,88 @@ export interface CredentialRegistry extends BaseContract {
       overrides?: Overrides & { from?: string }
     ): Promise<BigNumber>;
 
+    migrateBatch(
+      _batch: CredentialRegistry.BatchStruct,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    migrateBatchCredentialStatus(
+      _batchId: string,
+      _credentialId: string,
+      _revokedDate: BigNumberish,
+      _revocationReason: BigNumberish,
+      _suspendedDate: BigNumberish,
+      _suspensionReason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    migrateCredential(
+      _credential: CredentialRegistry.CredentialStruct,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    migrationOpen(overrides?: CallOverrides): Promise<BigNumber>;
+
+    proxiableUUID(overrides?: CallOverrides): Promise<BigNumber>;
+
+    reinstateBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    reinstateCredential(
+      _credentialId: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    revokeBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
     revokeCredential(
       _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    suspendBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    suspendCredential(
+      _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    trustedForwarder(overrides?: CallOverrides): Promise<BigNumber>;
+
+    upgradeTo(
+      _newImplementation: string,
       overrides?: Overrides & { from?: string }
     ): Promise<BigNumber>;
 
+    upgradeToAndCall(
+      _newImplementation: string,
+      _data: BytesLike,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    verifyBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      _credentialHash: string,
+      _merkleProof: BytesLike[],
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     verifyCredential(
       _credentialId: string,
       overrides?: CallOverrides
@@ -315,15 +1403,65 @@ export interface CredentialRegistry extends BaseContract {
   };
 
   populateTransaction: {
+    STATUS_ACTIVE(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    STATUS_EXPIRED(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    STATUS_REVOKED(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    STATUS_SUSPENDED(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    admin(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    anchorBatch(
+      _batchId: string,
+      _merkleRoot: BytesLike,
+      _credentialCount: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    closeMigration(
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    getBatchCredentialStatus(
+      _batchId: string,
+      _credentialId: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getBatchRoot(
+      _batchId: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     getCredentialHash(
       _credentialId: string,
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    getCredentialStatus(
+      _credentialId: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getImplementation(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    initialize(
+      _institutionRegistryAddress: string,
+      _trustedForwarder: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
     institutionRegistry(
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    isTrustedForwarder(
+      _forwarder: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     issueCredential(
       _credentialId: string,
       _recipientId: string,
@@ -333,11 +1471,88 @@ export interface CredentialRegistry extends BaseContract {
       overrides?: Overrides & { from?: string }
     ): Promise<PopulatedTransaction>;
 
+    migrateBatch(
+      _batch: CredentialRegistry.BatchStruct,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    migrateBatchCredentialStatus(
+      _batchId: string,
+      _credentialId: string,
+      _revokedDate: BigNumberish,
+      _revocationReason: BigNumberish,
+      _suspendedDate: BigNumberish,
+      _suspensionReason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    migrateCredential(
+      _credential: CredentialRegistry.CredentialStruct,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    migrationOpen(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    proxiableUUID(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    reinstateBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    reinstateCredential(
+      _credentialId: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    revokeBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
     revokeCredential(
       _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    suspendBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      _reason: BigNumberish,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    suspendCredential(
+      _credentialId: string,
+      _reason: BigNumberish,
       overrides?: Overrides & { from?: string }
     ): Promise<PopulatedTransaction>;
 
+    trustedForwarder(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    upgradeTo(
+      _newImplementation: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    upgradeToAndCall(
+      _newImplementation: string,
+      _data: BytesLike,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    verifyBatchCredential(
+      _batchId: string,
+      _credentialId: string,
+      _credentialHash: string,
+      _merkleProof: BytesLike[],
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     verifyCredential(
       _credentialId: string,
       overrides?: CallOverrides
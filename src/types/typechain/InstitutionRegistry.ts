@@ -28,24 +28,38 @@ import type {
 export interface InstitutionRegistryInterface extends utils.Interface {
   functions: {
     "admin()": FunctionFragment;
+    "getImplementation()": FunctionFragment;
     "getInstitutionByID(string)": FunctionFragment;
     "getInstitutionDetails(address)": FunctionFragment;
+    "initialize()": FunctionFragment;
     "isRegistered(address)": FunctionFragment;
+    "proxiableUUID()": FunctionFragment;
     "registerInstitution(address,string,string,string,string)": FunctionFragment;
     "setInstitutionStatus(address,bool)": FunctionFragment;
+    "upgradeTo(address)": FunctionFragment;
+    "upgradeToAndCall(address,bytes)": FunctionFragment;
   };
 
   getFunction(
     nameOrSignatureOrTopic:
       | "admin"
+      | "getImplementation"
       | "getInstitutionByID"
       | "getInstitutionDetails"
+      | "initialize"
       | "isRegistered"
+      | "proxiableUUID"
       | "registerInstitution"
       | "setInstitutionStatus"
+      | "upgradeTo"
+      | "upgradeToAndCall"
   ): FunctionFragment;
 
   encodeFunctionData(functionFragment: "admin", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getImplementation",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "getInstitutionByID",
     values: [string]
@@ -54,10 +68,18 @@ export interface InstitutionRegistryInterface extends utils.Interface {
     functionFragment: "getInstitutionDetails",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "isRegistered",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "proxiableUUID",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "registerInstitution",
     values: [string, string, string, string, string]
@@ -66,8 +88,17 @@ export interface InstitutionRegistryInterface extends utils.Interface {
     functionFragment: "setInstitutionStatus",
     values: [string, boolean]
   ): string;
+  encodeFunctionData(functionFragment: "upgradeTo", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "upgradeToAndCall",
+    values: [string, BytesLike]
+  ): string;
 
   decodeFunctionResult(functionFragment: "admin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getImplementation",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getInstitutionByID",
     data: BytesLike
@@ -76,10 +107,15 @@ export interface InstitutionRegistryInterface extends utils.Interface {
     functionFragment: "getInstitutionDetails",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "isRegistered",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "proxiableUUID",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "registerInstitution",
     data: BytesLike
@@ -88,14 +124,21 @@ export interface InstitutionRegistryInterface extends utils.Interface {
     functionFragment: "setInstitutionStatus",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "upgradeTo", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeToAndCall",
+    data: BytesLike
+  ): Result;
 
   events: {
     "InstitutionRegistered(address,string,string,uint256)": EventFragment;
     "InstitutionStatusChanged(address,bool)": EventFragment;
+    "Upgraded(address)": EventFragment;
   };
 
   getEvent(nameOrSignatureOrTopic: "InstitutionRegistered"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "InstitutionStatusChanged"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Upgraded"): EventFragment;
 }
 
 export interface InstitutionRegisteredEventObject {
@@ -124,6 +167,13 @@ export type InstitutionStatusChangedEvent = TypedEvent<
 export type InstitutionStatusChangedEventFilter =
   TypedEventFilter<InstitutionStatusChangedEvent>;
 
+export interface UpgradedEventObject {
+  implementation: string;
+}
+export type UpgradedEvent = TypedEvent<[string], UpgradedEventObject>;
+
+export type UpgradedEventFilter = TypedEventFilter<UpgradedEvent>;
+
 export interface InstitutionRegistry extends BaseContract {
   connect(signerOrProvider: Signer | Provider | string): this;
   attach(addressOrName: string): this;
@@ -153,6 +203,10 @@ export interface InstitutionRegistry extends BaseContract {
   functions: {
     admin(overrides?: CallOverrides): Promise<[string]>;
 
+    getImplementation(
+      overrides?: CallOverrides
+    ): Promise<[string] & { implementation: string }>;
+
     getInstitutionByID(
       _institutionId: string,
       overrides?: CallOverrides
@@ -181,11 +235,17 @@ export interface InstitutionRegistry extends BaseContract {
       }
     >;
 
+    initialize(
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
     isRegistered(
       _institutionAddress: string,
       overrides?: CallOverrides
     ): Promise<[boolean]>;
 
+    proxiableUUID(overrides?: CallOverrides): Promise<[string]>;
+
     registerInstitution(
       _institutionAddress: string,
       _institutionId: string,
@@ -200,10 +260,23 @@ export interface InstitutionRegistry extends BaseContract {
       _isActive: boolean,
       overrides?: Overrides & { from?: string }
     ): Promise<ContractTransaction>;
+
+    upgradeTo(
+      _newImplementation: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    upgradeToAndCall(
+      _newImplementation: string,
+      _data: BytesLike,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
   };
 
   admin(overrides?: CallOverrides): Promise<string>;
 
+  getImplementation(overrides?: CallOverrides): Promise<string>;
+
   getInstitutionByID(
     _institutionId: string,
     overrides?: CallOverrides
@@ -232,11 +305,17 @@ export interface InstitutionRegistry extends BaseContract {
     }
   >;
 
+  initialize(
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
   isRegistered(
     _institutionAddress: string,
     overrides?: CallOverrides
   ): Promise<boolean>;
 
+  proxiableUUID(overrides?: CallOverrides): Promise<string>;
+
   registerInstitution(
     _institutionAddress: string,
     _institutionId: string,
@@ -252,9 +331,22 @@ export interface InstitutionRegistry extends BaseContract {
     overrides?: Overrides & { from?: string }
   ): Promise<ContractTransaction>;
 
+  upgradeTo(
+    _newImplementation: string,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  upgradeToAndCall(
+    _newImplementation: string,
+    _data: BytesLike,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
   callStatic: {
     admin(overrides?: CallOverrides): Promise<string>;
 
+    getImplementation(overrides?: CallOverrides): Promise<string>;
+
     getInstitutionByID(
       _institutionId: string,
       overrides?: CallOverrides
@@ -283,11 +375,15 @@ export interface InstitutionRegistry extends BaseContract {
       }
     >;
 
+    initialize(overrides?: CallOverrides): Promise<void>;
+
     isRegistered(
       _institutionAddress: string,
       overrides?: CallOverrides
     ): Promise<boolean>;
 
+    proxiableUUID(overrides?: CallOverrides): Promise<string>;
+
     registerInstitution(
       _institutionAddress: string,
       _institutionId: string,
@@ -302,6 +398,17 @@ export interface InstitutionRegistry extends BaseContract {
       _isActive: boolean,
       overrides?: CallOverrides
     ): Promise<void>;
+
+    upgradeTo(
+      _newImplementation: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    upgradeToAndCall(
+      _newImplementation: string,
+      _data: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
   };
 
   filters: {
@@ -326,11 +433,16 @@ export interface InstitutionRegistry extends BaseContract {
       institutionAddress?: string | null,
       isActive?: null
     ): InstitutionStatusChangedEventFilter;
+
+    "Upgraded(address)"(implementation?: string | null): UpgradedEventFilter;
+    Upgraded(implementation?: string | null): UpgradedEventFilter;
   };
 
   estimateGas: {
     admin(overrides?: CallOverrides): Promise<BigNumber>;
 
+    getImplementation(overrides?: CallOverrides): Promise<BigNumber>;
+
     getInstitutionByID(
       _institutionId: string,
       overrides?: CallOverrides
@@ -341,11 +453,15 @@ export interface InstitutionRegistry extends BaseContract {
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    initialize(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+
     isRegistered(
       _institutionAddress: string,
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    proxiableUUID(overrides?: CallOverrides): Promise<BigNumber>;
+
     registerInstitution(
       _institutionAddress: string,
       _institutionId: string,
@@ -360,11 +476,24 @@ export interface InstitutionRegistry extends BaseContract {
       _isActive: boolean,
       overrides?: Overrides & { from?: string }
     ): Promise<BigNumber>;
+
+    upgradeTo(
+      _newImplementation: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    upgradeToAndCall(
+      _newImplementation: string,
+      _data: BytesLike,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
   };
 
   populateTransaction: {
     admin(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
+    getImplementation(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
     getInstitutionByID(
       _institutionId: string,
       overrides?: CallOverrides
@@ -375,11 +504,17 @@ export interface InstitutionRegistry extends BaseContract {
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    initialize(
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
     isRegistered(
       _institutionAddress: string,
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    proxiableUUID(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
     registerInstitution(
       _institutionAddress: string,
       _institutionId: string,
@@ -394,5 +529,16 @@ export interface InstitutionRegistry extends BaseContract {
       _isActive: boolean,
       overrides?: Overrides & { from?: string }
     ): Promise<PopulatedTransaction>;
+
+    upgradeTo(
+      _newImplementation: string,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    upgradeToAndCall(
+      _newImplementation: string,
+      _data: BytesLike,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
   };
 }
@@ -0,0 +1,237 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import { Signer, utils, Contract, ContractFactory, Overrides } from "ethers";
+import type { Provider, TransactionRequest } from "@ethersproject/providers";
+import type {
+  CredentialForwarder,
+  CredentialForwarderInterface,
+} from "../CredentialForwarder";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "relayer",
+        type: "address",
+      },
+    ],
+    name: "RequestExecuted",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "domainSeparator",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "from",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "to",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "gas",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "data",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct CredentialForwarder.ForwardRequest",
+        name: "_req",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    name: "execute",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_from",
+        type: "address",
+      },
+    ],
+    name: "getNonce",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "from",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "to",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "gas",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "data",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct CredentialForwarder.ForwardRequest",
+        name: "_req",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    name: "verify",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b5061123d806100206000396000f3fe60806040526004361061003f5760003560e01c80632d0335ab1461004457806347153f8214610081578063bf5d3bdb146100b1578063f698da25146100ee575b600080fd5b34801561005057600080fd5b5061006b600480360381019061006691906108db565b610119565b6040516100789190610e21565b60405180910390f35b61009b60048036038101906100969190610904565b610161565b6040516100a89190610d3f565b60405180910390f35b3480156100bd57600080fd5b506100d860048036038101906100d39190610904565b610421565b6040516100e59190610c02565b60405180910390f35b3480156100fa57600080fd5b506101036105fa565b6040516101109190610c1d565b60405180910390f35b60008060008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020549050919050565b606061016e848484610421565b6101ad576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016101a490610dc1565b60405180910390fd5b836040013534146101f3576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016101ea90610da1565b60405180910390fd5b600184608001356102049190610eff565b60008086600001602081019061021a91906108db565b73ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000208190555060008085602001602081019061026e91906108db565b73ffffffffffffffffffffffffffffffffffffffff1686606001358760400135888060a0019061029e9190610e65565b8a60000160208101906102b191906108db565b6040516020016102c393929190610b8a565b6040516020818303038152906040526040516102df9190610bb4565b600060405180830381858888f193505050503d806000811461031d576040519150601f19603f3d011682016040523d82523d6000602084013e610322565b606091505b5091509150603f86606001356103389190610f55565b5a11610379576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161037090610d81565b60405180910390fd5b8161038657805160208201fd5b85602001602081019061039991906108db565b73ffffffffffffffffffffffffffffffffffffffff168660000160208101906103c291906108db565b73ffffffffffffffffffffffffffffffffffffffff167f255c55df43f6466f7d57e942aa10afd131baa83be16ef37ca6960860a5d7922288608001353360405161040d929190610e3c565b60405180910390a380925050509392505050565b6000807fdd8f4b70b0f4393e889bd39128a30628a78b61816a9eb8199759e7a349657e4885600001602081019061045891906108db565b86602001602081019061046b91906108db565b8760400135886060013589608001358a8060a0019061048a9190610e65565b604051610498929190610b71565b60405180910390206040516020016104b69796959493929190610c38565b60405160208183030381529060405280519060200120905060006104d86105fa565b826040516020016104ea929190610bcb565b604051602081830303815290604052805190602001209050856080013560008088600001602081019061051d91906108db565b73ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020541480156105ef575085600001602081019061057391906108db565b73ffffffffffffffffffffffffffffffffffffffff166105d78287878080601f016020809104026020016040519081016040528093929190818152602001838380828437600081840152601f19601f820116905080830192505050505050506106c8565b73ffffffffffffffffffffffffffffffffffffffff16145b925050509392505050565b60007f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f6040518060400160405280601381526020017f43726564656e7469616c466f7277617264657200000000000000000000000000815250805190602001206040518060400160405280600181526020017f31000000000000000000000000000000000000000000000000000000000000008152508051906020012046306040516020016106ad959493929190610ca7565b60405160208183030381529060405280519060200120905090565b6000604182511461070e576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161070590610de1565b60405180910390fd5b60008060006020850151925060408501519150606085015160001a90507f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08260001c1115610791576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161078890610e01565b60405180910390fd5b6000600187838686604051600081526020016040526040516107b69493929190610cfa565b6020604051602081039080840390855afa1580156107d8573d6000803e3d6000fd5b505050602060405103519050600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff161415610854576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161084b90610d61565b60405180910390fd5b8094505050505092915050565b600081359050610870816111f0565b92915050565b60008083601f84011261088857600080fd5b8235905067ffffffffffffffff8111156108a157600080fd5b6020830191508360018202830111156108b957600080fd5b9250929050565b600060c082840312156108d257600080fd5b81905092915050565b6000602082840312156108ed57600080fd5b60006108fb84828501610861565b91505092915050565b60008060006040848603121561091957600080fd5b600084013567ffffffffffffffff81111561093357600080fd5b61093f868287016108c0565b935050602084013567ffffffffffffffff81111561095c57600080fd5b61096886828701610876565b92509250509250925092565b61097d81610f86565b82525050565b61099461098f82610f86565b611027565b82525050565b6109a381610f98565b82525050565b6109b281610fa4565b82525050565b6109c96109c482610fa4565b611039565b82525050565b60006109db8385610ed8565b93506109e8838584610fe5565b82840190509392505050565b60006109ff82610ebc565b610a098185610ec7565b9350610a19818560208601610ff4565b610a22816110b3565b840191505092915050565b6000610a3882610ebc565b610a428185610ed8565b9350610a52818560208601610ff4565b80840191505092915050565b6000610a6b600283610ef4565b9150610a76826110d1565b600282019050919050565b6000610a8e601183610ee3565b9150610a99826110fa565b602082019050919050565b6000610ab1601a83610ee3565b9150610abc82611123565b602082019050919050565b6000610ad4601c83610ee3565b9150610adf8261114c565b602082019050919050565b6000610af7602083610ee3565b9150610b0282611175565b602082019050919050565b6000610b1a601883610ee3565b9150610b258261119e565b602082019050919050565b6000610b3d601b83610ee3565b9150610b48826111c7565b602082019050919050565b610b5c81610fce565b82525050565b610b6b81610fd8565b82525050565b6000610b7e8284866109cf565b91508190509392505050565b6000610b978285876109cf565b9150610ba38284610983565b601482019150819050949350505050565b6000610bc08284610a2d565b915081905092915050565b6000610bd682610a5e565b9150610be282856109b8565b602082019150610bf282846109b8565b6020820191508190509392505050565b6000602082019050610c17600083018461099a565b92915050565b6000602082019050610c3260008301846109a9565b92915050565b600060e082019050610c4d600083018a6109a9565b610c5a6020830189610974565b610c676040830188610974565b610c746060830187610b53565b610c816080830186610b53565b610c8e60a0830185610b53565b610c9b60c08301846109a9565b98975050505050505050565b600060a082019050610cbc60008301886109a9565b610cc960208301876109a9565b610cd660408301866109a9565b610ce36060830185610b53565b610cf06080830184610974565b9695505050505050565b6000608082019050610d0f60008301876109a9565b610d1c6020830186610b62565b610d2960408301856109a9565b610d3660608301846109a9565b95945050505050565b60006020820190508181036000830152610d5981846109f4565b905092915050565b60006020820190508181036000830152610d7a81610a81565b9050919050565b60006020820190508181036000830152610d9a81610aa4565b9050919050565b60006020820190508181036000830152610dba81610ac7565b9050919050565b60006020820190508181036000830152610dda81610aea565b9050919050565b60006020820190508181036000830152610dfa81610b0d565b9050919050565b60006020820190508181036000830152610e1a81610b30565b9050919050565b6000602082019050610e366000830184610b53565b92915050565b6000604082019050610e516000830185610b53565b610e5e6020830184610974565b9392505050565b60008083356001602003843603038112610e7e57600080fd5b80840192508235915067ffffffffffffffff821115610e9c57600080fd5b602083019250600182023603831315610eb457600080fd5b509250929050565b600081519050919050565b600082825260208201905092915050565b600081905092915050565b600082825260208201905092915050565b600081905092915050565b6000610f0a82610fce565b9150610f1583610fce565b9250827fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff03821115610f4a57610f49611055565b5b828201905092915050565b6000610f6082610fce565b9150610f6b83610fce565b925082610f7b57610f7a611084565b5b828204905092915050565b6000610f9182610fae565b9050919050565b60008115159050919050565b6000819050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000819050919050565b600060ff82169050919050565b82818337600083830152505050565b60005b83811015611012578082015181840152602081019050610ff7565b83811115611021576000848401525b50505050565b600061103282611043565b9050919050565b6000819050919050565b600061104e826110c4565b9050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601260045260246000fd5b6000601f19601f8301169050919050565b60008160601b9050919050565b7f1901000000000000000000000000000000000000000000000000000000000000600082015250565b7f496e76616c6964207369676e6174757265000000000000000000000000000000600082015250565b7f496e73756666696369656e742067617320666f72776172646564000000000000600082015250565b7f56616c756520646f6573206e6f74206d61746368207265717565737400000000600082015250565b7f5369676e617475726520646f6573206e6f74206d617463682072657175657374600082015250565b7f496e76616c6964207369676e6174757265206c656e6774680000000000000000600082015250565b7f496e76616c6964207369676e6174757265202773272076616c75650000000000600082015250565b6111f981610f86565b811461120457600080fd5b5056fea2646970667358221220bea05362bfb92e92da7e305fb216a03324b19de3521faa2ad90135fb0664220464736f6c63430008040033";
+
+type CredentialForwarderConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CredentialForwarderConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CredentialForwarder__factory extends ContractFactory {
+  constructor(...args: CredentialForwarderConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override deploy(
+    overrides?: Overrides & { from?: string }
+  ): Promise<CredentialForwarder> {
+    return super.deploy(overrides || {}) as Promise<CredentialForwarder>;
+  }
+  override getDeployTransaction(
+    overrides?: Overrides & { from?: string }
+  ): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override attach(address: string): CredentialForwarder {
+    return super.attach(address) as CredentialForwarder;
+  }
+  override connect(signer: Signer): CredentialForwarder__factory {
+    return super.connect(signer) as CredentialForwarder__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CredentialForwarderInterface {
+    return new utils.Interface(_abi) as CredentialForwarderInterface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): CredentialForwarder {
+    return new Contract(address, _abi, signerOrProvider) as CredentialForwarder;
+  }
+}
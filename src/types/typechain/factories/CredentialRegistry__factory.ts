@@ -10,15 +10,128 @@ import type {
 
 const _abi = [
   {
+    anonymous: false,
     inputs: [
       {
+        indexed: false,
+        internalType: "string",
+        name: "batchId",
+        type: "string",
+      },
+      {
+        indexed: true,
         internalType: "address",
-        name: "_institutionRegistryAddress",
+        name: "issuer",
         type: "address",
       },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "credentialCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "issueDate",
+        type: "uint256",
+      },
     ],
-    stateMutability: "nonpayable",
-    type: "constructor",
+    name: "BatchAnchored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "batchId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "credentialId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "reinstatedDate",
+        type: "uint256",
+      },
+    ],
+    name: "BatchCredentialReinstated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "batchId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "credentialId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "reason",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "revokedDate",
+        type: "uint256",
+      },
+    ],
+    name: "BatchCredentialRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "batchId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "credentialId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "reason",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "suspendedDate",
+        type: "uint256",
+      },
+    ],
+    name: "BatchCredentialSuspended",
+    type: "event",
   },
   {
     anonymous: false,
@@ -72,6 +185,31 @@ const _abi = [
         name: "credentialId",
         type: "string",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "reinstatedDate",
+        type: "uint256",
+      },
+    ],
+    name: "CredentialReinstated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "credentialId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "reason",
+        type: "uint8",
+      },
       {
         indexed: false,
         internalType: "uint256",
@@ -83,19 +221,64 @@ const _abi = [
     type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
+        indexed: false,
         internalType: "string",
-        name: "_credentialId",
+        name: "credentialId",
         type: "string",
       },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "reason",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "suspendedDate",
+        type: "uint256",
+      },
     ],
-    name: "getCredentialHash",
+    name: "CredentialSuspended",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closedDate",
+        type: "uint256",
+      },
+    ],
+    name: "MigrationClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "Upgraded",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "STATUS_ACTIVE",
     outputs: [
       {
-        internalType: "string",
+        internalType: "uint8",
         name: "",
-        type: "string",
+        type: "uint8",
       },
     ],
     stateMutability: "view",
@@ -103,10 +286,49 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "institutionRegistry",
+    name: "STATUS_EXPIRED",
     outputs: [
       {
-        internalType: "contract InstitutionRegistry",
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STATUS_REVOKED",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STATUS_SUSPENDED",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "admin",
+    outputs: [
+      {
+        internalType: "address",
         name: "",
         type: "address",
       },
@@ -118,33 +340,83 @@ const _abi = [
     inputs: [
       {
         internalType: "string",
-        name: "_credentialId",
+        name: "_batchId",
         type: "string",
       },
       {
-        internalType: "string",
-        name: "_recipientId",
-        type: "string",
+        internalType: "bytes32",
+        name: "_merkleRoot",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "_credentialCount",
+        type: "uint256",
       },
+    ],
+    name: "anchorBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeMigration",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "string",
-        name: "_credentialHash",
+        name: "_batchId",
         type: "string",
       },
       {
         internalType: "string",
-        name: "_ipfsHash",
+        name: "_credentialId",
         type: "string",
       },
+    ],
+    name: "getBatchCredentialStatus",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "reason",
+        type: "uint8",
+      },
       {
         internalType: "uint256",
-        name: "_expiryDate",
+        name: "statusDate",
         type: "uint256",
       },
     ],
-    name: "issueCredential",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_batchId",
+        type: "string",
+      },
+    ],
+    name: "getBatchRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
     type: "function",
   },
   {
@@ -155,9 +427,535 @@ const _abi = [
         type: "string",
       },
     ],
-    name: "revokeCredential",
-    outputs: [],
-    stateMutability: "nonpayable",
+    name: "getCredentialHash",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_credentialId",
+        type: "string",
+      },
+    ],
+    name: "getCredentialStatus",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "reason",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "statusDate",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getImplementation",
+    outputs: [
+      {
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_institutionRegistryAddress",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_trustedForwarder",
+        type: "address",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "institutionRegistry",
+    outputs: [
+      {
+        internalType: "contract InstitutionRegistry",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_forwarder",
+        type: "address",
+      },
+    ],
+    name: "isTrustedForwarder",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_credentialId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_recipientId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_credentialHash",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_ipfsHash",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_expiryDate",
+        type: "uint256",
+      },
+    ],
+    name: "issueCredential",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "batchId",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "issuer",
+            type: "address",
+          },
+          {
+            internalType: "bytes32",
+            name: "merkleRoot",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "credentialCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "issueDate",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct CredentialRegistry.Batch",
+        name: "_batch",
+        type: "tuple",
+      },
+    ],
+    name: "migrateBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_batchId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_credentialId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_revokedDate",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "_revocationReason",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "_suspendedDate",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "_suspensionReason",
+        type: "uint8",
+      },
+    ],
+    name: "migrateBatchCredentialStatus",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "credentialId",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "issuer",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "recipientId",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "credentialHash",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "ipfsHash",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "issueDate",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiryDate",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isRevoked",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "revokedDate",
+            type: "uint256",
+          },
+          {
+            internalType: "uint8",
+            name: "revocationReason",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "isSuspended",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "suspendedDate",
+            type: "uint256",
+          },
+          {
+            internalType: "uint8",
+            name: "suspensionReason",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct CredentialRegistry.Credential",
+        name: "_credential",
+        type: "tuple",
+      },
+    ],
+    name: "migrateCredential",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "migrationOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proxiableUUID",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_batchId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_credentialId",
+        type: "string",
+      },
+    ],
+    name: "reinstateBatchCredential",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_credentialId",
+        type: "string",
+      },
+    ],
+    name: "reinstateCredential",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_batchId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_credentialId",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "_reason",
+        type: "uint8",
+      },
+    ],
+    name: "revokeBatchCredential",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_credentialId",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "_reason",
+        type: "uint8",
+      },
+    ],
+    name: "revokeCredential",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_batchId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_credentialId",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "_reason",
+        type: "uint8",
+      },
+    ],
+    name: "suspendBatchCredential",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_credentialId",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "_reason",
+        type: "uint8",
+      },
+    ],
+    name: "suspendCredential",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "trustedForwarder",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_newImplementation",
+        type: "address",
+      },
+    ],
+    name: "upgradeTo",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_newImplementation",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "upgradeToAndCall",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_batchId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_credentialId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_credentialHash",
+        type: "string",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "_merkleProof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "verifyBatchCredential",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isValid",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "issueDate",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isRevoked",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
     type: "function",
   },
   {
@@ -207,7 +1005,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x60806040523480156200001157600080fd5b506040516200150838038062001508833981810160405281019062000037919062000095565b806000806101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550506200010f565b6000815190506200008f81620000f5565b92915050565b600060208284031215620000a857600080fd5b6000620000b8848285016200007e565b91505092915050565b6000620000ce82620000d5565b9050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6200010081620000c1565b81146200010c57600080fd5b50565b6113e9806200011f6000396000f3fe608060405234801561001057600080fd5b50600436106100575760003560e01c80631b1fcb041461005c57806322e4c7471461007a5780635e9a2d281461009657806382c4e329146100b2578063bb3670ab146100e2575b600080fd5b610064610117565b6040516100719190610ef3565b60405180910390f35b610094600480360381019061008f9190610c26565b61013b565b005b6100b060048036038101906100ab9190610be5565b610465565b005b6100cc60048036038101906100c79190610be5565b610622565b6040516100d99190610f0e565b60405180910390f35b6100fc60048036038101906100f79190610be5565b6106d5565b60405161010e96959493929190610e84565b60405180910390f35b60008054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b60008054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1663c3c5a547336040518263ffffffff1660e01b81526004016101949190610e69565b60206040518083038186803b1580156101ac57600080fd5b505afa1580156101c0573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906101e49190610bbc565b610223576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161021a9061102f565b60405180910390fd5b60006001866040516102359190610e52565b908152602001604051809103902060000180546102519061119a565b905014610293576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161028a90610fef565b60405180910390fd5b6040518061012001604052808681526020013373ffffffffffffffffffffffffffffffffffffffff16815260200185815260200184815260200183815260200142815260200182815260200160001515815260200160008152506001866040516102fd9190610e52565b90815260200160405180910390206000820151816000019080519060200190610327929190610a87565b5060208201518160010160006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550604082015181600201908051906020019061038b929190610a87565b5060608201518160030190805190602001906103a8929190610a87565b5060808201518160040190805190602001906103c5929190610a87565b5060a0820151816005015560c0820151816006015560e08201518160070160006101000a81548160ff02191690831515021790555061010082015181600801559050503373ffffffffffffffffffffffffffffffffffffffff167f2ffa54c2d0828397830be1b214054411b4b7656cd2d80f1a486a4e4c72bd9d5f8686868642604051610456959493929190610f30565b60405180910390a25050505050565b60006001826040516104779190610e52565b9081526020016040518091039020905060008160000180546104989061119a565b905014156104db576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016104d290610fcf565b60405180910390fd5b3373ffffffffffffffffffffffffffffffffffffffff168160010160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff161461056d576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016105649061100f565b60405180910390fd5b8060070160009054906101000a900460ff16156105bf576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016105b69061104f565b60405180910390fd5b60018160070160006101000a81548160ff0219169083151502179055504281600801819055507f40ca72f89b44ef1c7e10d0b86020fdac3c7a112e6ef1cecc6280892cee95f7778242604051610616929190610f9f565b60405180910390a15050565b60606001826040516106349190610e52565b908152602001604051809103902060030180546106509061119a565b80601f016020809104026020016040519081016040528092919081815260200182805461067c9061119a565b80156106c95780601f1061069e576101008083540402835291602001916106c9565b820191906000526020600020905b8154815290600101906020018083116106ac57829003601f168201915b50505050509050919050565b60008060608060008060006001886040516106f09190610e52565b90815260200160405180910390206040518061012001604052908160008201805461071a9061119a565b80601f01602080910402602001604051908101604052809291908181526020018280546107469061119a565b80156107935780601f1061076857610100808354040283529160200191610793565b820191906000526020600020905b81548152906001019060200180831161077657829003601f168201915b505050505081526020016001820160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020016002820180546108029061119a565b80601f016020809104026020016040519081016040528092919081815260200182805461082e9061119a565b801561087b5780601f106108505761010080835404028352916020019161087b565b820191906000526020600020905b81548152906001019060200180831161085e57829003601f168201915b505050505081526020016003820180546108949061119a565b80601f01602080910402602001604051908101604052809291908181526020018280546108c09061119a565b801561090d5780601f106108e25761010080835404028352916020019161090d565b820191906000526020600020905b8154815290600101906020018083116108f057829003601f168201915b505050505081526020016004820180546109269061119a565b80601f01602080910402602001604051908101604052809291908181526020018280546109529061119a565b801561099f5780601f106109745761010080835404028352916020019161099f565b820191906000526020600020905b81548152906001019060200180831161098257829003601f168201915b5050505050815260200160058201548152602001600682015481526020016007820160009054906101000a900460ff16151515158152602001600882015481525050905060008160000151511415610a2c576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610a2390610fcf565b60405180910390fd5b6000808260c001511115610a44578160c00151421190505b8160e00151158015610a54575080155b9750878260200151836040015184608001518560a001518660e00151975097509750975097509750505091939550919395565b828054610a939061119a565b90600052602060002090601f016020900481019282610ab55760008555610afc565b82601f10610ace57805160ff1916838001178555610afc565b82800160010185558215610afc579182015b82811115610afb578251825591602001919060010190610ae0565b5b509050610b099190610b0d565b5090565b5b80821115610b26576000816000905550600101610b0e565b5090565b6000610b3d610b3884611094565b61106f565b905082815260208101848484011115610b5557600080fd5b610b60848285611158565b509392505050565b600081519050610b7781611385565b92915050565b600082601f830112610b8e57600080fd5b8135610b9e848260208601610b2a565b91505092915050565b600081359050610bb68161139c565b92915050565b600060208284031215610bce57600080fd5b6000610bdc84828501610b68565b91505092915050565b600060208284031215610bf757600080fd5b600082013567ffffffffffffffff811115610c1157600080fd5b610c1d84828501610b7d565b91505092915050565b600080600080600060a08688031215610c3e57600080fd5b600086013567ffffffffffffffff811115610c5857600080fd5b610c6488828901610b7d565b955050602086013567ffffffffffffffff811115610c8157600080fd5b610c8d88828901610b7d565b945050604086013567ffffffffffffffff811115610caa57600080fd5b610cb688828901610b7d565b935050606086013567ffffffffffffffff811115610cd357600080fd5b610cdf88828901610b7d565b9250506080610cf088828901610ba7565b9150509295509295909350565b610d06816110ec565b82525050565b610d15816110fe565b82525050565b610d2481611134565b82525050565b6000610d35826110c5565b610d3f81856110d0565b9350610d4f818560208601611167565b610d588161125b565b840191505092915050565b6000610d6e826110c5565b610d7881856110e1565b9350610d88818560208601611167565b80840191505092915050565b6000610da16019836110d0565b9150610dac8261126c565b602082019050919050565b6000610dc4601c836110d0565b9150610dcf82611295565b602082019050919050565b6000610de76021836110d0565b9150610df2826112be565b604082019050919050565b6000610e0a6026836110d0565b9150610e158261130d565b604082019050919050565b6000610e2d601d836110d0565b9150610e388261135c565b602082019050919050565b610e4c8161112a565b82525050565b6000610e5e8284610d63565b915081905092915050565b6000602082019050610e7e6000830184610cfd565b92915050565b600060c082019050610e996000830189610d0c565b610ea66020830188610cfd565b8181036040830152610eb88187610d2a565b90508181036060830152610ecc8186610d2a565b9050610edb6080830185610e43565b610ee860a0830184610d0c565b979650505050505050565b6000602082019050610f086000830184610d1b565b92915050565b60006020820190508181036000830152610f288184610d2a565b905092915050565b600060a0820190508181036000830152610f4a8188610d2a565b90508181036020830152610f5e8187610d2a565b90508181036040830152610f728186610d2a565b90508181036060830152610f868185610d2a565b9050610f956080830184610e43565b9695505050505050565b60006040820190508181036000830152610fb98185610d2a565b9050610fc86020830184610e43565b9392505050565b60006020820190508181036000830152610fe881610d94565b9050919050565b6000602082019050818103600083015261100881610db7565b9050919050565b6000602082019050818103600083015261102881610dda565b9050919050565b6000602082019050818103600083015261104881610dfd565b9050919050565b6000602082019050818103600083015261106881610e20565b9050919050565b600061107961108a565b905061108582826111cc565b919050565b6000604051905090565b600067ffffffffffffffff8211156110af576110ae61122c565b5b6110b88261125b565b9050602081019050919050565b600081519050919050565b600082825260208201905092915050565b600081905092915050565b60006110f78261110a565b9050919050565b60008115159050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000819050919050565b600061113f82611146565b9050919050565b60006111518261110a565b9050919050565b82818337600083830152505050565b60005b8381101561118557808201518184015260208101905061116a565b83811115611194576000848401525b50505050565b600060028204905060018216806111b257607f821691505b602082108114156111c6576111c56111fd565b5b50919050565b6111d58261125b565b810181811067ffffffffffffffff821117156111f4576111f361122c565b5b80604052505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000601f19601f8301169050919050565b7f43726564656e7469616c20646f6573206e6f7420657869737400000000000000600082015250565b7f43726564656e7469616c20494420616c72656164792065786973747300000000600082015250565b7f4f6e6c79206973737565722063616e207265766f6b652063726564656e74696160008201527f6c00000000000000000000000000000000000000000000000000000000000000602082015250565b7f43616c6c6572206973206e6f742061207265676973746572656420696e73746960008201527f747574696f6e0000000000000000000000000000000000000000000000000000602082015250565b7f43726564656e7469616c20697320616c7265616479207265766f6b6564000000600082015250565b61138e816110fe565b811461139957600080fd5b50565b6113a58161112a565b81146113b057600080fd5b5056fea2646970667358221220b94e55ba2613ca353fdc72ffeefa76761ab4affec60f0c3fa258c86ad70c35b464736f6c63430008040033";
+  "0x60a06040523073ffffffffffffffffffffffffffffffffffffffff1660809073ffffffffffffffffffffffffffffffffffffffff1660601b81525034801561004657600080fd5b5060016000806101000a81548160ff02191690831515021790555060805160601c615c586200008e60003960008181610f4401528181611aab0152611bc50152615c586000f3fe608060405234801561001057600080fd5b50600436106101f05760003560e01c80637da0a8771161010f578063b191bd79116100a2578063e720b49311610071578063e720b49314610584578063f851a440146105a2578063fe23f845146105c0578063fee7a162146105dc576101f0565b8063b191bd79146104e7578063b37561c914610503578063bb3670ab14610533578063bc3659e214610568576101f0565b806398c8bece116100de57806398c8bece14610483578063a9218f90146104a1578063aaf10f42146104bf578063b03d67fe146104dd576101f0565b80637da0a877146103e75780637dc641631461040557806382c4e329146104375780639398d36314610467576101f0565b8063420cec721161018757806352d1902d1161015657806352d1902d14610361578063572b6c051461037f57806359d06f61146103af57806367b29f19146103cb576101f0565b8063420cec72146102ef5780634389cc221461030b578063485cc955146103295780634f1ef28614610345576101f0565b806329c2312d116101c357806329c2312d146102675780633659cfe61461028557806337a81a5c146102a15780633ec4ec2e146102bd576101f0565b806310848f27146101f557806319e92c14146102115780631b1fcb041461022d57806322e4c7471461024b575b600080fd5b61020f600480360381019061020a9190613c63565b610610565b005b61022b60048036038101906102269190614008565b610941565b005b610235610b42565b6040516102429190614697565b60405180910390f35b61026560048036038101906102609190613df9565b610b68565b005b61026f610f3d565b60405161027c9190614ba7565b60405180910390f35b61029f600480360381019061029a9190613b17565b610f42565b005b6102bb60048036038101906102b69190613f89565b610fdd565b005b6102d760048036038101906102d29190613c22565b6112bb565b6040516102e693929190614bc2565b60405180910390f35b61030960048036038101906103049190613cca565b6116fa565b005b61031361195b565b6040516103209190614ba7565b60405180910390f35b610343600480360381019061033e9190613b40565b611960565b005b61035f600480360381019061035a9190613b7c565b611aa9565b005b610369611bc1565b604051610376919061467c565b60405180910390f35b61039960048036038101906103949190613b17565b611c7a565b6040516103a6919061459f565b60405180910390f35b6103c960048036038101906103c49190613ed0565b611cd4565b005b6103e560048036038101906103e09190613c22565b611f50565b005b6103ef612132565b6040516103fc9190614584565b60405180910390f35b61041f600480360381019061041a9190613cca565b612158565b60405161042e93929190614bc2565b60405180910390f35b610451600480360381019061044c9190613c22565b612384565b60405161045e91906146b2565b60405180910390f35b610481600480360381019061047c919061405c565b612437565b005b61048b61262c565b604051610498919061459f565b60405180910390f35b6104a961263f565b6040516104b69190614ba7565b60405180910390f35b6104c7612644565b6040516104d49190614584565b60405180910390f35b6104e561266d565b005b61050160048036038101906104fc9190613f89565b6127a0565b005b61051d60048036038101906105189190613c22565b612a41565b60405161052a919061467c565b60405180910390f35b61054d60048036038101906105489190613c22565b612a6c565b60405161055f9695949392919061460d565b60405180910390f35b610582600480360381019061057d9190614008565b612e8c565b005b61058c6130c2565b6040516105999190614ba7565b60405180910390f35b6105aa6130c7565b6040516105b79190614584565b60405180910390f35b6105da60048036038101906105d5919061409d565b6130ed565b005b6105f660048036038101906105f19190613d36565b6132e2565b6040516106079594939291906145ba565b60405180910390f35b600060019054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1663c3c5a54761065661355f565b6040518263ffffffff1660e01b81526004016106729190614584565b60206040518083038186803b15801561068a57600080fd5b505afa15801561069e573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906106c29190613bd0565b610701576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016106f890614acc565b60405180910390fd5b6000600484604051610713919061456d565b9081526020016040518091039020600001805461072f90615231565b905014610771576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610768906148ec565b60405180910390fd5b6000801b8214156107b7576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016107ae90614aac565b60405180910390fd5b600081116107fa576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016107f1906149cc565b60405180910390fd5b6040518060a0016040528084815260200161081361355f565b73ffffffffffffffffffffffffffffffffffffffff1681526020018381526020018281526020014281525060048460405161084e919061456d565b90815260200160405180910390206000820151816000019080519060200190610878929190613859565b5060208201518160010160006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055506040820151816002015560608201518160030155608082015181600401559050506108e961355f565b73ffffffffffffffffffffffffffffffffffffffff167fd4ac815c74749c3c1df70edf7c589673ee8a92eec43c4d7bf56315010e94d6228484844260405161093494939291906146d4565b60405180910390a2505050565b6000600383604051610953919061456d565b90815260200160405180910390209050600081600001805461097490615231565b905014156109b7576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016109ae9061496c565b60405180910390fd5b6109bf61355f565b73ffffffffffffffffffffffffffffffffffffffff168160010160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1614610a50576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610a4790614a6c565b60405180910390fd5b8060070160009054906101000a900460ff1615610aa2576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610a9990614b4c565b60405180910390fd5b60018160070160006101000a81548160ff021916908315150217905550428160080181905550818160090160006101000a81548160ff021916908360ff16021790555060008160090160016101000a81548160ff0219169083151502179055507f71e63e952c70d4b3738160dbcc61165d49d9875450e542d79abfd8e09e4b999a838342604051610b359392919061488e565b60405180910390a1505050565b600060019054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b600060019054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1663c3c5a547610bae61355f565b6040518263ffffffff1660e01b8152600401610bca9190614584565b60206040518083038186803b158015610be257600080fd5b505afa158015610bf6573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610c1a9190613bd0565b610c59576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610c5090614acc565b60405180910390fd5b6000600386604051610c6b919061456d565b90815260200160405180910390206000018054610c8790615231565b905014610cc9576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610cc090614a4c565b60405180910390fd5b604051806101a00160405280868152602001610ce361355f565b73ffffffffffffffffffffffffffffffffffffffff16815260200185815260200184815260200183815260200142815260200182815260200160001515815260200160008152602001600060ff16815260200160001515815260200160008152602001600060ff16815250600386604051610d5e919061456d565b90815260200160405180910390206000820151816000019080519060200190610d88929190613859565b5060208201518160010160006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055506040820151816002019080519060200190610dec929190613859565b506060820151816003019080519060200190610e09929190613859565b506080820151816004019080519060200190610e26929190613859565b5060a0820151816005015560c0820151816006015560e08201518160070160006101000a81548160ff02191690831515021790555061010082015181600801556101208201518160090160006101000a81548160ff021916908360ff1602179055506101408201518160090160016101000a81548160ff02191690831515021790555061016082015181600a015561018082015181600b0160006101000a81548160ff021916908360ff160217905550905050610ee161355f565b73ffffffffffffffffffffffffffffffffffffffff167f2ffa54c2d0828397830be1b214054411b4b7656cd2d80f1a486a4e4c72bd9d5f8686868642604051610f2e959493929190614757565b60405180910390a25050505050565b600381565b7f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff163073ffffffffffffffffffffffffffffffffffffffff161415610fd1576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610fc8906148cc565b60405180910390fd5b610fda81613596565b50565b6000600484604051610fef919061456d565b90815260200160405180910390209050600081600001805461101090615231565b90501415611053576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161104a9061492c565b60405180910390fd5b61105b61355f565b73ffffffffffffffffffffffffffffffffffffffff168160010160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16146110ec576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016110e390614b6c565b60405180910390fd5b60006005856040516110fe919061456d565b90815260200160405180910390208460405161111a919061456d565b90815260200160405180910390205414611169576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161116090614b0c565b60405180910390fd5b600060078560405161117b919061456d565b908152602001604051809103902084604051611197919061456d565b908152602001604051809103902054146111e6576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016111dd90614a0c565b60405180910390fd5b426007856040516111f7919061456d565b908152602001604051809103902084604051611213919061456d565b90815260200160405180910390208190555081600885604051611236919061456d565b908152602001604051809103902084604051611252919061456d565b908152602001604051809103902060006101000a81548160ff021916908360ff1602179055507ff63d4c5babb5dd0acf9d7955f2f369d91f9eb767f74ac016f63281705b257430848484426040516112ad949392919061480b565b60405180910390a150505050565b6000806000806003856040516112d1919061456d565b9081526020016040518091039020604051806101a00160405290816000820180546112fb90615231565b80601f016020809104026020016040519081016040528092919081815260200182805461132790615231565b80156113745780601f1061134957610100808354040283529160200191611374565b820191906000526020600020905b81548152906001019060200180831161135757829003601f168201915b505050505081526020016001820160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020016002820180546113e390615231565b80601f016020809104026020016040519081016040528092919081815260200182805461140f90615231565b801561145c5780601f106114315761010080835404028352916020019161145c565b820191906000526020600020905b81548152906001019060200180831161143f57829003601f168201915b5050505050815260200160038201805461147590615231565b80601f01602080910402602001604051908101604052809291908181526020018280546114a190615231565b80156114ee5780601f106114c3576101008083540402835291602001916114ee565b820191906000526020600020905b8154815290600101906020018083116114d157829003601f168201915b5050505050815260200160048201805461150790615231565b80601f016020809104026020016040519081016040528092919081815260200182805461153390615231565b80156115805780601f1061155557610100808354040283529160200191611580565b820191906000526020600020905b81548152906001019060200180831161156357829003601f168201915b5050505050815260200160058201548152602001600682015481526020016007820160009054906101000a900460ff16151515158152602001600882015481526020016009820160009054906101000a900460ff1660ff1660ff1681526020016009820160019054906101000a900460ff16151515158152602001600a8201548152602001600b820160009054906101000a900460ff1660ff1660ff168152505090506000816000015151141561166c576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016116639061496c565b60405180910390fd5b8060e0015115611690576001816101200151826101000151935093509350506116f3565b806101400151156116b5576002816101800151826101600151935093509350506116f3565b60008160c001511180156116cc57508060c0015142115b156116e657600360008260c00151935093509350506116f3565b6000806000935093509350505b9193909250565b600060048360405161170c919061456d565b90815260200160405180910390209050600081600001805461172d90615231565b90501415611770576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016117679061492c565b60405180910390fd5b61177861355f565b73ffffffffffffffffffffffffffffffffffffffff168160010160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1614611809576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161180090614a2c565b60405180910390fd5b600060078460405161181b919061456d565b908152602001604051809103902083604051611837919061456d565b9081526020016040518091039020541415611887576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161187e906149ec565b60405180910390fd5b6000600784604051611899919061456d565b9081526020016040518091039020836040516118b5919061456d565b90815260200160405180910390208190555060006008846040516118d9919061456d565b9081526020016040518091039020836040516118f5919061456d565b908152602001604051809103902060006101000a81548160ff021916908360ff1602179055507f5a5705046bf352ed9d565fed42aaf0f44f761dba09fef3841bbf71f280bf055e83834260405161194e939291906147c6565b60405180910390a1505050565b600081565b60008054906101000a900460ff16156119ae576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016119a59061498c565b60405180910390fd5b60016000806101000a81548160ff02191690831515021790555081600060016101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555080600260006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555033600160006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555060018060146101000a81548160ff0219169083151502179055505050565b7f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff163073ffffffffffffffffffffffffffffffffffffffff161415611b38576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611b2f906148cc565b60405180910390fd5b611b4182613596565b6000808373ffffffffffffffffffffffffffffffffffffffff1683604051611b69919061453d565b600060405180830381855af49150503d8060008114611ba4576040519150601f19603f3d011682016040523d82523d6000602084013e611ba9565b606091505b509150915081611bbb57805160208201fd5b50505050565b60007f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff163073ffffffffffffffffffffffffffffffffffffffff1614611c51576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611c48906149ac565b60405180910390fd5b7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc60001b905090565b6000600260009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff16149050919050565b600160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff1614611d64576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611d5b90614b2c565b60405180910390fd5b600160149054906101000a900460ff16611db3576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611daa90614a8c565b60405180910390fd5b6000600487604051611dc5919061456d565b90815260200160405180910390206000018054611de190615231565b90501415611e24576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611e1b9061492c565b60405180910390fd5b83600587604051611e35919061456d565b908152602001604051809103902086604051611e51919061456d565b90815260200160405180910390208190555082600687604051611e74919061456d565b908152602001604051809103902086604051611e90919061456d565b908152602001604051809103902060006101000a81548160ff021916908360ff16021790555081600787604051611ec7919061456d565b908152602001604051809103902086604051611ee3919061456d565b90815260200160405180910390208190555080600887604051611f06919061456d565b908152602001604051809103902086604051611f22919061456d565b908152602001604051809103902060006101000a81548160ff021916908360ff160217905550505050505050565b6000600382604051611f62919061456d565b908152602001604051809103902090506000816000018054611f8390615231565b90501415611fc6576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611fbd9061496c565b60405180910390fd5b611fce61355f565b73ffffffffffffffffffffffffffffffffffffffff168160010160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff161461205f576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161205690614a2c565b60405180910390fd5b8060090160019054906101000a900460ff166120b0576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016120a7906149ec565b60405180910390fd5b60008160090160016101000a81548160ff021916908315150217905550600081600a0181905550600081600b0160006101000a81548160ff021916908360ff1602179055507f6af8a536e127f781d1c12998edb6c36cc043b0c9ae2e09b426ee41c58729a654824260405161212692919061485e565b60405180910390a15050565b600260009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b60008060008060048660405161216e919061456d565b9081526020016040518091039020600001805461218a90615231565b905014156121cd576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016121c49061492c565b60405180910390fd5b60006005866040516121df919061456d565b9081526020016040518091039020856040516121fb919061456d565b9081526020016040518091039020541461229f576001600686604051612221919061456d565b90815260200160405180910390208560405161223d919061456d565b908152602001604051809103902060009054906101000a900460ff16600587604051612269919061456d565b908152602001604051809103902086604051612285919061456d565b90815260200160405180910390205492509250925061237d565b60006007866040516122b1919061456d565b9081526020016040518091039020856040516122cd919061456d565b908152602001604051809103902054146123715760026008866040516122f3919061456d565b90815260200160405180910390208560405161230f919061456d565b908152602001604051809103902060009054906101000a900460ff1660078760405161233b919061456d565b908152602001604051809103902086604051612357919061456d565b90815260200160405180910390205492509250925061237d565b60008060009250925092505b9250925092565b6060600382604051612396919061456d565b908152602001604051809103902060030180546123b290615231565b80601f01602080910402602001604051908101604052809291908181526020018280546123de90615231565b801561242b5780601f106124005761010080835404028352916020019161242b565b820191906000526020600020905b81548152906001019060200180831161240e57829003601f168201915b50505050509050919050565b600160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff16146124c7576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016124be90614b2c565b60405180910390fd5b600160149054906101000a900460ff16612516576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161250d90614a8c565b60405180910390fd5b60008180600001906125289190614bf9565b9050141561256b576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016125629061494c565b60405180910390fd5b6000600482806000019061257f9190614bf9565b60405161258d929190614554565b908152602001604051809103902060000180546125a990615231565b9050146125eb576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016125e2906148ec565b60405180910390fd5b8060048280600001906125fe9190614bf9565b60405161260c929190614554565b908152602001604051809103902081816126269190615b00565b90505050565b600160149054906101000a900460ff1681565b600181565b60007f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc54905090565b600160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff16146126fd576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016126f490614b2c565b60405180910390fd5b600160149054906101000a900460ff1661274c576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161274390614a8c565b60405180910390fd5b6000600160146101000a81548160ff0219169083151502179055507f5e09af2d062b5fe3bab1ba3cb7795456efad28b27adfa7789db002058da49a39426040516127969190614b8c565b60405180910390a1565b60006004846040516127b2919061456d565b9081526020016040518091039020905060008160000180546127d390615231565b90501415612816576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161280d9061492c565b60405180910390fd5b61281e61355f565b73ffffffffffffffffffffffffffffffffffffffff168160010160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16146128af576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016128a690614a6c565b60405180910390fd5b60006005856040516128c1919061456d565b9081526020016040518091039020846040516128dd919061456d565b9081526020016040518091039020541461292c576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161292390614b4c565b60405180910390fd5b4260058560405161293d919061456d565b908152602001604051809103902084604051612959919061456d565b9081526020016040518091039020819055508160068560405161297c919061456d565b908152602001604051809103902084604051612998919061456d565b908152602001604051809103902060006101000a81548160ff021916908360ff16021790555060006007856040516129d0919061456d565b9081526020016040518091039020846040516129ec919061456d565b9081526020016040518091039020819055507f6f387f56c96aa6260dd0b9bfaa38d09dd49a1a51cc5ff5a54212e1e49334ea0d84848442604051612a33949392919061480b565b60405180910390a150505050565b6000600482604051612a53919061456d565b9081526020016040518091039020600201549050919050565b6000806060806000806000600388604051612a87919061456d565b9081526020016040518091039020604051806101a0016040529081600082018054612ab190615231565b80601f0160208091040260200160405190810160405280929190818152602001828054612add90615231565b8015612b2a5780601f10612aff57610100808354040283529160200191612b2a565b820191906000526020600020905b815481529060010190602001808311612b0d57829003601f168201915b505050505081526020016001820160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001600282018054612b9990615231565b80601f0160208091040260200160405190810160405280929190818152602001828054612bc590615231565b8015612c125780601f10612be757610100808354040283529160200191612c12565b820191906000526020600020905b815481529060010190602001808311612bf557829003601f168201915b50505050508152602001600382018054612c2b90615231565b80601f0160208091040260200160405190810160405280929190818152602001828054612c5790615231565b8015612ca45780601f10612c7957610100808354040283529160200191612ca4565b820191906000526020600020905b815481529060010190602001808311612c8757829003601f168201915b50505050508152602001600482018054612cbd90615231565b80601f0160208091040260200160405190810160405280929190818152602001828054612ce990615231565b8015612d365780601f10612d0b57610100808354040283529160200191612d36565b820191906000526020600020905b815481529060010190602001808311612d1957829003601f168201915b5050505050815260200160058201548152602001600682015481526020016007820160009054906101000a900460ff16151515158152602001600882015481526020016009820160009054906101000a900460ff1660ff1660ff1681526020016009820160019054906101000a900460ff16151515158152602001600a8201548152602001600b820160009054906101000a900460ff1660ff1660ff1681525050905060008160000151511415612e22576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401612e199061496c565b60405180910390fd5b6000808260c001511115612e3a578160c00151421190505b8160e00151158015612e4f5750816101400151155b8015612e59575080155b9750878260200151836040015184608001518560a001518660e00151975097509750975097509750505091939550919395565b6000600383604051612e9e919061456d565b908152602001604051809103902090506000816000018054612ebf90615231565b90501415612f02576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401612ef99061496c565b60405180910390fd5b612f0a61355f565b73ffffffffffffffffffffffffffffffffffffffff168160010160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1614612f9b576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401612f9290614b6c565b60405180910390fd5b8060070160009054906101000a900460ff1615612fed576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401612fe490614b0c565b60405180910390fd5b8060090160019054906101000a900460ff161561303f576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161303690614a0c565b60405180910390fd5b60018160090160016101000a81548160ff0219169083151502179055504281600a01819055508181600b0160006101000a81548160ff021916908360ff1602179055507f2838629e679e7e7385281a355d580089b4aa6db6a64237ea31dd6aecee462d858383426040516130b59392919061488e565b60405180910390a1505050565b600281565b600160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b600160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff161461317d576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161317490614b2c565b60405180910390fd5b600160149054906101000a900460ff166131cc576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016131c390614a8c565b60405180910390fd5b60008180600001906131de9190614bf9565b90501415613221576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016132189061490c565b60405180910390fd5b600060038280600001906132359190614bf9565b604051613243929190614554565b9081526020016040518091039020600001805461325f90615231565b9050146132a1576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161329890614a4c565b60405180910390fd5b8060038280600001906132b49190614bf9565b6040516132c2929190614554565b908152602001604051809103902081816132dc9190615b0e565b90505050565b60008060008060008060048a6040516132fb919061456d565b90815260200160405180910390206040518060a001604052908160008201805461332490615231565b80601f016020809104026020016040519081016040528092919081815260200182805461335090615231565b801561339d5780601f106133725761010080835404028352916020019161339d565b820191906000526020600020905b81548152906001019060200180831161338057829003601f168201915b505050505081526020016001820160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020016002820154815260200160038201548152602001600482015481525050905060008160000151511415613465576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161345c9061492c565b60405180910390fd5b6000898960405160200161347a929190614720565b60405160208183030381529060405280519060200120905060006134a3898460400151846136ea565b9050600060058d6040516134b7919061456d565b90815260200160405180910390208c6040516134d3919061456d565b908152602001604051809103902054141593508080156134f1575083155b80156135375750600060078d60405161350a919061456d565b90815260200160405180910390208c604051613526919061456d565b908152602001604051809103902054145b9750878360200151846040015185608001519750975097509750505050945094509450945094565b600061356a33611c7a565b801561357b57506014600036905010155b1561358f57601436033560601c9050613593565b3390505b90565b61359f816137c6565b7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc60001b8173ffffffffffffffffffffffffffffffffffffffff166352d1902d6040518163ffffffff1660e01b815260040160206040518083038186803b15801561360957600080fd5b505afa15801561361d573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906136419190613bf9565b14613681576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161367890614aec565b60405180910390fd5b807f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc558073ffffffffffffffffffffffffffffffffffffffff167fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b60405160405180910390a250565b60008082905060005b85518110156137b8576000868281518110613737577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b6020026020010151905080831161377857828160405160200161375b929190614511565b6040516020818303038152906040528051906020012092506137a4565b808360405160200161378b929190614511565b6040516020818303038152906040528051906020012092505b5080806137b0906152b0565b9150506136f3565b508381149150509392505050565b600160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff1614613856576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161384d90614b2c565b60405180910390fd5b50565b82805461386590615231565b90600052602060002090601f01602090048101928261388757600085556138ce565b82601f106138a057805160ff19168380011785556138ce565b828001600101855582156138ce579182015b828111156138cd5782518255916020019190600101906138b2565b5b5090506138db91906138df565b5090565b5b808211156138f85760008160009055506001016138e0565b5090565b600061390f61390a84614c75565b614c50565b9050808382526020820190508285602086028201111561392e57600080fd5b60005b8581101561395e57816139448882613a38565b845260208401935060208301925050600181019050613931565b5050509392505050565b600061397b61397684614ca1565b614c50565b90508281526020810184848401111561399357600080fd5b61399e848285614f90565b509392505050565b60006139b96139b484614cd2565b614c50565b9050828152602081018484840111156139d157600080fd5b6139dc848285614f90565b509392505050565b6000813590506139f381615baa565b92915050565b600082601f830112613a0a57600080fd5b8135613a1a8482602086016138fc565b91505092915050565b600081519050613a3281615bc1565b92915050565b600081359050613a4781615bd8565b92915050565b600081519050613a5c81615bd8565b92915050565b600082601f830112613a7357600080fd5b8135613a83848260208601613968565b91505092915050565b600082601f830112613a9d57600080fd5b8135613aad8482602086016139a6565b91505092915050565b600060a08284031215613ac857600080fd5b81905092915050565b60006101a08284031215613ae457600080fd5b81905092915050565b600081359050613afc81615bef565b92915050565b600081359050613b1181615c06565b92915050565b600060208284031215613b2957600080fd5b6000613b37848285016139e4565b91505092915050565b60008060408385031215613b5357600080fd5b6000613b61858286016139e4565b9250506020613b72858286016139e4565b9150509250929050565b60008060408385031215613b8f57600080fd5b6000613b9d858286016139e4565b925050602083013567ffffffffffffffff811115613bba57600080fd5b613bc685828601613a62565b9150509250929050565b600060208284031215613be257600080fd5b6000613bf084828501613a23565b91505092915050565b600060208284031215613c0b57600080fd5b6000613c1984828501613a4d565b91505092915050565b600060208284031215613c3457600080fd5b600082013567ffffffffffffffff811115613c4e57600080fd5b613c5a84828501613a8c565b91505092915050565b600080600060608486031215613c7857600080fd5b600084013567ffffffffffffffff811115613c9257600080fd5b613c9e86828701613a8c565b9350506020613caf86828701613a38565b9250506040613cc086828701613aed565b9150509250925092565b60008060408385031215613cdd57600080fd5b600083013567ffffffffffffffff811115613cf757600080fd5b613d0385828601613a8c565b925050602083013567ffffffffffffffff811115613d2057600080fd5b613d2c85828601613a8c565b9150509250929050565b60008060008060808587031215613d4c57600080fd5b600085013567ffffffffffffffff811115613d6657600080fd5b613d7287828801613a8c565b945050602085013567ffffffffffffffff811115613d8f57600080fd5b613d9b87828801613a8c565b935050604085013567ffffffffffffffff811115613db857600080fd5b613dc487828801613a8c565b925050606085013567ffffffffffffffff811115613de157600080fd5b613ded878288016139f9565b91505092959194509250565b600080600080600060a08688031215613e1157600080fd5b600086013567ffffffffffffffff811115613e2b57600080fd5b613e3788828901613a8c565b955050602086013567ffffffffffffffff811115613e5457600080fd5b613e6088828901613a8c565b945050604086013567ffffffffffffffff811115613e7d57600080fd5b613e8988828901613a8c565b935050606086013567ffffffffffffffff811115613ea657600080fd5b613eb288828901613a8c565b9250506080613ec388828901613aed565b9150509295509295909350565b60008060008060008060c08789031215613ee957600080fd5b600087013567ffffffffffffffff811115613f0357600080fd5b613f0f89828a01613a8c565b965050602087013567ffffffffffffffff811115613f2c57600080fd5b613f3889828a01613a8c565b9550506040613f4989828a01613aed565b9450506060613f5a89828a01613b02565b9350506080613f6b89828a01613aed565b92505060a0613f7c89828a01613b02565b9150509295509295509295565b600080600060608486031215613f9e57600080fd5b600084013567ffffffffffffffff811115613fb857600080fd5b613fc486828701613a8c565b935050602084013567ffffffffffffffff811115613fe157600080fd5b613fed86828701613a8c565b9250506040613ffe86828701613b02565b9150509250925092565b6000806040838503121561401b57600080fd5b600083013567ffffffffffffffff81111561403557600080fd5b61404185828601613a8c565b925050602061405285828601613b02565b9150509250929050565b60006020828403121561406e57600080fd5b600082013567ffffffffffffffff81111561408857600080fd5b61409484828501613ab6565b91505092915050565b6000602082840312156140af57600080fd5b600082013567ffffffffffffffff8111156140c957600080fd5b6140d584828501613ad1565b91505092915050565b6140e781614d60565b82525050565b6140f681614d72565b82525050565b61410581614d7e565b82525050565b61411c61411782614d7e565b6152f9565b82525050565b600061412d82614d18565b6141378185614d39565b9350614147818560208601614f9f565b80840191505092915050565b61415c81614e18565b82525050565b600061416e8385614d55565b935061417b838584614f90565b82840190509392505050565b600061419282614d2e565b61419c8185614d44565b93506141ac818560208601614f9f565b6141b581615456565b840191505092915050565b60006141cb82614d2e565b6141d58185614d55565b93506141e5818560208601614f9f565b80840191505092915050565b60006141fe602783614d44565b9150614209826154c0565b604082019050919050565b6000614221601783614d44565b915061422c8261550f565b602082019050919050565b6000614244601983614d44565b915061424f82615538565b602082019050919050565b6000614267601483614d44565b915061427282615561565b602082019050919050565b600061428a601483614d44565b91506142958261558a565b602082019050919050565b60006142ad601983614d44565b91506142b8826155b3565b602082019050919050565b60006142d0601f83614d44565b91506142db826155dc565b602082019050919050565b60006142f3602b83614d44565b91506142fe82615605565b604082019050919050565b6000614316601e83614d44565b915061432182615654565b602082019050919050565b6000614339601b83614d44565b91506143448261567d565b602082019050919050565b600061435c601f83614d44565b9150614367826156a6565b602082019050919050565b600061437f602483614d44565b915061438a826156cf565b604082019050919050565b60006143a2601c83614d44565b91506143ad8261571e565b602082019050919050565b60006143c5602183614d44565b91506143d082615747565b604082019050919050565b60006143e8601383614d44565b91506143f382615796565b602082019050919050565b600061440b601783614d44565b9150614416826157bf565b602082019050919050565b600061442e602683614d44565b9150614439826157e8565b604082019050919050565b6000614451602583614d44565b915061445c82615837565b604082019050919050565b6000614474601583614d44565b915061447f82615886565b602082019050919050565b6000614497602183614d44565b91506144a2826158af565b604082019050919050565b60006144ba601d83614d44565b91506144c5826158fe565b602082019050919050565b60006144dd602283614d44565b91506144e882615927565b604082019050919050565b6144fc81614da8565b82525050565b61450b81614db2565b82525050565b600061451d828561410b565b60208201915061452d828461410b565b6020820191508190509392505050565b60006145498284614122565b915081905092915050565b6000614561828486614162565b91508190509392505050565b600061457982846141c0565b915081905092915050565b600060208201905061459960008301846140de565b92915050565b60006020820190506145b460008301846140ed565b92915050565b600060a0820190506145cf60008301886140ed565b6145dc60208301876140de565b6145e960408301866140fc565b6145f660608301856144f3565b61460360808301846140ed565b9695505050505050565b600060c08201905061462260008301896140ed565b61462f60208301886140de565b81810360408301526146418187614187565b905081810360608301526146558186614187565b905061466460808301856144f3565b61467160a08301846140ed565b979650505050505050565b600060208201905061469160008301846140fc565b92915050565b60006020820190506146ac6000830184614153565b92915050565b600060208201905081810360008301526146cc8184614187565b905092915050565b600060808201905081810360008301526146ee8187614187565b90506146fd60208301866140fc565b61470a60408301856144f3565b61471760608301846144f3565b95945050505050565b6000604082019050818103600083015261473a8185614187565b9050818103602083015261474e8184614187565b90509392505050565b600060a08201905081810360008301526147718188614187565b905081810360208301526147858187614187565b905081810360408301526147998186614187565b905081810360608301526147ad8185614187565b90506147bc60808301846144f3565b9695505050505050565b600060608201905081810360008301526147e08186614187565b905081810360208301526147f48185614187565b905061480360408301846144f3565b949350505050565b600060808201905081810360008301526148258187614187565b905081810360208301526148398186614187565b90506148486040830185614502565b61485560608301846144f3565b95945050505050565b600060408201905081810360008301526148788185614187565b905061488760208301846144f3565b9392505050565b600060608201905081810360008301526148a88186614187565b90506148b76020830185614502565b6148c460408301846144f3565b949350505050565b600060208201905081810360008301526148e5816141f1565b9050919050565b6000602082019050818103600083015261490581614214565b9050919050565b6000602082019050818103600083015261492581614237565b9050919050565b600060208201905081810360008301526149458161425a565b9050919050565b600060208201905081810360008301526149658161427d565b9050919050565b60006020820190508181036000830152614985816142a0565b9050919050565b600060208201905081810360008301526149a5816142c3565b9050919050565b600060208201905081810360008301526149c5816142e6565b9050919050565b600060208201905081810360008301526149e581614309565b9050919050565b60006020820190508181036000830152614a058161432c565b9050919050565b60006020820190508181036000830152614a258161434f565b9050919050565b60006020820190508181036000830152614a4581614372565b9050919050565b60006020820190508181036000830152614a6581614395565b9050919050565b60006020820190508181036000830152614a85816143b8565b9050919050565b60006020820190508181036000830152614aa5816143db565b9050919050565b60006020820190508181036000830152614ac5816143fe565b9050919050565b60006020820190508181036000830152614ae581614421565b9050919050565b60006020820190508181036000830152614b0581614444565b9050919050565b60006020820190508181036000830152614b2581614467565b9050919050565b60006020820190508181036000830152614b458161448a565b9050919050565b60006020820190508181036000830152614b65816144ad565b9050919050565b60006020820190508181036000830152614b85816144d0565b9050919050565b6000602082019050614ba160008301846144f3565b92915050565b6000602082019050614bbc6000830184614502565b92915050565b6000606082019050614bd76000830186614502565b614be46020830185614502565b614bf160408301846144f3565b949350505050565b60008083356001602003843603038112614c1257600080fd5b80840192508235915067ffffffffffffffff821115614c3057600080fd5b602083019250600182023603831315614c4857600080fd5b509250929050565b6000614c5a614c6b565b9050614c66828261527f565b919050565b6000604051905090565b600067ffffffffffffffff821115614c9057614c8f61537f565b5b602082029050602081019050919050565b600067ffffffffffffffff821115614cbc57614cbb61537f565b5b614cc582615456565b9050602081019050919050565b600067ffffffffffffffff821115614ced57614cec61537f565b5b614cf682615456565b9050602081019050919050565b60008190508160005260206000209050919050565b600081519050919050565b600082905092915050565b600081519050919050565b600081905092915050565b600082825260208201905092915050565b600081905092915050565b6000614d6b82614d88565b9050919050565b60008115159050919050565b6000819050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000819050919050565b600060ff82169050919050565b5b81811015614dde57614dd36000826154a8565b600181019050614dc0565b5050565b6000614ded82614e3c565b9050919050565b6000614dff82614d72565b9050919050565b6000614e1182614d7e565b9050919050565b6000614e2382614e2a565b9050919050565b6000614e3582614d88565b9050919050565b6000614e4782614e4e565b9050919050565b6000614e5982614d88565b9050919050565b6000614e6b82614da8565b9050919050565b6000614e7d82614db2565b9050919050565b614e8e8383614d23565b67ffffffffffffffff811115614ea757614ea661537f565b5b614eb18254615231565b600080601f8411601f84111715614ece57614ecb85614d03565b90505b601f831115614f01576020601f85010481016020851015614eed578190505b614eff6020601f860104830182614dbf565b505b601f841160018114614f2e5760008515614f1c578388013590505b614f268682615263565b875550614f86565b601f1985168260005b82811015614f5c57858a01358255600182019150602086019550602081019050614f37565b87831015614f7957858a0135614f75601f8a1682615303565b8355505b6001600289020189555050505b5050505050505050565b82818337600083830152505050565b60005b83811015614fbd578082015181840152602081019050614fa2565b83811115614fcc576000848401525b50505050565b6000810160008301614fe48185614bf9565b614fef818386615af0565b50505050600181016020830180615005816153e8565b90506150118184615a87565b50505060028101604083018061502681615414565b90506150328184615acd565b5050506003810160608301806150478161542a565b90506150538184615b1c565b5050506004810160808301806150688161542a565b90506150748184615b1c565b5050505050565b600081016000830161508d8185614bf9565b615098818386615af0565b505050506001810160208301806150ae816153e8565b90506150ba8184615a87565b50505060028101604083016150cf8185614bf9565b6150da818386615af0565b5050505060038101606083016150f08185614bf9565b6150fb818386615af0565b5050505060048101608083016151118185614bf9565b61511c818386615af0565b505050506005810160a08301806151328161542a565b905061513e8184615b1c565b5050506006810160c08301806151538161542a565b905061515f8184615b1c565b5050506007810160e0830180615174816153fe565b90506151808184615aaa565b505050600881016101008301806151968161542a565b90506151a28184615b1c565b505050600981016101208301806151b881615440565b90506151c48184615b3f565b505050600981016101408301806151da816153fe565b90506151e68184615b62565b505050600a81016101608301806151fc8161542a565b90506152088184615b1c565b505050600b810161018083018061521e81615440565b905061522a8184615b3f565b5050505050565b6000600282049050600182168061524957607f821691505b6020821081141561525d5761525c615350565b5b50919050565b600061526f8383615303565b9150826002028217905092915050565b61528882615456565b810181811067ffffffffffffffff821117156152a7576152a661537f565b5b80604052505050565b60006152bb82614da8565b91507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8214156152ee576152ed615321565b5b600182019050919050565b6000819050919050565b60006153146000198460080261549b565b1980831691505092915050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000819050919050565b6000819050919050565b60006153cd8261548e565b9050919050565b6000819050919050565b6000819050919050565b600081356153f581615baa565b80915050919050565b6000813561540b81615bc1565b80915050919050565b6000813561542181615bd8565b80915050919050565b6000813561543781615bef565b80915050919050565b6000813561544d81615c06565b80915050919050565b6000601f19601f8301169050919050565b60008160001b9050919050565b60008160081b9050919050565b600082821b905092915050565b60008160001c9050919050565b600082821c905092915050565b6154b0615c1d565b6154bb818484615b85565b505050565b7f46756e6374696f6e206d7573742062652063616c6c6564207468726f7567682060008201527f612070726f787900000000000000000000000000000000000000000000000000602082015250565b7f426174636820494420616c726561647920657869737473000000000000000000600082015250565b7f43726564656e7469616c20494420697320726571756972656400000000000000600082015250565b7f426174636820646f6573206e6f74206578697374000000000000000000000000600082015250565b7f4261746368204944206973207265717569726564000000000000000000000000600082015250565b7f43726564656e7469616c20646f6573206e6f7420657869737400000000000000600082015250565b7f436f6e747261637420697320616c726561647920696e697469616c697a656400600082015250565b7f46756e6374696f6e206d757374206e6f742062652063616c6c6564207468726f60008201527f75676820612070726f7879000000000000000000000000000000000000000000602082015250565b7f4261746368206d75737420636f6e7461696e2063726564656e7469616c730000600082015250565b7f43726564656e7469616c206973206e6f742073757370656e6465640000000000600082015250565b7f43726564656e7469616c20697320616c72656164792073757370656e64656400600082015250565b7f4f6e6c79206973737565722063616e207265696e73746174652063726564656e60008201527f7469616c00000000000000000000000000000000000000000000000000000000602082015250565b7f43726564656e7469616c20494420616c72656164792065786973747300000000600082015250565b7f4f6e6c79206973737565722063616e207265766f6b652063726564656e74696160008201527f6c00000000000000000000000000000000000000000000000000000000000000602082015250565b7f4d6967726174696f6e20697320636c6f73656400000000000000000000000000600082015250565b7f4d65726b6c6520726f6f74206973207265717569726564000000000000000000600082015250565b7f43616c6c6572206973206e6f742061207265676973746572656420696e73746960008201527f747574696f6e0000000000000000000000000000000000000000000000000000602082015250565b7f4e657720696d706c656d656e746174696f6e206973206e6f742075706772616460008201527f6561626c65000000000000000000000000000000000000000000000000000000602082015250565b7f43726564656e7469616c206973207265766f6b65640000000000000000000000600082015250565b7f4f6e6c792061646d696e2063616e2063616c6c20746869732066756e6374696f60008201527f6e00000000000000000000000000000000000000000000000000000000000000602082015250565b7f43726564656e7469616c20697320616c7265616479207265766f6b6564000000600082015250565b7f4f6e6c79206973737565722063616e2073757370656e642063726564656e746960008201527f616c000000000000000000000000000000000000000000000000000000000000602082015250565b600060ff61598384615467565b9350801983169250808416831791505092915050565b600061ff006159a784615474565b9350801983169250808416831791505092915050565b600073ffffffffffffffffffffffffffffffffffffffff6159dd84615467565b9350801983169250808416831791505092915050565b60007fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff615a1f84615467565b9350801983169250808416831791505092915050565b600060088302615a657fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff82615481565b615a6f8683615481565b95508019841693508086168417925050509392505050565b615a9082614de2565b615aa3615a9c826153ae565b83546159bd565b8255505050565b615ab382614df4565b615ac6615abf826153b8565b8354615976565b8255505050565b615ad682614e06565b615ae9615ae2826153c2565b83546159f3565b8255505050565b615afb838383614e84565b505050565b615b0a8282614fd2565b5050565b615b18828261507b565b5050565b615b2582614e60565b615b38615b31826153d4565b83546159f3565b8255505050565b615b4882614e72565b615b5b615b54826153de565b8354615976565b8255505050565b615b6b82614df4565b615b7e615b77826153b8565b8354615999565b8255505050565b615b8e83614e60565b615ba2615b9a826153d4565b848454615a35565b825550505050565b615bb381614d60565b8114615bbe57600080fd5b50565b615bca81614d72565b8114615bd557600080fd5b50565b615be181614d7e565b8114615bec57600080fd5b50565b615bf881614da8565b8114615c0357600080fd5b50565b615c0f81614db2565b8114615c1a57600080fd5b50565b60009056fea26469706673582212209471fe06727beeb690d4ae2a2a9d85e02274a291a61dc187d5025bfc6ad9099b64736f6c63430008040033";
 
 type CredentialRegistryConstructorParams =
   | [signer?: Signer]
@@ -227,22 +1025,14 @@ export class CredentialRegistry__factory extends ContractFactory {
   }
 
   override deploy(
-    _institutionRegistryAddress: string,
     overrides?: Overrides & { from?: string }
   ): Promise<CredentialRegistry> {
-    return super.deploy(
-      _institutionRegistryAddress,
-      overrides || {}
-    ) as Promise<CredentialRegistry>;
+    return super.deploy(overrides || {}) as Promise<CredentialRegistry>;
   }
   override getDeployTransaction(
-    _institutionRegistryAddress: string,
     overrides?: Overrides & { from?: string }
   ): TransactionRequest {
-    return super.getDeployTransaction(
-      _institutionRegistryAddress,
-      overrides || {}
-    );
+    return super.getDeployTransaction(overrides || {});
   }
   override attach(address: string): CredentialRegistry {
     return super.attach(address) as CredentialRegistry;
@@ -9,11 +9,6 @@ import type {
 } from "../InstitutionRegistry";
 
 const _abi = [
-  {
-    inputs: [],
-    stateMutability: "nonpayable",
-    type: "constructor",
-  },
   {
     anonymous: false,
     inputs: [
@@ -64,6 +59,19 @@ const _abi = [
     name: "InstitutionStatusChanged",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "Upgraded",
+    type: "event",
+  },
   {
     inputs: [],
     name: "admin",
@@ -77,6 +85,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "getImplementation",
+    outputs: [
+      {
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -165,6 +186,13 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -184,6 +212,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "proxiableUUID",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -235,10 +276,41 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_newImplementation",
+        type: "address",
+      },
+    ],
+    name: "upgradeTo",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_newImplementation",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "upgradeToAndCall",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561001057600080fd5b5033600260006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055506117be806100616000396000f3fe608060405234801561001057600080fd5b50600436106100625760003560e01c80630d5328a5146100675780632f1830861461009c5780634c608de7146100b8578063c3c5a547146100ed578063c3e168ab1461011d578063f851a44014610139575b600080fd5b610081600480360381019061007c91906110e2565b610157565b6040516100939695949392919061129b565b60405180910390f35b6100b660048036038101906100b19190610fcf565b6104fc565b005b6100d260048036038101906100cd9190610fa6565b6106c8565b6040516100e49695949392919061132c565b60405180910390f35b61010760048036038101906101029190610fa6565b610a08565b6040516101149190611311565b60405180910390f35b6101376004803603810190610132919061100b565b610ab9565b005b610141610e4b565b60405161014e9190611280565b60405180910390f35b600060608060606000806001876040516101719190611269565b908152602001604051809103902060009054906101000a900473ffffffffffffffffffffffffffffffffffffffff169550600073ffffffffffffffffffffffffffffffffffffffff168673ffffffffffffffffffffffffffffffffffffffff161415610212576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016102099061144e565b60405180910390fd5b60008060008873ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206040518060c001604052908160008201805461026d90611595565b80601f016020809104026020016040519081016040528092919081815260200182805461029990611595565b80156102e65780601f106102bb576101008083540402835291602001916102e6565b820191906000526020600020905b8154815290600101906020018083116102c957829003601f168201915b505050505081526020016001820180546102ff90611595565b80601f016020809104026020016040519081016040528092919081815260200182805461032b90611595565b80156103785780601f1061034d57610100808354040283529160200191610378565b820191906000526020600020905b81548152906001019060200180831161035b57829003601f168201915b5050505050815260200160028201805461039190611595565b80601f01602080910402602001604051908101604052809291908181526020018280546103bd90611595565b801561040a5780601f106103df5761010080835404028352916020019161040a565b820191906000526020600020905b8154815290600101906020018083116103ed57829003601f168201915b5050505050815260200160038201805461042390611595565b80601f016020809104026020016040519081016040528092919081815260200182805461044f90611595565b801561049c5780601f106104715761010080835404028352916020019161049c565b820191906000526020600020905b81548152906001019060200180831161047f57829003601f168201915b505050505081526020016004820160009054906101000a900460ff1615151515815260200160058201548152505090508681602001518260400151836060015184608001518560a001519650965096509650965096505091939550919395565b600260009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff161461058c576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016105839061146e565b60405180910390fd5b60008060008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060000180546105da90611595565b9050141561061d576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016106149061142e565b60405180910390fd5b806000808473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060040160006101000a81548160ff0219169083151502179055508173ffffffffffffffffffffffffffffffffffffffff167f0fadc7e86c3af145bbdd3ce051029cc14e95637a403cf79a8ad3ab177fff77c1826040516106bc9190611311565b60405180910390a25050565b60608060608060008060008060008973ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206040518060c001604052908160008201805461072c90611595565b80601f016020809104026020016040519081016040528092919081815260200182805461075890611595565b80156107a55780601f1061077a576101008083540402835291602001916107a5565b820191906000526020600020905b81548152906001019060200180831161078857829003601f168201915b505050505081526020016001820180546107be90611595565b80601f01602080910402602001604051908101604052809291908181526020018280546107ea90611595565b80156108375780601f1061080c57610100808354040283529160200191610837565b820191906000526020600020905b81548152906001019060200180831161081a57829003601f168201915b5050505050815260200160028201805461085090611595565b80601f016020809104026020016040519081016040528092919081815260200182805461087c90611595565b80156108c95780601f1061089e576101008083540402835291602001916108c9565b820191906000526020600020905b8154815290600101906020018083116108ac57829003601f168201915b505050505081526020016003820180546108e290611595565b80601f016020809104026020016040519081016040528092919081815260200182805461090e90611595565b801561095b5780601f106109305761010080835404028352916020019161095b565b820191906000526020600020905b81548152906001019060200180831161093e57829003601f168201915b505050505081526020016004820160009054906101000a900460ff161515151581526020016005820154815250509050600081600001515114156109d4576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016109cb9061142e565b60405180910390fd5b806000015181602001518260400151836060015184608001518560a001519650965096509650965096505091939550919395565b6000806000808473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206000018054610a5790611595565b905014158015610ab257506000808373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060040160009054906101000a900460ff165b9050919050565b600260009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff1614610b49576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610b409061146e565b60405180910390fd5b60008060008773ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206000018054610b9790611595565b905014610bd9576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610bd09061140e565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff16600185604051610c019190611269565b908152602001604051809103902060009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1614610c86576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610c7d906113ee565b60405180910390fd5b6040518060c00160405280858152602001848152602001838152602001828152602001600115158152602001428152506000808773ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206000820151816000019080519060200190610d10929190610e71565b506020820151816001019080519060200190610d2d929190610e71565b506040820151816002019080519060200190610d4a929190610e71565b506060820151816003019080519060200190610d67929190610e71565b5060808201518160040160006101000a81548160ff02191690831515021790555060a0820151816005015590505084600185604051610da69190611269565b908152602001604051809103902060006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508473ffffffffffffffffffffffffffffffffffffffff167f2d10a18eca5d453423fca77c61f6b5675540c603317b9f24882ee50da5569063858542604051610e3c939291906113a9565b60405180910390a25050505050565b600260009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b828054610e7d90611595565b90600052602060002090601f016020900481019282610e9f5760008555610ee6565b82601f10610eb857805160ff1916838001178555610ee6565b82800160010185558215610ee6579182015b82811115610ee5578251825591602001919060010190610eca565b5b509050610ef39190610ef7565b5090565b5b80821115610f10576000816000905550600101610ef8565b5090565b6000610f27610f22846114b3565b61148e565b905082815260208101848484011115610f3f57600080fd5b610f4a848285611553565b509392505050565b600081359050610f618161175a565b92915050565b600081359050610f7681611771565b92915050565b600082601f830112610f8d57600080fd5b8135610f9d848260208601610f14565b91505092915050565b600060208284031215610fb857600080fd5b6000610fc684828501610f52565b91505092915050565b60008060408385031215610fe257600080fd5b6000610ff085828601610f52565b925050602061100185828601610f67565b9150509250929050565b600080600080600060a0868803121561102357600080fd5b600061103188828901610f52565b955050602086013567ffffffffffffffff81111561104e57600080fd5b61105a88828901610f7c565b945050604086013567ffffffffffffffff81111561107757600080fd5b61108388828901610f7c565b935050606086013567ffffffffffffffff8111156110a057600080fd5b6110ac88828901610f7c565b925050608086013567ffffffffffffffff8111156110c957600080fd5b6110d588828901610f7c565b9150509295509295909350565b6000602082840312156110f457600080fd5b600082013567ffffffffffffffff81111561110e57600080fd5b61111a84828501610f7c565b91505092915050565b61112c8161150b565b82525050565b61113b8161151d565b82525050565b600061114c826114e4565b61115681856114ef565b9350611166818560208601611562565b61116f81611656565b840191505092915050565b6000611185826114e4565b61118f8185611500565b935061119f818560208601611562565b80840191505092915050565b60006111b8601d836114ef565b91506111c382611667565b602082019050919050565b60006111db601e836114ef565b91506111e682611690565b602082019050919050565b60006111fe601a836114ef565b9150611209826116b9565b602082019050919050565b60006112216018836114ef565b915061122c826116e2565b602082019050919050565b60006112446021836114ef565b915061124f8261170b565b604082019050919050565b61126381611549565b82525050565b6000611275828461117a565b915081905092915050565b60006020820190506112956000830184611123565b92915050565b600060c0820190506112b06000830189611123565b81810360208301526112c28188611141565b905081810360408301526112d68187611141565b905081810360608301526112ea8186611141565b90506112f96080830185611132565b61130660a083018461125a565b979650505050505050565b60006020820190506113266000830184611132565b92915050565b600060c08201905081810360008301526113468189611141565b9050818103602083015261135a8188611141565b9050818103604083015261136e8187611141565b905081810360608301526113828186611141565b90506113916080830185611132565b61139e60a083018461125a565b979650505050505050565b600060608201905081810360008301526113c38186611141565b905081810360208301526113d78185611141565b90506113e6604083018461125a565b949350505050565b60006020820190508181036000830152611407816111ab565b9050919050565b60006020820190508181036000830152611427816111ce565b9050919050565b60006020820190508181036000830152611447816111f1565b9050919050565b6000602082019050818103600083015261146781611214565b9050919050565b6000602082019050818103600083015261148781611237565b9050919050565b60006114986114a9565b90506114a482826115c7565b919050565b6000604051905090565b600067ffffffffffffffff8211156114ce576114cd611627565b5b6114d782611656565b9050602081019050919050565b600081519050919050565b600082825260208201905092915050565b600081905092915050565b600061151682611529565b9050919050565b60008115159050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000819050919050565b82818337600083830152505050565b60005b83811015611580578082015181840152602081019050611565565b8381111561158f576000848401525b50505050565b600060028204905060018216806115ad57607f821691505b602082108114156115c1576115c06115f8565b5b50919050565b6115d082611656565b810181811067ffffffffffffffff821117156115ef576115ee611627565b5b80604052505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000601f19601f8301169050919050565b7f496e737469747574696f6e20494420616c726561647920657869737473000000600082015250565b7f496e737469747574696f6e20616c726561647920726567697374657265640000600082015250565b7f496e737469747574696f6e206e6f742072656769737465726564000000000000600082015250565b7f496e737469747574696f6e204944206e6f7420666f756e640000000000000000600082015250565b7f4f6e6c792061646d696e2063616e2063616c6c20746869732066756e6374696f60008201527f6e00000000000000000000000000000000000000000000000000000000000000602082015250565b6117638161150b565b811461176e57600080fd5b50565b61177a8161151d565b811461178557600080fd5b5056fea26469706673582212201e2bd722fe771ab2f8a45b2fbca75b50bfe7c7a7c3213f8feefe48d2e30b9a6564736f6c63430008040033";
+  "0x60a06040523073ffffffffffffffffffffffffffffffffffffffff1660809073ffffffffffffffffffffffffffffffffffffffff1660601b81525034801561004657600080fd5b5060016000806101000a81548160ff02191690831515021790555060805160601c6121a861008d6000396000818161079201528181610b6e0152610c8801526121a86000f3fe608060405234801561001057600080fd5b50600436106100a95760003560e01c806352d1902d1161007157806352d1902d1461016c5780638129fc1c1461018a578063aaf10f4214610194578063c3c5a547146101b2578063c3e168ab146101e2578063f851a440146101fe576100a9565b80630d5328a5146100ae5780632f183086146100e35780633659cfe6146100ff5780634c608de71461011b5780634f1ef28614610150575b600080fd5b6100c860048036038101906100c391906117d0565b61021c565b6040516100da96959493929190611a6c565b60405180910390f35b6100fd60048036038101906100f89190611640565b6105c2565b005b61011960048036038101906101149190611617565b610790565b005b61013560048036038101906101309190611617565b61082b565b60405161014796959493929190611b18565b60405180910390f35b61016a6004803603810190610165919061167c565b610b6c565b005b610174610c84565b6040516101819190611afd565b60405180910390f35b610192610d3d565b005b61019c610de8565b6040516101a99190611a51565b60405180910390f35b6101cc60048036038101906101c79190611617565b610e11565b6040516101d99190611ae2565b60405180910390f35b6101fc60048036038101906101f791906116d0565b610ec4565b005b610206611258565b6040516102139190611a51565b60405180910390f35b600060608060606000806002876040516102369190611a3a565b908152602001604051809103902060009054906101000a900473ffffffffffffffffffffffffffffffffffffffff169550600073ffffffffffffffffffffffffffffffffffffffff168673ffffffffffffffffffffffffffffffffffffffff1614156102d7576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016102ce90611cba565b60405180910390fd5b6000600160008873ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206040518060c001604052908160008201805461033390611e52565b80601f016020809104026020016040519081016040528092919081815260200182805461035f90611e52565b80156103ac5780601f10610381576101008083540402835291602001916103ac565b820191906000526020600020905b81548152906001019060200180831161038f57829003601f168201915b505050505081526020016001820180546103c590611e52565b80601f01602080910402602001604051908101604052809291908181526020018280546103f190611e52565b801561043e5780601f106104135761010080835404028352916020019161043e565b820191906000526020600020905b81548152906001019060200180831161042157829003601f168201915b5050505050815260200160028201805461045790611e52565b80601f016020809104026020016040519081016040528092919081815260200182805461048390611e52565b80156104d05780601f106104a5576101008083540402835291602001916104d0565b820191906000526020600020905b8154815290600101906020018083116104b357829003601f168201915b505050505081526020016003820180546104e990611e52565b80601f016020809104026020016040519081016040528092919081815260200182805461051590611e52565b80156105625780601f1061053757610100808354040283529160200191610562565b820191906000526020600020905b81548152906001019060200180831161054557829003601f168201915b505050505081526020016004820160009054906101000a900460ff1615151515815260200160058201548152505090508681602001518260400151836060015184608001518560a001519650965096509650965096505091939550919395565b600360009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff1614610652576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161064990611cda565b60405180910390fd5b6000600160008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060000180546106a190611e52565b905014156106e4576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016106db90611c3a565b60405180910390fd5b80600160008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060040160006101000a81548160ff0219169083151502179055508173ffffffffffffffffffffffffffffffffffffffff167f0fadc7e86c3af145bbdd3ce051029cc14e95637a403cf79a8ad3ab177fff77c1826040516107849190611ae2565b60405180910390a25050565b7f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff163073ffffffffffffffffffffffffffffffffffffffff16141561081f576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161081690611bda565b60405180910390fd5b6108288161127e565b50565b6060806060806000806000600160008973ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206040518060c001604052908160008201805461089090611e52565b80601f01602080910402602001604051908101604052809291908181526020018280546108bc90611e52565b80156109095780601f106108de57610100808354040283529160200191610909565b820191906000526020600020905b8154815290600101906020018083116108ec57829003601f168201915b5050505050815260200160018201805461092290611e52565b80601f016020809104026020016040519081016040528092919081815260200182805461094e90611e52565b801561099b5780601f106109705761010080835404028352916020019161099b565b820191906000526020600020905b81548152906001019060200180831161097e57829003601f168201915b505050505081526020016002820180546109b490611e52565b80601f01602080910402602001604051908101604052809291908181526020018280546109e090611e52565b8015610a2d5780601f10610a0257610100808354040283529160200191610a2d565b820191906000526020600020905b815481529060010190602001808311610a1057829003601f168201915b50505050508152602001600382018054610a4690611e52565b80601f0160208091040260200160405190810160405280929190818152602001828054610a7290611e52565b8015610abf5780601f10610a9457610100808354040283529160200191610abf565b820191906000526020600020905b815481529060010190602001808311610aa257829003601f168201915b505050505081526020016004820160009054906101000a900460ff16151515158152602001600582015481525050905060008160000151511415610b38576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610b2f90611c3a565b60405180910390fd5b806000015181602001518260400151836060015184608001518560a001519650965096509650965096505091939550919395565b7f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff163073ffffffffffffffffffffffffffffffffffffffff161415610bfb576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610bf290611bda565b60405180910390fd5b610c048261127e565b6000808373ffffffffffffffffffffffffffffffffffffffff1683604051610c2c9190611a23565b600060405180830381855af49150503d8060008114610c67576040519150601f19603f3d011682016040523d82523d6000602084013e610c6c565b606091505b509150915081610c7e57805160208201fd5b50505050565b60007f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff163073ffffffffffffffffffffffffffffffffffffffff1614610d14576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610d0b90611c7a565b60405180910390fd5b7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc60001b905090565b60008054906101000a900460ff1615610d8b576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610d8290611c5a565b60405180910390fd5b60016000806101000a81548160ff02191690831515021790555033600360006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550565b60007f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc54905090565b600080600160008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206000018054610e6190611e52565b905014158015610ebd5750600160008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060040160009054906101000a900460ff165b9050919050565b600360009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff1614610f54576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610f4b90611cda565b60405180910390fd5b6000600160008773ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206000018054610fa390611e52565b905014610fe5576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610fdc90611c1a565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff1660028560405161100d9190611a3a565b908152602001604051809103902060009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1614611092576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161108990611bfa565b60405180910390fd5b6040518060c0016040528085815260200184815260200183815260200182815260200160011515815260200142815250600160008773ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600082015181600001908051906020019061111d929190611465565b50602082015181600101908051906020019061113a929190611465565b506040820151816002019080519060200190611157929190611465565b506060820151816003019080519060200190611174929190611465565b5060808201518160040160006101000a81548160ff02191690831515021790555060a08201518160050155905050846002856040516111b39190611a3a565b908152602001604051809103902060006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508473ffffffffffffffffffffffffffffffffffffffff167f2d10a18eca5d453423fca77c61f6b5675540c603317b9f24882ee50da556906385854260405161124993929190611b95565b60405180910390a25050505050565b600360009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b611287816113d2565b7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc60001b8173ffffffffffffffffffffffffffffffffffffffff166352d1902d6040518163ffffffff1660e01b815260040160206040518083038186803b1580156112f157600080fd5b505afa158015611305573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061132991906117a7565b14611369576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161136090611c9a565b60405180910390fd5b807f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc558073ffffffffffffffffffffffffffffffffffffffff167fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b60405160405180910390a250565b600360009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff1614611462576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161145990611cda565b60405180910390fd5b50565b82805461147190611e52565b90600052602060002090601f01602090048101928261149357600085556114da565b82601f106114ac57805160ff19168380011785556114da565b828001600101855582156114da579182015b828111156114d95782518255916020019190600101906114be565b5b5090506114e791906114eb565b5090565b5b808211156115045760008160009055506001016114ec565b5090565b600061151b61151684611d1f565b611cfa565b90508281526020810184848401111561153357600080fd5b61153e848285611e10565b509392505050565b600061155961155484611d50565b611cfa565b90508281526020810184848401111561157157600080fd5b61157c848285611e10565b509392505050565b6000813590506115938161212d565b92915050565b6000813590506115a881612144565b92915050565b6000815190506115bd8161215b565b92915050565b600082601f8301126115d457600080fd5b81356115e4848260208601611508565b91505092915050565b600082601f8301126115fe57600080fd5b813561160e848260208601611546565b91505092915050565b60006020828403121561162957600080fd5b600061163784828501611584565b91505092915050565b6000806040838503121561165357600080fd5b600061166185828601611584565b925050602061167285828601611599565b9150509250929050565b6000806040838503121561168f57600080fd5b600061169d85828601611584565b925050602083013567ffffffffffffffff8111156116ba57600080fd5b6116c6858286016115c3565b9150509250929050565b600080600080600060a086880312156116e857600080fd5b60006116f688828901611584565b955050602086013567ffffffffffffffff81111561171357600080fd5b61171f888289016115ed565b945050604086013567ffffffffffffffff81111561173c57600080fd5b611748888289016115ed565b935050606086013567ffffffffffffffff81111561176557600080fd5b611771888289016115ed565b925050608086013567ffffffffffffffff81111561178e57600080fd5b61179a888289016115ed565b9150509295509295909350565b6000602082840312156117b957600080fd5b60006117c7848285016115ae565b91505092915050565b6000602082840312156117e257600080fd5b600082013567ffffffffffffffff8111156117fc57600080fd5b611808848285016115ed565b91505092915050565b61181a81611dbe565b82525050565b61182981611dd0565b82525050565b61183881611ddc565b82525050565b600061184982611d81565b6118538185611d97565b9350611863818560208601611e1f565b80840191505092915050565b600061187a82611d8c565b6118848185611da2565b9350611894818560208601611e1f565b61189d81611f13565b840191505092915050565b60006118b382611d8c565b6118bd8185611db3565b93506118cd818560208601611e1f565b80840191505092915050565b60006118e6602783611da2565b91506118f182611f24565b604082019050919050565b6000611909601d83611da2565b915061191482611f73565b602082019050919050565b600061192c601e83611da2565b915061193782611f9c565b602082019050919050565b600061194f601a83611da2565b915061195a82611fc5565b602082019050919050565b6000611972601f83611da2565b915061197d82611fee565b602082019050919050565b6000611995602b83611da2565b91506119a082612017565b604082019050919050565b60006119b8602583611da2565b91506119c382612066565b604082019050919050565b60006119db601883611da2565b91506119e6826120b5565b602082019050919050565b60006119fe602183611da2565b9150611a09826120de565b604082019050919050565b611a1d81611e06565b82525050565b6000611a2f828461183e565b915081905092915050565b6000611a4682846118a8565b915081905092915050565b6000602082019050611a666000830184611811565b92915050565b600060c082019050611a816000830189611811565b8181036020830152611a93818861186f565b90508181036040830152611aa7818761186f565b90508181036060830152611abb818661186f565b9050611aca6080830185611820565b611ad760a0830184611a14565b979650505050505050565b6000602082019050611af76000830184611820565b92915050565b6000602082019050611b12600083018461182f565b92915050565b600060c0820190508181036000830152611b32818961186f565b90508181036020830152611b46818861186f565b90508181036040830152611b5a818761186f565b90508181036060830152611b6e818661186f565b9050611b7d6080830185611820565b611b8a60a0830184611a14565b979650505050505050565b60006060820190508181036000830152611baf818661186f565b90508181036020830152611bc3818561186f565b9050611bd26040830184611a14565b949350505050565b60006020820190508181036000830152611bf3816118d9565b9050919050565b60006020820190508181036000830152611c13816118fc565b9050919050565b60006020820190508181036000830152611c338161191f565b9050919050565b60006020820190508181036000830152611c5381611942565b9050919050565b60006020820190508181036000830152611c7381611965565b9050919050565b60006020820190508181036000830152611c9381611988565b9050919050565b60006020820190508181036000830152611cb3816119ab565b9050919050565b60006020820190508181036000830152611cd3816119ce565b9050919050565b60006020820190508181036000830152611cf3816119f1565b9050919050565b6000611d04611d15565b9050611d108282611e84565b919050565b6000604051905090565b600067ffffffffffffffff821115611d3a57611d39611ee4565b5b611d4382611f13565b9050602081019050919050565b600067ffffffffffffffff821115611d6b57611d6a611ee4565b5b611d7482611f13565b9050602081019050919050565b600081519050919050565b600081519050919050565b600081905092915050565b600082825260208201905092915050565b600081905092915050565b6000611dc982611de6565b9050919050565b60008115159050919050565b6000819050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000819050919050565b82818337600083830152505050565b60005b83811015611e3d578082015181840152602081019050611e22565b83811115611e4c576000848401525b50505050565b60006002820490506001821680611e6a57607f821691505b60208210811415611e7e57611e7d611eb5565b5b50919050565b611e8d82611f13565b810181811067ffffffffffffffff82111715611eac57611eab611ee4565b5b80604052505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000601f19601f8301169050919050565b7f46756e6374696f6e206d7573742062652063616c6c6564207468726f7567682060008201527f612070726f787900000000000000000000000000000000000000000000000000602082015250565b7f496e737469747574696f6e20494420616c726561647920657869737473000000600082015250565b7f496e737469747574696f6e20616c726561647920726567697374657265640000600082015250565b7f496e737469747574696f6e206e6f742072656769737465726564000000000000600082015250565b7f436f6e747261637420697320616c726561647920696e697469616c697a656400600082015250565b7f46756e6374696f6e206d757374206e6f742062652063616c6c6564207468726f60008201527f75676820612070726f7879000000000000000000000000000000000000000000602082015250565b7f4e657720696d706c656d656e746174696f6e206973206e6f742075706772616460008201527f6561626c65000000000000000000000000000000000000000000000000000000602082015250565b7f496e737469747574696f6e204944206e6f7420666f756e640000000000000000600082015250565b7f4f6e6c792061646d696e2063616e2063616c6c20746869732066756e6374696f60008201527f6e00000000000000000000000000000000000000000000000000000000000000602082015250565b61213681611dbe565b811461214157600080fd5b50565b61214d81611dd0565b811461215857600080fd5b50565b61216481611ddc565b811461216f57600080fd5b5056fea2646970667358221220e70c88e5cdad881ff61b10640b956aa874b8b3798f5a6a577a3ea8c4ea6a129f64736f6c63430008040033";
 
 type InstitutionRegistryConstructorParams =
   | [signer?: Signer]
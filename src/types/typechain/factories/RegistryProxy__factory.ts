@@ -0,0 +1,102 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Signer,
+  utils,
+  Contract,
+  ContractFactory,
+  BytesLike,
+  Overrides,
+} from "ethers";
+import type { Provider, TransactionRequest } from "@ethersproject/providers";
+import type { RegistryProxy, RegistryProxyInterface } from "../RegistryProxy";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_implementation",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "_initData",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    stateMutability: "payable",
+    type: "fallback",
+  },
+  {
+    stateMutability: "payable",
+    type: "receive",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b506040516103f83803806103f883398181016040528101906100329190610160565b817f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc556000815111156100dc576000808373ffffffffffffffffffffffffffffffffffffffff168360405161008791906101e5565b600060405180830381855af49150503d80600081146100c2576040519150601f19603f3d011682016040523d82523d6000602084013e6100c7565b606091505b5091509150816100d957805160208201fd5b50505b5050610355565b60006100f66100f184610221565b6101fc565b90508281526020810184848401111561010e57600080fd5b61011984828561029a565b509392505050565b6000815190506101308161033e565b92915050565b600082601f83011261014757600080fd5b81516101578482602086016100e3565b91505092915050565b6000806040838503121561017357600080fd5b600061018185828601610121565b925050602083015167ffffffffffffffff81111561019e57600080fd5b6101aa85828601610136565b9150509250929050565b60006101bf82610252565b6101c9818561025d565b93506101d981856020860161029a565b80840191505092915050565b60006101f182846101b4565b915081905092915050565b6000610206610217565b905061021282826102cd565b919050565b6000604051905090565b600067ffffffffffffffff82111561023c5761023b6102fe565b5b6102458261032d565b9050602081019050919050565b600081519050919050565b600081905092915050565b60006102738261027a565b9050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b60005b838110156102b857808201518184015260208101905061029d565b838111156102c7576000848401525b50505050565b6102d68261032d565b810181811067ffffffffffffffff821117156102f5576102f46102fe565b5b80604052505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000601f19601f8301169050919050565b61034781610268565b811461035257600080fd5b50565b6095806103636000396000f3fe608060405236601057600e6018565b005b60166018565b005b7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc543660008037600080366000845af43d6000803e8060008114605a573d6000f35b3d6000fdfea26469706673582212200af1d78efd46bf552b2aac685ffb42f3b2ed02b0cdd3e79b74517bb85a3754eb64736f6c63430008040033";
+
+type RegistryProxyConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: RegistryProxyConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class RegistryProxy__factory extends ContractFactory {
+  constructor(...args: RegistryProxyConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override deploy(
+    _implementation: string,
+    _initData: BytesLike,
+    overrides?: Overrides & { from?: string }
+  ): Promise<RegistryProxy> {
+    return super.deploy(
+      _implementation,
+      _initData,
+      overrides || {}
+    ) as Promise<RegistryProxy>;
+  }
+  override getDeployTransaction(
+    _implementation: string,
+    _initData: BytesLike,
+    overrides?: Overrides & { from?: string }
+  ): TransactionRequest {
+    return super.getDeployTransaction(
+      _implementation,
+      _initData,
+      overrides || {}
+    );
+  }
+  override attach(address: string): RegistryProxy {
+    return super.attach(address) as RegistryProxy;
+  }
+  override connect(signer: Signer): RegistryProxy__factory {
+    return super.connect(signer) as RegistryProxy__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): RegistryProxyInterface {
+    return new utils.Interface(_abi) as RegistryProxyInterface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): RegistryProxy {
+    return new Contract(address, _abi, signerOrProvider) as RegistryProxy;
+  }
+}
@@ -1,5 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export { CredentialForwarder__factory } from "./CredentialForwarder__factory";
 export { CredentialRegistry__factory } from "./CredentialRegistry__factory";
 export { InstitutionRegistry__factory } from "./InstitutionRegistry__factory";
+export { RegistryProxy__factory } from "./RegistryProxy__factory";
+export { UUPSUpgradeable__factory } from "./UUPSUpgradeable__factory";
@@ -1,8 +1,14 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export type { CredentialForwarder } from "./CredentialForwarder";
 export type { CredentialRegistry } from "./CredentialRegistry";
 export type { InstitutionRegistry } from "./InstitutionRegistry";
+export type { RegistryProxy } from "./RegistryProxy";
+export type { UUPSUpgradeable } from "./UUPSUpgradeable";
 export * as factories from "./factories";
+export { CredentialForwarder__factory } from "./factories/CredentialForwarder__factory";
 export { CredentialRegistry__factory } from "./factories/CredentialRegistry__factory";
 export { InstitutionRegistry__factory } from "./factories/InstitutionRegistry__factory";
+export { RegistryProxy__factory } from "./factories/RegistryProxy__factory";
+export { UUPSUpgradeable__factory } from "./factories/UUPSUpgradeable__factory";
@@ -0,0 +1,42 @@
+// src/utils/canonicalize.ts
+
+/**
+ * JSON Canonicalization Scheme (RFC 8785).
+ *
+ * Object keys are sorted by UTF-16 code units, whitespace is removed and
+ * strings/numbers use the ECMAScript serialization, so the same data always
+ * produces the same bytes regardless of key order or how it was parsed.
+ */
+export const canonicalize = (value: any): string => {
+  if (value !== null && typeof value === 'object' && typeof value.toJSON === 'function') {
+    return canonicalize(value.toJSON());
+  }
+
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error('Cannot canonicalize non-finite number');
+    }
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map(item =>
+      item === undefined || typeof item === 'function' ? 'null' : canonicalize(item)
+    );
+    return `[${items.join(',')}]`;
+  }
+
+  if (typeof value === 'object') {
+    const members = Object.keys(value)
+      .filter(key => value[key] !== undefined && typeof value[key] !== 'function')
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`);
+    return `{${members.join(',')}}`;
+  }
+
+  throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+};
@@ -0,0 +1,145 @@
+// src/vc/dataIntegrity.ts
+import { ethers } from 'ethers';
+import crypto from 'crypto';
+import { canonicalize } from '../utils/canonicalize';
+import type { VerifiableCredential, CredentialProof } from './vcService';
+
+/**
+ * Hashes, proofs and recipient commitments of credential documents.
+ *
+ * Credentials are signed with the EcdsaSecp256k1RecoverySignature2020 suite:
+ * a detached ES256K-R JWS whose signer is recovered and compared with the
+ * issuer's did:ethr address. The signed data is canonicalized with JCS.
+ *
+ * Kept free of configuration and database access so documents can be
+ * checked outside the server, such as when verifying an offline bundle.
+ */
+// Linked Data proof suite of the did:ethr verification methods (EcdsaSecp256k1RecoveryMethod2020)
+export const PROOF_TYPE = 'EcdsaSecp256k1RecoverySignature2020';
+export const PROOF_CONTEXT = 'https://w3id.org/security/suites/secp256k1recovery-2020/v2';
+
+// Proofs of documents issued before the suite above, still accepted when verifying
+export const LEGACY_PROOF_TYPE = 'DataIntegrityProof';
+export const LEGACY_PROOF_CRYPTOSUITE = 'ecdsa-secp256k1-2019';
+
+// Protected header of the detached JWS carried by the proof
+const JWS_HEADER = Buffer.from(JSON.stringify({ alg: 'ES256K-R', b64: false, crit: ['b64'] })).toString('base64url');
+
+// Canonicalization used to derive the on-chain credential hash
+export const CANONICALIZATION_JCS = 'jcs-rfc8785';
+export const CANONICALIZATION_LEGACY = 'legacy-json';
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest();
+
+// Hash a credential document the way it was anchored on-chain
+export const computeCredentialHash = (
+  document: any,
+  algorithm: string = CANONICALIZATION_JCS
+) => {
+  const serialized = algorithm === CANONICALIZATION_LEGACY
+    ? JSON.stringify(document)
+    : canonicalize(document);
+
+  return sha256(serialized).toString('hex');
+};
+
+/**
+ * Data signed by a proof: sha256(proof options) || sha256(document), each
+ * canonicalized with JCS (RFC 8785) rather than the suite's default RDF
+ * canonicalization, so documents can be checked without a JSON-LD processor
+ */
+const getVerifyData = (vc: VerifiableCredential, proofOptions: CredentialProof) => {
+  const { proof, ...unsecuredDocument } = vc;
+  const { proofValue, jws, ...options } = proofOptions;
+
+  return Buffer.concat([
+    sha256(canonicalize({ '@context': vc['@context'], ...options })),
+    sha256(canonicalize(unsecuredDocument)),
+  ]);
+};
+
+// Digest signed by the proof: the JWS signing input for the suite, the verify data for legacy proofs
+export const getProofDigest = (vc: VerifiableCredential, proofOptions: CredentialProof) => {
+  const verifyData = getVerifyData(vc, proofOptions);
+
+  if (proofOptions.type === LEGACY_PROOF_TYPE) {
+    return sha256(verifyData);
+  }
+
+  return sha256(Buffer.concat([Buffer.from(`${JWS_HEADER}.`), verifyData]));
+};
+
+// Detached JWS over a digest: the 65-byte r || s || recovery id signature (ES256K-R)
+export const encodeProofJws = (signature: ethers.Signature) => {
+  const bytes = ethers.utils.concat([signature.r, signature.s, [signature.recoveryParam]]);
+  return `${JWS_HEADER}..${Buffer.from(bytes).toString('base64url')}`;
+};
+
+// Recoverable signature carried by a proof of either kind
+const decodeProofSignature = (proof: CredentialProof) => {
+  if (proof.type === LEGACY_PROOF_TYPE) {
+    if (proof.cryptosuite !== LEGACY_PROOF_CRYPTOSUITE || !proof.proofValue?.startsWith('z')) {
+      return null;
+    }
+    return ethers.utils.base58.decode(proof.proofValue.slice(1));
+  }
+
+  const [header, payload, signature] = (proof.jws || '').split('.');
+  if (header !== JWS_HEADER || payload !== '' || !signature) {
+    return null;
+  }
+  const bytes = Buffer.from(signature, 'base64url');
+  if (bytes.length !== 65) {
+    return null;
+  }
+  return ethers.utils.splitSignature({
+    r: ethers.utils.hexlify(bytes.subarray(0, 32)),
+    s: ethers.utils.hexlify(bytes.subarray(32, 64)),
+    recoveryParam: bytes[64]
+  });
+};
+
+// Check the embedded proof was produced by the key behind the issuer DID
+export const verifyCredentialProof = (vc: VerifiableCredential) => {
+  try {
+    const { proof } = vc;
+    if (!proof || (proof.type !== PROOF_TYPE && proof.type !== LEGACY_PROOF_TYPE)) {
+      return { valid: false, error: 'Missing or unsupported proof' };
+    }
+
+    const signature = decodeProofSignature(proof);
+    if (!signature) {
+      return { valid: false, error: 'Malformed proof signature' };
+    }
+
+    if (!proof.verificationMethod.startsWith(`${vc.issuer.id}#`)) {
+      return { valid: false, error: 'Verification method does not belong to issuer' };
+    }
+
+    const digest = getProofDigest(vc, proof);
+    const recovered = ethers.utils.recoverAddress(digest, signature);
+    const expected = vc.issuer.id.split(':').pop();
+
+    if (recovered.toLowerCase() !== expected.toLowerCase()) {
+      return { valid: false, error: 'Proof signature does not match issuer' };
+    }
+
+    return { valid: true, signer: recovered };
+  } catch (error) {
+    return { valid: false, error: error.message };
+  }
+};
+
+// Salted commitment to a recipient (DID or user ID), stored on-chain instead of the recipient itself
+export const computeRecipientCommitment = (recipient: string, salt: string) => {
+  return ethers.utils.solidityKeccak256(['bytes32', 'string'], [salt, recipient]);
+};
+
+// Recipient commitment of a credential document, or undefined for documents issued without a salt
+export const getRecipientCommitment = (vc: VerifiableCredential) => {
+  const subject = vc.credentialSubject;
+  if (!subject || !subject.recipientSalt) {
+    return undefined;
+  }
+  return computeRecipientCommitment(subject.id || subject.userId, subject.recipientSalt);
+};
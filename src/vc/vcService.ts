@@ -0,0 +1,220 @@
+// src/vc/vcService.ts
+import { ethers } from 'ethers';
+import crypto from 'crypto';
+import config from '../config';
+import { getNetwork, getCredentialRegistryAddress } from '../blockchain/networks';
+import { getEthrDid } from '../did/didService';
+import { PROOF_TYPE, PROOF_CONTEXT, getProofDigest, encodeProofJws } from './dataIntegrity';
+
+export const VC_CONTEXT_V2 = 'https://www.w3.org/ns/credentials/v2';
+export {
+  PROOF_TYPE,
+  PROOF_CONTEXT,
+  LEGACY_PROOF_TYPE,
+  LEGACY_PROOF_CRYPTOSUITE,
+  CANONICALIZATION_JCS,
+  CANONICALIZATION_LEGACY,
+  computeCredentialHash,
+  verifyCredentialProof,
+  computeRecipientCommitment,
+  getRecipientCommitment
+} from './dataIntegrity';
+
+export interface CredentialStatus {
+  id: string;
+  type: string;
+  statusPurpose: string;
+  registryAddress: string;
+  network: string;
+  chainId: number;
+  credentialId: string;
+  batchId?: string;
+}
+
+export interface CredentialProof {
+  type: string;
+  // Only on legacy DataIntegrityProof proofs
+  cryptosuite?: string;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: string;
+  jws?: string;
+  proofValue?: string;
+}
+
+// File attached to a credential; the hash covers the file, the CID where it is pinned (encrypted)
+export interface CredentialAttachment {
+  name: string;
+  mediaType: string;
+  size: number;
+  ipfsHash: string;
+  sha256: string;
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: {
+    id: string;
+    name: string;
+    country?: string;
+    userId: string;
+  };
+  validFrom: string;
+  validUntil?: string;
+  credentialSubject: {
+    id?: string;
+    name: string;
+    studentId: string;
+    userId: string;
+    // Salt of the recipient commitment written on-chain; disclosed by the holder to prove the credential is theirs
+    recipientSalt?: string;
+    achievement: {
+      credentialType: string;
+      credentialName: string;
+      description?: string;
+      category: string;
+      metadata: Record<string, any>;
+      attachments?: CredentialAttachment[];
+    };
+  };
+  credentialStatus: CredentialStatus;
+  proof?: CredentialProof;
+}
+
+export interface BuildCredentialParams {
+  credentialId: string;
+  issuerAddress: string;
+  issuer: {
+    name: string;
+    country?: string;
+    userId: string;
+  };
+  recipient: {
+    // did:key of the student, used as the credential subject
+    did?: string;
+    name: string;
+    studentId: string;
+    userId: string;
+  };
+  credentialType: string;
+  credentialName: string;
+  description?: string;
+  category: string;
+  metadata?: Record<string, any>;
+  attachments?: CredentialAttachment[];
+  issueDate: Date;
+  expiryDate?: Date | null;
+  batchId?: string;
+  // Chain the credential is anchored on; defaults to the default network
+  chainId?: number;
+}
+
+// Random salt hiding the recipient behind its on-chain commitment
+export const generateRecipientSalt = () => ethers.utils.hexlify(crypto.randomBytes(32));
+
+// Build an unsigned W3C Verifiable Credential (VC Data Model 2.0)
+export const buildVerifiableCredential = (params: BuildCredentialParams): VerifiableCredential => {
+  const network = getNetwork(params.chainId);
+  const registryAddress = getCredentialRegistryAddress({ chainId: network.chainId });
+
+  const vc: VerifiableCredential = {
+    '@context': [VC_CONTEXT_V2],
+    id: `${config.frontend.baseUrl}/credentials/${params.credentialId}`,
+    type: ['VerifiableCredential', 'AcademicCredential'],
+    issuer: {
+      id: getEthrDid(params.issuerAddress, network.chainId),
+      name: params.issuer.name,
+      country: params.issuer.country,
+      userId: params.issuer.userId,
+    },
+    validFrom: params.issueDate.toISOString(),
+    credentialSubject: {
+      name: params.recipient.name,
+      studentId: params.recipient.studentId,
+      userId: params.recipient.userId,
+      recipientSalt: generateRecipientSalt(),
+      achievement: {
+        credentialType: params.credentialType,
+        credentialName: params.credentialName,
+        description: params.description || '',
+        category: params.category,
+        metadata: params.metadata || {},
+      },
+    },
+    credentialStatus: {
+      id: `${config.frontend.baseUrl}/credentials/${params.credentialId}#status`,
+      type: 'BlockchainRevocationStatus',
+      statusPurpose: 'revocation',
+      registryAddress,
+      network: network.name,
+      chainId: network.chainId,
+      credentialId: params.credentialId,
+    },
+  };
+
+  if (params.recipient.did) {
+    vc.credentialSubject = { id: params.recipient.did, ...vc.credentialSubject };
+  }
+
+  // Listed in the document so the anchored hash covers each file's SHA-256
+  if (params.attachments && params.attachments.length > 0) {
+    vc.credentialSubject.achievement.attachments = params.attachments.map(attachment => ({
+      name: attachment.name,
+      mediaType: attachment.mediaType,
+      size: attachment.size,
+      ipfsHash: attachment.ipfsHash,
+      sha256: attachment.sha256,
+    }));
+  }
+
+  if (params.expiryDate) {
+    vc.validUntil = params.expiryDate.toISOString();
+  }
+
+  // Batch credentials are anchored through the batch's Merkle root
+  if (params.batchId) {
+    vc.credentialStatus.batchId = params.batchId;
+  }
+
+  return vc;
+};
+
+// Sign a credential with the institution key and embed an EcdsaSecp256k1RecoverySignature2020 proof
+export const signVerifiableCredential = (
+  vc: VerifiableCredential,
+  privateKey: string
+): VerifiableCredential => {
+  const signingKey = new ethers.utils.SigningKey(privateKey);
+  const signerAddress = ethers.utils.computeAddress(signingKey.publicKey);
+
+  // The suite's terms are defined by its own context
+  const unsigned: VerifiableCredential = vc['@context'].includes(PROOF_CONTEXT)
+    ? vc
+    : { ...vc, '@context': [...vc['@context'], PROOF_CONTEXT] };
+
+  const proof: CredentialProof = {
+    type: PROOF_TYPE,
+    created: new Date().toISOString(),
+    verificationMethod: `${getEthrDid(signerAddress, vc.credentialStatus.chainId)}#controller`,
+    proofPurpose: 'assertionMethod',
+  };
+
+  const digest = getProofDigest(unsigned, proof);
+  proof.jws = encodeProofJws(signingKey.signDigest(digest));
+
+  return { ...unsigned, proof };
+};
+
+// Build and sign a credential for the institution owning the given key
+export const issueVerifiableCredential = (
+  params: Omit<BuildCredentialParams, 'issuerAddress'>,
+  privateKey: string
+) => {
+  const issuerAddress = ethers.utils.computeAddress(privateKey);
+  return signVerifiableCredential(
+    buildVerifiableCredential({ ...params, issuerAddress }),
+    privateKey
+  );
+};
@@ -0,0 +1,199 @@
+// src/verification/bundleExporter.ts
+import { ethers } from 'ethers';
+import config from '../config';
+import { ICredential } from '../models/Credential';
+import { Institution } from '../models/Institution';
+import { getReadContracts } from '../blockchain/contractService';
+import { getNetwork, getCredentialRegistryAddress } from '../blockchain/networks';
+import { getNetworkProvider } from '../blockchain/providers';
+import { buildReceiptProof, encodeBlockHeader, ReceiptLog } from '../blockchain/inclusionProof';
+import { rateLimitedWeb3Call } from '../utils/rateLimiter';
+import { computeCredentialHash } from '../vc/vcService';
+import { BUNDLE_TYPE, BUNDLE_VERSION, CredentialBundle, EventInclusionProof } from './credentialBundle';
+
+/**
+ * Builds offline verification bundles (see credentialBundle.ts) from the
+ * chain: the anchoring and registration receipts, their blocks' headers and
+ * the receipts-trie proofs tying one to the other.
+ */
+
+// Fields of an eth_getTransactionReceipt result used here; quantities are hex strings
+interface RpcReceipt {
+  transactionHash: string;
+  transactionIndex: string;
+  blockHash: string;
+  logs: ReceiptLog[];
+}
+
+// Fields of an eth_getBlockByHash result without full transactions; the header fields are encoded as they come
+interface RpcBlock {
+  hash: string;
+  number: string;
+  receiptsRoot: string;
+  transactions: string[];
+}
+
+// All receipts of a block, falling back to one request per transaction where eth_getBlockReceipts is missing
+const getBlockReceipts = async (provider: ethers.providers.JsonRpcProvider, block: RpcBlock) => {
+  try {
+    return await rateLimitedWeb3Call('eth_getBlockReceipts', () => provider.send('eth_getBlockReceipts', [block.hash])) as RpcReceipt[];
+  } catch (error) {
+    return Promise.all(
+      block.transactions.map(txHash =>
+        rateLimitedWeb3Call('eth_getTransactionReceipt', () => provider.send('eth_getTransactionReceipt', [txHash])) as Promise<RpcReceipt>
+      )
+    );
+  }
+};
+
+// Prove the first log of a transaction matching `isEvent` was included in its block
+const buildEventInclusion = async (
+  provider: ethers.providers.JsonRpcProvider,
+  txHash: string,
+  isEvent: (log: ReceiptLog) => boolean
+): Promise<{ inclusion: EventInclusionProof; log: ReceiptLog }> => {
+  const receipt = await rateLimitedWeb3Call('eth_getTransactionReceipt', () =>
+    provider.send('eth_getTransactionReceipt', [txHash])
+  ) as RpcReceipt | null;
+  if (!receipt) {
+    throw new Error(`No receipt for transaction ${txHash}`);
+  }
+
+  const logIndex = receipt.logs.findIndex(isEvent);
+  if (logIndex < 0) {
+    throw new Error(`Transaction ${txHash} did not emit the expected event`);
+  }
+
+  const block = await rateLimitedWeb3Call('eth_getBlockByHash', () =>
+    provider.send('eth_getBlockByHash', [receipt.blockHash, false])
+  ) as RpcBlock;
+  const receipts = await getBlockReceipts(provider, block);
+  const transactionIndex = ethers.BigNumber.from(receipt.transactionIndex).toNumber();
+  const { root, proof } = buildReceiptProof(receipts, transactionIndex);
+
+  if (root !== block.receiptsRoot) {
+    throw new Error(`Receipts of block ${block.hash} do not match its receipts root`);
+  }
+
+  const inclusion = {
+    transactionHash: receipt.transactionHash,
+    blockHash: block.hash,
+    blockNumber: ethers.BigNumber.from(block.number).toNumber(),
+    blockHeader: encodeBlockHeader(block),
+    transactionIndex,
+    receiptProof: proof,
+    logIndex
+  };
+
+  return { inclusion, log: receipt.logs[logIndex] };
+};
+
+// Parse a log of a registry contract, or null for other contracts' logs
+const parseRegistryLog = (contract: ethers.Contract, log: ReceiptLog) => {
+  if (log.address.toLowerCase() !== contract.address.toLowerCase()) {
+    return null;
+  }
+  try {
+    return contract.interface.parseLog(log);
+  } catch (error) {
+    return null;
+  }
+};
+
+// Transaction that registered an institution address, found by scanning the registry's events
+const findRegistrationTxHash = async (institutionRegistry: ethers.Contract, address: string, toBlock: number) => {
+  const filter = institutionRegistry.filters.InstitutionRegistered(address);
+
+  for (let fromBlock = config.indexer.startBlock; fromBlock <= toBlock; fromBlock += config.indexer.maxBlockRange) {
+    const endBlock = Math.min(fromBlock + config.indexer.maxBlockRange - 1, toBlock);
+    const events = await rateLimitedWeb3Call('queryFilter', () =>
+      institutionRegistry.queryFilter(filter, fromBlock, endBlock)
+    ) as ethers.Event[];
+    if (events.length > 0) {
+      return events[0].transactionHash;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Build the offline verification bundle of an anchored credential from its
+ * decrypted document
+ */
+export const exportCredentialBundle = async (credential: ICredential, document: any): Promise<CredentialBundle> => {
+  const network = getNetwork(credential.chainId);
+  const location = { chainId: network.chainId, contractVersion: credential.contractVersion };
+  const registryAddress = getCredentialRegistryAddress(location);
+  const { credentialRegistry, institutionRegistry } = getReadContracts(location);
+  const provider = getNetworkProvider(network.chainId);
+
+  const credentialHash = credential.credentialHash || computeCredentialHash(document, credential.canonicalization);
+  const eventName = credential.batchId ? 'BatchAnchored' : 'CredentialIssued';
+
+  const anchor = await buildEventInclusion(provider, credential.blockchainTxHash, log => {
+    const event = parseRegistryLog(credentialRegistry, log);
+    return event?.name === eventName && (credential.batchId
+      ? event.args.batchId === credential.batchId
+      : event.args.credentialId === credential.credentialId);
+  });
+  // The anchoring event names the address that issued the credential
+  const issuer: string = ethers.utils.getAddress(parseRegistryLog(credentialRegistry, anchor.log).args.issuer);
+
+  const institution = await Institution.findOne({ userId: credential.issuerId });
+
+  // The registration proof is optional: the bundle still proves the anchor without it
+  let registration: EventInclusionProof | undefined;
+  try {
+    const registrationTxHash = institution?.registrationTxHash && institution.blockchainAddress?.toLowerCase() === issuer.toLowerCase()
+      ? institution.registrationTxHash
+      : await findRegistrationTxHash(institutionRegistry, issuer, anchor.inclusion.blockNumber);
+
+    if (registrationTxHash) {
+      const registered = await buildEventInclusion(provider, registrationTxHash, log => {
+        const event = parseRegistryLog(institutionRegistry, log);
+        return event?.name === 'InstitutionRegistered' && event.args.institutionAddress.toLowerCase() === issuer.toLowerCase();
+      });
+      registration = registered.inclusion;
+
+      if (institution && !institution.registrationTxHash && institution.blockchainAddress?.toLowerCase() === issuer.toLowerCase()) {
+        institution.registrationTxHash = registrationTxHash;
+        await institution.save();
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to prove registration of ${issuer}:`, error.message);
+  }
+
+  return {
+    type: BUNDLE_TYPE,
+    version: BUNDLE_VERSION,
+    createdAt: new Date().toISOString(),
+    credentialId: credential.credentialId,
+    document,
+    canonicalization: credential.canonicalization,
+    credentialHash,
+    network: {
+      name: network.name,
+      chainId: network.chainId
+    },
+    anchor: {
+      registryAddress,
+      batch: credential.batchId
+        ? {
+            batchId: credential.batchId,
+            merkleRoot: credential.merkleRoot,
+            merkleProof: credential.merkleProof || []
+          }
+        : undefined,
+      inclusion: anchor.inclusion
+    },
+    institution: {
+      address: issuer,
+      registryAddress: institutionRegistry.address,
+      institutionId: institution?.userId,
+      name: institution?.name,
+      registration
+    }
+  };
+};
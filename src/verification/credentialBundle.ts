@@ -0,0 +1,422 @@
+// src/verification/credentialBundle.ts
+import { ethers } from 'ethers';
+import { computeCredentialHash, verifyCredentialProof, getRecipientCommitment } from '../vc/dataIntegrity';
+import { getCredentialLeaf, verifyMerkleProof } from '../blockchain/merkleTree';
+import { decodeBlockHeader, decodeReceipt, verifyReceiptProof } from '../blockchain/inclusionProof';
+
+/**
+ * Self-contained credential bundles for verifiers that cannot call the API.
+ *
+ * A bundle carries the signed credential document, the hash anchored for it,
+ * and proofs that the anchoring event (CredentialIssued, or BatchAnchored plus
+ * a Merkle proof) and the issuer's InstitutionRegistered event were emitted by
+ * the registries in blocks whose headers are included. `verifyCredentialBundle`
+ * checks all of it offline. As a bundle can be forged whole, it is only
+ * verified when tied to something the verifier trusts: an issuer address whose
+ * signature the document carries, or trusted registries plus either trusted
+ * block hashes or a chain RPC. Given an RPC it also confirms the blocks are
+ * canonical and reads the credential's current status; without one, the
+ * result says what the bundle proved as of those blocks.
+ *
+ * This module must stay free of configuration and database access so it can
+ * run outside the server.
+ */
+export const BUNDLE_TYPE = 'CredentialVerificationBundle';
+export const BUNDLE_VERSION = 1;
+
+const REGISTRY_EVENTS = new ethers.utils.Interface([
+  'event CredentialIssued(string credentialId, address indexed issuer, string recipientId, string credentialHash, string ipfsHash, uint256 issueDate)',
+  'event BatchAnchored(string batchId, address indexed issuer, bytes32 merkleRoot, uint256 credentialCount, uint256 issueDate)',
+  'event InstitutionRegistered(address indexed institutionAddress, string institutionId, string name, uint256 registrationDate)'
+]);
+
+const STATUS_ABI = [
+  'function getCredentialStatus(string credentialId) view returns (uint8 status, uint8 reason, uint256 statusDate)',
+  'function getBatchCredentialStatus(string batchId, string credentialId) view returns (uint8 status, uint8 reason, uint256 statusDate)'
+];
+
+const CREDENTIAL_STATUSES = ['active', 'revoked', 'suspended', 'expired'];
+
+// Where an event was emitted, provable from the block header alone
+export interface EventInclusionProof {
+  transactionHash: string;
+  blockHash: string;
+  blockNumber: number;
+  // RLP-encoded header; its keccak256 is blockHash
+  blockHeader: string;
+  transactionIndex: number;
+  // Hashed receipts-trie nodes from the header's receiptsRoot down to the receipt
+  receiptProof: string[];
+  // Position of the event among the receipt's logs
+  logIndex: number;
+}
+
+export interface CredentialBundle {
+  type: string;
+  version: number;
+  createdAt: string;
+  credentialId: string;
+  // The signed credential document
+  document: any;
+  canonicalization: string;
+  credentialHash: string;
+  network: {
+    name: string;
+    chainId: number;
+  };
+  anchor: {
+    registryAddress: string;
+    batch?: {
+      batchId: string;
+      merkleRoot: string;
+      merkleProof: string[];
+    };
+    inclusion: EventInclusionProof;
+  };
+  institution: {
+    address: string;
+    registryAddress: string;
+    institutionId?: string;
+    name?: string;
+    registration?: EventInclusionProof;
+  };
+}
+
+export interface BundleVerificationOptions {
+  // Provider or JSON-RPC URL of the bundle's chain; the only network access used
+  provider?: ethers.providers.Provider;
+  rpcUrl?: string;
+  // Registry addresses the verifier trusts; the bundle's own are never taken at face value
+  trustedRegistries?: {
+    credentialRegistry?: string;
+    institutionRegistry?: string;
+  };
+  // Issuer addresses the verifier trusts; a document signed by one of them needs no other anchor
+  trustedIssuers?: string[];
+  // Hashes of blocks the verifier knows are canonical, anchoring the bundle offline with trusted registries
+  trustedBlockHashes?: string[];
+  now?: Date;
+}
+
+// What tied a bundle to something the verifier trusts
+export type BundleTrustAnchor = 'issuer' | 'blocks' | 'chain';
+
+const TRUST_ANCHOR_DETAILS: Record<BundleTrustAnchor, string> = {
+  issuer: 'Document is signed by a trusted issuer',
+  blocks: 'Anchored in a trusted block by a trusted registry',
+  chain: 'Anchored by a trusted registry in blocks the chain RPC confirmed'
+};
+
+export interface BundleCheck {
+  valid: boolean;
+  error?: string;
+  detail?: string;
+}
+
+export interface BundleVerificationResult {
+  verified: boolean;
+  credentialId: string;
+  issuer: string | null;
+  anchoredAt: Date | null;
+  // Current on-chain status, read only when a chain RPC was given
+  status?: string;
+  // Null for an unanchored bundle, which is never verified
+  trustAnchor: BundleTrustAnchor | null;
+  checks: {
+    format: BundleCheck;
+    documentHash: BundleCheck;
+    signature: BundleCheck;
+    anchor: BundleCheck;
+    recipient: BundleCheck;
+    institution: BundleCheck;
+    registries: BundleCheck;
+    expiry: BundleCheck;
+    trust: BundleCheck;
+    chain?: BundleCheck;
+  };
+}
+
+const sameAddress = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+// Check an inclusion proof and return the event it proves with its block header
+const verifyEventInclusion = (proof: EventInclusionProof, registryAddress: string, eventName: string) => {
+  const header = decodeBlockHeader(proof.blockHeader, proof.blockHash);
+  if (header.number !== proof.blockNumber) {
+    throw new Error(`Block header is for block ${header.number}, not ${proof.blockNumber}`);
+  }
+
+  const receipt = decodeReceipt(verifyReceiptProof(header.receiptsRoot, proof.transactionIndex, proof.receiptProof));
+  if (receipt.status === 0) {
+    throw new Error('Anchoring transaction reverted');
+  }
+
+  const log = receipt.logs[proof.logIndex];
+  if (!log || !sameAddress(log.address, registryAddress)) {
+    throw new Error(`Event was not emitted by the registry at ${registryAddress}`);
+  }
+
+  const event = REGISTRY_EVENTS.parseLog(log);
+  if (event.name !== eventName) {
+    throw new Error(`Expected a ${eventName} event, found ${event.name}`);
+  }
+
+  return { event, header };
+};
+
+const runCheck = (check: () => BundleCheck): BundleCheck => {
+  try {
+    return check();
+  } catch (error) {
+    return { valid: false, error: error.message };
+  }
+};
+
+// Issuer address named by a did:ethr issuer DID
+const getIssuerAddress = (document: any) => {
+  const did: string = document?.issuer?.id || '';
+  const address = did.split(':').pop();
+  return ethers.utils.isAddress(address) ? ethers.utils.getAddress(address) : null;
+};
+
+// Confirm the proven blocks are canonical and read the credential's current status
+const checkChain = async (
+  bundle: CredentialBundle,
+  provider: ethers.providers.Provider,
+  registryAddress: string
+): Promise<BundleCheck & { status?: string }> => {
+  const { chainId } = await provider.getNetwork();
+  if (chainId !== bundle.network.chainId) {
+    return { valid: false, error: `RPC is on chain ${chainId}, the bundle on ${bundle.network.chainId}` };
+  }
+
+  const inclusions = [bundle.anchor.inclusion, bundle.institution.registration].filter(Boolean);
+  for (const inclusion of inclusions) {
+    const block = await provider.getBlock(inclusion.blockNumber);
+    if (!block || block.hash.toLowerCase() !== inclusion.blockHash.toLowerCase()) {
+      return { valid: false, error: `Block ${inclusion.blockNumber} of the bundle is not canonical` };
+    }
+  }
+
+  const registry = new ethers.Contract(registryAddress, STATUS_ABI, provider);
+  const [statusCode] = bundle.anchor.batch
+    ? await registry.getBatchCredentialStatus(bundle.anchor.batch.batchId, bundle.credentialId)
+    : await registry.getCredentialStatus(bundle.credentialId);
+  const status = CREDENTIAL_STATUSES[statusCode] || 'unknown';
+
+  if (status !== 'active') {
+    return { valid: false, status, error: `Credential is ${status} on-chain` };
+  }
+  return { valid: true, status };
+};
+
+/**
+ * Verify a credential bundle. Every check but `chain` runs offline; `chain`
+ * runs only when a provider or RPC URL is given.
+ */
+export const verifyCredentialBundle = async (
+  bundle: CredentialBundle,
+  options: BundleVerificationOptions = {}
+): Promise<BundleVerificationResult> => {
+  const now = options.now || new Date();
+  const document = bundle?.document;
+  let issuer: string | null = null;
+  let anchoredAt: Date | null = null;
+
+  const format = runCheck(() => {
+    if (bundle?.type !== BUNDLE_TYPE || bundle.version !== BUNDLE_VERSION) {
+      return { valid: false, error: `Not a version ${BUNDLE_VERSION} ${BUNDLE_TYPE}` };
+    }
+    if (!document || !bundle.anchor?.inclusion || !bundle.institution) {
+      return { valid: false, error: 'Bundle is incomplete' };
+    }
+    if (document.credentialStatus?.credentialId && document.credentialStatus.credentialId !== bundle.credentialId) {
+      return { valid: false, error: 'Document is for another credential' };
+    }
+    return { valid: true };
+  });
+
+  if (!format.valid) {
+    const skipped = { valid: false, error: 'Bundle format is invalid' };
+    return {
+      verified: false,
+      credentialId: bundle?.credentialId,
+      issuer,
+      anchoredAt,
+      trustAnchor: null,
+      checks: {
+        format,
+        documentHash: skipped,
+        signature: skipped,
+        anchor: skipped,
+        recipient: skipped,
+        institution: skipped,
+        registries: skipped,
+        expiry: skipped,
+        trust: skipped
+      }
+    };
+  }
+
+  const registryAddress = bundle.anchor.registryAddress;
+  const institutionRegistryAddress = bundle.institution.registryAddress;
+
+  const documentHash = runCheck(() => {
+    const computed = computeCredentialHash(document, bundle.canonicalization);
+    return computed === bundle.credentialHash.replace(/^0x/, '')
+      ? { valid: true }
+      : { valid: false, error: 'Document does not hash to the anchored credential hash' };
+  });
+
+  // The anchoring event names the address that issued the credential
+  let recipientCommitment: string | undefined;
+  const anchor = runCheck(() => {
+    const { inclusion, batch } = bundle.anchor;
+
+    if (batch) {
+      const { event, header } = verifyEventInclusion(inclusion, registryAddress, 'BatchAnchored');
+      if (event.args.batchId !== batch.batchId || event.args.merkleRoot.toLowerCase() !== batch.merkleRoot.toLowerCase()) {
+        return { valid: false, error: 'BatchAnchored event does not match the bundle\'s batch' };
+      }
+      const leaf = getCredentialLeaf(bundle.credentialId, bundle.credentialHash);
+      if (!verifyMerkleProof(leaf, batch.merkleProof, batch.merkleRoot)) {
+        return { valid: false, error: 'Merkle proof does not lead to the batch root' };
+      }
+      issuer = ethers.utils.getAddress(event.args.issuer);
+      anchoredAt = new Date(header.timestamp * 1000);
+      return { valid: true, detail: `Anchored in batch ${batch.batchId} at block ${header.number}` };
+    }
+
+    const { event, header } = verifyEventInclusion(inclusion, registryAddress, 'CredentialIssued');
+    if (event.args.credentialId !== bundle.credentialId || event.args.credentialHash !== bundle.credentialHash) {
+      return { valid: false, error: 'CredentialIssued event does not match the credential' };
+    }
+    issuer = ethers.utils.getAddress(event.args.issuer);
+    anchoredAt = new Date(header.timestamp * 1000);
+    recipientCommitment = event.args.recipientId;
+    return { valid: true, detail: `Anchored at block ${header.number}` };
+  });
+
+  const signature = runCheck(() => {
+    const documentIssuer = getIssuerAddress(document);
+    if (issuer && !sameAddress(documentIssuer, issuer)) {
+      return { valid: false, error: 'Document issuer is not the address that anchored it' };
+    }
+    if (!document.proof) {
+      // Documents of wallet-signed credentials are authenticated by the issuer's own transaction
+      return { valid: true, detail: 'Document carries no proof; the issuer is authenticated by the anchoring transaction' };
+    }
+    const proof = verifyCredentialProof(document);
+    return proof.valid ? { valid: true, detail: `Signed by ${proof.signer}` } : { valid: false, error: proof.error };
+  });
+
+  const recipient = runCheck(() => {
+    const commitment = getRecipientCommitment(document);
+    if (!commitment || !recipientCommitment) {
+      return { valid: true, detail: 'No recipient commitment to check' };
+    }
+    return commitment === recipientCommitment
+      ? { valid: true }
+      : { valid: false, error: 'Recipient commitment does not match the anchored one' };
+  });
+
+  const institution = runCheck(() => {
+    const { registration, address } = bundle.institution;
+    if (!registration) {
+      return { valid: false, error: 'Bundle has no proof of the institution\'s registration' };
+    }
+    const { event, header } = verifyEventInclusion(registration, institutionRegistryAddress, 'InstitutionRegistered');
+    if (!sameAddress(event.args.institutionAddress, address) || (issuer && !sameAddress(address, issuer))) {
+      return { valid: false, error: 'Registration is for another address than the issuer' };
+    }
+    if (anchoredAt && header.timestamp * 1000 > anchoredAt.getTime()) {
+      return { valid: false, error: 'Institution was registered after the credential was anchored' };
+    }
+    return { valid: true, detail: `${event.args.name} (${event.args.institutionId}) registered at block ${header.number}` };
+  });
+
+  // A valid proof ties the document to its issuer, whatever the bundle says about the chain
+  const signedByTrustedIssuer = !!document.proof && signature.valid
+    && !!options.trustedIssuers?.some(trustedIssuer => sameAddress(trustedIssuer, issuer));
+
+  const registries = runCheck(() => {
+    const trusted = options.trustedRegistries;
+    if (!trusted?.credentialRegistry && !trusted?.institutionRegistry) {
+      return signedByTrustedIssuer
+        ? { valid: true, detail: 'No trusted registries given; the document is signed by a trusted issuer' }
+        : { valid: false, error: 'No trusted registries given; the bundle\'s own registry addresses cannot be relied on' };
+    }
+    if (trusted.credentialRegistry && !sameAddress(trusted.credentialRegistry, registryAddress)) {
+      return { valid: false, error: `Credential registry ${registryAddress} is not trusted` };
+    }
+    if (trusted.institutionRegistry && !sameAddress(trusted.institutionRegistry, institutionRegistryAddress)) {
+      return { valid: false, error: `Institution registry ${institutionRegistryAddress} is not trusted` };
+    }
+    return { valid: true };
+  });
+
+  const expiry = runCheck(() => {
+    if (document.validUntil && new Date(document.validUntil) < now) {
+      return { valid: false, error: `Credential expired on ${document.validUntil}` };
+    }
+    return { valid: true };
+  });
+
+  const checks: BundleVerificationResult['checks'] = {
+    format,
+    documentHash,
+    signature,
+    anchor,
+    recipient,
+    institution,
+    registries,
+    expiry,
+    trust: { valid: false }
+  };
+
+  let status: string | undefined;
+  const provider = options.provider || (options.rpcUrl ? new ethers.providers.StaticJsonRpcProvider(options.rpcUrl) : null);
+  if (provider) {
+    try {
+      const chain = await checkChain(bundle, provider, registryAddress);
+      status = chain.status;
+      checks.chain = { valid: chain.valid, error: chain.error };
+    } catch (error) {
+      checks.chain = { valid: false, error: error.message };
+    }
+  }
+
+  // Blocks only vouch for a bundle's events once the registry that emitted them is trusted
+  let trustAnchor: BundleTrustAnchor | null = null;
+  if (signedByTrustedIssuer) {
+    trustAnchor = 'issuer';
+  } else if (registries.valid && options.trustedRegistries?.credentialRegistry) {
+    if (checks.chain) {
+      trustAnchor = 'chain';
+    } else if (options.trustedBlockHashes?.some(hash => hash.toLowerCase() === bundle.anchor.inclusion.blockHash.toLowerCase())) {
+      trustAnchor = 'blocks';
+    }
+  }
+
+  checks.trust = runCheck(() => {
+    if (options.trustedIssuers && !options.trustedIssuers.some(trustedIssuer => sameAddress(trustedIssuer, issuer))) {
+      return { valid: false, error: `Issuer ${issuer} is not trusted` };
+    }
+    if (!trustAnchor) {
+      return {
+        valid: false,
+        error: 'Bundle is unanchored: give trusted issuers, or trusted registries with trusted block hashes or a chain RPC'
+      };
+    }
+    return { valid: true, detail: TRUST_ANCHOR_DETAILS[trustAnchor] };
+  });
+
+  return {
+    verified: Object.values(checks).every(check => check.valid),
+    credentialId: bundle.credentialId,
+    issuer,
+    anchoredAt,
+    status,
+    trustAnchor,
+    checks
+  };
+};
@@ -0,0 +1,257 @@
+// src/verification/integrityService.ts
+import { ICredential } from '../models/Credential';
+import { verifyCredential as verifyOnBlockchain, getCredentialHash } from '../blockchain/contractService';
+import { getFromIPFS } from '../ipfs/ipfsService';
+import { computeCredentialHash, computeRecipientCommitment, verifyCredentialProof } from '../vc/vcService';
+import { canonicalize } from '../utils/canonicalize';
+
+export interface FieldDifference {
+  field: string;
+  database: any;
+  document: any;
+}
+
+// Fields of the stored document that must agree with the database record
+const extractDocumentFields = (document: any) => {
+  // W3C Verifiable Credential layout
+  if (document.credentialSubject) {
+    const subject = document.credentialSubject;
+    const achievement = subject.achievement || {};
+    return {
+      credentialType: achievement.credentialType,
+      credentialName: achievement.credentialName,
+      description: achievement.description,
+      category: achievement.category,
+      issuerId: document.issuer?.userId,
+      recipientId: subject.userId,
+      recipientDid: subject.id,
+      recipientCommitment: subject.recipientSalt
+        ? computeRecipientCommitment(subject.id || subject.userId, subject.recipientSalt)
+        : undefined,
+      recipientName: subject.name,
+      recipientStudentId: subject.studentId,
+      issueDate: document.validFrom,
+      expiryDate: document.validUntil,
+      metadata: achievement.metadata
+    };
+  }
+
+  // Legacy layout written before credentials were issued as VCs
+  return {
+    credentialType: document.credentialType,
+    credentialName: document.credentialName,
+    description: document.description,
+    category: document.category,
+    issuerId: document.issuer?.userId,
+    recipientId: document.recipient?.userId,
+    recipientName: document.recipient?.name,
+    recipientStudentId: document.recipient?.studentId,
+    issueDate: document.issueDate,
+    expiryDate: document.expiryDate,
+    metadata: document.metadata
+  };
+};
+
+// Normalize empty values and dates so both sides compare by content
+const normalizeValue = (value: any) => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return canonicalize(value);
+  }
+  return value;
+};
+
+// List the fields where the database record and the IPFS document disagree
+export const diffCredentialFields = (credential: ICredential, document: any): FieldDifference[] => {
+  const documentFields = extractDocumentFields(document);
+  const differences: FieldDifference[] = [];
+
+  Object.keys(documentFields).forEach(field => {
+    const databaseValue = field === 'metadata'
+      ? credential.metadata || {}
+      : credential[field];
+    const documentValue = field === 'metadata'
+      ? documentFields.metadata || {}
+      : documentFields[field];
+
+    if (normalizeValue(databaseValue) !== normalizeValue(documentValue)) {
+      differences.push({ field, database: databaseValue, document: documentValue });
+    }
+  });
+
+  return differences;
+};
+
+// Compare the hash of the IPFS document with the hash anchored on-chain
+export const checkDocumentHash = async (credential: ICredential, ipfsData: any) => {
+  const algorithm = credential.canonicalization;
+
+  if (!ipfsData || typeof ipfsData !== 'object') {
+    return { status: 'unavailable', algorithm, error: 'Credential document could not be retrieved from IPFS' };
+  }
+
+  // Batch credentials: the chain layer proves this hash is a leaf under the anchored root
+  if (credential.batchId) {
+    const recomputedBatchHash = computeCredentialHash(ipfsData, algorithm);
+    return {
+      status: recomputedBatchHash === credential.credentialHash ? 'match' : 'mismatch',
+      algorithm,
+      anchoredHash: credential.credentialHash,
+      merkleRoot: credential.merkleRoot,
+      recomputedHash: recomputedBatchHash
+    };
+  }
+
+  const onChain = await getCredentialHash(credential.credentialId, credential);
+  if (!onChain.success) {
+    return { status: 'unavailable', algorithm, error: onChain.error };
+  }
+
+  const recomputedHash = computeCredentialHash(ipfsData, algorithm);
+
+  return {
+    status: recomputedHash === onChain.credentialHash ? 'match' : 'mismatch',
+    algorithm,
+    onChainHash: onChain.credentialHash,
+    recomputedHash
+  };
+};
+
+// Check the document's embedded proof was signed by the issuer the credential is recorded under
+export const checkDocumentSignature = (credential: ICredential, document: any) => {
+  if (!document || typeof document !== 'object') {
+    return { passed: false, error: 'No IPFS document to check the signature of' };
+  }
+
+  // Legacy documents written before credentials were issued as VCs carry no proof
+  if (!document.credentialSubject) {
+    return { passed: true, signed: false };
+  }
+
+  // Wallet-signed documents are authenticated by the issuer's own anchoring transaction instead
+  if (credential.signingMode === 'wallet' && !document.proof) {
+    return { passed: true, signed: false };
+  }
+
+  const proof = verifyCredentialProof(document);
+  if (!proof.valid) {
+    return { passed: false, signed: Boolean(document.proof), error: proof.error };
+  }
+
+  const issuerMatches = !credential.issuerAddress ||
+    proof.signer.toLowerCase() === credential.issuerAddress.toLowerCase();
+
+  return {
+    passed: issuerMatches,
+    signed: true,
+    signer: proof.signer,
+    proofType: document.proof.type,
+    issuerMatches,
+    error: issuerMatches ? undefined : 'Proof was not signed by the credential issuer'
+  };
+};
+
+/**
+ * Check that the chain, IPFS and MongoDB layers agree for a credential and
+ * that its document is signed by its issuer.
+ * The credential only counts as verified when every layer passes.
+ */
+export const checkCredentialIntegrity = async (credential: ICredential) => {
+  // Layer 1: on-chain status and pointers (Merkle membership for batch credentials)
+  const blockchainResult = await verifyOnBlockchain(
+    credential.credentialId,
+    credential.batchId
+      ? {
+          batchId: credential.batchId,
+          credentialHash: credential.credentialHash,
+          merkleProof: credential.merkleProof || []
+        }
+      : undefined,
+    credential
+  );
+  const chainData = blockchainResult.success ? blockchainResult.data : null;
+
+  // Batch credentials have no on-chain expiry; apply the one from the record
+  let status = chainData ? chainData.status : null;
+  let statusDate = chainData ? chainData.statusDate : null;
+  if (status === 'active' && credential.batchId && credential.expiryDate && credential.expiryDate < new Date()) {
+    status = 'expired';
+    statusDate = credential.expiryDate;
+  }
+
+  // Ties the anchored entry, and with it wallet-signed documents, to the recorded issuer
+  const issuerMatches = !chainData || !credential.issuerAddress ||
+    (!!chainData.issuer && chainData.issuer.toLowerCase() === credential.issuerAddress.toLowerCase());
+
+  let chain;
+  if (!chainData) {
+    chain = { passed: false, error: blockchainResult.error };
+  } else if (credential.batchId) {
+    chain = {
+      passed: chainData.isValid && status === 'active' && issuerMatches,
+      isValid: chainData.isValid,
+      isRevoked: chainData.isRevoked,
+      status,
+      reason: chainData.reason,
+      statusDate,
+      issuer: chainData.issuer,
+      issuerMatches,
+      batchId: credential.batchId,
+      merkleRootMatches: chainData.merkleRoot === credential.merkleRoot
+    };
+  } else {
+    // Salted commitment to the recipient; older credentials carry the DID or user ID itself
+    const onChainRecipient = credential.recipientCommitment || credential.recipientDid || credential.recipientId;
+    chain = {
+      passed: chainData.isValid &&
+        chainData.ipfsHash === credential.ipfsHash &&
+        chainData.recipientId === onChainRecipient &&
+        issuerMatches,
+      isValid: chainData.isValid,
+      isRevoked: chainData.isRevoked,
+      status,
+      reason: chainData.reason,
+      statusDate,
+      issuer: chainData.issuer,
+      issuerMatches,
+      ipfsHashMatches: chainData.ipfsHash === credential.ipfsHash,
+      recipientMatches: chainData.recipientId === onChainRecipient
+    };
+  }
+
+  // Layer 2: on-chain hash vs. recomputed IPFS document hash
+  let ipfsData = null;
+  try {
+    if (credential.ipfsHash) {
+      ipfsData = await getFromIPFS(credential.ipfsHash, { verification: true });
+    }
+  } catch (error) {
+    console.error('IPFS retrieval error:', error);
+  }
+
+  const hashCheck = await checkDocumentHash(credential, ipfsData);
+  const hash = { passed: hashCheck.status === 'match', ...hashCheck };
+
+  // Layer 3: database record vs. IPFS document
+  const hasDocument = ipfsData && typeof ipfsData === 'object';
+  const differences = hasDocument ? diffCredentialFields(credential, ipfsData) : [];
+  const database = hasDocument
+    ? { passed: differences.length === 0, differences }
+    : { passed: false, differences, error: 'No IPFS document to compare against' };
+
+  // Layer 4: issuer signature embedded in the IPFS document
+  const signature = checkDocumentSignature(credential, ipfsData);
+
+  return {
+    verified: chain.passed && hash.passed && database.passed && signature.passed,
+    status,
+    blockchainAvailable: blockchainResult.success,
+    blockchainError: blockchainResult.error,
+    layers: { chain, hash, database, signature }
+  };
+};
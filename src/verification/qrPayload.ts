@@ -0,0 +1,145 @@
+// src/verification/qrPayload.ts
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+
+/**
+ * Compact signed payloads carried by credential QR codes.
+ *
+ * The payload is binary so it fits a QR code comfortably:
+ *
+ *   version (1) | flags (1) | chainId (4) | issuedAt seconds (4)
+ *   | credentialId (length-prefixed) | credential hash (32, if flagged)
+ *   | shareId (length-prefixed, if flagged) | signature (65)
+ *
+ * The signature is a recoverable secp256k1 signature by the issuing
+ * institution's key over the sha256 of everything before it, so the signer
+ * can be compared against the issuer's address without fetching a public key.
+ * Payloads are base64url encoded; QR codes carry them in a frontend URL.
+ */
+export const QR_PAYLOAD_VERSION = 1;
+export const QR_PAYLOAD_PARAM = 'p';
+
+const FLAG_CREDENTIAL_HASH = 0x01;
+const FLAG_SHARE_ID = 0x02;
+const SIGNATURE_LENGTH = 65;
+
+export interface QrPayloadFields {
+  credentialId: string;
+  chainId: number;
+  // Hex hash of the credential document anchored on-chain
+  credentialHash?: string;
+  shareId?: string;
+  issuedAt: Date;
+}
+
+export interface DecodedQrPayload extends QrPayloadFields {
+  signer: string;
+}
+
+export class QrPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QrPayloadError';
+  }
+}
+
+const encodeString = (value: string) => {
+  const bytes = Buffer.from(value, 'utf8');
+  if (bytes.length > 255) {
+    throw new QrPayloadError(`Value too long for a QR payload: ${value}`);
+  }
+  return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+};
+
+const digestOf = (body: Buffer) => crypto.createHash('sha256').update(body).digest();
+
+// Serialize and sign the fields with the issuer's private key
+export const encodeQrPayload = (fields: QrPayloadFields, privateKey: string) => {
+  const header = Buffer.alloc(10);
+  header.writeUInt8(QR_PAYLOAD_VERSION, 0);
+  header.writeUInt8((fields.credentialHash ? FLAG_CREDENTIAL_HASH : 0) | (fields.shareId ? FLAG_SHARE_ID : 0), 1);
+  header.writeUInt32BE(fields.chainId, 2);
+  header.writeUInt32BE(Math.floor(fields.issuedAt.getTime() / 1000), 6);
+
+  const parts = [header, encodeString(fields.credentialId)];
+  if (fields.credentialHash) {
+    const hash = Buffer.from(fields.credentialHash.replace(/^0x/, ''), 'hex');
+    if (hash.length !== 32) {
+      throw new QrPayloadError('Credential hash must be 32 bytes');
+    }
+    parts.push(hash);
+  }
+  if (fields.shareId) {
+    parts.push(encodeString(fields.shareId));
+  }
+
+  const body = Buffer.concat(parts);
+  const signature = new ethers.utils.SigningKey(privateKey).signDigest(digestOf(body));
+
+  return Buffer.concat([body, Buffer.from(ethers.utils.arrayify(ethers.utils.joinSignature(signature)))]).toString('base64url');
+};
+
+// Parse a payload, or a URL carrying one, and recover the address that signed it
+export const decodeQrPayload = (text: string): DecodedQrPayload => {
+  let encoded = text.trim();
+  if (/^https?:\/\//i.test(encoded)) {
+    encoded = new URL(encoded).searchParams.get(QR_PAYLOAD_PARAM) || '';
+  }
+
+  if (!/^[A-Za-z0-9_-]+$/.test(encoded)) {
+    throw new QrPayloadError('QR payload is not base64url');
+  }
+
+  const bytes = Buffer.from(encoded, 'base64url');
+  if (bytes.length < 11 + SIGNATURE_LENGTH) {
+    throw new QrPayloadError('QR payload is truncated');
+  }
+  if (bytes[0] !== QR_PAYLOAD_VERSION) {
+    throw new QrPayloadError(`Unsupported QR payload version ${bytes[0]}`);
+  }
+
+  const body = bytes.subarray(0, bytes.length - SIGNATURE_LENGTH);
+  const signature = bytes.subarray(bytes.length - SIGNATURE_LENGTH);
+  const flags = body[1];
+  let offset = 10;
+
+  const readString = () => {
+    const length = body[offset];
+    const end = offset + 1 + length;
+    if (length === undefined || end > body.length) {
+      throw new QrPayloadError('QR payload is truncated');
+    }
+    const value = body.subarray(offset + 1, end).toString('utf8');
+    offset = end;
+    return value;
+  };
+
+  const fields: QrPayloadFields = {
+    chainId: body.readUInt32BE(2),
+    issuedAt: new Date(body.readUInt32BE(6) * 1000),
+    credentialId: readString()
+  };
+
+  if (flags & FLAG_CREDENTIAL_HASH) {
+    if (offset + 32 > body.length) {
+      throw new QrPayloadError('QR payload is truncated');
+    }
+    fields.credentialHash = body.subarray(offset, offset + 32).toString('hex');
+    offset += 32;
+  }
+  if (flags & FLAG_SHARE_ID) {
+    fields.shareId = readString();
+  }
+  if (offset !== body.length) {
+    throw new QrPayloadError('QR payload has trailing bytes');
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.utils.recoverAddress(digestOf(body), signature);
+  } catch (error) {
+    throw new QrPayloadError('QR payload signature is malformed');
+  }
+
+  return { ...fields, signer };
+};